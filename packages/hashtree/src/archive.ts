@@ -0,0 +1,208 @@
+/**
+ * Portable archive format for hashtree DAGs (CAR-style)
+ *
+ * Layout:
+ *   "HTAR" magic (4 bytes)
+ *   varint(header length) + msgpack header { v: 1, r: [{ h: hash, k?: key }] }
+ *   repeated: varint(32 + block length) + hash (32 bytes) + block
+ *
+ * Blocks are written as stored (encrypted trees stay encrypted). The header
+ * lists the root CIDs, including CHK keys unless exported without them.
+ * Every block is hash-verified on import.
+ */
+
+import { encode, decode } from '@msgpack/msgpack';
+import { Store, Hash, CID, cid, toHex, hashEquals } from './types.js';
+import { sha256 } from './hash.js';
+
+export const ARCHIVE_MAGIC = new Uint8Array([0x48, 0x54, 0x41, 0x52]); // "HTAR"
+export const ARCHIVE_VERSION = 1;
+
+const HASH_SIZE = 32;
+
+export interface ArchiveImportResult {
+  /** Root CIDs from the archive header */
+  roots: CID[];
+  /** Number of blocks imported */
+  blocks: number;
+  /** Total block bytes imported */
+  bytes: number;
+}
+
+export type ArchiveSource = Uint8Array | AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>;
+
+interface ArchiveHeader {
+  v: number;
+  r: Array<{ h: Uint8Array; k?: Uint8Array }>;
+}
+
+function encodeVarint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  do {
+    let byte = value % 128;
+    value = Math.floor(value / 128);
+    if (value > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (value > 0);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encode an archive from roots and their blocks
+ * Duplicate blocks are written once.
+ * @param roots - Root CIDs to list in the header
+ * @param blocks - Blocks to include (e.g. from HashTree.walkBlocks)
+ */
+export async function* encodeArchive(
+  roots: CID[],
+  blocks: AsyncIterable<{ hash: Hash; data: Uint8Array }>
+): AsyncGenerator<Uint8Array> {
+  const header: ArchiveHeader = {
+    v: ARCHIVE_VERSION,
+    r: roots.map(root => (root.key ? { h: root.hash, k: root.key } : { h: root.hash })),
+  };
+  const headerBytes = encode(header);
+
+  yield ARCHIVE_MAGIC;
+  yield encodeVarint(headerBytes.length);
+  yield headerBytes;
+
+  const written = new Set<string>();
+  for await (const { hash, data } of blocks) {
+    const hex = toHex(hash);
+    if (written.has(hex)) continue;
+    written.add(hex);
+
+    yield encodeVarint(HASH_SIZE + data.length);
+    yield hash;
+    yield data;
+  }
+}
+
+async function* chunksOf(source: ArchiveSource): AsyncGenerator<Uint8Array> {
+  if (source instanceof Uint8Array) {
+    yield source;
+    return;
+  }
+  if ('getReader' in source) {
+    const reader = source.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  yield* source as AsyncIterable<Uint8Array>;
+}
+
+/**
+ * Buffered reader over a chunk stream
+ */
+class ArchiveReader {
+  private buffer = new Uint8Array(0);
+  private offset = 0;
+  private done = false;
+
+  constructor(private chunks: AsyncIterator<Uint8Array>) {}
+
+  /** Make at least n bytes available; false if the stream ended first */
+  private async fill(n: number): Promise<boolean> {
+    while (this.buffer.length - this.offset < n) {
+      if (this.done) return false;
+      const { done, value } = await this.chunks.next();
+      if (done) {
+        this.done = true;
+        continue;
+      }
+      const rest = this.buffer.length - this.offset;
+      const next = new Uint8Array(rest + value.length);
+      next.set(this.buffer.subarray(this.offset));
+      next.set(value, rest);
+      this.buffer = next;
+      this.offset = 0;
+    }
+    return true;
+  }
+
+  async read(n: number): Promise<Uint8Array> {
+    if (!(await this.fill(n))) {
+      throw new Error('Unexpected end of archive');
+    }
+    const bytes = this.buffer.slice(this.offset, this.offset + n);
+    this.offset += n;
+    return bytes;
+  }
+
+  /** Read a varint, or null at a clean end of stream */
+  async readVarint(): Promise<number | null> {
+    let value = 0;
+    let scale = 1;
+    for (let i = 0; ; i++) {
+      if (!(await this.fill(1))) {
+        if (i === 0) return null;
+        throw new Error('Unexpected end of archive');
+      }
+      if (i >= 8) {
+        throw new Error('Invalid archive: varint too long');
+      }
+      const byte = this.buffer[this.offset++];
+      value += (byte & 0x7f) * scale;
+      scale *= 128;
+      if ((byte & 0x80) === 0) return value;
+    }
+  }
+}
+
+/**
+ * Import an archive into a store, verifying every block hash
+ * @param source - Archive bytes, async iterable of chunks, or ReadableStream
+ * @param store - Store to import blocks into
+ * @returns Root CIDs from the header and import totals
+ */
+export async function importArchive(
+  source: ArchiveSource,
+  store: Store
+): Promise<ArchiveImportResult> {
+  const reader = new ArchiveReader(chunksOf(source)[Symbol.asyncIterator]());
+
+  const magic = await reader.read(ARCHIVE_MAGIC.length);
+  if (!hashEquals(magic, ARCHIVE_MAGIC)) {
+    throw new Error('Invalid archive: bad magic');
+  }
+
+  const headerLength = await reader.readVarint();
+  if (headerLength === null) {
+    throw new Error('Unexpected end of archive');
+  }
+  const header = decode(await reader.read(headerLength)) as ArchiveHeader;
+  if (header.v !== ARCHIVE_VERSION) {
+    throw new Error(`Unsupported archive version: ${header.v}`);
+  }
+  const roots = header.r.map(r => cid(r.h, r.k));
+
+  let blocks = 0;
+  let bytes = 0;
+  for (;;) {
+    const length = await reader.readVarint();
+    if (length === null) break;
+    if (length < HASH_SIZE) {
+      throw new Error(`Invalid archive: record length ${length}`);
+    }
+
+    const hash = await reader.read(HASH_SIZE);
+    const data = await reader.read(length - HASH_SIZE);
+    if (!hashEquals(await sha256(data), hash)) {
+      throw new Error(`Archive block hash mismatch: ${toHex(hash)}`);
+    }
+
+    await store.put(hash, data);
+    blocks++;
+    bytes += data.length;
+  }
+
+  return { roots, blocks, bytes };
+}
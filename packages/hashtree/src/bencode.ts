@@ -0,0 +1,198 @@
+/**
+ * Bencoding (BitTorrent serialization format)
+ *
+ * Byte strings decode to Uint8Array; dictionary keys decode to strings.
+ * Dictionaries are encoded with keys sorted by their raw bytes.
+ *
+ * @see https://www.bittorrent.org/beps/bep_0003.html#bencoding
+ */
+
+export type BencodeValue =
+  | number
+  | string
+  | Uint8Array
+  | BencodeValue[]
+  | { [key: string]: BencodeValue | undefined }
+  | BencodeMap;
+
+/** Dictionary with binary keys (e.g. a torrent's piece layers, keyed by pieces root) */
+export type BencodeMap = Map<Uint8Array, BencodeValue>;
+
+export interface BdecodeOptions {
+  /** Decode dictionaries as BencodeMap with raw byte keys (default: false) */
+  binaryKeys?: boolean;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const CHAR_I = 0x69; // 'i'
+const CHAR_L = 0x6c; // 'l'
+const CHAR_D = 0x64; // 'd'
+const CHAR_E = 0x65; // 'e'
+const CHAR_COLON = 0x3a; // ':'
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Encode a value
+ * Undefined dictionary values are skipped.
+ */
+export function bencode(value: BencodeValue): Uint8Array {
+  const parts: Uint8Array[] = [];
+  encodeValue(value, parts);
+
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function encodeBytes(bytes: Uint8Array, parts: Uint8Array[]): void {
+  parts.push(encoder.encode(`${bytes.length}:`), bytes);
+}
+
+function encodeValue(value: BencodeValue, parts: Uint8Array[]): void {
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) {
+      throw new Error(`Bencode only supports integers: ${value}`);
+    }
+    parts.push(encoder.encode(`i${value}e`));
+  } else if (typeof value === 'string') {
+    encodeBytes(encoder.encode(value), parts);
+  } else if (value instanceof Uint8Array) {
+    encodeBytes(value, parts);
+  } else if (Array.isArray(value)) {
+    parts.push(new Uint8Array([CHAR_L]));
+    for (const item of value) encodeValue(item, parts);
+    parts.push(new Uint8Array([CHAR_E]));
+  } else {
+    const entries = (value instanceof Map
+      ? [...value.entries()]
+      : Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [encoder.encode(k), v] as const)
+    ).sort((a, b) => compareBytes(a[0], b[0]));
+    parts.push(new Uint8Array([CHAR_D]));
+    for (const [key, item] of entries) {
+      encodeBytes(key, parts);
+      encodeValue(item!, parts);
+    }
+    parts.push(new Uint8Array([CHAR_E]));
+  }
+}
+
+/**
+ * Decode a value
+ * @throws if the data is malformed or has trailing bytes
+ */
+export function bdecode(data: Uint8Array, options: BdecodeOptions = {}): BencodeValue {
+  const reader = new BencodeReader(data, options.binaryKeys ?? false);
+  const value = reader.read();
+  if (reader.pos !== data.length) {
+    throw new Error('Invalid bencode: trailing data');
+  }
+  return value;
+}
+
+/**
+ * Decode a value and return the raw bytes of the given top-level dictionary keys
+ * (e.g. 'info', whose exact bytes define a torrent's infohash)
+ */
+export function bdecodeDict(
+  data: Uint8Array,
+  rawKeys: string[]
+): { value: BencodeValue; raw: Record<string, Uint8Array> } {
+  const reader = new BencodeReader(data, false);
+  const raw: Record<string, Uint8Array> = {};
+  const value = reader.read(rawKeys.length > 0 ? { keys: new Set(rawKeys), raw } : undefined);
+  if (reader.pos !== data.length) {
+    throw new Error('Invalid bencode: trailing data');
+  }
+  return { value, raw };
+}
+
+class BencodeReader {
+  pos = 0;
+
+  constructor(private data: Uint8Array, private binaryKeys: boolean) {}
+
+  private byte(): number {
+    if (this.pos >= this.data.length) {
+      throw new Error('Invalid bencode: unexpected end of data');
+    }
+    return this.data[this.pos];
+  }
+
+  /** Read digits up to a terminator byte and return them as a number */
+  private readNumber(terminator: number): number {
+    const start = this.pos;
+    while (this.byte() !== terminator) this.pos++;
+    const text = decoder.decode(this.data.subarray(start, this.pos));
+    this.pos++;
+    if (!/^(0|-?[1-9][0-9]*)$/.test(text)) {
+      throw new Error(`Invalid bencode: bad number "${text}"`);
+    }
+    return Number(text);
+  }
+
+  private readBytes(): Uint8Array {
+    const length = this.readNumber(CHAR_COLON);
+    if (length < 0 || this.pos + length > this.data.length) {
+      throw new Error('Invalid bencode: unexpected end of data');
+    }
+    const bytes = this.data.slice(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  read(capture?: { keys: Set<string>; raw: Record<string, Uint8Array> }): BencodeValue {
+    const type = this.byte();
+    if (type === CHAR_I) {
+      this.pos++;
+      return this.readNumber(CHAR_E);
+    }
+    if (type === CHAR_L) {
+      this.pos++;
+      const list: BencodeValue[] = [];
+      while (this.byte() !== CHAR_E) list.push(this.read());
+      this.pos++;
+      return list;
+    }
+    if (type === CHAR_D && this.binaryKeys) {
+      this.pos++;
+      const map: BencodeMap = new Map();
+      while (this.byte() !== CHAR_E) {
+        const key = this.readBytes();
+        map.set(key, this.read());
+      }
+      this.pos++;
+      return map;
+    }
+    if (type === CHAR_D) {
+      this.pos++;
+      // No prototype, so keys like "__proto__" are plain entries
+      const dict: { [key: string]: BencodeValue | undefined } = Object.create(null);
+      while (this.byte() !== CHAR_E) {
+        const key = decoder.decode(this.readBytes());
+        const start = this.pos;
+        dict[key] = this.read();
+        if (capture?.keys.has(key)) {
+          capture.raw[key] = this.data.slice(start, this.pos);
+        }
+      }
+      this.pos++;
+      return dict;
+    }
+    return this.readBytes();
+  }
+}
@@ -16,11 +16,70 @@ import { encodeAndHash } from './codec.js';
 export const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024;
 
 /**
- * Chunker function: returns chunk size for a given chunk index
+ * Chunker: decides where chunks end
+ *
+ * Either an index chunker (chunk size by position, e.g. fixedChunker/videoChunker)
+ * or a content-defined chunker that looks at the data (e.g. fastCdcChunker).
+ */
+export type Chunker = IndexChunker | ContentChunker;
+
+/**
+ * Index chunker: returns chunk size for a given chunk index
  * @param index - 0-based chunk index
  * @returns chunk size in bytes
  */
-export type Chunker = (index: number) => number;
+export type IndexChunker = (index: number) => number;
+
+/**
+ * Content-defined chunker: finds chunk boundaries in the data itself,
+ * so an insertion only changes the chunks around it.
+ */
+export interface ContentChunker {
+  /** Largest chunk size - builders buffer this many bytes before cutting */
+  maxSize: number;
+  /**
+   * Find the end of the next chunk
+   * @param data - Bytes from the start of the chunk: maxSize bytes,
+   *   or fewer at the end of the input
+   * @returns Chunk length (1..data.length)
+   */
+  cut(data: Uint8Array): number;
+}
+
+/**
+ * Number of bytes to buffer before cutting chunk `index`
+ */
+export function chunkLimit(chunker: Chunker, index: number): number {
+  return typeof chunker === 'function' ? chunker(index) : chunker.maxSize;
+}
+
+/**
+ * Length of chunk `index`, given the buffered bytes from its start
+ * (up to chunkLimit bytes, fewer at the end of the input)
+ */
+export function chunkLength(chunker: Chunker, index: number, data: Uint8Array): number {
+  if (typeof chunker === 'function') {
+    return Math.min(chunker(index), data.length);
+  }
+  return chunker.cut(data);
+}
+
+/**
+ * Split data into chunks
+ * @returns [start, end) byte ranges of each chunk
+ */
+export function chunkRanges(data: Uint8Array, chunker: Chunker): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const index = ranges.length;
+    const window = data.subarray(offset, Math.min(offset + chunkLimit(chunker, index), data.length));
+    const end = offset + chunkLength(chunker, index, window);
+    ranges.push([offset, end]);
+    offset = end;
+  }
+  return ranges;
+}
 
 /**
  * Create a fixed-size chunker
@@ -94,28 +153,17 @@ export class TreeBuilder {
    */
   async putFile(data: Uint8Array): Promise<{ hash: Hash; size: number }> {
     const size = data.length;
-    const firstChunkSize = this.chunker(0);
+    const ranges = chunkRanges(data, this.chunker);
 
     // Small file - store as single blob
-    if (data.length <= firstChunkSize) {
+    if (ranges.length <= 1) {
       const hash = await this.putBlob(data);
       return { hash, size };
     }
 
     // Split into chunks using chunker
-    const chunkList: Uint8Array[] = [];
-    const chunkSizes: number[] = [];
-    let offset = 0;
-    let chunkIndex = 0;
-
-    while (offset < data.length) {
-      const chunkSize = this.chunker(chunkIndex);
-      const end = Math.min(offset + chunkSize, data.length);
-      chunkList.push(data.slice(offset, end));
-      chunkSizes.push(end - offset);
-      offset = end;
-      chunkIndex++;
-    }
+    const chunkList = ranges.map(([start, end]) => data.slice(start, end));
+    const chunkSizes = ranges.map(([start, end]) => end - start);
 
     // Hash and store chunks (parallel or sequential)
     let chunkHashes: Hash[];
@@ -186,7 +234,7 @@ export class TreeBuilder {
     const { data, hash } = await encodeAndHash(node);
 
     // Small directory - store directly
-    if (data.length <= this.chunker(0)) {
+    if (data.length <= chunkLimit(this.chunker, 0)) {
       await this.store.put(hash, data);
       return hash;
     }
@@ -234,12 +282,12 @@ export class StreamBuilder {
     this.store = config.store;
     this.chunker = config.chunker ?? fixedChunker(config.chunkSize ?? DEFAULT_CHUNK_SIZE);
     // Initialize buffer with first chunk size
-    this.buffer = new Uint8Array(this.chunker(0));
+    this.buffer = new Uint8Array(chunkLimit(this.chunker, 0));
   }
 
   /** Get current target chunk size */
   private currentChunkSize(): number {
-    return this.chunker(this.chunks.length);
+    return chunkLimit(this.chunker, this.chunks.length);
   }
 
   /**
@@ -277,17 +325,23 @@ export class StreamBuilder {
   }
 
   /**
-   * Flush current buffer as a chunk
+   * Flush the next chunk from the buffer
+   * Content-defined chunkers may cut before the end of the buffer;
+   * the remaining bytes start the next chunk.
    */
   private async flushChunk(): Promise<void> {
     if (this.bufferOffset === 0) return;
 
-    const chunk = this.buffer.slice(0, this.bufferOffset);
+    const buffered = this.buffer.subarray(0, this.bufferOffset);
+    const length = chunkLength(this.chunker, this.chunks.length, buffered);
+    const chunk = this.buffer.slice(0, length);
+    this.buffer.copyWithin(0, length, this.bufferOffset);
+    this.bufferOffset -= length;
+
     const hash = await sha256(chunk);
     await this.store.put(hash, new Uint8Array(chunk));
 
     this.chunks.push({ hash, size: chunk.length, type: LinkType.Blob });
-    this.bufferOffset = 0;
   }
 
   /**
@@ -316,7 +370,9 @@ export class StreamBuilder {
    */
   async finalize(): Promise<{ hash: Hash; size: number }> {
     // Flush remaining buffer
-    await this.flushChunk();
+    while (this.bufferOffset > 0) {
+      await this.flushChunk();
+    }
 
     if (this.chunks.length === 0) {
       // Empty stream - return hash of empty data
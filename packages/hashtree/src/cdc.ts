@@ -0,0 +1,97 @@
+/**
+ * FastCDC content-defined chunking
+ *
+ * Chunk boundaries are placed where a rolling gear hash of the data matches
+ * a mask, so they move with the content: inserting bytes in the middle of a
+ * file only changes the chunks around the edit, and all other chunks keep
+ * their hashes (deduplicated between file versions).
+ *
+ * Uses normalized chunking: a stricter mask before avgSize and a looser one
+ * after it, which keeps chunk sizes close to the average.
+ *
+ * @see https://www.usenix.org/conference/atc16/technical-sessions/presentation/xia
+ */
+
+import type { ContentChunker } from './builder.js';
+
+export interface FastCdcConfig {
+  /** Minimum chunk size in bytes (default: 256KB) */
+  minSize?: number;
+  /** Target average chunk size in bytes, rounded to a power of two (default: 1MB) */
+  avgSize?: number;
+  /** Maximum chunk size in bytes (default: 2MB) */
+  maxSize?: number;
+}
+
+export const CDC_MIN_SIZE = 256 * 1024;
+export const CDC_AVG_SIZE = 1024 * 1024;
+export const CDC_MAX_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Gear table: 256 pseudo-random 32-bit values
+ * Generated with mulberry32(seed = 0) so chunk boundaries are stable across
+ * versions and implementations.
+ */
+const GEAR = (() => {
+  const table = new Uint32Array(256);
+  let state = 0;
+  for (let i = 0; i < 256; i++) {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    table[i] = (t ^ (t >>> 14)) >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Mask with the top `bits` bits set
+ * The gear hash shifts left, so the high bits depend on the most bytes.
+ */
+function topBitsMask(bits: number): number {
+  return bits <= 0 ? 0 : (0xffffffff << (32 - Math.min(bits, 32))) >>> 0;
+}
+
+/**
+ * Create a FastCDC content-defined chunker
+ *
+ * Usable anywhere a Chunker is accepted: HashTreeConfig.chunker,
+ * createStream({ chunker }), TreeBuilder and StreamBuilder.
+ */
+export function fastCdcChunker(config: FastCdcConfig = {}): ContentChunker {
+  const minSize = config.minSize ?? CDC_MIN_SIZE;
+  const avgSize = config.avgSize ?? CDC_AVG_SIZE;
+  const maxSize = config.maxSize ?? CDC_MAX_SIZE;
+
+  if (minSize <= 0 || minSize > avgSize || avgSize > maxSize) {
+    throw new Error(`Invalid FastCDC sizes: min=${minSize}, avg=${avgSize}, max=${maxSize}`);
+  }
+
+  const bits = Math.round(Math.log2(avgSize));
+  const maskS = topBitsMask(bits + 1);
+  const maskL = topBitsMask(bits - 1);
+
+  return {
+    maxSize,
+    cut(data: Uint8Array): number {
+      const length = Math.min(data.length, maxSize);
+      if (length <= minSize) return length;
+
+      const normal = Math.min(avgSize, length);
+      let fp = 0;
+      let i = minSize;
+
+      for (; i < normal; i++) {
+        fp = ((fp << 1) + GEAR[data[i]]) >>> 0;
+        if ((fp & maskS) === 0) return i + 1;
+      }
+      for (; i < length; i++) {
+        fp = ((fp << 1) + GEAR[data[i]]) >>> 0;
+        if ((fp & maskL) === 0) return i + 1;
+      }
+
+      return length;
+    },
+  };
+}
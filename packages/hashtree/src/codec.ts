@@ -83,6 +83,9 @@ export function encodeTreeNode(node: TreeNode): Uint8Array {
   return encode(msgpack);
 }
 
+/** MessagePack prefix of an encoded TreeNode: fixmap(2), "l" */
+export const TREE_NODE_PREFIX = [0x82, 0xa1, 0x6c];
+
 /**
  * Try to decode MessagePack data as a tree node
  * Returns null if data is not a valid tree node (i.e., it's a raw blob)
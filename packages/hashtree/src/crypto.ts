@@ -101,6 +101,27 @@ export async function contentHash(data: Uint8Array): Promise<EncryptionKey> {
   return sha256(data);
 }
 
+/**
+ * Compute keyed content hash (HMAC-SHA256 with a convergence secret)
+ * Same content under the same secret gives the same key, but the key can't be
+ * derived from the content alone.
+ */
+export async function keyedContentHash(data: Uint8Array, secret: Uint8Array): Promise<EncryptionKey> {
+  const secretBuffer = new ArrayBuffer(secret.length);
+  new Uint8Array(secretBuffer).set(secret);
+  const dataBuffer = new ArrayBuffer(data.length);
+  new Uint8Array(dataBuffer).set(data);
+
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    secretBuffer,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, dataBuffer));
+}
+
 /**
  * CHK encrypt: derive key from content, encrypt with zero nonce
  *
@@ -113,13 +134,34 @@ export async function contentHash(data: Uint8Array): Promise<EncryptionKey> {
  * - The decryption key (store securely, share with authorized users)
  * - Enables dedup: same content → same ciphertext
  *
+ * With a convergence secret the key is HMAC(secret, content) instead, so
+ * dedup only happens within that secret. Decryption is the same either way.
+ *
  * @param plaintext - Data to encrypt
+ * @param convergenceSecret - Optional secret mixed into the key
  * @returns Object with encrypted data and content hash (decryption key)
  */
-export async function encryptChk(plaintext: Uint8Array): Promise<{ ciphertext: Uint8Array; key: EncryptionKey }> {
+export async function encryptChk(
+  plaintext: Uint8Array,
+  convergenceSecret?: Uint8Array
+): Promise<{ ciphertext: Uint8Array; key: EncryptionKey }> {
   // 1. Compute content hash - this is the "key" we return
-  const chash = await contentHash(plaintext);
+  const chash = convergenceSecret
+    ? await keyedContentHash(plaintext, convergenceSecret)
+    : await contentHash(plaintext);
 
+  return {
+    ciphertext: await encryptWithChkKey(plaintext, chash),
+    key: chash
+  };
+}
+
+/**
+ * CHK encrypt with a known key (content hash or keyed content hash)
+ * Gives the same ciphertext encryptChk gave for this content, so content can
+ * be checked against a link without knowing how its key was derived.
+ */
+export async function encryptWithChkKey(plaintext: Uint8Array, chash: EncryptionKey): Promise<Uint8Array> {
   // 2. Derive actual encryption key from content hash via HKDF
   const cryptoKey = await deriveKey(chash);
 
@@ -137,10 +179,7 @@ export async function encryptChk(plaintext: Uint8Array): Promise<{ ciphertext: U
     plaintextBuffer
   );
 
-  return {
-    ciphertext: new Uint8Array(ciphertext),
-    key: chash
-  };
+  return new Uint8Array(ciphertext);
 }
 
 /**
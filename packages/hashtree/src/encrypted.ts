@@ -13,10 +13,29 @@ import { Store, Hash, TreeNode, Link, LinkType, toHex } from './types.js';
 import { sha256 } from './hash.js';
 import { encodeAndHash, decodeTreeNode, tryDecodeTreeNode } from './codec.js';
 import { encryptChk, decryptChk, type EncryptionKey } from './crypto.js';
+import { type Chunker, fixedChunker, chunkRanges } from './builder.js';
+import { DEFAULT_PREFETCH } from './tree/read.js';
+import {
+  buildDirectory,
+  updateDirectory,
+  collectEntries,
+  iterateEntries,
+  findEntry,
+  isShardNode,
+  DEFAULT_SHARD_THRESHOLD,
+  type ReadDirNode,
+  type WriteDirNode,
+} from './tree/hamt.js';
 
 export interface EncryptedTreeConfig {
   store: Store;
   chunkSize: number;
+  /** Custom chunker for file data (default: fixed chunkSize chunks) */
+  chunker?: Chunker;
+  /** Max entries of a directory node before it's sharded (default: DEFAULT_SHARD_THRESHOLD) */
+  shardThreshold?: number;
+  /** Convergence secret for keyed CHK, e.g. from rotateTreeKeys (default: plain CHK) */
+  convergenceSecret?: Uint8Array;
 }
 
 /**
@@ -47,10 +66,11 @@ export async function putFileEncrypted(
 ): Promise<EncryptedPutResult> {
   const { store, chunkSize } = config;
   const size = data.length;
+  const ranges = chunkRanges(data, config.chunker ?? fixedChunker(chunkSize));
 
   // Single chunk - use CHK directly
-  if (data.length <= chunkSize) {
-    const { ciphertext, key } = await encryptChk(data);
+  if (ranges.length <= 1) {
+    const { ciphertext, key } = await encryptChk(data, config.convergenceSecret);
     const hash = await sha256(ciphertext);
     await store.put(hash, ciphertext);
     return { hash, size, key };
@@ -59,12 +79,10 @@ export async function putFileEncrypted(
   // Process chunks sequentially to avoid memory spikes
   // (For parallel processing of large files, use StreamWriter instead)
   const links: Link[] = [];
-  let offset = 0;
-  while (offset < data.length) {
-    const end = Math.min(offset + chunkSize, data.length);
+  for (const [start, end] of ranges) {
     // Use subarray to avoid copying, encrypt will handle the data
-    const chunk = data.subarray(offset, end);
-    const { ciphertext, key: chunkKey } = await encryptChk(chunk);
+    const chunk = data.subarray(start, end);
+    const { ciphertext, key: chunkKey } = await encryptChk(chunk, config.convergenceSecret);
     const hash = await sha256(ciphertext);
     await store.put(hash, ciphertext);
     links.push({
@@ -74,7 +92,6 @@ export async function putFileEncrypted(
       key: chunkKey,
       type: LinkType.Blob,
     });
-    offset = end;
   }
 
   // Build tree - tree nodes also CHK encrypted
@@ -108,7 +125,7 @@ async function buildEncryptedTree(
   };
   const { data } = await encodeAndHash(node);
   // CHK encrypt the tree node
-  const { ciphertext, key: nodeKey } = await encryptChk(data);
+  const { ciphertext, key: nodeKey } = await encryptChk(data, config.convergenceSecret);
   const hash = await sha256(ciphertext);
   await store.put(hash, ciphertext);
   return { hash, key: nodeKey };
@@ -149,7 +166,7 @@ export async function readFileEncrypted(
 /**
  * Get directory node from encrypted storage, handling chunked directories
  */
-async function getEncryptedDirectoryNode(
+export async function getEncryptedDirectoryNode(
   store: Store,
   hash: Hash,
   key: EncryptionKey
@@ -229,7 +246,7 @@ async function assembleEncryptedChunks(
 export interface StreamOptions {
   /** Byte offset to start streaming from (default: 0) */
   offset?: number;
-  /** Number of chunks to prefetch ahead (default: 1 = no prefetch) */
+  /** Number of chunks fetched ahead (default: DEFAULT_PREFETCH; 1 = no prefetch) */
   prefetch?: number;
 }
 
@@ -246,7 +263,7 @@ export async function* readFileEncryptedStream(
   key: EncryptionKey,
   options: StreamOptions = {}
 ): AsyncGenerator<Uint8Array> {
-  const { offset = 0, prefetch = 1 } = options;
+  const { offset = 0, prefetch = DEFAULT_PREFETCH } = options;
 
   const encryptedData = await store.get(hash);
   if (!encryptedData) return;
@@ -271,7 +288,7 @@ async function* streamEncryptedChunksWithOffset(
   store: Store,
   node: TreeNode,
   offset: number,
-  prefetch: number = 1
+  prefetch: number
 ): AsyncGenerator<Uint8Array> {
   let position = 0;
 
@@ -486,17 +503,54 @@ export interface EncryptedDirEntry {
   size: number;
   /** CHK key for encrypted children */
   key?: Uint8Array;
-  /** Type of this entry: Blob, File, or Dir */
+  /** Type of this entry: Blob, File, Dir or Symlink */
   type: LinkType;
   /** Optional metadata (createdAt, mimeType, thumbnail, etc.) */
   meta?: Record<string, unknown>;
 }
 
+function entryToLink(e: EncryptedDirEntry): Link {
+  return { hash: e.hash, name: e.name, size: e.size, key: e.key, type: e.type, meta: e.meta };
+}
+
+function linkToEntry(link: Link): EncryptedDirEntry {
+  return { name: link.name!, hash: link.hash, size: link.size, key: link.key, type: link.type, meta: link.meta };
+}
+
+/**
+ * Store directory nodes with CHK encryption, chunking large ones like files
+ */
+function encryptedDirNodeWriter(config: EncryptedTreeConfig): WriteDirNode {
+  return async (node: TreeNode) => {
+    const { data } = await encodeAndHash(node);
+
+    // Small directory - encrypt and store directly
+    if (data.length <= config.chunkSize) {
+      const { ciphertext, key } = await encryptChk(data, config.convergenceSecret);
+      const hash = await sha256(ciphertext);
+      await config.store.put(hash, ciphertext);
+      return { hash, key };
+    }
+
+    // Large directory - reuse putFileEncrypted for chunking
+    const { hash, key } = await putFileEncrypted(config, data);
+    return { hash, key };
+  };
+}
+
+/**
+ * Load encrypted directory nodes; shard buckets always have keys
+ */
+function encryptedDirNodeReader(store: Store): ReadDirNode {
+  return async ref => ref.key ? getEncryptedDirectoryNode(store, ref.hash, ref.key) : null;
+}
+
 /**
  * Store a directory with CHK encryption
  *
  * The directory node itself is encrypted. Child entries already have their own keys.
- * Large directories are chunked by bytes like files using putFileEncrypted.
+ * Large directories are chunked by bytes like files using putFileEncrypted,
+ * and directories with more than shardThreshold entries are sharded (see tree/hamt.ts).
  *
  * @param config - Tree configuration
  * @param entries - Directory entries (with keys for encrypted children)
@@ -506,43 +560,48 @@ export async function putDirectoryEncrypted(
   config: EncryptedTreeConfig,
   entries: EncryptedDirEntry[]
 ): Promise<EncryptedPutResult> {
-  const { store, chunkSize } = config;
-  const sorted = [...entries].sort((a, b) => a.name.localeCompare(b.name));
-
-  const links: Link[] = sorted.map(e => ({
-    hash: e.hash,
-    name: e.name,
-    size: e.size,
-    key: e.key,
-    type: e.type,
-    meta: e.meta,
-  }));
-
-  const totalSize = links.reduce((sum, l) => sum + l.size, 0);
-
-  const node: TreeNode = {
-    type: LinkType.Dir,
-    links,
-  };
-  const { data } = await encodeAndHash(node);
-
-  // Small directory - encrypt and store directly
-  if (data.length <= chunkSize) {
-    const { ciphertext, key } = await encryptChk(data);
-    const hash = await sha256(ciphertext);
-    await store.put(hash, ciphertext);
-    return { hash, size: totalSize, key };
-  }
+  const { ref, size } = await buildDirectory(
+    encryptedDirNodeWriter(config),
+    entries.map(entryToLink),
+    config.shardThreshold ?? DEFAULT_SHARD_THRESHOLD
+  );
+  return { hash: ref.hash, size, key: ref.key! };
+}
 
-  // Large directory - reuse putFileEncrypted for chunking
-  return putFileEncrypted(config, data);
+/**
+ * Add, replace and remove entries of an encrypted directory
+ * Only the shard buckets holding the changed names are rewritten.
+ *
+ * @param config - Tree configuration
+ * @param hash - Hash of encrypted directory
+ * @param key - CHK decryption key
+ * @param upserts - Entries to add or replace (by name)
+ * @param removals - Names to remove
+ * @returns Hash and key of the new directory
+ */
+export async function updateDirectoryEncrypted(
+  config: EncryptedTreeConfig,
+  hash: Hash,
+  key: EncryptionKey,
+  upserts: EncryptedDirEntry[],
+  removals: string[]
+): Promise<EncryptedPutResult> {
+  const { ref, size } = await updateDirectory(
+    encryptedDirNodeReader(config.store),
+    encryptedDirNodeWriter(config),
+    { hash, key },
+    upserts.map(entryToLink),
+    removals,
+    config.shardThreshold ?? DEFAULT_SHARD_THRESHOLD
+  );
+  return { hash: ref.hash, size, key: ref.key! };
 }
 
 /**
  * List directory entries from an encrypted directory
  *
- * Handles both small directories (single node) and large directories
- * (chunked by bytes like files).
+ * Handles small directories (single node), large directories (chunked by
+ * bytes like files) and sharded directories. Entries are sorted by name.
  *
  * @param store - Storage backend
  * @param hash - Hash of encrypted directory
@@ -557,22 +616,48 @@ export async function listDirectoryEncrypted(
   const node = await getEncryptedDirectoryNode(store, hash, key);
   if (!node) return [];
 
-  // Extract directory entries from the node
-  const entries: EncryptedDirEntry[] = [];
-  for (const link of node.links) {
-    if (link.name) {
-      entries.push({
-        name: link.name,
-        hash: link.hash,
-        size: link.size,
-        key: link.key,
-        type: link.type,
-        meta: link.meta,
-      });
-    }
+  const links = await collectEntries(encryptedDirNodeReader(store), node);
+  if (isShardNode(node)) {
+    links.sort((a, b) => a.name!.localeCompare(b.name!));
+  }
+  return links.map(linkToEntry);
+}
+
+/**
+ * Iterate encrypted directory entries lazily
+ * Sharded directories are read one bucket at a time, in name hash order.
+ *
+ * @param after - Resume after this entry name
+ */
+export async function* iterateDirectoryEncrypted(
+  store: Store,
+  hash: Hash,
+  key: EncryptionKey,
+  after?: string
+): AsyncGenerator<EncryptedDirEntry> {
+  const node = await getEncryptedDirectoryNode(store, hash, key);
+  if (!node) return;
+
+  for await (const link of iterateEntries(encryptedDirNodeReader(store), node, after)) {
+    yield linkToEntry(link);
   }
+}
+
+/**
+ * Get a single entry of an encrypted directory by name
+ * Only the buckets on the name's path are loaded for sharded directories.
+ */
+export async function getDirectoryEntryEncrypted(
+  store: Store,
+  hash: Hash,
+  key: EncryptionKey,
+  name: string
+): Promise<EncryptedDirEntry | null> {
+  const node = await getEncryptedDirectoryNode(store, hash, key);
+  if (!node) return null;
 
-  return entries;
+  const link = await findEntry(encryptedDirNodeReader(store), node, name);
+  return link ? linkToEntry(link) : null;
 }
 
 /**
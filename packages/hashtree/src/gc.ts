@@ -0,0 +1,203 @@
+/**
+ * Garbage collection for local stores
+ *
+ * Mark-and-sweep: every block reachable from a pinned root is kept,
+ * everything else in the store is deleted.
+ *
+ * Roots are pinned by name (e.g. "npub1.../treename") so that publishing
+ * a new root for a tree simply replaces the pin, leaving the blocks of
+ * the previous root to be reclaimed by the next gc().
+ */
+
+import { Store, Hash, CID, toHex } from './types.js';
+
+/**
+ * Store that can enumerate its contents (MemoryStore, DexieStore, OpfsStore)
+ */
+export interface EnumerableStore extends Store {
+  keys(): Hash[] | Promise<Hash[]>;
+  /** Size of every block by hex hash, without reading the blocks (optional) */
+  sizes?(): Map<string, number> | Promise<Map<string, number>>;
+}
+
+/**
+ * Check if a store supports key enumeration
+ */
+export function isEnumerableStore(store: Store): store is EnumerableStore {
+  return typeof (store as Partial<EnumerableStore>).keys === 'function';
+}
+
+/**
+ * Current usage of a size-bounded store
+ */
+export interface StoreUsage {
+  /** Bytes stored */
+  bytes: number;
+  /** Number of blocks stored */
+  count: number;
+  /** Configured capacity, if any */
+  maxBytes?: number;
+}
+
+/**
+ * Store with a byte capacity and LRU eviction (DexieStore, OpfsStore)
+ * Pinned blocks are never evicted.
+ */
+export interface BoundedStore extends Store {
+  /** Replace the set of blocks protected from eviction */
+  setPinned(hashes: Iterable<Hash>): void;
+  getUsage(): Promise<StoreUsage>;
+}
+
+/**
+ * Check if a store supports pinned blocks and usage reporting
+ */
+export function isBoundedStore(store: Store): store is BoundedStore {
+  const s = store as Partial<BoundedStore>;
+  return typeof s.setPinned === 'function' && typeof s.getUsage === 'function';
+}
+
+/**
+ * Pins and usage of the bounded stores behind a wrapper (VerifyingStore, TieredStore)
+ * Pins go to every bounded store; usage is their sum.
+ * @returns undefined if none of the stores is bounded
+ */
+export function forwardBoundedStores(stores: Store[]): Pick<BoundedStore, 'setPinned' | 'getUsage'> | undefined {
+  const bounded = stores.filter(isBoundedStore);
+  if (bounded.length === 0) return undefined;
+
+  return {
+    setPinned(hashes: Iterable<Hash>): void {
+      const list = Array.from(hashes);
+      for (const store of bounded) store.setPinned(list);
+    },
+    async getUsage(): Promise<StoreUsage> {
+      const usages = await Promise.all(bounded.map(store => store.getUsage()));
+      const capped = usages.every(usage => usage.maxBytes !== undefined);
+      return {
+        bytes: usages.reduce((sum, usage) => sum + usage.bytes, 0),
+        count: usages.reduce((sum, usage) => sum + usage.count, 0),
+        maxBytes: capped ? usages.reduce((sum, usage) => sum + usage.maxBytes!, 0) : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Named set of pinned roots
+ */
+export class PinSet {
+  private pins = new Map<string, CID>();
+
+  /**
+   * Pin a root under a name, replacing any previous root with that name
+   */
+  pin(name: string, id: CID): void {
+    this.pins.set(name, id);
+  }
+
+  /**
+   * Remove a pin
+   * @returns true if the pin existed
+   */
+  unpin(name: string): boolean {
+    return this.pins.delete(name);
+  }
+
+  get(name: string): CID | undefined {
+    return this.pins.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.pins.has(name);
+  }
+
+  /**
+   * List pin names
+   */
+  names(): string[] {
+    return Array.from(this.pins.keys());
+  }
+
+  /**
+   * List pinned root CIDs
+   */
+  roots(): CID[] {
+    return Array.from(this.pins.values());
+  }
+
+  get size(): number {
+    return this.pins.size;
+  }
+
+  clear(): void {
+    this.pins.clear();
+  }
+}
+
+export interface GcOptions {
+  /** Only report what would be deleted (default: false) */
+  dryRun?: boolean;
+  /** Extra roots to keep for this run, in addition to pinned roots */
+  roots?: CID[];
+  /**
+   * Individual hashes to keep that are not part of any tree
+   * (e.g. records stored alongside content, such as cached tree roots)
+   */
+  keep?: Hash[];
+}
+
+export interface GcResult {
+  /** True if nothing was deleted */
+  dryRun: boolean;
+  /** Number of blocks reachable from roots */
+  marked: number;
+  /** Hashes not reachable from any root */
+  unreachable: Hash[];
+  /** Number of blocks deleted (0 for dry runs) */
+  swept: number;
+  /** Bytes reclaimed, or reclaimable for dry runs */
+  bytes: number;
+}
+
+/**
+ * Sweep phase - delete (or just measure) blocks not in the reachable set
+ *
+ * @param store - Store to sweep
+ * @param candidates - Hashes present in the store before marking started
+ * @param reachable - Hex hashes found during marking
+ * @param dryRun - If true, only measure
+ */
+export async function sweep(
+  store: Store,
+  candidates: Hash[],
+  reachable: Set<string>,
+  dryRun: boolean
+): Promise<Omit<GcResult, 'marked' | 'dryRun'>> {
+  const unreachable: Hash[] = [];
+  let swept = 0;
+  let bytes = 0;
+
+  // Read blocks for their size only if the store can't report sizes
+  const sizes = isEnumerableStore(store) ? (await store.sizes?.()) ?? null : null;
+
+  for (const hash of candidates) {
+    const hex = toHex(hash);
+    if (reachable.has(hex)) continue;
+    unreachable.push(hash);
+
+    const size = sizes ? sizes.get(hex) ?? 0 : (await store.get(hash))?.length ?? 0;
+
+    if (dryRun) {
+      bytes += size;
+      continue;
+    }
+
+    if (await store.delete(hash)) {
+      swept++;
+      bytes += size;
+    }
+  }
+
+  return { unreachable, swept, bytes };
+}
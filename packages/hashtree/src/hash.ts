@@ -15,6 +15,16 @@ export async function sha256(data: Uint8Array): Promise<Hash> {
   return new Uint8Array(hashBuffer);
 }
 
+/**
+ * Compute SHA1 hash of data
+ * Only for BitTorrent v1 compatibility (hybrid torrent pieces and infohash)
+ */
+export async function sha1(data: Uint8Array): Promise<Uint8Array> {
+  const buffer = new ArrayBuffer(data.length);
+  new Uint8Array(buffer).set(data);
+  return new Uint8Array(await crypto.subtle.digest('SHA-1', buffer));
+}
+
 /**
  * Verify that data matches expected hash
  */
@@ -8,7 +8,7 @@
  */
 
 import { Store, Hash, CID, TreeNode, LinkType, toHex, cid } from './types.js';
-import { tryDecodeTreeNode } from './codec.js';
+import { tryDecodeTreeNode, TREE_NODE_PREFIX } from './codec.js';
 import { StreamWriter } from './streaming.js';
 import * as streaming from './streaming.js';
 export { StreamWriter } from './streaming.js';
@@ -23,11 +23,33 @@ import {
   readFileEncryptedRange,
   putDirectoryEncrypted,
   listDirectoryEncrypted,
+  iterateDirectoryEncrypted,
+  getDirectoryEntryEncrypted,
   getTreeNodeEncrypted,
+  getEncryptedDirectoryNode,
   type EncryptedDirEntry,
 } from './encrypted.js';
 import * as editEncrypted from './tree/editEncrypted.js';
+import { isShardNode } from './tree/hamt.js';
 import * as writeAtOps from './tree/writeAt.js';
+import { diffTrees, type TreeChange, type DiffOptions } from './tree/diff.js';
+import * as merge from './tree/merge.js';
+import { decryptChk } from './crypto.js';
+import { VerifyingStore } from './store/verifying.js';
+import { getMany, DEFAULT_BATCH_SIZE } from './store/batch.js';
+import { LRUCache } from './webrtc/lruCache.js';
+import { encodeArchive, importArchive, type ArchiveSource, type ArchiveImportResult } from './archive.js';
+import { createProof, type TreeProof, type ByteRange } from './proof.js';
+import {
+  createTorrent,
+  verifyTorrent,
+  type Torrent,
+  type TorrentOptions,
+  type TorrentResult,
+  type TorrentFileVerification,
+} from './torrent.js';
+import { rotateTreeKeys, type RotateKeysOptions, type RotateKeysResult } from './rotate.js';
+import { PinSet, isEnumerableStore, isBoundedStore, sweep, type GcOptions, type GcResult } from './gc.js';
 
 /** Default chunk size: 2MB (optimized for blossom uploads) */
 export const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024;
@@ -35,6 +57,23 @@ export const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024;
 export interface HashTreeConfig {
   store: Store;
   chunkSize?: number;
+  /** Chunker for putFile and createStream (e.g. fastCdcChunker for deduplicated edits) */
+  chunker?: streaming.Chunker;
+  /** Max entries of a directory node before it's sharded into buckets (default: 1000) */
+  shardThreshold?: number;
+  /** Pinned roots kept by gc() (default: new empty PinSet) */
+  pins?: PinSet;
+  /**
+   * Convergence secret for encrypted writes (default: plain CHK)
+   * Set it to the secret returned by rotateKeys() so edits of a rotated tree
+   * don't fall back to keys derivable from the content alone.
+   */
+  convergenceSecret?: Uint8Array;
+  /**
+   * Check SHA256 of every block read (default: false)
+   * Wraps the store in a VerifyingStore (returned by getStore()) that reports corruption via on()
+   */
+  verify?: boolean;
 }
 
 export interface TreeEntry {
@@ -45,6 +84,30 @@ export interface TreeEntry {
   meta?: Record<string, unknown>;
 }
 
+/** Name-sorted listings kept for paging through them with sort: 'name' */
+const SORTED_LISTINGS_SIZE = 4;
+
+/** Options for iterateDirectory */
+export interface DirectoryListOptions {
+  /** Resume after this entry name, e.g. the last name of a previous page */
+  after?: string;
+  /** Only entries whose name starts with this */
+  prefix?: string;
+  /**
+   * 'storage' (default): storage order, lazy for sharded directories
+   * 'name': sorted by name, reads the whole directory
+   */
+  sort?: 'storage' | 'name';
+}
+
+/** Options for listDirectoryPage */
+export interface DirectoryPageOptions extends Omit<DirectoryListOptions, 'after'> {
+  /** Cursor of the previous page */
+  cursor?: string;
+  /** Max entries per page (default: 100) */
+  limit?: number;
+}
+
 export interface DirEntry {
   name: string;
   cid: CID;
@@ -59,14 +122,31 @@ export interface DirEntry {
 export class HashTree {
   private store: Store;
   private chunkSize: number;
+  private chunker?: streaming.Chunker;
+  private shardThreshold?: number;
+  private pins: PinSet;
+  private convergenceSecret?: Uint8Array;
+  private sortedListings = new LRUCache<string, TreeEntry[]>(SORTED_LISTINGS_SIZE);
 
   constructor(config: HashTreeConfig) {
-    this.store = config.store;
+    this.store = config.verify && !(config.store instanceof VerifyingStore)
+      ? new VerifyingStore(config.store)
+      : config.store;
     this.chunkSize = config.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.chunker = config.chunker;
+    this.shardThreshold = config.shardThreshold;
+    this.pins = config.pins ?? new PinSet();
+    this.convergenceSecret = config.convergenceSecret;
   }
 
   private get config(): create.CreateConfig {
-    return { store: this.store, chunkSize: this.chunkSize };
+    return {
+      store: this.store,
+      chunkSize: this.chunkSize,
+      chunker: this.chunker,
+      shardThreshold: this.shardThreshold,
+      convergenceSecret: this.convergenceSecret,
+    };
   }
 
   // Create (encrypted by default)
@@ -93,6 +173,23 @@ export class HashTree {
     return { cid: cid(result.hash, result.key), size: result.size };
   }
 
+  /**
+   * Store a symlink target
+   * Add the result to a directory with LinkType.Symlink.
+   * @param target - Path the symlink points to
+   * @param options - { public?: boolean } - if true, store without encryption
+   * @returns { cid, size }
+   */
+  async putSymlink(
+    target: string,
+    options?: { public?: boolean }
+  ): Promise<{ cid: CID; size: number }> {
+    if (!target) {
+      throw new Error('Symlink target cannot be empty');
+    }
+    return this.putFile(new TextEncoder().encode(target), options);
+  }
+
   /**
    * Store a directory
    * @param entries - Directory entries
@@ -159,8 +256,8 @@ export class HashTree {
         if (!node) return false;
         // Empty directory is still a directory
         if (node.links.length === 0) return true;
-        // Check if it's a directory (has named entries) vs chunked file (no names)
-        return node.links.some(l => l.name !== undefined && !l.name.startsWith('_'));
+        // Check if it's a directory (has named entries or shard buckets) vs chunked file (no names)
+        return isShardNode(node) || node.links.some(l => l.name !== undefined && !l.name.startsWith('_'));
       } catch {
         return false;
       }
@@ -178,6 +275,14 @@ export class HashTree {
     return read.readFile(this.store, id.hash);
   }
 
+  /**
+   * Read the target path of a symlink
+   */
+  async readSymlink(id: CID): Promise<string | null> {
+    const data = await this.readFile(id);
+    return data ? new TextDecoder().decode(data) : null;
+  }
+
   /**
    * Stream a file
    * @param id - CID of the file
@@ -228,6 +333,94 @@ export class HashTree {
     }));
   }
 
+  /**
+   * Iterate directory entries lazily
+   *
+   * In storage order (the default), small directories come in name order and
+   * sharded directories in name hash order, loading one bucket at a time, so
+   * huge directories can be listed without reading every node. Sorting by
+   * name reads the whole directory once; the sorted listing is kept for the
+   * following pages.
+   *
+   * @param options - { after?, prefix?, sort? } see DirectoryListOptions
+   */
+  async *iterateDirectory(id: CID, options: DirectoryListOptions = {}): AsyncGenerator<TreeEntry> {
+    const { after, prefix, sort = 'storage' } = options;
+    const matches = (name: string) => !prefix || name.startsWith(prefix);
+
+    if (sort === 'name') {
+      const listingKey = id.key ? `${toHex(id.hash)}:${toHex(id.key)}` : toHex(id.hash);
+      let listing = this.sortedListings.get(listingKey);
+      if (!listing) {
+        listing = await this.listDirectory(id);
+        this.sortedListings.set(listingKey, listing);
+      }
+      for (const entry of listing) {
+        if (after !== undefined && entry.name.localeCompare(after) <= 0) continue;
+        if (matches(entry.name)) yield entry;
+      }
+      return;
+    }
+
+    if (id.key) {
+      for await (const e of iterateDirectoryEncrypted(this.store, id.hash, id.key, after)) {
+        if (!matches(e.name)) continue;
+        yield {
+          name: e.name,
+          cid: cid(e.hash, e.key),
+          size: e.size,
+          type: e.type ?? LinkType.Blob,
+          meta: e.meta,
+        };
+      }
+      return;
+    }
+    for await (const entry of read.iterateDirectory(this.store, id.hash, after)) {
+      if (matches(entry.name)) yield entry;
+    }
+  }
+
+  /**
+   * List a page of directory entries
+   *
+   * @param id - Directory CID
+   * @param options - { cursor?, limit?, prefix?, sort? } cursor from the previous page, page size (default: 100)
+   * @returns Entries (in iterateDirectory order) and the cursor of the next page, if any
+   */
+  async listDirectoryPage(
+    id: CID,
+    options: DirectoryPageOptions = {}
+  ): Promise<{ entries: TreeEntry[]; cursor?: string }> {
+    const { cursor, limit = 100, ...listOptions } = options;
+    if (limit < 1) {
+      throw new Error(`Invalid page limit: ${limit}`);
+    }
+    const entries: TreeEntry[] = [];
+    let more = false;
+
+    for await (const entry of this.iterateDirectory(id, { ...listOptions, after: cursor })) {
+      if (entries.length === limit) {
+        more = true;
+        break;
+      }
+      entries.push(entry);
+    }
+
+    return more ? { entries, cursor: entries[entries.length - 1].name } : { entries };
+  }
+
+  /**
+   * Get a single directory entry by name
+   * Only loads the buckets on the name's path for sharded directories.
+   */
+  async getEntry(dir: CID, name: string): Promise<TreeEntry | null> {
+    if (dir.key) {
+      const e = await getDirectoryEntryEncrypted(this.store, dir.hash, dir.key, name);
+      return e ? { name: e.name, cid: cid(e.hash, e.key), size: e.size, type: e.type ?? LinkType.Blob, meta: e.meta } : null;
+    }
+    return read.getDirectoryEntry(this.store, dir.hash, name);
+  }
+
   /**
    * Resolve a path to get the entry's CID
    *
@@ -247,8 +440,7 @@ export class HashTree {
     let entryType: LinkType = LinkType.Dir;
 
     for (const segment of parts) {
-      const entries = await this.listDirectory(current);
-      const entry = entries.find(e => e.name === segment);
+      const entry = await this.getEntry(current, segment);
       if (!entry) {
         return null;
       }
@@ -323,95 +515,139 @@ export class HashTree {
     return results;
   }
 
+  /**
+   * Compute what changed between two directory roots
+   * Subtrees with equal link hashes are skipped without being read.
+   * @param oldCid - Root CID before the change
+   * @param newCid - Root CID after the change
+   * @param options.renames - Pair removed/added entries with equal content as renames (default: true)
+   */
+  async *diff(oldCid: CID, newCid: CID, options?: DiffOptions): AsyncGenerator<TreeChange> {
+    yield* diffTrees(this.store, oldCid, newCid, options);
+  }
+
   /**
    * Iterate over all raw blocks in a merkle tree
    * Yields each block's hash and data, traversing encrypted nodes correctly
+   * Children of a node are fetched in batches via the store's getMany.
    * Useful for syncing to remote stores (e.g., Blossom push)
+   * @param options.type - Link type of the root, if known. A chunked directory
+   *   is a File node reached through a Dir link; without a type, a File root
+   *   is checked for directory bytes in its first chunk.
+   * @param options.onMissing - Called for each block the store doesn't have
+   *   (its subtree is skipped)
    */
-  async *walkBlocks(id: CID): AsyncGenerator<{ hash: Hash; data: Uint8Array }> {
-    const visited = new Set<string>();
+  async *walkBlocks(
+    id: CID,
+    options?: { type?: LinkType; onMissing?: (hash: Hash) => void }
+  ): AsyncGenerator<{ hash: Hash; data: Uint8Array }> {
+    const visited = new Set<string>([toHex(id.hash)]);
+    const onMissing = options?.onMissing;
+    const root = await this.store.get(id.hash);
+    if (!root) {
+      onMissing?.(id.hash);
+      return;
+    }
 
-    const traverse = async function* (
+    // Children are expanded after their whole batch was yielded, so only the
+    // decoded tree nodes of a batch - not its chunk data - are held while recursing
+    const expand = async function* (
       store: Store,
       hash: Hash,
-      key?: Uint8Array
+      node: TreeNode,
+      key: Uint8Array | undefined,
+      type: LinkType | undefined
     ): AsyncGenerator<{ hash: Hash; data: Uint8Array }> {
-      const hex = toHex(hash);
-      if (visited.has(hex)) return;
-      visited.add(hex);
-
-      const data = await store.get(hash);
-      if (!data) return;
-
-      yield { hash, data };
+      const children: Array<{ hash: Hash; key?: Uint8Array; type?: LinkType }> = [...node.links];
+
+      // Large directories are chunked by bytes like files - their entries
+      // (or shard buckets) are only visible after reassembling the chunks
+      const isChunkedDir = node.type === LinkType.File && (type === undefined
+        ? await isChunkedDirectoryRoot(store, node)
+        : type === LinkType.Dir);
+      if (isChunkedDir) {
+        const dirNode = key
+          ? await getEncryptedDirectoryNode(store, hash, key)
+          : await read.getDirectoryNode(store, hash);
+        if (dirNode) children.push(...dirNode.links);
+      }
 
-      // Handle encrypted vs unencrypted tree nodes
-      if (key) {
-        const decrypted = await getTreeNodeEncrypted(store, hash, key);
-        if (decrypted) {
-          for (const link of decrypted.links) {
-            yield* traverse(store, link.hash, link.key);
+      const unvisited = children.filter(child => {
+        const hex = toHex(child.hash);
+        if (visited.has(hex)) return false;
+        visited.add(hex);
+        return true;
+      });
+
+      for (let i = 0; i < unvisited.length; i += DEFAULT_BATCH_SIZE) {
+        const batch = unvisited.slice(i, i + DEFAULT_BATCH_SIZE);
+        const blocks = await getMany(store, batch.map(child => child.hash));
+        const nodes: Array<{ hash: Hash; node: TreeNode; key?: Uint8Array; type: LinkType }> = [];
+        for (let j = 0; j < batch.length; j++) {
+          const block = blocks[j];
+          blocks[j] = null;
+          if (!block) {
+            onMissing?.(batch[j].hash);
+            continue;
           }
+          yield { hash: batch[j].hash, data: block };
+          const child = await decodeBlock(block, batch[j].key);
+          if (child) nodes.push({ hash: batch[j].hash, node: child, key: batch[j].key, type: batch[j].type ?? LinkType.Blob });
         }
-      } else {
-        const node = tryDecodeTreeNode(data);
-        if (node) {
-          for (const link of node.links) {
-            yield* traverse(store, link.hash, link.key);
-          }
+        for (const child of nodes) {
+          yield* expand(store, child.hash, child.node, child.key, child.type);
         }
       }
     };
 
-    yield* traverse(this.store, id.hash, id.key);
+    yield { hash: id.hash, data: root };
+    const rootNode = await decodeBlock(root, id.key);
+    if (rootNode) yield* expand(this.store, id.hash, rootNode, id.key, options?.type);
   }
 
   /**
    * Pull (fetch) all chunks for a tree recursively
    * Triggers WebRTC fetches for any missing chunks
-   * Uses parallel fetching within each tree level for better performance
+   * Fetches each tree level in batches via the store's getMany
    * @returns { cid, chunks, bytes } - The CID and stats about what was pulled
    */
   async pull(id: CID): Promise<{ cid: CID; chunks: number; bytes: number }> {
-    const visited = new Set<string>();
+    const visited = new Set<string>([toHex(id.hash)]);
     let chunks = 0;
     let bytes = 0;
 
-    const fetch = async (hash: Hash, key?: Uint8Array): Promise<void> => {
-      const hex = toHex(hash);
-      if (visited.has(hex)) return;
-      visited.add(hex);
+    let level: Array<{ hash: Hash; key?: Uint8Array }> = [id];
+    while (level.length > 0) {
+      const next: Array<{ hash: Hash; key?: Uint8Array }> = [];
 
-      // Fetch the chunk (will go to WebRTC peers if not local)
-      const data = await this.store.get(hash);
-      if (!data) {
-        return;
-      }
+      for (let i = 0; i < level.length; i += DEFAULT_BATCH_SIZE) {
+        const batch = level.slice(i, i + DEFAULT_BATCH_SIZE);
+        // Fetch the chunks (will go to WebRTC peers if not local)
+        const blocks = await getMany(this.store, batch.map(b => b.hash));
 
-      chunks++;
-      bytes += data.length;
+        for (let j = 0; j < batch.length; j++) {
+          const data = blocks[j];
+          if (!data) continue;
 
-      // If there's an encryption key, try to decrypt and check if it's a tree node
-      // For encrypted data, we can't use isTreeNode on the raw bytes
-      if (key) {
-        const decrypted = await getTreeNodeEncrypted(this.store, hash, key);
-        if (decrypted) {
-          // It's an encrypted tree node - fetch all children in parallel
-          await Promise.all(decrypted.links.map(link => fetch(link.hash, link.key)));
-        }
-        // If decryption failed or not a tree node, it's a blob (already fetched)
-      } else {
-        // Unencrypted data - check directly
-        const node = tryDecodeTreeNode(data);
-        if (node) {
-          // Fetch all children in parallel
-          await Promise.all(node.links.map(link => fetch(link.hash, link.key)));
+          chunks++;
+          bytes += data.length;
+
+          // Blobs (or blocks that don't decrypt to a tree node) have no children
+          const node = await decodeBlock(data, batch[j].key);
+          if (!node) continue;
+
+          for (const link of node.links) {
+            const hex = toHex(link.hash);
+            if (visited.has(hex)) continue;
+            visited.add(hex);
+            next.push(link);
+          }
         }
-        // If not a tree node, it's a blob (already fetched)
       }
-    };
 
-    await fetch(id.hash, id.key);
+      level = next;
+    }
+
     return { cid: id, chunks, bytes };
   }
 
@@ -461,62 +697,86 @@ export class HashTree {
     const errors: Array<{ hash: Hash; error: Error }> = [];
 
     const concurrency = options?.concurrency ?? 4;
+    // Stores with putMany take queued blocks in batches
+    const batchSize = targetStore.putMany ? DEFAULT_BATCH_SIZE : 1;
 
     // Bounded queue for producer-consumer pattern
     const queue: Array<{ hash: Hash; data: Uint8Array }> = [];
-    const maxQueueSize = concurrency * 2;
+    const maxQueueSize = Math.max(concurrency, batchSize) * 2;
     let queueResolve: (() => void) | null = null;
     let consumerResolve: (() => void) | null = null;
 
+    const recordResult = (block: { hash: Hash; data: Uint8Array }, result: boolean | Error) => {
+      const { hash, data } = block;
+      if (result instanceof Error) {
+        failed++;
+        errors.push({ hash, error: result });
+        options?.onBlock?.(hash, 'error', result);
+      } else if (result === false) {
+        skipped++;
+        options?.onBlock?.(hash, 'skipped');
+      } else {
+        pushed++;
+        bytes += data.length;
+        options?.onBlock?.(hash, 'success');
+      }
+      completed++;
+      // Report progress: completed / discovered (discovered grows as we walk)
+      options?.onProgress?.(completed, discovered);
+    };
+
     // Process a single block
     const processBlock = async (block: { hash: Hash; data: Uint8Array }) => {
       if (options?.signal?.aborted) return;
 
-      const { hash, data } = block;
       try {
-        const isNew = await targetStore.put(hash, data);
-        if (isNew === false) {
-          skipped++;
-          options?.onBlock?.(hash, 'skipped');
-        } else {
-          pushed++;
-          bytes += data.length;
-          options?.onBlock?.(hash, 'success');
-        }
+        recordResult(block, await targetStore.put(block.hash, block.data));
       } catch (e) {
-        failed++;
-        const error = e instanceof Error ? e : new Error(String(e));
-        errors.push({ hash, error });
-        options?.onBlock?.(hash, 'error', error);
+        recordResult(block, e instanceof Error ? e : new Error(String(e)));
       }
-      completed++;
-      // Report progress: completed / discovered (discovered grows as we walk)
-      options?.onProgress?.(completed, discovered);
+    };
+
+    // Process queued blocks with one putMany call
+    const processBatch = async (blocks: Array<{ hash: Hash; data: Uint8Array }>) => {
+      if (options?.signal?.aborted) return;
+      if (blocks.length === 1) return processBlock(blocks[0]);
+
+      let results: boolean[];
+      try {
+        results = await targetStore.putMany!(blocks);
+      } catch {
+        // Retry one by one to find out which blocks failed
+        await Promise.all(blocks.map(processBlock));
+        return;
+      }
+      blocks.forEach((block, i) => recordResult(block, results[i]));
     };
 
     // Consumer: pull from queue and process
     const runConsumer = async () => {
       const active: Promise<void>[] = [];
+      // Wait for a full batch unless the walk has finished
+      const ready = () => queue.length >= batchSize || (walkDone && queue.length > 0);
 
       while (!walkDone || queue.length > 0 || active.length > 0) {
         if (options?.signal?.aborted) break;
 
         // Start new tasks from queue
-        while (active.length < concurrency && queue.length > 0) {
-          const block = queue.shift()!;
+        while (active.length < concurrency && ready()) {
+          const blocks = queue.splice(0, batchSize);
           // Signal producer that queue has space
           if (queueResolve && queue.length < maxQueueSize) {
             queueResolve();
             queueResolve = null;
           }
-          const promise = processBlock(block).then(() => {
+          const promise = processBatch(blocks).then(() => {
             active.splice(active.indexOf(promise), 1);
           });
           active.push(promise);
         }
 
-        // If queue empty but walk not done, wait for producer
-        if (queue.length === 0 && !walkDone && active.length < concurrency) {
+        // If no batch is ready but walk not done, wait for producer
+        if (!ready() && !walkDone && active.length < concurrency) {
           await new Promise<void>(resolve => {
             consumerResolve = resolve;
           });
@@ -571,6 +831,36 @@ export class HashTree {
 
   // Edit operations
 
+  /**
+   * Export trees as a single streamable archive file
+   * The header lists the roots; CHK keys are included unless keys is false.
+   * @param roots - Root CID(s) to export with all their blocks
+   * @param options.keys - Include root keys in the header (default: true)
+   * @returns Archive bytes as a stream of chunks
+   */
+  async *exportArchive(
+    roots: CID | CID[],
+    options: { keys?: boolean } = {}
+  ): AsyncGenerator<Uint8Array> {
+    const list = Array.isArray(roots) ? roots : [roots];
+    const headerRoots = options.keys === false ? list.map(r => ({ hash: r.hash })) : list;
+    const walkAll = async function* (tree: HashTree) {
+      for (const root of list) {
+        yield* tree.walkBlocks(root);
+      }
+    };
+    yield* encodeArchive(headerRoots, walkAll(this));
+  }
+
+  /**
+   * Import an archive into this tree's store, verifying every block hash
+   * @param source - Archive bytes, async iterable of chunks, or ReadableStream
+   * @returns Root CIDs from the archive header and import totals
+   */
+  async importArchive(source: ArchiveSource): Promise<ArchiveImportResult> {
+    return importArchive(source, this.store);
+  }
+
   /**
    * Add or update an entry in a directory
    * @param root - Root CID of the tree
@@ -578,7 +868,8 @@ export class HashTree {
    * @param name - Name of the entry
    * @param entry - CID of the entry content
    * @param size - Size of the content
-   * @param type - Type of the entry (LinkType.Blob, LinkType.File, or LinkType.Dir)
+   * @param type - Type of the entry (LinkType.Blob, LinkType.File, LinkType.Dir or LinkType.Symlink)
+   * @param meta - Entry metadata, e.g. { mode, mtime } (see mode.ts)
    * @returns New root CID
    */
   async setEntry(
@@ -587,7 +878,8 @@ export class HashTree {
     name: string,
     entry: CID,
     size: number,
-    type: LinkType = LinkType.Blob
+    type: LinkType = LinkType.Blob,
+    meta?: Record<string, unknown>
   ): Promise<CID> {
     if (root.key) {
       const result = await editEncrypted.setEntryEncrypted(
@@ -599,11 +891,12 @@ export class HashTree {
         entry.hash,
         size,
         entry.key,
-        type
+        type,
+        meta
       );
       return cid(result.hash, result.key);
     }
-    const hash = await edit.setEntry(this.config, root.hash, path, name, entry, size, type);
+    const hash = await edit.setEntry(this.config, root.hash, path, name, entry, size, type, meta);
     return { hash };
   }
 
@@ -687,6 +980,19 @@ export class HashTree {
     return { hash };
   }
 
+  /**
+   * Three-way merge of two roots that diverged from a common base
+   * Non-conflicting changes from theirs are applied onto ours; same-path
+   * edits are returned as conflicts and keep the ours version.
+   * @param base - Common ancestor root
+   * @param ours - Local root (the result keeps its encryption mode)
+   * @param theirs - Remote root
+   * @returns Merged root CID and conflict list
+   */
+  async mergeTrees(base: CID, ours: CID, theirs: CID): Promise<merge.MergeResult> {
+    return merge.mergeTrees(this.config, base, ours, theirs);
+  }
+
   /**
    * Write data at a specific offset in a file
    * Only affected chunks are rewritten - efficient for small patches to large files.
@@ -712,6 +1018,185 @@ export class HashTree {
     return { hash: result.hash };
   }
 
+  /**
+   * Append data to the end of a file
+   * A partial last chunk is filled up; other chunks keep their hashes.
+   * @returns New file CID and size
+   */
+  async appendAt(fileCid: CID, data: Uint8Array): Promise<{ cid: CID; size: number }> {
+    return this.splice(fileCid, { type: 'append', data });
+  }
+
+  /**
+   * Truncate a file to its first `size` bytes
+   * Chunks past the new end are dropped and only the chunk it falls in is rewritten.
+   * @returns New file CID and size
+   */
+  async truncate(fileCid: CID, size: number): Promise<{ cid: CID; size: number }> {
+    return this.splice(fileCid, { type: 'truncate', size });
+  }
+
+  /**
+   * Insert data at an offset, shifting the following bytes
+   * @returns New file CID and size
+   */
+  async insertAt(fileCid: CID, offset: number, data: Uint8Array): Promise<{ cid: CID; size: number }> {
+    return this.splice(fileCid, { type: 'insert', offset, data });
+  }
+
+  /**
+   * Remove bytes [start, end) from a file, shifting the following bytes
+   * @returns New file CID and size
+   */
+  async deleteRange(fileCid: CID, start: number, end: number): Promise<{ cid: CID; size: number }> {
+    return this.splice(fileCid, { type: 'delete', start, end });
+  }
+
+  private async splice(fileCid: CID, edit: writeAtOps.FileEdit): Promise<{ cid: CID; size: number }> {
+    if (fileCid.key) {
+      const result = await writeAtOps.spliceFileEncrypted(this.config, fileCid.hash, fileCid.key, edit);
+      return { cid: cid(result.hash, result.key), size: result.size };
+    }
+    const result = await writeAtOps.spliceFile(this.config, fileCid.hash, edit);
+    return { cid: { hash: result.hash }, size: result.size };
+  }
+
+  /**
+   * Create an inclusion proof that an entry (or a byte range of it) is part of a root
+   * Verify with verifyProof(proof, root, content) - no store needed.
+   * @param root - Root CID the proof is anchored to
+   * @param path - Path to the entry (string like 'a/b.txt' or array)
+   * @param range - Byte range of a file to prove (default: whole entry)
+   */
+  async createProof(root: CID, path: string | string[], range?: ByteRange): Promise<TreeProof> {
+    return createProof(this.store, root, path, range);
+  }
+
+  /**
+   * Create a BitTorrent v2 (optionally hybrid) torrent from a directory or file
+   * @param root - Directory CID (multi-file torrent) or file CID (single-file torrent)
+   * @param options - Torrent name, piece length, hybrid mode and metadata
+   * @returns Bencoded .torrent, infohashes and per-file pieces roots
+   */
+  async createTorrent(root: CID, options: TorrentOptions): Promise<TorrentResult> {
+    return createTorrent(this, root, options);
+  }
+
+  /**
+   * Verify content under root against a v2 torrent's file tree and piece layers
+   * @param root - Directory (or single file) CID holding the torrent's files
+   * @param torrent - Parsed torrent or bencoded .torrent file
+   * @returns Per-file status with the indexes of mismatching pieces
+   */
+  async verifyTorrent(root: CID, torrent: Torrent | Uint8Array): Promise<TorrentFileVerification[]> {
+    return verifyTorrent(this, root, torrent);
+  }
+
+  /**
+   * Rotate the keys of an encrypted tree
+   * Every block is re-encrypted so keys shared before no longer decrypt the tree;
+   * the new root key is wrapped for the requested visibility.
+   * @param root - Encrypted root CID
+   * @param options - Visibility, previous key IDs, self-encryption and resolver to republish to
+   * @returns New root CID, visibility tags, new link key, convergence secret and invalidated key IDs
+   */
+  async rotateKeys(root: CID, options: RotateKeysOptions): Promise<RotateKeysResult> {
+    return rotateTreeKeys(this.store, root, options);
+  }
+
+  /**
+   * Set the convergence secret for later encrypted writes
+   * @param secret - Secret of the tree being edited, undefined for plain CHK
+   */
+  setConvergenceSecret(secret: Uint8Array | undefined): void {
+    this.convergenceSecret = secret;
+  }
+
+  // Pinning and garbage collection
+
+  /**
+   * Pin a root so gc() keeps all of its blocks
+   * Pinning a new root under an existing name replaces the old root.
+   * @param name - Pin name (e.g. "npub1.../treename")
+   * @param id - Root CID (with key for encrypted trees)
+   */
+  pin(name: string, id: CID): void {
+    this.pins.pin(name, id);
+  }
+
+  /**
+   * Remove a pin. Blocks only reachable from it are reclaimed by the next gc().
+   * @returns true if the pin existed
+   */
+  unpin(name: string): boolean {
+    return this.pins.unpin(name);
+  }
+
+  getPins(): PinSet {
+    return this.pins;
+  }
+
+  /**
+   * Protect all blocks of pinned roots from store eviction
+   * Call after changing pins when the store has a maxBytes limit (DexieStore, OpfsStore),
+   * directly or behind a VerifyingStore or TieredStore.
+   * @param keep - Extra individual hashes to protect (non-tree records)
+   * @returns Number of protected blocks, or 0 if the store has no eviction
+   */
+  async protectPinned(keep: Hash[] = []): Promise<number> {
+    const store = this.store;
+    if (!isBoundedStore(store)) return 0;
+
+    const protectedHashes = new Map<string, Hash>();
+    for (const hash of keep) {
+      protectedHashes.set(toHex(hash), hash);
+    }
+    for (const root of this.pins.roots()) {
+      for await (const block of this.walkBlocks(root)) {
+        protectedHashes.set(toHex(block.hash), block.hash);
+      }
+    }
+
+    store.setPinned(protectedHashes.values());
+    return protectedHashes.size;
+  }
+
+  /**
+   * Delete all blocks not reachable from a pinned root
+   *
+   * Marks by walking every pinned root with walkBlocks (following CHK keys
+   * into encrypted trees), then sweeps the rest of the store.
+   * The store must be able to enumerate its keys (MemoryStore, DexieStore, OpfsStore).
+   *
+   * @param options.dryRun - Only report unreachable blocks and reclaimable bytes
+   * @param options.roots - Extra roots to keep for this run
+   * @param options.keep - Individual hashes to keep (non-tree records)
+   */
+  async gc(options: GcOptions = {}): Promise<GcResult> {
+    const store = this.store;
+    if (!isEnumerableStore(store)) {
+      throw new Error('Store does not support key enumeration');
+    }
+
+    // Snapshot keys before marking so blocks written during the walk
+    // (e.g. by a concurrent edit) are never considered for deletion
+    const candidates = await store.keys();
+
+    const reachable = new Set<string>();
+    for (const hash of options.keep ?? []) {
+      reachable.add(toHex(hash));
+    }
+    for (const root of [...this.pins.roots(), ...(options.roots ?? [])]) {
+      for await (const block of this.walkBlocks(root)) {
+        reachable.add(toHex(block.hash));
+      }
+    }
+
+    const dryRun = options.dryRun ?? false;
+    const result = await sweep(store, candidates, reachable, dryRun);
+    return { dryRun, marked: reachable.size, ...result };
+  }
+
   // Utility
 
   getStore(): Store {
@@ -722,15 +1207,48 @@ export class HashTree {
    * Create a streaming file writer for incremental appends
    * Useful for writing large files chunk by chunk (e.g., video recording)
    * @param options.public - if true, create without encryption
-   * @param options.chunker - custom chunker for variable chunk sizes (e.g., videoChunker for faster start)
+   * @param options.chunker - custom chunker for variable chunk sizes (e.g., videoChunker for faster start),
+   *   defaults to the tree's chunker
    */
   createStream(options?: { public?: boolean; chunker?: streaming.Chunker }): StreamWriter {
     return new StreamWriter({
       store: this.store,
       chunkSize: this.chunkSize,
-      chunker: options?.chunker,
+      chunker: options?.chunker ?? this.chunker,
       isPublic: options?.public ?? false,
+      convergenceSecret: this.convergenceSecret,
     });
   }
 }
 
+/**
+ * Decode a stored block as a tree node, decrypting it first if keyed
+ * @returns null for blobs
+ */
+async function decodeBlock(data: Uint8Array, key?: Uint8Array): Promise<TreeNode | null> {
+  return tryDecodeTreeNode(key ? await decryptChk(data, key) : data);
+}
+
+/**
+ * Check if a File root of unknown type holds the bytes of a chunked directory
+ * Only the first chunk is fetched to look for an encoded TreeNode header.
+ * Below the root, the parent link's type tells directories apart instead.
+ */
+async function isChunkedDirectoryRoot(store: Store, node: TreeNode): Promise<boolean> {
+  const first = node.links[0];
+  if (!first || first.type !== LinkType.Blob) return false;
+
+  const raw = await store.get(first.hash);
+  if (!raw) return false;
+
+  let data = raw;
+  if (first.key) {
+    try {
+      data = await decryptChk(raw, first.key);
+    } catch {
+      return false;
+    }
+  }
+
+  return TREE_NODE_PREFIX.every((b, i) => data[i] === b);
+}
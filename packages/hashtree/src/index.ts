@@ -16,6 +16,7 @@ export type {
   StoreWithMeta,
   RefResolver,
   RefResolverListEntry,
+  RefResolverHistoryEntry,
   SubscribeVisibilityInfo,
   // Legacy alias
   RefResolver as RootResolver,
@@ -28,6 +29,23 @@ export {
   cid,
 } from './types.js';
 
+// POSIX mode/mtime metadata of directory entries
+export {
+  S_IFMT,
+  S_IFREG,
+  S_IFDIR,
+  S_IFLNK,
+  DEFAULT_FILE_MODE,
+  DEFAULT_DIR_MODE,
+  DEFAULT_SYMLINK_MODE,
+  entryMode,
+  entryMtime,
+  isExecutable,
+  modeLinkType,
+  posixMeta,
+  type PosixMeta,
+} from './mode.js';
+
 // Hash utilities
 export { sha256 } from './hash.js';
 
@@ -37,6 +55,7 @@ export {
   encryptChk,
   decryptChk,
   contentHash,
+  keyedContentHash,
   encryptedSizeChk,
   // Legacy encryption with random IV (deprecated, use CHK)
   encrypt,
@@ -70,7 +89,22 @@ export {
   type BlossomLogEntry,
   type BlossomLogger,
 } from './store/blossom.js';
-export { DexieStore } from './store/dexie.js';
+export { DexieStore, type DexieStoreOptions } from './store/dexie.js';
+export {
+  VerifyingStore,
+  type VerifyingStoreOptions,
+  type VerifyingStoreEvent,
+  type VerifyingStoreEventHandler,
+} from './store/verifying.js';
+export {
+  TieredStore,
+  type TierConfig,
+  type TierStats,
+  type TieredStoreOptions,
+  type TieredStoreStats,
+  type WritePolicy,
+} from './store/tiered.js';
+export { getMany, putMany, hasMany, mapLimit, DEFAULT_BATCH_SIZE } from './store/batch.js';
 
 // HashTree - unified tree operations (create, read, edit, stream)
 export {
@@ -81,24 +115,83 @@ export {
   type HashTreeConfig,
   type TreeEntry,
   type DirEntry,
+  type DirectoryListOptions,
+  type DirectoryPageOptions,
 } from './hashtree.js';
 
+// Sharded (HAMT) directories
+export { DEFAULT_SHARD_THRESHOLD, isShardNode } from './tree/hamt.js';
+
+// Pinning and garbage collection
+export {
+  PinSet,
+  isEnumerableStore,
+  isBoundedStore,
+  type EnumerableStore,
+  type BoundedStore,
+  type StoreUsage,
+  type GcOptions,
+  type GcResult,
+} from './gc.js';
+
+// Tree diff
+export type { TreeChange, TreeChangeType, DiffOptions } from './tree/diff.js';
+
+// Archive export/import
+export {
+  encodeArchive,
+  importArchive,
+  ARCHIVE_MAGIC,
+  ARCHIVE_VERSION,
+  type ArchiveSource,
+  type ArchiveImportResult,
+} from './archive.js';
+
+// Inclusion proofs
+export { createProof, verifyProof, type TreeProof, type ByteRange } from './proof.js';
+
+// Tree merge
+export type { MergeResult, MergeConflict, MergeConflictType } from './tree/merge.js';
+
 // Stream options for readFileStream
-export type { StreamOptions } from './tree/read.js';
+export { DEFAULT_PREFETCH, type StreamOptions } from './tree/read.js';
 
 // Chunker utilities
 export {
   type Chunker,
+  type IndexChunker,
+  type ContentChunker,
   fixedChunker,
   videoChunker,
+  chunkRanges,
 } from './builder.js';
 
+// Content-defined chunking (FastCDC)
+export {
+  fastCdcChunker,
+  CDC_MIN_SIZE,
+  CDC_AVG_SIZE,
+  CDC_MAX_SIZE,
+  type FastCdcConfig,
+} from './cdc.js';
+
 // WebRTC P2P store
 export {
   WebRTCStore,
   DEFAULT_RELAYS,
   Peer,
   PeerId,
+  PeerReputation,
+  DEFAULT_REPUTATION_CONFIG,
+  SwarmFetcher,
+  DEFAULT_SWARM_CONFIG,
+  NostrSignaling,
+  RTCConnection,
+  RelayTransport,
+  MemoryNetwork,
+  MemoryTransport,
+  WebSocketTransport,
+  attachWebSocketRelay,
   generateUuid,
   type SignalingMessage,
   type WebRTCStoreConfig,
@@ -115,6 +208,23 @@ export {
   type PeerClassifier,
   type PoolConfig,
   type WebRTCStats,
+  type ReputationConfig,
+  type PeerReputationStats,
+  type SwarmPeer,
+  type SwarmConfig,
+  type SwarmFetchOptions,
+  type SwarmStats,
+  type Transport,
+  type SignalingTransport,
+  type SignalingHandler,
+  type DataConnection,
+  type ConnectionOptions,
+  type ConnectionState,
+  type NostrSignalingConfig,
+  type MemoryNetworkOptions,
+  type WebSocketTransportConfig,
+  type RelayServer,
+  type RelaySocket,
 } from './webrtc/index.js';
 
 // BEP52 (BitTorrent v2) compatible merkle tree
@@ -132,6 +242,21 @@ export {
 // Re-export low-level BEP52 merkle functions as namespace
 export * as bep52 from './bep52.js';
 
+// BitTorrent v2 .torrent files
+export {
+  createTorrent,
+  parseTorrent,
+  verifyTorrent,
+  DEFAULT_PIECE_LENGTH,
+  type Torrent,
+  type TorrentFile,
+  type TorrentOptions,
+  type TorrentResult,
+  type TorrentFileStatus,
+  type TorrentFileVerification,
+} from './torrent.js';
+export { bencode, bdecode, type BencodeValue, type BencodeMap, type BdecodeOptions } from './bencode.js';
+
 // Ref resolvers
 export {
   createNostrRefResolver,
@@ -140,20 +265,24 @@ export {
   type NostrRefResolverConfig,
   // Legacy alias
   type NostrRefResolverConfig as NostrRootResolverConfig,
+  ROOT_HISTORY_KIND,
   type NostrEvent,
   type NostrFilter,
   type Nip19Like,
 } from './resolver/index.js';
 
-// Bech32 identifiers (nhash, npath)
+// Bech32 identifiers (nhash, npath, nsnap)
 export {
   nhashEncode,
   nhashDecode,
   npathEncode,
   npathDecode,
+  nsnapEncode,
+  nsnapDecode,
   decode,
   isNHash,
   isNPath,
+  isNSnap,
   NHashTypeGuard,
   BECH32_REGEX,
   type NHashData,
@@ -170,6 +299,27 @@ export {
   hex as visibilityHex,
   type TreeVisibility,
 } from './visibility.js';
+export {
+  reencryptTree,
+  rotateTreeKeys,
+  type ReencryptResult,
+  type RotateKeysOptions,
+  type RotateKeysResult,
+} from './rotate.js';
+
+// Signed tree snapshots
+export {
+  TREE_SNAPSHOT_KIND,
+  snapshotEventTemplate,
+  createTreeSnapshot,
+  snapshotToEvent,
+  snapshotFromEvent,
+  verifyTreeSnapshot,
+  type TreeSnapshot,
+  type SnapshotEvent,
+  type SnapshotEventTemplate,
+  type SnapshotSigner,
+} from './snapshot.js';
 
 // Worker protocol types (for main thread ↔ worker communication)
 export type {
@@ -182,6 +332,8 @@ export type {
   PeerStats as WorkerPeerStats,
   RelayStats as WorkerRelayStats,
   DirEntry as WorkerDirEntry,
+  TreePin as WorkerTreePin,
+  GcReport as WorkerGcReport,
   SocialGraphEvent as WorkerSocialGraphEvent,
   MediaRequest,
   MediaResponse,
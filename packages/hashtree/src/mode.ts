@@ -0,0 +1,109 @@
+/**
+ * POSIX file metadata for directory entries
+ *
+ * Entries may carry `mode` (full st_mode including the file type bits, e.g.
+ * 0o100755) and `mtime` (unix seconds) in Link.meta, so executable bits and
+ * modification times survive a round trip from git repos and archives.
+ * Entries without them get the defaults below.
+ *
+ * A symlink is a LinkType.Symlink entry pointing to a blob that holds the
+ * UTF-8 target path.
+ */
+
+import { LinkType } from './types.js';
+
+/** File type bits of st_mode */
+export const S_IFMT = 0o170000;
+export const S_IFREG = 0o100000;
+export const S_IFDIR = 0o040000;
+export const S_IFLNK = 0o120000;
+
+/** Default modes by entry type */
+export const DEFAULT_FILE_MODE = 0o100644;
+export const DEFAULT_DIR_MODE = 0o040755;
+export const DEFAULT_SYMLINK_MODE = 0o120777;
+
+/** Standard POSIX fields of Link.meta */
+export interface PosixMeta {
+  /** st_mode including file type bits */
+  mode?: number;
+  /** Modification time in unix seconds */
+  mtime?: number;
+}
+
+/** Anything with a link type and optional meta: Link, DirEntry, TreeEntry */
+interface EntryLike {
+  type: LinkType;
+  meta?: Record<string, unknown>;
+}
+
+function defaultMode(type: LinkType): number {
+  if (type === LinkType.Dir) return DEFAULT_DIR_MODE;
+  if (type === LinkType.Symlink) return DEFAULT_SYMLINK_MODE;
+  return DEFAULT_FILE_MODE;
+}
+
+/**
+ * Get the st_mode of an entry
+ * Stored permission bits are kept; the file type bits always follow the link type.
+ */
+export function entryMode(entry: EntryLike): number {
+  const mode = entry.meta?.mode;
+  if (typeof mode !== 'number' || !Number.isInteger(mode) || mode < 0) {
+    return defaultMode(entry.type);
+  }
+  return (defaultMode(entry.type) & S_IFMT) | (mode & 0o7777);
+}
+
+/**
+ * Get the modification time of an entry in unix seconds, if recorded
+ */
+export function entryMtime(entry: EntryLike): number | undefined {
+  const mtime = entry.meta?.mtime;
+  return typeof mtime === 'number' && Number.isFinite(mtime) ? mtime : undefined;
+}
+
+/**
+ * Whether an entry is an executable file
+ */
+export function isExecutable(entry: EntryLike): boolean {
+  return entry.type !== LinkType.Dir && entry.type !== LinkType.Symlink && (entryMode(entry) & 0o111) !== 0;
+}
+
+/**
+ * Get the link type for a st_mode
+ */
+export function modeLinkType(mode: number): LinkType {
+  switch (mode & S_IFMT) {
+    case S_IFDIR: return LinkType.Dir;
+    case S_IFLNK: return LinkType.Symlink;
+    default: return LinkType.File;
+  }
+}
+
+/**
+ * Build entry meta from POSIX fields
+ * Drops the mode if it's the default for the type, and rounds mtime down to seconds.
+ * @param type - Link type of the entry
+ * @param posix - Mode and/or mtime
+ * @param meta - Other meta to merge in
+ * @returns Meta, or undefined if empty
+ */
+export function posixMeta(
+  type: LinkType,
+  posix: PosixMeta,
+  meta?: Record<string, unknown>
+): Record<string, unknown> | undefined {
+  const result: Record<string, unknown> = { ...meta };
+  if (posix.mode !== undefined) {
+    if ((posix.mode & 0o7777) === (defaultMode(type) & 0o7777)) {
+      delete result.mode;
+    } else {
+      result.mode = (defaultMode(type) & S_IFMT) | (posix.mode & 0o7777);
+    }
+  }
+  if (posix.mtime !== undefined && Number.isFinite(posix.mtime)) {
+    result.mtime = Math.floor(posix.mtime);
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
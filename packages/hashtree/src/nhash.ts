@@ -7,11 +7,13 @@
  * Types:
  * - nhash: Permalink (hash + optional decrypt key)
  * - npath: Live reference (pubkey + tree + path + optional decrypt key)
+ * - nsnap: Signed snapshot (pubkey + tree + hash + time + signature + optional decrypt key)
  */
 
 import { bech32 } from '@scure/base';
 import { bytesToHex, hexToBytes, concatBytes } from '@noble/hashes/utils.js';
 import type { Hash, CID } from './types.js';
+import type { TreeSnapshot } from './snapshot.js';
 
 const BECH32_MAX_SIZE = 5000;
 const utf8Encoder = new TextEncoder();
@@ -29,6 +31,10 @@ const TLV = {
   PATH: 4,
   /** 32-byte decryption key (optional) */
   DECRYPT_KEY: 5,
+  /** 4-byte big-endian unix timestamp (required for nsnap) */
+  CREATED_AT: 6,
+  /** 64-byte schnorr signature (required for nsnap) */
+  SIGNATURE: 7,
 } as const;
 
 /**
@@ -58,7 +64,8 @@ export interface NPathData {
 
 export type DecodeResult =
   | { type: 'nhash'; data: CID }
-  | { type: 'npath'; data: NPathData };
+  | { type: 'npath'; data: NPathData }
+  | { type: 'nsnap'; data: TreeSnapshot };
 
 /**
  * Parse TLV-encoded data into a map of type -> values[]
@@ -341,12 +348,108 @@ export function npathDecode(code: string): NPathData {
   return result;
 }
 
+// ============================================================================
+// nsnap - Signed snapshot (see snapshot.ts)
+// ============================================================================
+
+/**
+ * Encode a signed tree snapshot
+ * Carries everything needed to verify it offline with verifyTreeSnapshot.
+ */
+export function nsnapEncode(snapshot: TreeSnapshot): string {
+  const pubkeyBytes = hexToBytes(snapshot.pubkey);
+  if (pubkeyBytes.length !== 32) {
+    throw new Error(`Pubkey must be 32 bytes, got ${pubkeyBytes.length}`);
+  }
+  if (snapshot.cid.hash.length !== 32) {
+    throw new Error(`Hash must be 32 bytes, got ${snapshot.cid.hash.length}`);
+  }
+  const sigBytes = hexToBytes(snapshot.sig);
+  if (sigBytes.length !== 64) {
+    throw new Error(`Signature must be 64 bytes, got ${sigBytes.length}`);
+  }
+  if (!Number.isInteger(snapshot.createdAt) || snapshot.createdAt < 0 || snapshot.createdAt > 0xffffffff) {
+    throw new Error(`Invalid snapshot timestamp: ${snapshot.createdAt}`);
+  }
+
+  const createdAt = new Uint8Array(4);
+  new DataView(createdAt.buffer).setUint32(0, snapshot.createdAt);
+
+  const tlv: Record<number, Uint8Array[]> = {
+    [TLV.HASH]: [snapshot.cid.hash],
+    [TLV.PUBKEY]: [pubkeyBytes],
+    [TLV.TREE_NAME]: [utf8Encoder.encode(snapshot.treeName)],
+    [TLV.CREATED_AT]: [createdAt],
+    [TLV.SIGNATURE]: [sigBytes],
+  };
+
+  if (snapshot.cid.key) {
+    if (snapshot.cid.key.length !== 32) {
+      throw new Error(`Decrypt key must be 32 bytes, got ${snapshot.cid.key.length}`);
+    }
+    tlv[TLV.DECRYPT_KEY] = [snapshot.cid.key];
+  }
+
+  return encodeBech32('nsnap', encodeTLV(tlv));
+}
+
+/**
+ * Decode an nsnap string
+ * Does not check the signature - use verifyTreeSnapshot for that.
+ */
+export function nsnapDecode(code: string): TreeSnapshot {
+  if (code.startsWith('hashtree:')) {
+    code = code.substring(9);
+  }
+
+  const { prefix, words } = bech32.decode(code as `${string}1${string}`, BECH32_MAX_SIZE);
+
+  if (prefix !== 'nsnap') {
+    throw new Error(`Expected nsnap prefix, got ${prefix}`);
+  }
+
+  const tlv = parseTLV(new Uint8Array(bech32.fromWords(words)));
+
+  if (!tlv[TLV.HASH]?.[0] || tlv[TLV.HASH][0].length !== 32) {
+    throw new Error('nsnap: missing or invalid hash');
+  }
+  if (!tlv[TLV.PUBKEY]?.[0] || tlv[TLV.PUBKEY][0].length !== 32) {
+    throw new Error('nsnap: missing or invalid pubkey');
+  }
+  if (!tlv[TLV.TREE_NAME]?.[0]) {
+    throw new Error('nsnap: missing tree name');
+  }
+  if (!tlv[TLV.CREATED_AT]?.[0] || tlv[TLV.CREATED_AT][0].length !== 4) {
+    throw new Error('nsnap: missing or invalid timestamp');
+  }
+  if (!tlv[TLV.SIGNATURE]?.[0] || tlv[TLV.SIGNATURE][0].length !== 64) {
+    throw new Error('nsnap: missing or invalid signature');
+  }
+
+  const cid: CID = { hash: tlv[TLV.HASH][0] };
+  if (tlv[TLV.DECRYPT_KEY]?.[0]) {
+    if (tlv[TLV.DECRYPT_KEY][0].length !== 32) {
+      throw new Error('nsnap: decrypt key must be 32 bytes');
+    }
+    cid.key = tlv[TLV.DECRYPT_KEY][0];
+  }
+
+  const createdAt = tlv[TLV.CREATED_AT][0];
+  return {
+    pubkey: bytesToHex(tlv[TLV.PUBKEY][0]),
+    treeName: utf8Decoder.decode(tlv[TLV.TREE_NAME][0]),
+    cid,
+    createdAt: new DataView(createdAt.buffer, createdAt.byteOffset, 4).getUint32(0),
+    sig: bytesToHex(tlv[TLV.SIGNATURE][0]),
+  };
+}
+
 // ============================================================================
 // Generic decode
 // ============================================================================
 
 /**
- * Decode any nhash or npath string
+ * Decode any nhash, npath or nsnap string
  */
 export function decode(code: string): DecodeResult {
   if (code.startsWith('hashtree:')) {
@@ -359,8 +462,11 @@ export function decode(code: string): DecodeResult {
   if (code.startsWith('npath1')) {
     return { type: 'npath', data: npathDecode(code) };
   }
+  if (code.startsWith('nsnap1')) {
+    return { type: 'nsnap', data: nsnapDecode(code) };
+  }
 
-  throw new Error(`Unknown prefix, expected nhash1 or npath1`);
+  throw new Error(`Unknown prefix, expected nhash1, npath1 or nsnap1`);
 }
 
 // ============================================================================
@@ -375,9 +481,14 @@ export function isNPath(value: string | undefined | null): boolean {
   return /^npath1[a-z\d]+$/.test(value || '');
 }
 
+export function isNSnap(value: string | undefined | null): boolean {
+  return /^nsnap1[a-z\d]+$/.test(value || '');
+}
+
 export const NHashTypeGuard = {
   isNHash,
   isNPath,
+  isNSnap,
 };
 
 export const BECH32_REGEX = /[\x21-\x7E]{1,83}1[023456789acdefghjklmnpqrstuvwxyz]{6,}/;
@@ -0,0 +1,277 @@
+/**
+ * Merkle inclusion proofs for hashtree trees
+ *
+ * A proof is the set of blocks needed to walk from a root to an entry:
+ * the directory nodes along the path, and for byte ranges the file tree
+ * nodes covering the range. Data chunks fully inside the proven range are
+ * left out - the verifier recomputes their hashes from the content itself.
+ * Blocks are included as stored, so proofs for encrypted trees stay
+ * encrypted and are verified with the root CID key.
+ */
+
+import { Store, Hash, CID, Link, LinkType, TreeNode, toHex, hashEquals, cid } from './types.js';
+import { tryDecodeTreeNode } from './codec.js';
+import { sha256 } from './hash.js';
+import { encryptWithChkKey, decryptChk } from './crypto.js';
+import { MemoryStore } from './store/memory.js';
+import { getDirectoryEntry } from './tree/read.js';
+import { getDirectoryEntryEncrypted } from './encrypted.js';
+
+export interface ByteRange {
+  /** First byte (inclusive) */
+  start: number;
+  /** Last byte (exclusive) */
+  end: number;
+}
+
+export interface TreeProof {
+  /** Path from the root to the proven entry */
+  path: string[];
+  /** Proven byte range of the entry; whole entry if omitted */
+  range?: ByteRange;
+  /** Blocks as stored (SHA256(block) is the block's hash) */
+  nodes: Uint8Array[];
+}
+
+/**
+ * Store wrapper that remembers every block read through it
+ */
+class RecordingStore implements Store {
+  readonly blocks = new Map<string, Uint8Array>();
+
+  constructor(private source: Store) {}
+
+  async put(hash: Hash, data: Uint8Array): Promise<boolean> {
+    return this.source.put(hash, data);
+  }
+
+  async get(hash: Hash): Promise<Uint8Array | null> {
+    const data = await this.source.get(hash);
+    if (data) this.blocks.set(toHex(hash), data);
+    return data;
+  }
+
+  async has(hash: Hash): Promise<boolean> {
+    return this.source.has(hash);
+  }
+
+  async delete(hash: Hash): Promise<boolean> {
+    return this.source.delete(hash);
+  }
+}
+
+function splitPath(path: string | string[]): string[] {
+  return Array.isArray(path) ? path : path.split('/').filter(p => p.length > 0);
+}
+
+async function readBlock(store: Store, id: { hash: Hash; key?: Uint8Array }): Promise<Uint8Array> {
+  const data = await store.get(id.hash);
+  if (!data) {
+    throw new Error(`Missing chunk: ${toHex(id.hash)}`);
+  }
+  return id.key ? decryptChk(data, id.key) : data;
+}
+
+/**
+ * Get a directory entry, public or encrypted
+ * Only the shard buckets on the name's path are read, so proofs stay small.
+ */
+async function getEntry(store: Store, dir: CID, name: string): Promise<{ cid: CID; type?: LinkType } | null> {
+  if (dir.key) {
+    const e = await getDirectoryEntryEncrypted(store, dir.hash, dir.key, name);
+    return e ? { cid: cid(e.hash, e.key), type: e.type } : null;
+  }
+  return getDirectoryEntry(store, dir.hash, name);
+}
+
+/**
+ * Walk a directory path, returning the entry CID and type
+ */
+async function resolveEntry(
+  store: Store,
+  root: CID,
+  path: string[]
+): Promise<{ cid: CID; type?: LinkType }> {
+  let current = root;
+  let type: LinkType | undefined;
+  for (let i = 0; i < path.length; i++) {
+    const entry = await getEntry(store, current, path[i]);
+    if (!entry) {
+      throw new Error(`Path not found: ${path.slice(0, i + 1).join('/')}`);
+    }
+    current = entry.cid;
+    type = entry.type;
+  }
+  return { cid: current, type };
+}
+
+/**
+ * Visit the data chunks of a file tree that overlap [start, end)
+ */
+async function visitLeaves(
+  node: TreeNode,
+  start: number,
+  end: number,
+  loadNode: (link: Link) => Promise<TreeNode>,
+  visit: (link: Link, position: number) => Promise<void>,
+  position = 0
+): Promise<number> {
+  for (const link of node.links) {
+    const linkEnd = position + link.size;
+    if (linkEnd > start && position < end) {
+      if (link.type === LinkType.Blob) {
+        await visit(link, position);
+      } else {
+        await visitLeaves(await loadNode(link), start, end, loadNode, visit, position);
+      }
+    }
+    position = linkEnd;
+  }
+  return position;
+}
+
+function fileNode(data: Uint8Array, type?: LinkType): TreeNode | null {
+  if (type === LinkType.Blob) return null;
+  const node = tryDecodeTreeNode(data);
+  return node?.type === LinkType.File ? node : null;
+}
+
+/**
+ * Create an inclusion proof for an entry (and optionally a byte range of it)
+ * @param store - Storage backend holding the tree
+ * @param root - Root CID the proof is anchored to
+ * @param path - Path to the entry (empty for the root itself)
+ * @param range - Byte range of a file entry to prove
+ */
+export async function createProof(
+  store: Store,
+  root: CID,
+  path: string | string[],
+  range?: ByteRange
+): Promise<TreeProof> {
+  const parts = splitPath(path);
+  const recorder = new RecordingStore(store);
+  const target = await resolveEntry(recorder, root, parts);
+
+  if (range && (range.start < 0 || range.end < range.start)) {
+    throw new Error(`Invalid range: ${range.start}-${range.end}`);
+  }
+  if (range && target.type === LinkType.Dir) {
+    throw new Error('Byte range proofs require a file');
+  }
+
+  // Without a range, prove the whole file
+  if (target.type !== LinkType.Dir) {
+    const { start, end } = range ?? { start: 0, end: Infinity };
+    const hex = toHex(target.cid.hash);
+    const recorded = recorder.blocks.has(hex);
+    const data = await readBlock(recorder, target.cid);
+    const node = fileNode(data, target.type);
+    if (node) {
+      const loadNode = async (link: Link) => tryDecodeTreeNode(await readBlock(recorder, link))!;
+      await visitLeaves(node, start, end, loadNode, async (link, position) => {
+        // Partially covered chunks can't be recomputed from the content
+        if (position < start || position + link.size > end) {
+          await readBlock(recorder, link);
+        }
+      });
+    } else if (!recorded && start === 0 && end >= data.length) {
+      recorder.blocks.delete(hex);
+    }
+  }
+
+  return {
+    path: parts,
+    range,
+    nodes: [...recorder.blocks.values()],
+  };
+}
+
+/**
+ * Check a data chunk against content, or against its proof block
+ */
+async function verifyLeaf(
+  blocks: Store,
+  link: { hash: Hash; key?: Uint8Array },
+  content: Uint8Array,
+  offset: number,
+  full: boolean
+): Promise<boolean> {
+  if (full) {
+    if (!link.key) {
+      return hashEquals(await sha256(content), link.hash);
+    }
+    // The link's key may be keyed by a convergence secret, so encrypt with it rather than re-deriving it
+    const ciphertext = await encryptWithChkKey(content, link.key);
+    return hashEquals(await sha256(ciphertext), link.hash);
+  }
+  const data = await readBlock(blocks, link);
+  if (offset + content.length > data.length) return false;
+  return content.every((byte, i) => data[offset + i] === byte);
+}
+
+/**
+ * Verify an inclusion proof without access to a store
+ *
+ * Checks that every proof block hashes to a link reachable from the root,
+ * that the path resolves, and - if content is given - that the content is
+ * exactly the proven range (or the whole entry when the proof has no range).
+ *
+ * @param proof - Proof from createProof
+ * @param root - Trusted root CID (e.g. from a signed snapshot)
+ * @param content - Entry content or proven range bytes
+ * @returns True if the proof is valid
+ */
+export async function verifyProof(
+  proof: TreeProof,
+  root: CID,
+  content?: Uint8Array
+): Promise<boolean> {
+  // Blocks are keyed by their own hash, so a block can only be used where its hash is linked
+  const blocks = new MemoryStore();
+  for (const node of proof.nodes) {
+    await blocks.put(await sha256(node), node);
+  }
+
+  try {
+    const target = await resolveEntry(blocks, root, proof.path);
+    if (!content) return true;
+    if (target.type === LinkType.Dir) return false;
+
+    const start = proof.range?.start ?? 0;
+    const end = proof.range ? proof.range.end : start + content.length;
+    if (end - start !== content.length) return false;
+
+    const stored = await blocks.get(target.cid.hash);
+    const data = stored && (target.cid.key ? await decryptChk(stored, target.cid.key) : stored);
+    const node = data ? fileNode(data, target.type) : null;
+
+    if (!node) {
+      // Single chunk entry - without a range the content must be the whole chunk,
+      // even if the proof carries the chunk itself
+      if (!proof.range && data && content.length !== data.length) return false;
+      const full = !data || !proof.range || (start === 0 && end === data.length);
+      return verifyLeaf(blocks, target.cid, content, start, full);
+    }
+
+    let valid = true;
+    const loadNode = async (link: Link) => {
+      const child = tryDecodeTreeNode(await readBlock(blocks, link));
+      if (!child) throw new Error(`Invalid tree node: ${toHex(link.hash)}`);
+      return child;
+    };
+    const size = await visitLeaves(node, start, end, loadNode, async (link, position) => {
+      const from = Math.max(position, start);
+      const to = Math.min(position + link.size, end);
+      const full = position >= start && position + link.size <= end;
+      const ok = await verifyLeaf(blocks, link, content.subarray(from - start, to - start), from - position, full);
+      valid = valid && ok;
+    });
+
+    // The range must lie inside the file; without a range the content must be the whole file
+    if (end > size || (!proof.range && end !== size)) return false;
+    return valid;
+  } catch {
+    return false;
+  }
+}
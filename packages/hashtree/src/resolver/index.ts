@@ -3,6 +3,7 @@
  */
 export {
   createNostrRefResolver,
+  ROOT_HISTORY_KIND,
   type NostrRefResolverConfig,
   type ParsedTreeVisibility,
   // Legacy aliases
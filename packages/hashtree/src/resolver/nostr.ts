@@ -7,7 +7,13 @@
  * render cycle. Components can subscribe to hash changes and update directly
  * (e.g., MediaSource append) without triggering re-renders.
  */
-import type { RefResolver, CID, RefResolverListEntry, SubscribeVisibilityInfo } from '../types.js';
+import type {
+  RefResolver,
+  CID,
+  RefResolverListEntry,
+  RefResolverHistoryEntry,
+  SubscribeVisibilityInfo,
+} from '../types.js';
 import { fromHex, toHex, cid } from '../types.js';
 
 // Nostr event structure (minimal)
@@ -60,6 +66,8 @@ export interface ParsedTreeVisibility {
   keyId?: string;
   /** Self-encrypted key (for private trees) - decrypt with NIP-04 */
   selfEncryptedKey?: string;
+  /** Root key NIP-44 encrypted per recipient pubkey (for shared trees) */
+  recipientKeys?: Record<string, string>;
 }
 
 /**
@@ -75,11 +83,23 @@ function parseHashAndVisibility(event: NostrEvent): ParsedTreeVisibility | null
   const keyId = event.tags.find(t => t[0] === 'keyId')?.[1];
   const selfEncryptedKey = event.tags.find(t => t[0] === 'selfEncryptedKey')?.[1];
 
+  // ["recipientKey", <pubkey hex>, <NIP-44 encrypted root key>], one per member
+  let recipientKeys: Record<string, string> | undefined;
+  for (const tag of event.tags) {
+    if (tag[0] === 'recipientKey' && tag[1] && tag[2]) {
+      recipientKeys ??= {};
+      recipientKeys[tag[1]] = tag[2];
+    }
+  }
+
   let visibility: TreeVisibility;
   if (encryptedKey) {
     // encryptedKey means link-visible (shareable via link)
     // May also have selfEncryptedKey for owner access
     visibility = 'link-visible';
+  } else if (recipientKeys) {
+    // Per-recipient keys mean shared with a list of members
+    visibility = 'shared';
   } else if (selfEncryptedKey) {
     // Only selfEncryptedKey (no encryptedKey) means private
     visibility = 'private';
@@ -87,7 +107,7 @@ function parseHashAndVisibility(event: NostrEvent): ParsedTreeVisibility | null
     visibility = 'public';
   }
 
-  return { hash: hashTag, visibility, key, encryptedKey, keyId, selfEncryptedKey };
+  return { hash: hashTag, visibility, key, encryptedKey, keyId, selfEncryptedKey, recipientKeys };
 }
 
 /**
@@ -100,6 +120,20 @@ function parseHashAndKey(event: NostrEvent): { hash: string; key?: string } | nu
   return { hash: result.hash, key: result.key };
 }
 
+/** Roots kept per key for history() */
+const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * Regular (non-replaceable) event kind recording every published root
+ * Relays keep only the latest kind-30078 event per tree, so history() reads
+ * these. They carry the same tags as the root event, so the kind has to
+ * differ from TREE_SNAPSHOT_KIND: a snapshot is not a published root.
+ */
+export const ROOT_HISTORY_KIND = 1079;
+
+/** Default time history() waits for relay events */
+const DEFAULT_HISTORY_TIMEOUT = 3000;
+
 /** Event type for publishing (created_at optional - usually auto-set by NDK) */
 export type NostrPublishEvent = Omit<NostrEvent, 'id' | 'pubkey' | 'created_at'> & { created_at?: number };
 
@@ -138,6 +172,48 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
   // Key is npub, value is map of tree name -> entry
   const localListCache = new Map<string, Map<string, ParsedTreeVisibility & { created_at: number }>>();
 
+  // Roots seen or published per key, by hash (see history())
+  const rootHistory = new Map<string, Map<string, RefResolverHistoryEntry>>();
+
+  /**
+   * Remember a root for history(), keeping the latest time per root
+   */
+  function recordHistory(key: string, data: ParsedTreeVisibility, createdAt: number): void {
+    if (!data.hash) return;
+
+    let entries = rootHistory.get(key);
+    if (!entries) {
+      entries = new Map();
+      rootHistory.set(key, entries);
+    }
+    const existing = entries.get(data.hash);
+    if (existing && existing.createdAt >= createdAt) return;
+
+    entries.set(data.hash, {
+      cid: cid(fromHex(data.hash), data.key ? fromHex(data.key) : undefined),
+      createdAt,
+      visibilityInfo: {
+        visibility: data.visibility,
+        encryptedKey: data.encryptedKey,
+        keyId: data.keyId,
+        selfEncryptedKey: data.selfEncryptedKey,
+        recipientKeys: data.recipientKeys,
+      },
+    });
+
+    if (entries.size > MAX_HISTORY_ENTRIES) {
+      let oldest: RefResolverHistoryEntry | undefined;
+      let oldestHash = '';
+      for (const [hash, entry] of entries) {
+        if (!oldest || entry.createdAt < oldest.createdAt) {
+          oldest = entry;
+          oldestHash = hash;
+        }
+      }
+      entries.delete(oldestHash);
+    }
+  }
+
   /**
    * Parse a pointer key into pubkey and tree name
    * Key format: "npub1.../treename" or "npub1.../path/to/treename"
@@ -262,6 +338,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
             if (!visibilityData) return;
 
             const eventCreatedAt = event.created_at || 0;
+            recordHistory(key, visibilityData, eventCreatedAt);
             const newHash = visibilityData.hash;
             const newKey = visibilityData.key;
 
@@ -277,6 +354,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
                 encryptedKey: visibilityData.encryptedKey,
                 keyId: visibilityData.keyId,
                 selfEncryptedKey: visibilityData.selfEncryptedKey,
+                recipientKeys: visibilityData.recipientKeys,
               };
               subEntry.currentVisibility = visibilityInfo;
 
@@ -294,6 +372,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
                 encryptedKey: visibilityData.encryptedKey,
                 keyId: visibilityData.keyId,
                 selfEncryptedKey: visibilityData.selfEncryptedKey,
+                recipientKeys: visibilityData.recipientKeys,
                 created_at: eventCreatedAt,
               });
 
@@ -316,6 +395,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
             encryptedKey: cachedEntry.encryptedKey,
             keyId: cachedEntry.keyId,
             selfEncryptedKey: cachedEntry.selfEncryptedKey,
+            recipientKeys: cachedEntry.recipientKeys,
           } : null,
           latestCreatedAt: cachedEntry?.created_at ?? 0,
         };
@@ -372,15 +452,18 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
         npubCache = new Map();
         localListCache.set(npubStr, npubCache);
       }
-      npubCache.set(treeName, {
+      const entry = {
         hash: hashHex,
         visibility: visibilityInfo?.visibility ?? 'public',
         key: keyHex,
         encryptedKey: visibilityInfo?.encryptedKey,
         keyId: visibilityInfo?.keyId,
         selfEncryptedKey: visibilityInfo?.selfEncryptedKey,
+        recipientKeys: visibilityInfo?.recipientKeys,
         created_at: now,
-      });
+      };
+      npubCache.set(treeName, entry);
+      recordHistory(key, entry, now);
 
       // Update active subscription state
       const sub = subscriptions.get(key);
@@ -417,6 +500,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
             encryptedKey: visibilityInfo?.encryptedKey,
             keyId: visibilityInfo?.keyId,
             selfEncryptedKey: visibilityInfo?.selfEncryptedKey,
+            recipientKeys: visibilityInfo?.recipientKeys,
             created_at: now,
           });
           // Emit updated state immediately to ALL callbacks
@@ -430,6 +514,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
               encryptedKey: entry.encryptedKey,
               keyId: entry.keyId,
               selfEncryptedKey: entry.selfEncryptedKey,
+              recipientKeys: entry.recipientKeys,
               createdAt: entry.created_at,
             });
           }
@@ -452,15 +537,36 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
           ['l', 'hashtree'],
           ['hash', hashHex],
         ];
-        if (keyHex) {
+        // Only public trees carry the plain key; the others carry it wrapped
+        const visibility = visibilityInfo?.visibility ?? 'public';
+        if (keyHex && visibility === 'public') {
           tags.push(['key', keyHex]);
         }
+        if (visibilityInfo?.encryptedKey) {
+          tags.push(['encryptedKey', visibilityInfo.encryptedKey]);
+        }
+        if (visibilityInfo?.keyId) {
+          tags.push(['keyId', visibilityInfo.keyId]);
+        }
+        if (visibilityInfo?.selfEncryptedKey) {
+          tags.push(['selfEncryptedKey', visibilityInfo.selfEncryptedKey]);
+        }
+        for (const [pubkey, sealed] of Object.entries(visibilityInfo?.recipientKeys ?? {})) {
+          tags.push(['recipientKey', pubkey, sealed]);
+        }
 
         nostrPublish({
           kind: 30078,
           content: '',
           tags,
+          created_at: now,
         }).catch(e => console.error('Failed to publish to nostr:', e));
+        nostrPublish({
+          kind: ROOT_HISTORY_KIND,
+          content: '',
+          tags,
+          created_at: now,
+        }).catch(e => console.error('Failed to publish root history to nostr:', e));
       }
 
       return true; // Optimistic - local cache updated
@@ -514,6 +620,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
             encryptedKey: entry.encryptedKey,
             keyId: entry.keyId,
             selfEncryptedKey: entry.selfEncryptedKey,
+            recipientKeys: entry.recipientKeys,
             createdAt: entry.created_at,
           });
         }
@@ -554,6 +661,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
             encryptedKey: entry.encryptedKey,
             keyId: entry.keyId,
             selfEncryptedKey: entry.selfEncryptedKey,
+            recipientKeys: entry.recipientKeys,
             createdAt: entry.created_at,
           });
         }
@@ -586,6 +694,9 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
           const hasHash = !!parsed?.hash;
           const existing = entriesByDTag.get(dTag);
           const eventTime = event.created_at || 0;
+          if (parsed) {
+            recordHistory(`${npubStr}/${dTag}`, parsed, eventTime);
+          }
 
           // Timestamp-based update logic:
           // 1. Accept if no existing entry
@@ -623,6 +734,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
             encryptedKey: parsed?.encryptedKey,
             keyId: parsed?.keyId,
             selfEncryptedKey: parsed?.selfEncryptedKey,
+            recipientKeys: parsed?.recipientKeys,
             created_at: eventTime,
           };
           entriesByDTag.set(dTag, entryData);
@@ -668,6 +780,38 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
       listSubscriptions.clear();
     },
 
+    /**
+     * Get the roots published under a key, newest first
+     * Queries relays for the key's root and history events and merges them
+     * with roots seen or published during this session.
+     */
+    async history(key: string, timeoutMs = DEFAULT_HISTORY_TIMEOUT): Promise<RefResolverHistoryEntry[]> {
+      const parsed = parseKey(key);
+      if (!parsed) return [];
+
+      const { pubkey, treeName } = parsed;
+      const unsubscribe = nostrSubscribe(
+        {
+          kinds: [30078, ROOT_HISTORY_KIND],
+          authors: [pubkey],
+          '#d': [treeName],
+          '#l': ['hashtree'],
+        },
+        (event) => {
+          const dTag = event.tags.find(t => t[0] === 'd')?.[1];
+          if (dTag !== treeName) return;
+          const data = parseHashAndVisibility(event);
+          if (data) recordHistory(key, data, event.created_at || 0);
+        }
+      );
+
+      await new Promise(resolve => setTimeout(resolve, timeoutMs));
+      unsubscribe();
+
+      const entries = [...(rootHistory.get(key)?.values() ?? [])];
+      return entries.sort((a, b) => b.createdAt - a.createdAt);
+    },
+
     /**
      * Delete a tree by publishing event without hash tag
      * This nullifies the tree - it will be filtered from list results
@@ -733,6 +877,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
             encryptedKey: entry.encryptedKey,
             keyId: entry.keyId,
             selfEncryptedKey: entry.selfEncryptedKey,
+            recipientKeys: entry.recipientKeys,
             createdAt: entry.created_at,
           });
         }
@@ -798,6 +943,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
           encryptedKey: entry.encryptedKey,
           keyId: entry.keyId,
           selfEncryptedKey: entry.selfEncryptedKey,
+          recipientKeys: entry.recipientKeys,
           created_at: now,
         });
       }
@@ -822,6 +968,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
             encryptedKey: entry.encryptedKey,
             keyId: entry.keyId,
             selfEncryptedKey: entry.selfEncryptedKey,
+            recipientKeys: entry.recipientKeys,
             created_at: now,
           });
           // Emit updated state to ALL callbacks
@@ -835,6 +982,7 @@ export function createNostrRefResolver(config: NostrRefResolverConfig): RefResol
               encryptedKey: e.encryptedKey,
               keyId: e.keyId,
               selfEncryptedKey: e.selfEncryptedKey,
+              recipientKeys: e.recipientKeys,
               createdAt: e.created_at,
             });
           }
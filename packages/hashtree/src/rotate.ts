@@ -0,0 +1,226 @@
+/**
+ * Key rotation for encrypted trees
+ *
+ * CHK keys are content hashes, so a key that was shared once keeps decrypting
+ * the same content wherever it is published again, and a link key that leaked
+ * keeps working for every later root encrypted to it. Rotation re-encrypts
+ * every block of a tree with keys derived from a fresh random convergence
+ * secret (HMAC instead of plain SHA-256 of the content), then hands out a new
+ * link key. Old root, node and chunk keys decrypt nothing in the rotated tree.
+ *
+ * Readers need no changes: decryptChk works the same for keyed CHK blocks.
+ */
+
+import {
+  Store,
+  Hash,
+  CID,
+  TreeNode,
+  Link,
+  LinkType,
+  RefResolver,
+  SubscribeVisibilityInfo,
+  toHex,
+  cid,
+} from './types.js';
+import { sha256 } from './hash.js';
+import { encodeTreeNode, tryDecodeTreeNode, TREE_NODE_PREFIX } from './codec.js';
+import { encryptChk, decryptChk, generateKey, type EncryptionKey } from './crypto.js';
+import { computeKeyId, encryptKeyForLink, generateLinkKey, type TreeVisibility } from './visibility.js';
+
+export interface ReencryptResult {
+  /** Root of the re-encrypted tree */
+  cid: CID;
+  /** Number of blocks written */
+  blocks: number;
+}
+
+export interface RotateKeysOptions {
+  /** Visibility of the rotated tree */
+  visibility: TreeVisibility;
+  /** Link key for a link-visible tree (default: a new random key) */
+  linkKey?: Uint8Array;
+  /** Key IDs (hex) of link keys shared before rotation */
+  previousKeyIds?: string[];
+  /**
+   * Encrypt the new root key (hex) to the owner, e.g. with NIP-44
+   * Required for private trees, optional for link-visible and shared ones.
+   */
+  selfEncrypt?: (rootKeyHex: string) => Promise<string>;
+  /** Encrypt the new root key (hex) to each member of a shared tree, keyed by pubkey */
+  encryptForRecipients?: (rootKeyHex: string) => Promise<Record<string, string>>;
+  /** Convergence secret for the new keys (default: a new random secret) */
+  convergenceSecret?: Uint8Array;
+  /** Republish the rotated root under a resolver key ("npub1.../treename") */
+  publish?: { resolver: RefResolver; key: string };
+}
+
+export interface RotateKeysResult {
+  /** Root of the rotated tree */
+  cid: CID;
+  /** Visibility tags for the tree's root event */
+  visibilityInfo: SubscribeVisibilityInfo;
+  /** New link key (link-visible trees) */
+  linkKey?: Uint8Array;
+  /** Secret the tree was re-encrypted with; later edits should keep using it */
+  convergenceSecret: Uint8Array;
+  /** Key IDs (hex) from previousKeyIds that no longer open the tree */
+  invalidatedKeyIds: string[];
+  /** Number of blocks written */
+  blocks: number;
+}
+
+/**
+ * Re-encrypt every block of an encrypted tree with keyed CHK
+ * Unencrypted links inside the tree are kept as they are.
+ * @param store - Store holding the tree; new blocks are written to it
+ * @param root - Encrypted root CID
+ * @param secret - Convergence secret (default: random)
+ */
+export async function reencryptTree(
+  store: Store,
+  root: CID,
+  secret: Uint8Array = generateKey()
+): Promise<ReencryptResult> {
+  if (!root.key) {
+    throw new Error('Cannot rotate keys of an unencrypted tree');
+  }
+
+  // Same old block → same new block, e.g. files present in several directories
+  const done = new Map<string, Promise<{ hash: Hash; key: EncryptionKey }>>();
+  let blocks = 0;
+
+  const load = async (hash: Hash, key: EncryptionKey): Promise<Uint8Array> => {
+    const data = await store.get(hash);
+    if (!data) {
+      throw new Error(`Missing block: ${toHex(hash)}`);
+    }
+    return decryptChk(data, key);
+  };
+
+  const write = async (plaintext: Uint8Array): Promise<{ hash: Hash; key: EncryptionKey }> => {
+    const { ciphertext, key } = await encryptChk(plaintext, secret);
+    const hash = await sha256(ciphertext);
+    await store.put(hash, ciphertext);
+    blocks++;
+    return { hash, key };
+  };
+
+  const relink = async (links: Link[]): Promise<Link[]> => {
+    const result: Link[] = [];
+    // Sequential to keep memory flat on large trees
+    for (const link of links) {
+      result.push(link.key ? { ...link, ...(await block(link.hash, link.key)) } : link);
+    }
+    return result;
+  };
+
+  /** Chunked directory: re-encrypt the children, then split again like the original */
+  const chunkedDirectory = async (dir: TreeNode, chunkSize: number): Promise<{ hash: Hash; key: EncryptionKey }> => {
+    const data = encodeTreeNode({ ...dir, links: await relink(dir.links) });
+    const links: Link[] = [];
+    for (let offset = 0; offset < data.length; offset += chunkSize) {
+      const chunk = data.subarray(offset, offset + chunkSize);
+      links.push({ ...(await write(chunk)), size: chunk.length, type: LinkType.Blob });
+    }
+    return write(encodeTreeNode({ type: LinkType.File, links }));
+  };
+
+  const rewrite = async (hash: Hash, key: EncryptionKey): Promise<{ hash: Hash; key: EncryptionKey }> => {
+    const plaintext = await load(hash, key);
+    const node = tryDecodeTreeNode(plaintext);
+    if (!node) return write(plaintext);
+
+    const leaves = node.links;
+    if (node.type === LinkType.File && leaves.length > 0 && leaves.every(l => l.type === LinkType.Blob && l.key)) {
+      const first = await load(leaves[0].hash, leaves[0].key!);
+      if (TREE_NODE_PREFIX.every((b, i) => first[i] === b)) {
+        const chunks = [first];
+        for (const leaf of leaves.slice(1)) chunks.push(await load(leaf.hash, leaf.key!));
+        // A file may start with the same bytes; only a decodable directory counts
+        const dir = tryDecodeTreeNode(concat(chunks));
+        if (dir?.type === LinkType.Dir) return chunkedDirectory(dir, leaves[0].size);
+      }
+    }
+
+    const rotated: TreeNode = { ...node, links: await relink(node.links) };
+    return write(encodeTreeNode(rotated));
+  };
+
+  const block = (hash: Hash, key: EncryptionKey): Promise<{ hash: Hash; key: EncryptionKey }> => {
+    const hex = toHex(hash);
+    let result = done.get(hex);
+    if (!result) {
+      result = rewrite(hash, key);
+      done.set(hex, result);
+    }
+    return result;
+  };
+
+  const { hash, key } = await block(root.hash, root.key);
+  return { cid: cid(hash, key), blocks };
+}
+
+/**
+ * Rotate the keys of an encrypted tree
+ *
+ * Re-encrypts the tree, wraps the new root key for the given visibility and
+ * optionally republishes the root. Everyone holding an old link key has to be
+ * sent the new one; previousKeyIds lets callers tell which shares broke.
+ * @param store - Store holding the tree
+ * @param root - Encrypted root CID
+ */
+export async function rotateTreeKeys(
+  store: Store,
+  root: CID,
+  options: RotateKeysOptions
+): Promise<RotateKeysResult> {
+  const { visibility, selfEncrypt, publish } = options;
+  if (visibility === 'private' && !selfEncrypt) {
+    throw new Error('Private trees need selfEncrypt to keep the root key');
+  }
+  if (visibility === 'shared' && !options.encryptForRecipients) {
+    throw new Error('Shared trees need encryptForRecipients to hand out the root key');
+  }
+
+  const convergenceSecret = options.convergenceSecret ?? generateKey();
+  const { cid: rotated, blocks } = await reencryptTree(store, root, convergenceSecret);
+  const rootKey = rotated.key!;
+  const visibilityInfo: SubscribeVisibilityInfo = { visibility };
+  let linkKey: Uint8Array | undefined;
+
+  if (visibility === 'link-visible') {
+    linkKey = options.linkKey ?? generateLinkKey();
+    visibilityInfo.encryptedKey = toHex(encryptKeyForLink(rootKey, linkKey));
+    visibilityInfo.keyId = toHex(await computeKeyId(linkKey));
+  }
+  if (visibility === 'shared') {
+    visibilityInfo.recipientKeys = await options.encryptForRecipients!(toHex(rootKey));
+  }
+  if (visibility !== 'public' && selfEncrypt) {
+    visibilityInfo.selfEncryptedKey = await selfEncrypt(toHex(rootKey));
+  }
+
+  // Old link keys unwrap the new encryptedKey to garbage, unless the caller reused one
+  const invalidatedKeyIds = [...new Set(options.previousKeyIds ?? [])]
+    .filter(keyId => keyId !== visibilityInfo.keyId);
+
+  if (publish) {
+    if (!publish.resolver.publish) {
+      throw new Error('Resolver does not support publishing');
+    }
+    await publish.resolver.publish(publish.key, rotated, visibilityInfo);
+  }
+
+  return { cid: rotated, visibilityInfo, linkKey, convergenceSecret, invalidatedKeyIds, blocks };
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
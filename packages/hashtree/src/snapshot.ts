@@ -0,0 +1,143 @@
+/**
+ * Signed tree snapshots
+ *
+ * An nhash says which content, not who published it. A snapshot is a Nostr
+ * event signed by the tree's owner that binds their pubkey, the tree name, the
+ * root hash and a timestamp. It uses its own regular (non-replaceable) kind, so
+ * it can't be replayed to relays as the tree's live root event.
+ *
+ * The event can be rebuilt from the snapshot fields alone, which is what lets
+ * nsnap identifiers (see nhash.ts) carry just the fields and the signature and
+ * still be verified offline. The decrypt key is carried alongside, unsigned:
+ * it grants access but says nothing about authorship.
+ */
+
+import { verifyEvent, getEventHash } from 'nostr-tools';
+import { CID, toHex, fromHex } from './types.js';
+
+/** Event kind of tree snapshots */
+export const TREE_SNAPSHOT_KIND = 1078;
+
+/** Unsigned snapshot event, as passed to a signer */
+export interface SnapshotEventTemplate {
+  kind: number;
+  created_at: number;
+  tags: string[][];
+  content: string;
+}
+
+/** Signed snapshot event (NIP-01) */
+export interface SnapshotEvent extends SnapshotEventTemplate {
+  id: string;
+  pubkey: string;
+  sig: string;
+}
+
+/**
+ * Signs an event template, e.g. NIP-07 window.nostr.signEvent
+ * or nostr-tools finalizeEvent with a secret key
+ */
+export type SnapshotSigner = (template: SnapshotEventTemplate) => Promise<SnapshotEvent>;
+
+export interface TreeSnapshot {
+  /** Owner's nostr pubkey (hex) */
+  pubkey: string;
+  /** Tree name */
+  treeName: string;
+  /** Root CID; the key is not covered by the signature */
+  cid: CID;
+  /** Unix timestamp of the snapshot */
+  createdAt: number;
+  /** Schnorr signature of the snapshot event (hex) */
+  sig: string;
+}
+
+/**
+ * Build the unsigned event for a snapshot
+ */
+export function snapshotEventTemplate(treeName: string, hash: Uint8Array, createdAt: number): SnapshotEventTemplate {
+  return {
+    kind: TREE_SNAPSHOT_KIND,
+    created_at: createdAt,
+    tags: [
+      ['d', treeName],
+      ['l', 'hashtree'],
+      ['hash', toHex(hash)],
+    ],
+    content: '',
+  };
+}
+
+/**
+ * Sign a snapshot of a tree root
+ * @param signer - Signs as the tree's owner
+ * @param treeName - Tree name
+ * @param root - Root CID (the key is kept in the snapshot but not signed)
+ * @param createdAt - Unix timestamp (default: now)
+ */
+export async function createTreeSnapshot(
+  signer: SnapshotSigner,
+  treeName: string,
+  root: CID,
+  createdAt = Math.floor(Date.now() / 1000)
+): Promise<TreeSnapshot> {
+  const template = snapshotEventTemplate(treeName, root.hash, createdAt);
+  const event = await signer(template);
+
+  const snapshot: TreeSnapshot = { pubkey: event.pubkey, treeName, cid: root, createdAt, sig: event.sig };
+  // The signer must not have changed what it signed
+  if (event.id !== snapshotToEvent(snapshot).id || !verifyTreeSnapshot(snapshot)) {
+    throw new Error('Signer returned an invalid snapshot signature');
+  }
+  return snapshot;
+}
+
+/**
+ * Rebuild the signed event of a snapshot
+ */
+export function snapshotToEvent(snapshot: TreeSnapshot): SnapshotEvent {
+  const template = snapshotEventTemplate(snapshot.treeName, snapshot.cid.hash, snapshot.createdAt);
+  const unsigned = { ...template, pubkey: snapshot.pubkey };
+  return { ...unsigned, id: getEventHash(unsigned), sig: snapshot.sig };
+}
+
+/**
+ * Read a snapshot from a signed event
+ * @param event - Snapshot event, e.g. fetched from a relay
+ * @param key - Decrypt key of the root, if known
+ */
+export function snapshotFromEvent(event: SnapshotEvent, key?: Uint8Array): TreeSnapshot {
+  if (event.kind !== TREE_SNAPSHOT_KIND) {
+    throw new Error(`Not a tree snapshot event: kind ${event.kind}`);
+  }
+  const treeName = event.tags.find(t => t[0] === 'd')?.[1];
+  const hash = event.tags.find(t => t[0] === 'hash')?.[1];
+  if (!treeName || !hash) {
+    throw new Error('Tree snapshot event needs d and hash tags');
+  }
+
+  const snapshot: TreeSnapshot = {
+    pubkey: event.pubkey,
+    treeName,
+    cid: key ? { hash: fromHex(hash), key } : { hash: fromHex(hash) },
+    createdAt: event.created_at,
+    sig: event.sig,
+  };
+  // Extra tags or content would be lost when re-encoding
+  if (snapshotToEvent(snapshot).id !== getEventHash(event)) {
+    throw new Error('Tree snapshot event has unexpected tags or content');
+  }
+  return snapshot;
+}
+
+/**
+ * Check that a snapshot was signed by its pubkey
+ * Works offline: the event is rebuilt from the snapshot fields.
+ */
+export function verifyTreeSnapshot(snapshot: TreeSnapshot): boolean {
+  try {
+    return verifyEvent(snapshotToEvent(snapshot));
+  } catch {
+    return false;
+  }
+}
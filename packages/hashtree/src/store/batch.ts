@@ -0,0 +1,64 @@
+/**
+ * Batch store operations
+ *
+ * Use a store's getMany/putMany/hasMany when available, otherwise fall back
+ * to parallel single-hash calls. Stores without a native batch API (OPFS,
+ * Blossom) use mapLimit to bound the number of parallel operations.
+ */
+
+import { Store, Hash } from '../types.js';
+
+/** Default number of blocks per batch in pull/push/walkBlocks */
+export const DEFAULT_BATCH_SIZE = 64;
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving order
+ */
+export async function mapLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Get several blocks from a store
+ * @returns data or null for each hash, in the same order
+ */
+export async function getMany(store: Store, hashes: Hash[]): Promise<Array<Uint8Array | null>> {
+  if (hashes.length === 0) return [];
+  if (store.getMany) return store.getMany(hashes);
+  return Promise.all(hashes.map(hash => store.get(hash)));
+}
+
+/**
+ * Put several blocks into a store
+ * @returns true for each newly stored block, in the same order
+ */
+export async function putMany(
+  store: Store,
+  blocks: Array<{ hash: Hash; data: Uint8Array }>
+): Promise<boolean[]> {
+  if (blocks.length === 0) return [];
+  if (store.putMany) return store.putMany(blocks);
+  return Promise.all(blocks.map(({ hash, data }) => store.put(hash, data)));
+}
+
+/**
+ * Check several hashes in a store
+ */
+export async function hasMany(store: Store, hashes: Hash[]): Promise<boolean[]> {
+  if (hashes.length === 0) return [];
+  if (store.hasMany) return store.hasMany(hashes);
+  return Promise.all(hashes.map(hash => store.has(hash)));
+}
@@ -5,6 +5,7 @@
 
 import { StoreWithMeta, Hash, toHex } from '../types.js';
 import { sha256 } from '../hash.js';
+import { mapLimit } from './batch.js';
 
 /**
  * Blossom server configuration
@@ -79,6 +80,8 @@ const EXISTENCE_CHECK_THRESHOLD = 256 * 1024;
 
 /** Timeout for HEAD requests (5 seconds) */
 const HEAD_TIMEOUT_MS = 5000;
+/** Parallel requests in getMany/putMany/hasMany */
+const BATCH_CONCURRENCY = 6;
 
 /** Per-hash failure tracking */
 interface HashAttempts {
@@ -192,6 +195,18 @@ export class BlossomStore implements StoreWithMeta {
     return result;
   }
 
+  /**
+   * Upload several blobs with bounded parallelism
+   * The batch takes one slot in the write queue, so single puts queued
+   * after it still wait for it to finish.
+   */
+  async putMany(blocks: Array<{ hash: Hash; data: Uint8Array }>): Promise<boolean[]> {
+    const upload = () => mapLimit(blocks, BATCH_CONCURRENCY, ({ hash, data }) => this.doPut(hash, data));
+    const result = this.writeQueue.then(upload, upload);
+    this.writeQueue = result.then(() => true, () => true);
+    return result;
+  }
+
   private async doPut(hash: Hash, data: Uint8Array, contentType?: string): Promise<boolean> {
     const hashHex = toHex(hash);
 
@@ -349,6 +364,14 @@ export class BlossomStore implements StoreWithMeta {
     return null;
   }
 
+  async getMany(hashes: Hash[]): Promise<Array<Uint8Array | null>> {
+    return mapLimit(hashes, BATCH_CONCURRENCY, hash => this.get(hash));
+  }
+
+  async hasMany(hashes: Hash[]): Promise<boolean[]> {
+    return mapLimit(hashes, BATCH_CONCURRENCY, hash => this.has(hash));
+  }
+
   async has(hash: Hash): Promise<boolean> {
     const hashHex = toHex(hash);
 
@@ -5,10 +5,26 @@
 import Dexie, { type Table } from 'dexie';
 import type { Store, Hash } from '../types.js';
 import { toHex, fromHex } from '../types.js';
+import type { StoreUsage } from '../gc.js';
+
+/** Only persist a new access time if the stored one is older than this */
+const ACCESS_RESOLUTION_MS = 60_000;
+/** Evict down to this fraction of maxBytes so eviction doesn't run on every put */
+const EVICTION_TARGET = 0.9;
+const EVICTION_BATCH = 100;
 
 interface BlobEntry {
   hashHex: string;
   data: Uint8Array;
+  /** Last access time in ms, for LRU eviction */
+  accessed?: number;
+  /** data.byteLength, indexed so sizes can be read without the blobs */
+  size?: number;
+}
+
+export interface DexieStoreOptions {
+  /** Capacity in bytes; least recently used unpinned blocks are evicted beyond it */
+  maxBytes?: number;
 }
 
 class HashTreeDB extends Dexie {
@@ -19,25 +35,60 @@ class HashTreeDB extends Dexie {
     this.version(1).stores({
       blobs: '&hashHex',
     });
+    this.version(2).stores({
+      blobs: '&hashHex, size',
+    }).upgrade(tx => tx.table('blobs').toCollection().modify((entry: BlobEntry) => {
+      entry.size = entry.data.byteLength;
+    }));
+    // Access times for LRU eviction - existing blobs count as least recently used
+    this.version(3).stores({
+      blobs: '&hashHex, size, accessed',
+    }).upgrade(tx => tx.table('blobs').toCollection().modify((entry: BlobEntry) => {
+      entry.accessed = 0;
+    }));
   }
 }
 
+/**
+ * Return stored data without an extra copy
+ * IDB returns a fresh copy already - only slice if the view doesn't match
+ * the buffer (rare edge case)
+ */
+function blobData(data: Uint8Array): Uint8Array {
+  if (data.byteOffset === 0 && data.byteLength === data.buffer.byteLength) {
+    return data;
+  }
+  return new Uint8Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+}
+
 /**
  * Dexie-based Store implementation
  * Drop-in replacement for IndexedDBStore with better error handling
  */
 export class DexieStore implements Store {
   private db: HashTreeDB;
+  private maxBytes?: number;
+  private pinned = new Set<string>();
+  /** Bytes stored, computed on first use (null until then) and kept current after */
+  private usedBytes: number | null = null;
+  private evicting: Promise<void> | null = null;
 
-  constructor(dbName: string = 'hashtree') {
+  constructor(dbName: string = 'hashtree', options: DexieStoreOptions = {}) {
     this.db = new HashTreeDB(dbName);
+    this.maxBytes = options.maxBytes;
   }
 
   async put(hash: Hash, data: Uint8Array): Promise<boolean> {
     const hashHex = toHex(hash);
     try {
+      const tracked = this.isTracking();
+      const existed = tracked && await this.has(hash);
       // Store directly - IDB will clone the data internally
-      await this.db.blobs.put({ hashHex, data });
+      await this.db.blobs.put({ hashHex, data, accessed: Date.now(), size: data.byteLength });
+      if (tracked && !existed) {
+        await this.trackBytes(data.byteLength);
+        await this.evict(new Set([hashHex]));
+      }
       return true;
     } catch (e) {
       console.error('[DexieStore] put error:', e);
@@ -51,20 +102,77 @@ export class DexieStore implements Store {
     try {
       const entry = await this.db.blobs.get(hashHex);
       if (!entry) return null;
-      // Return directly - IDB returns a fresh copy already
-      // Only slice if the view doesn't match the buffer (rare edge case)
-      const data = entry.data;
-      if (data.byteOffset === 0 && data.byteLength === data.buffer.byteLength) {
-        return data;
-      }
-      // Rare: view is a subset of a larger buffer, need to copy
-      return new Uint8Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+      this.touch(entry);
+      return blobData(entry.data);
     } catch (e) {
       console.error('[DexieStore] get error:', e);
       return null;
     }
   }
 
+  /**
+   * Get several blobs in one transaction
+   */
+  async getMany(hashes: Hash[]): Promise<Array<Uint8Array | null>> {
+    try {
+      const entries = await this.db.blobs.bulkGet(hashes.map(toHex));
+      return entries.map(entry => {
+        if (!entry) return null;
+        this.touch(entry);
+        return blobData(entry.data);
+      });
+    } catch (e) {
+      console.error('[DexieStore] getMany error:', e);
+      return hashes.map(() => null);
+    }
+  }
+
+  /**
+   * Store several blobs in one transaction
+   * @returns true for each blob that was not stored before
+   */
+  async putMany(blocks: Array<{ hash: Hash; data: Uint8Array }>): Promise<boolean[]> {
+    if (blocks.length === 0) return [];
+    const hashHexes = blocks.map(b => toHex(b.hash));
+    try {
+      const existed = await this.hasMany(blocks.map(b => b.hash));
+      const accessed = Date.now();
+      await this.db.blobs.bulkPut(blocks.map((b, i) => ({ hashHex: hashHexes[i], data: b.data, accessed, size: b.data.byteLength })));
+      // Count each new blob once, even if it occurs twice in the batch
+      const added = new Map<string, number>();
+      blocks.forEach((b, i) => {
+        if (!existed[i]) added.set(hashHexes[i], b.data.byteLength);
+      });
+      if (this.isTracking()) {
+        await this.trackBytes([...added.values()].reduce((sum, size) => sum + size, 0));
+        await this.evict(new Set(hashHexes));
+      }
+      const seen = new Set<string>();
+      return hashHexes.map((hex) => {
+        if (!added.has(hex) || seen.has(hex)) return false;
+        seen.add(hex);
+        return true;
+      });
+    } catch (e) {
+      console.error('[DexieStore] putMany error:', e);
+      return blocks.map(() => false);
+    }
+  }
+
+  /**
+   * Check several hashes in one query
+   */
+  async hasMany(hashes: Hash[]): Promise<boolean[]> {
+    const hashHexes = hashes.map(toHex);
+    try {
+      const found = new Set(await this.db.blobs.where('hashHex').anyOf(hashHexes).primaryKeys());
+      return hashHexes.map(hex => found.has(hex));
+    } catch (e) {
+      console.error('[DexieStore] hasMany error:', e);
+      return hashes.map(() => false);
+    }
+  }
+
   async has(hash: Hash): Promise<boolean> {
     const hashHex = toHex(hash);
     try {
@@ -80,12 +188,17 @@ export class DexieStore implements Store {
   async delete(hash: Hash): Promise<boolean> {
     const hashHex = toHex(hash);
     try {
-      const existed = await this.has(hash);
-      if (existed) {
+      if (this.usedBytes === null) {
+        if (!(await this.has(hash))) return false;
         await this.db.blobs.delete(hashHex);
         return true;
       }
-      return false;
+      // Usage is tracked - need the size of what is deleted
+      const entry = await this.db.blobs.get(hashHex);
+      if (!entry) return false;
+      await this.db.blobs.delete(hashHex);
+      this.usedBytes -= entry.data.byteLength;
+      return true;
     } catch (e) {
       console.error('[DexieStore] delete error:', e);
       return false;
@@ -106,12 +219,28 @@ export class DexieStore implements Store {
     }
   }
 
+  /**
+   * Size of every blob by hex hash, read from the size index
+   */
+  async sizes(): Promise<Map<string, number>> {
+    const sizes = new Map<string, number>();
+    try {
+      await this.db.blobs.orderBy('size').eachKey((size, cursor) => {
+        sizes.set(cursor.primaryKey as string, size as number);
+      });
+    } catch (e) {
+      console.error('[DexieStore] sizes error:', e);
+    }
+    return sizes;
+  }
+
   /**
    * Clear all data
    */
   async clear(): Promise<void> {
     try {
       await this.db.blobs.clear();
+      this.usedBytes = 0;
     } catch (e) {
       console.error('[DexieStore] clear error:', e);
     }
@@ -131,13 +260,13 @@ export class DexieStore implements Store {
 
   /**
    * Get total bytes stored
-   * Uses cursor to avoid loading all blobs into memory at once
+   * Reads the size index, so no blob data is loaded
    */
   async totalBytes(): Promise<number> {
     try {
       let total = 0;
-      await this.db.blobs.each(entry => {
-        total += entry.data.byteLength;
+      await this.db.blobs.orderBy('size').eachKey(size => {
+        total += size as number;
       });
       return total;
     } catch (e) {
@@ -146,6 +275,97 @@ export class DexieStore implements Store {
     }
   }
 
+  /**
+   * Replace the set of blocks that are never evicted
+   * Typically all blocks of pinned roots (see HashTree.protectPinned).
+   */
+  setPinned(hashes: Iterable<Hash>): void {
+    this.pinned = new Set(Array.from(hashes, toHex));
+  }
+
+  /**
+   * Get current usage and capacity
+   */
+  async getUsage(): Promise<StoreUsage> {
+    return {
+      bytes: await this.getUsedBytes(),
+      count: await this.count(),
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  /**
+   * Record an access, throttled to avoid a write on every read
+   */
+  private touch(entry: BlobEntry): void {
+    const now = Date.now();
+    if (now - (entry.accessed ?? 0) < ACCESS_RESOLUTION_MS) return;
+    this.db.blobs.update(entry.hashHex, { accessed: now }).catch(() => {
+      // Access time is best-effort
+    });
+  }
+
+  /**
+   * Usage is tracked with a capacity, or once getUsage() computed it
+   */
+  private isTracking(): boolean {
+    return this.maxBytes !== undefined || this.usedBytes !== null;
+  }
+
+  private async getUsedBytes(): Promise<number> {
+    if (this.usedBytes === null) {
+      this.usedBytes = await this.totalBytes();
+    }
+    return this.usedBytes;
+  }
+
+  private async trackBytes(delta: number): Promise<void> {
+    if (this.usedBytes === null) {
+      // First use - the total already includes the new blob
+      await this.getUsedBytes();
+    } else {
+      this.usedBytes += delta;
+    }
+  }
+
+  /**
+   * Evict least recently used unpinned blobs until under EVICTION_TARGET * maxBytes
+   * @param justWritten - Blobs that were just stored, never evicted by their own put
+   */
+  private async evict(justWritten: Set<string>): Promise<void> {
+    if (this.maxBytes === undefined || (this.usedBytes ?? 0) <= this.maxBytes) return;
+    if (this.evicting) return this.evicting;
+
+    const target = this.maxBytes * EVICTION_TARGET;
+    this.evicting = (async () => {
+      // Victims are picked by key and size only, so no blob data is loaded
+      const sizes = await this.sizes();
+      let skipped = 0;
+      while ((this.usedBytes ?? 0) > target) {
+        const batch = await this.db.blobs.orderBy('accessed').offset(skipped).limit(EVICTION_BATCH).primaryKeys();
+        if (batch.length === 0) break;
+
+        for (const hashHex of batch) {
+          if (this.pinned.has(hashHex) || justWritten.has(hashHex)) {
+            skipped++;
+            continue;
+          }
+          await this.db.blobs.delete(hashHex);
+          this.usedBytes = (this.usedBytes ?? 0) - (sizes.get(hashHex) ?? 0);
+          if ((this.usedBytes ?? 0) <= target) break;
+        }
+      }
+    })();
+
+    try {
+      await this.evicting;
+    } catch (e) {
+      console.error('[DexieStore] evict error:', e);
+    } finally {
+      this.evicting = null;
+    }
+  }
+
   /**
    * Close the database connection
    */
@@ -1,4 +1,19 @@
 export { MemoryStore } from './memory.js';
 export { OpfsStore, type OpfsStoreOptions } from './opfs.js';
 export { BlossomStore, type BlossomStoreConfig, type BlossomServer, type BlossomSigner, type BlossomAuthEvent } from './blossom.js';
-export { DexieStore } from './dexie.js';
+export { DexieStore, type DexieStoreOptions } from './dexie.js';
+export {
+  VerifyingStore,
+  type VerifyingStoreOptions,
+  type VerifyingStoreEvent,
+  type VerifyingStoreEventHandler,
+} from './verifying.js';
+export {
+  TieredStore,
+  type TierConfig,
+  type TierStats,
+  type TieredStoreOptions,
+  type TieredStoreStats,
+  type WritePolicy,
+} from './tiered.js';
+export { getMany, putMany, hasMany, mapLimit, DEFAULT_BATCH_SIZE } from './batch.js';
@@ -34,6 +34,18 @@ export class MemoryStore implements Store {
     return this.data.delete(toHex(hash));
   }
 
+  async getMany(hashes: Hash[]): Promise<Array<Uint8Array | null>> {
+    return Promise.all(hashes.map(hash => this.get(hash)));
+  }
+
+  async putMany(blocks: Array<{ hash: Hash; data: Uint8Array }>): Promise<boolean[]> {
+    return Promise.all(blocks.map(({ hash, data }) => this.put(hash, data)));
+  }
+
+  async hasMany(hashes: Hash[]): Promise<boolean[]> {
+    return hashes.map(hash => this.data.has(toHex(hash)));
+  }
+
   /**
    * Get number of stored items
    */
@@ -59,6 +71,13 @@ export class MemoryStore implements Store {
     this.data.clear();
   }
 
+  /**
+   * Size of every block by hex hash
+   */
+  sizes(): Map<string, number> {
+    return new Map(Array.from(this.data, ([hex, data]) => [hex, data.length]));
+  }
+
   /**
    * List all hashes
    */
@@ -7,12 +7,28 @@
  */
 
 import { Store, Hash, toHex, fromHex } from '../types.js';
+import type { StoreUsage } from '../gc.js';
+import { mapLimit } from './batch.js';
 
 const DEFAULT_DIR_NAME = 'hashtree';
+/** Evict down to this fraction of maxBytes so eviction doesn't run on every put */
+const EVICTION_TARGET = 0.9;
+/** Parallel file operations in getMany/putMany/hasMany */
+const BATCH_CONCURRENCY = 8;
 
 export interface OpfsStoreOptions {
   /** Directory name in OPFS root (default: 'hashtree') */
   dirName?: string;
+  /**
+   * Capacity in bytes; least recently used unpinned blocks are evicted beyond it
+   * Access times are kept in memory, starting from file modification times.
+   */
+  maxBytes?: number;
+}
+
+interface BlockUsage {
+  size: number;
+  accessed: number;
 }
 
 export class OpfsStore implements Store {
@@ -20,12 +36,19 @@ export class OpfsStore implements Store {
   private rootDir: FileSystemDirectoryHandle | null = null;
   private storeDir: FileSystemDirectoryHandle | null = null;
   private initPromise: Promise<FileSystemDirectoryHandle> | null = null;
+  private maxBytes?: number;
+  private pinned = new Set<string>();
+  /** Size and access time per block, scanned on first use (null until then) */
+  private usage: Map<string, BlockUsage> | null = null;
+  private usagePromise: Promise<Map<string, BlockUsage>> | null = null;
+  private usedBytes = 0;
 
   constructor(options: OpfsStoreOptions | string = DEFAULT_DIR_NAME) {
     if (typeof options === 'string') {
       this.dirName = options;
     } else {
       this.dirName = options.dirName ?? DEFAULT_DIR_NAME;
+      this.maxBytes = options.maxBytes;
     }
   }
 
@@ -81,6 +104,17 @@ export class OpfsStore implements Store {
       await writable.write(data as unknown as ArrayBuffer);
       await writable.close();
 
+      // Keep usage current once it has been scanned (always with a capacity)
+      if (this.maxBytes !== undefined || this.usage || this.usagePromise) {
+        const usage = await this.getUsageMap();
+        // The initial scan may already have seen the new file
+        if (!usage.has(hashHex)) {
+          usage.set(hashHex, { size: data.length, accessed: Date.now() });
+          this.usedBytes += data.length;
+        }
+        await this.evict(hashHex);
+      }
+
       return true;
     } catch (err) {
       console.error(`OPFS write failed for ${hashHex}:`, err);
@@ -99,6 +133,8 @@ export class OpfsStore implements Store {
       const handle = await shardDir.getFileHandle(`${hashHex}.bin`, { create: false });
       const file = await handle.getFile();
       const buffer = await file.arrayBuffer();
+      const entry = this.usage?.get(hashHex);
+      if (entry) entry.accessed = Date.now();
       return new Uint8Array(buffer);
     } catch {
       return null;
@@ -125,12 +161,25 @@ export class OpfsStore implements Store {
 
     try {
       await shardDir.removeEntry(`${hashHex}.bin`);
+      this.untrack(hashHex);
       return true;
     } catch {
       return false;
     }
   }
 
+  async getMany(hashes: Hash[]): Promise<Array<Uint8Array | null>> {
+    return mapLimit(hashes, BATCH_CONCURRENCY, hash => this.get(hash));
+  }
+
+  async putMany(blocks: Array<{ hash: Hash; data: Uint8Array }>): Promise<boolean[]> {
+    return mapLimit(blocks, BATCH_CONCURRENCY, ({ hash, data }) => this.put(hash, data));
+  }
+
+  async hasMany(hashes: Hash[]): Promise<boolean[]> {
+    return mapLimit(hashes, BATCH_CONCURRENCY, hash => this.has(hash));
+  }
+
   /**
    * Get all stored hashes
    */
@@ -166,6 +215,11 @@ export class OpfsStore implements Store {
         await storeDir.removeEntry(name, { recursive: true });
       }
     }
+
+    if (this.usage) {
+      this.usage.clear();
+      this.usedBytes = 0;
+    }
   }
 
   /**
@@ -199,6 +253,104 @@ export class OpfsStore implements Store {
     return total;
   }
 
+  /**
+   * Size of every block by hex hash, from file metadata
+   */
+  async sizes(): Promise<Map<string, number>> {
+    const sizes = new Map<string, number>();
+    for (const [hashHex, { size }] of await this.scanFiles()) {
+      sizes.set(hashHex, size);
+    }
+    return sizes;
+  }
+
+  /**
+   * Replace the set of blocks that are never evicted
+   * Typically all blocks of pinned roots (see HashTree.protectPinned).
+   */
+  setPinned(hashes: Iterable<Hash>): void {
+    this.pinned = new Set(Array.from(hashes, toHex));
+  }
+
+  /**
+   * Get current usage and capacity
+   */
+  async getUsage(): Promise<StoreUsage> {
+    const usage = await this.getUsageMap();
+    return { bytes: this.usedBytes, count: usage.size, maxBytes: this.maxBytes };
+  }
+
+  /**
+   * Scan all files once for sizes and modification times
+   */
+  private async getUsageMap(): Promise<Map<string, BlockUsage>> {
+    if (this.usage) return this.usage;
+    if (this.usagePromise) return this.usagePromise;
+
+    this.usagePromise = (async () => {
+      const usage = await this.scanFiles();
+      let total = 0;
+      for (const { size } of usage.values()) total += size;
+
+      this.usage = usage;
+      this.usedBytes = total;
+      return usage;
+    })();
+
+    try {
+      return await this.usagePromise;
+    } finally {
+      this.usagePromise = null;
+    }
+  }
+
+  /**
+   * Read size and modification time of every block file (not the contents)
+   */
+  private async scanFiles(): Promise<Map<string, BlockUsage>> {
+    const storeDir = await this.getStoreDir();
+    const usage = new Map<string, BlockUsage>();
+
+    // @ts-ignore
+    for await (const [, shardHandle] of storeDir.entries()) {
+      if (shardHandle.kind !== 'directory') continue;
+
+      // @ts-ignore
+      for await (const [fileName, fileHandle] of shardHandle.entries()) {
+        if (fileHandle.kind !== 'file' || !fileName.endsWith('.bin')) continue;
+        const file = await fileHandle.getFile();
+        usage.set(fileName.slice(0, -4), { size: file.size, accessed: file.lastModified });
+      }
+    }
+
+    return usage;
+  }
+
+  private untrack(hashHex: string): void {
+    const entry = this.usage?.get(hashHex);
+    if (!entry) return;
+    this.usage!.delete(hashHex);
+    this.usedBytes -= entry.size;
+  }
+
+  /**
+   * Evict least recently used unpinned blocks until under EVICTION_TARGET * maxBytes
+   * @param justWritten - Block that was just stored, never evicted by its own put
+   */
+  private async evict(justWritten: string): Promise<void> {
+    if (this.maxBytes === undefined || !this.usage || this.usedBytes <= this.maxBytes) return;
+
+    const target = this.maxBytes * EVICTION_TARGET;
+    const candidates = [...this.usage.entries()]
+      .filter(([hashHex]) => !this.pinned.has(hashHex) && hashHex !== justWritten)
+      .sort((a, b) => a[1].accessed - b[1].accessed);
+
+    for (const [hashHex] of candidates) {
+      if (this.usedBytes <= target) break;
+      await this.delete(fromHex(hashHex));
+    }
+  }
+
   /**
    * Close - cleanup any resources
    */
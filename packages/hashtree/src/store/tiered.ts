@@ -0,0 +1,309 @@
+/**
+ * Tiered store - composes stores from fastest to slowest
+ *
+ * Typical stacking: memory -> Dexie/OPFS -> WebRTC -> Blossom.
+ * Reads try tiers in order and copy hits into the faster tiers above
+ * (read-through caching). Writes go to every writable tier immediately
+ * (write-through) or to the first tier with lower tiers updated in the
+ * background (write-back).
+ */
+
+import { Store, Hash, toHex } from '../types.js';
+import { getMany } from './batch.js';
+import { forwardBoundedStores, type StoreUsage } from '../gc.js';
+
+export type WritePolicy = 'write-through' | 'write-back';
+
+export interface TierConfig {
+  store: Store;
+  /** Byte quota for blocks written through this TieredStore; least recently used are evicted */
+  maxBytes?: number;
+  /** Cache blocks found in slower tiers here (default: true) */
+  cache?: boolean;
+  /** Never write to this tier (default: false) */
+  readOnly?: boolean;
+}
+
+export interface TieredStoreOptions {
+  /** How writes reach tiers below the first (default: 'write-through') */
+  writePolicy?: WritePolicy;
+  /** Write-back delay in ms before pending writes are flushed (default: 1000, 0 = only on flush()) */
+  flushDelay?: number;
+}
+
+export interface TierStats {
+  hits: number;
+  writes: number;
+  evictions: number;
+  errors: number;
+  /** Bytes tracked against the quota */
+  bytes: number;
+}
+
+export interface TieredStoreStats {
+  tiers: TierStats[];
+  /** Reads not found in any tier */
+  misses: number;
+  /** Write-back blocks not yet written to all tiers */
+  pendingWrites: number;
+}
+
+interface Tier {
+  store: Store;
+  maxBytes?: number;
+  cache: boolean;
+  readOnly: boolean;
+  /** Tracked block sizes in least-recently-used order */
+  usage: Map<string, { hash: Hash; size: number }>;
+  stats: TierStats;
+}
+
+export class TieredStore implements Store {
+  private tiers: Tier[];
+  private writePolicy: WritePolicy;
+  private flushDelay: number;
+  private pending = new Map<string, { hash: Hash; data: Uint8Array }>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private misses = 0;
+
+  /** Protect blocks from eviction in the bounded tiers (only set when a tier is bounded) */
+  setPinned?: (hashes: Iterable<Hash>) => void;
+  /** Usage of the bounded tiers (only set when a tier is bounded) */
+  getUsage?: () => Promise<StoreUsage>;
+
+  /**
+   * @param tiers - Stores or tier configs, fastest first
+   */
+  constructor(tiers: Array<Store | TierConfig>, options: TieredStoreOptions = {}) {
+    if (tiers.length === 0) {
+      throw new Error('TieredStore requires at least one tier');
+    }
+    this.tiers = tiers.map(t => {
+      const config: TierConfig = 'store' in t ? t : { store: t };
+      return {
+        store: config.store,
+        maxBytes: config.maxBytes,
+        cache: config.cache ?? true,
+        readOnly: config.readOnly ?? false,
+        usage: new Map(),
+        stats: { hits: 0, writes: 0, evictions: 0, errors: 0, bytes: 0 },
+      };
+    });
+    this.writePolicy = options.writePolicy ?? 'write-through';
+    this.flushDelay = options.flushDelay ?? 1000;
+    Object.assign(this, forwardBoundedStores(this.tiers.map(t => t.store)));
+  }
+
+  async put(hash: Hash, data: Uint8Array): Promise<boolean> {
+    const writable = this.tiers.filter(t => !t.readOnly);
+    if (writable.length === 0) {
+      throw new Error('TieredStore has no writable tier');
+    }
+
+    const [first, ...rest] = writable;
+    const stored = await this.putTier(first, hash, data, true);
+
+    if (this.writePolicy === 'write-back') {
+      if (rest.length > 0) {
+        this.pending.set(toHex(hash), { hash, data });
+        this.scheduleFlush();
+      }
+    } else {
+      await Promise.all(rest.map(tier => this.putTier(tier, hash, data, false)));
+    }
+
+    return stored;
+  }
+
+  async get(hash: Hash): Promise<Uint8Array | null> {
+    if (!hash) return null;
+
+    const pending = this.pending.get(toHex(hash));
+    if (pending) return pending.data;
+
+    for (let i = 0; i < this.tiers.length; i++) {
+      const tier = this.tiers[i];
+      let data: Uint8Array | null;
+      try {
+        data = await tier.store.get(hash);
+      } catch {
+        tier.stats.errors++;
+        continue;
+      }
+      if (!data) continue;
+
+      tier.stats.hits++;
+      this.touch(tier, hash);
+
+      // Read-through: copy into faster tiers
+      const above = this.tiers.slice(0, i).filter(t => t.cache && !t.readOnly);
+      await Promise.all(above.map(t => this.putTier(t, hash, data, false)));
+      return data;
+    }
+
+    this.misses++;
+    return null;
+  }
+
+  /**
+   * Get several blocks, asking each tier only for the blocks not found above it
+   */
+  async getMany(hashes: Hash[]): Promise<Array<Uint8Array | null>> {
+    const results = hashes.map(hash => this.pending.get(toHex(hash))?.data ?? null);
+
+    for (let i = 0; i < this.tiers.length; i++) {
+      const missing = hashes.flatMap((_, j) => results[j] ? [] : [j]);
+      if (missing.length === 0) break;
+
+      const tier = this.tiers[i];
+      let found: Array<Uint8Array | null>;
+      try {
+        found = await getMany(tier.store, missing.map(j => hashes[j]));
+      } catch {
+        tier.stats.errors++;
+        continue;
+      }
+
+      // Read-through: copy into faster tiers
+      const above = this.tiers.slice(0, i).filter(t => t.cache && !t.readOnly);
+      await Promise.all(missing.map(async (j, k) => {
+        const data = found[k];
+        if (!data) return;
+        results[j] = data;
+        tier.stats.hits++;
+        this.touch(tier, hashes[j]);
+        await Promise.all(above.map(t => this.putTier(t, hashes[j], data, false)));
+      }));
+    }
+
+    this.misses += results.filter(data => !data).length;
+    return results;
+  }
+
+  async has(hash: Hash): Promise<boolean> {
+    if (this.pending.has(toHex(hash))) return true;
+    for (const tier of this.tiers) {
+      try {
+        if (await tier.store.has(hash)) return true;
+      } catch {
+        tier.stats.errors++;
+      }
+    }
+    return false;
+  }
+
+  async delete(hash: Hash): Promise<boolean> {
+    const hex = toHex(hash);
+    let deleted = this.pending.delete(hex);
+    for (const tier of this.tiers) {
+      if (tier.readOnly) continue;
+      if (await tier.store.delete(hash)) deleted = true;
+      this.untrack(tier, hex);
+    }
+    return deleted;
+  }
+
+  /**
+   * Write pending write-back blocks to all writable tiers below the first
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    // Wait for a flush in progress, then write what was queued meanwhile
+    while (this.flushing) {
+      await this.flushing;
+    }
+    if (this.pending.size === 0) return;
+
+    this.flushing = (async () => {
+      const rest = this.tiers.filter(t => !t.readOnly).slice(1);
+      const blocks = [...this.pending.values()];
+      for (const { hash, data } of blocks) {
+        const results = await Promise.allSettled(rest.map(tier => this.putTier(tier, hash, data, true)));
+        // Failed blocks stay pending for the next flush; only drop if not re-queued meanwhile
+        const failed = results.some(r => r.status === 'rejected');
+        if (!failed && this.pending.get(toHex(hash))?.data === data) {
+          this.pending.delete(toHex(hash));
+        }
+      }
+    })();
+
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+
+    // Retry failed or newly queued writes later
+    if (this.pending.size > 0) this.scheduleFlush();
+  }
+
+  getStats(): TieredStoreStats {
+    return {
+      tiers: this.tiers.map(t => ({ ...t.stats })),
+      misses: this.misses,
+      pendingWrites: this.pending.size,
+    };
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushDelay <= 0 || this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(() => {
+        // Failed writes stay counted in tier errors
+      });
+    }, this.flushDelay);
+  }
+
+  private async putTier(tier: Tier, hash: Hash, data: Uint8Array, rethrow: boolean): Promise<boolean> {
+    try {
+      const stored = await tier.store.put(hash, data);
+      tier.stats.writes++;
+      this.track(tier, hash, data.length);
+      await this.evict(tier);
+      return stored;
+    } catch (e) {
+      tier.stats.errors++;
+      if (rethrow) throw e;
+      return false;
+    }
+  }
+
+  private track(tier: Tier, hash: Hash, size: number): void {
+    if (tier.maxBytes === undefined) return;
+    const hex = toHex(hash);
+    this.untrack(tier, hex);
+    tier.usage.set(hex, { hash, size });
+    tier.stats.bytes += size;
+  }
+
+  private untrack(tier: Tier, hex: string): void {
+    const entry = tier.usage.get(hex);
+    if (!entry) return;
+    tier.usage.delete(hex);
+    tier.stats.bytes -= entry.size;
+  }
+
+  /** Move a block to the most recently used position */
+  private touch(tier: Tier, hash: Hash): void {
+    const hex = toHex(hash);
+    const entry = tier.usage.get(hex);
+    if (!entry) return;
+    tier.usage.delete(hex);
+    tier.usage.set(hex, entry);
+  }
+
+  private async evict(tier: Tier): Promise<void> {
+    if (tier.maxBytes === undefined) return;
+    while (tier.stats.bytes > tier.maxBytes && tier.usage.size > 1) {
+      const [hex, entry] = tier.usage.entries().next().value!;
+      this.untrack(tier, hex);
+      await tier.store.delete(entry.hash);
+      tier.stats.evictions++;
+    }
+  }
+}
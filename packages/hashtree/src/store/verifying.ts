@@ -0,0 +1,151 @@
+/**
+ * Hash-verifying store wrapper
+ *
+ * Checks SHA256 of every block read against the requested hash. Stores are
+ * tried in order: a store returning corrupted data is skipped (reported via
+ * a 'corrupt' event) and the next store is asked instead.
+ */
+
+import { Store, Hash, hashEquals } from '../types.js';
+import { isEnumerableStore, forwardBoundedStores, type StoreUsage } from '../gc.js';
+import { sha256 } from '../hash.js';
+import { getMany } from './batch.js';
+
+export type VerifyingStoreEvent =
+  | { type: 'corrupt'; hash: Hash; store: Store; index: number }
+  | { type: 'repaired'; hash: Hash; store: Store; index: number };
+
+export type VerifyingStoreEventHandler = (event: VerifyingStoreEvent) => void;
+
+export interface VerifyingStoreOptions {
+  /** Overwrite corrupted blocks with verified data from a later store (default: false) */
+  repair?: boolean;
+}
+
+export class VerifyingStore implements Store {
+  private stores: Store[];
+  private repair: boolean;
+  private eventHandlers = new Set<VerifyingStoreEventHandler>();
+  private corruptCount = 0;
+
+  /** Protect blocks from eviction in the wrapped stores (only set when one of them is bounded) */
+  setPinned?: (hashes: Iterable<Hash>) => void;
+  /** Usage of the wrapped bounded stores (only set when one of them is bounded) */
+  getUsage?: () => Promise<StoreUsage>;
+
+  /**
+   * @param stores - Store or stores to read from in order; writes and deletes go to the first
+   */
+  constructor(stores: Store | Store[], options: VerifyingStoreOptions = {}) {
+    this.stores = Array.isArray(stores) ? stores : [stores];
+    if (this.stores.length === 0) {
+      throw new Error('VerifyingStore requires at least one store');
+    }
+    this.repair = options.repair ?? false;
+    Object.assign(this, forwardBoundedStores(this.stores));
+  }
+
+  /**
+   * Add event listener
+   */
+  on(handler: VerifyingStoreEventHandler): () => void {
+    this.eventHandlers.add(handler);
+    return () => this.eventHandlers.delete(handler);
+  }
+
+  private emit(event: VerifyingStoreEvent): void {
+    for (const handler of this.eventHandlers) {
+      handler(event);
+    }
+  }
+
+  /**
+   * Number of corrupted blocks seen since creation
+   */
+  get corruptions(): number {
+    return this.corruptCount;
+  }
+
+  async put(hash: Hash, data: Uint8Array): Promise<boolean> {
+    return this.stores[0].put(hash, data);
+  }
+
+  async get(hash: Hash): Promise<Uint8Array | null> {
+    if (!hash) return null;
+
+    const corrupted: number[] = [];
+    for (let index = 0; index < this.stores.length; index++) {
+      const store = this.stores[index];
+      const data = await store.get(hash);
+      if (!data) continue;
+
+      if (hashEquals(await sha256(data), hash)) {
+        if (this.repair) {
+          await this.repairStores(hash, data, corrupted);
+        }
+        return data;
+      }
+
+      this.corruptCount++;
+      corrupted.push(index);
+      this.emit({ type: 'corrupt', hash, store, index });
+    }
+    return null;
+  }
+
+  /**
+   * Get several blocks, batched through the first store
+   * Missing or corrupted blocks fall back to get(), which tries the other stores.
+   */
+  async getMany(hashes: Hash[]): Promise<Array<Uint8Array | null>> {
+    const first = await getMany(this.stores[0], hashes);
+    return Promise.all(hashes.map(async (hash, i) => {
+      const data = first[i];
+      if (data && hashEquals(await sha256(data), hash)) return data;
+      return this.get(hash);
+    }));
+  }
+
+  private async repairStores(hash: Hash, data: Uint8Array, indexes: number[]): Promise<void> {
+    for (const index of indexes) {
+      const store = this.stores[index];
+      try {
+        await store.delete(hash);
+        await store.put(hash, data);
+        this.emit({ type: 'repaired', hash, store, index });
+      } catch {
+        // Repair is best-effort - the verified data is returned either way
+      }
+    }
+  }
+
+  async has(hash: Hash): Promise<boolean> {
+    for (const store of this.stores) {
+      if (await store.has(hash)) return true;
+    }
+    return false;
+  }
+
+  async delete(hash: Hash): Promise<boolean> {
+    return this.stores[0].delete(hash);
+  }
+
+  /**
+   * Keys of the first store, for gc()
+   */
+  keys(): Hash[] | Promise<Hash[]> {
+    const [first] = this.stores;
+    if (!isEnumerableStore(first)) {
+      throw new Error('Store does not support key enumeration');
+    }
+    return first.keys();
+  }
+
+  /**
+   * Block sizes of the first store, for gc()
+   */
+  sizes(): Map<string, number> | Promise<Map<string, number>> | undefined {
+    const [first] = this.stores;
+    return isEnumerableStore(first) ? first.sizes?.() : undefined;
+  }
+}
@@ -11,7 +11,7 @@ import { Store, Hash, CID, TreeNode, LinkType, Link, cid } from './types.js';
 import { encodeAndHash } from './codec.js';
 import { sha256 } from './hash.js';
 import { encryptChk, type EncryptionKey } from './crypto.js';
-import { type Chunker, fixedChunker } from './builder.js';
+import { type Chunker, fixedChunker, chunkLimit, chunkLength } from './builder.js';
 export type { Chunker } from './builder.js';
 
 export interface StreamWriterConfig {
@@ -19,12 +19,15 @@ export interface StreamWriterConfig {
   chunkSize?: number;
   chunker?: Chunker;
   isPublic?: boolean;
+  /** Convergence secret for keyed CHK, e.g. from rotateTreeKeys (default: plain CHK) */
+  convergenceSecret?: Uint8Array;
 }
 
 export class StreamWriter {
   private store: Store;
   private chunker: Chunker;
   private isPublic: boolean;
+  private convergenceSecret?: Uint8Array;
 
   // Current partial chunk being built
   private buffer: Uint8Array;
@@ -49,6 +52,7 @@ export class StreamWriter {
       this.store = config.store;
       this.chunker = config.chunker ?? fixedChunker(config.chunkSize ?? 2 * 1024 * 1024);
       this.isPublic = config.isPublic ?? false;
+      this.convergenceSecret = config.convergenceSecret;
     } else {
       // Legacy positional constructor (maxLinks ignored)
       this.store = storeOrConfig as Store;
@@ -56,12 +60,12 @@ export class StreamWriter {
       this.isPublic = isPublic ?? false;
     }
     // Initialize buffer with first chunk size
-    this.buffer = new Uint8Array(this.chunker(0));
+    this.buffer = new Uint8Array(chunkLimit(this.chunker, 0));
   }
 
   /** Get current target chunk size */
   private currentChunkSize(): number {
-    return this.chunker(this.chunks.length);
+    return chunkLimit(this.chunker, this.chunks.length);
   }
 
   /**
@@ -99,14 +103,19 @@ export class StreamWriter {
   }
 
   /**
-   * Flush current buffer as a chunk (encrypted or plaintext based on mode)
+   * Flush the next chunk from the buffer (encrypted or plaintext based on mode)
+   * Content-defined chunkers may cut before the end of the buffer;
+   * the remaining bytes start the next chunk.
    */
   private async flushChunk(): Promise<void> {
     if (this.bufferOffset === 0) return;
 
-    const chunkSize = this.bufferOffset;
+    const buffered = this.buffer.subarray(0, this.bufferOffset);
+    const chunkSize = chunkLength(this.chunker, this.chunks.length, buffered);
     // slice() to create independent copy - allows buffer reuse after await
     const chunk = this.buffer.slice(0, chunkSize);
+    this.buffer.copyWithin(0, chunkSize, this.bufferOffset);
+    this.bufferOffset -= chunkSize;
 
     if (this.isPublic) {
       // Public mode: store plaintext
@@ -115,13 +124,11 @@ export class StreamWriter {
       this.chunks.push({ hash, size: chunkSize, type: LinkType.Blob });
     } else {
       // Encrypted mode: CHK encrypt the chunk
-      const { ciphertext, key } = await encryptChk(chunk);
+      const { ciphertext, key } = await encryptChk(chunk, this.convergenceSecret);
       const hash = await sha256(ciphertext);
       await this.store.put(hash, ciphertext);
       this.chunks.push({ hash, size: chunkSize, key, type: LinkType.Blob });
     }
-
-    this.bufferOffset = 0;
   }
 
   /**
@@ -146,7 +153,7 @@ export class StreamWriter {
       } else {
         // Store PLAINTEXT size in link.size for correct range seeking
         const plaintextSize = chunk.length;
-        const { ciphertext, key } = await encryptChk(chunk);
+        const { ciphertext, key } = await encryptChk(chunk, this.convergenceSecret);
         const hash = await sha256(ciphertext);
         await this.store.put(hash, ciphertext);
         tempChunks.push({ hash, size: plaintextSize, key, type: LinkType.Blob });
@@ -163,7 +170,9 @@ export class StreamWriter {
    */
   async finalize(): Promise<{ hash: Hash; size: number; key?: EncryptionKey }> {
     // Flush remaining buffer
-    await this.flushChunk();
+    while (this.bufferOffset > 0) {
+      await this.flushChunk();
+    }
 
     if (this.chunks.length === 0) {
       // Empty stream
@@ -173,7 +182,7 @@ export class StreamWriter {
         await this.store.put(hash, emptyData);
         return { hash, size: 0 };
       } else {
-        const { ciphertext, key } = await encryptChk(new Uint8Array(0));
+        const { ciphertext, key } = await encryptChk(new Uint8Array(0), this.convergenceSecret);
         const hash = await sha256(ciphertext);
         await this.store.put(hash, ciphertext);
         return { hash, size: 0, key };
@@ -206,7 +215,7 @@ export class StreamWriter {
       return { hash: nodeHash };
     } else {
       // Encrypted mode: CHK encrypt the tree node
-      const { ciphertext, key } = await encryptChk(data);
+      const { ciphertext, key } = await encryptChk(data, this.convergenceSecret);
       const hash = await sha256(ciphertext);
       await this.store.put(hash, ciphertext);
       return cid(hash, key);
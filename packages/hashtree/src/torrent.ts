@@ -0,0 +1,456 @@
+/**
+ * BitTorrent v2 (BEP52) .torrent files for hashtree content
+ *
+ * createTorrent() builds a v2 torrent - optionally hybrid with v1 keys -
+ * from a directory or file CID: file tree with per-file pieces roots, piece
+ * layers and infohash. parseTorrent() reads a v2 torrent's file tree and
+ * piece layers back, and verifyTorrent() checks hashtree content against it
+ * piece by piece.
+ *
+ * Directory entries are walked in byte order of their names, the order of
+ * the bencoded file tree, so v1 file offsets in hybrid torrents line up.
+ *
+ * @see https://www.bittorrent.org/beps/bep_0052.html
+ */
+
+import type { HashTree } from './hashtree.js';
+import { CID, Hash, hashEquals, toHex } from './types.js';
+import { sha256, sha1 } from './hash.js';
+import { bencode, bdecode, bdecodeDict, type BencodeValue, type BencodeMap } from './bencode.js';
+import {
+  BEP52_BLOCK_SIZE,
+  ZERO_HASH,
+  Bep52StreamBuilder,
+  Bep52TreeBuilder,
+  merkleHashPair,
+  merkleNumLeafs,
+  merklePadHash,
+} from './bep52.js';
+
+/** Default piece length: 256 KiB */
+export const DEFAULT_PIECE_LENGTH = 256 * 1024;
+
+export interface TorrentOptions {
+  /** Torrent name: suggested directory name, or the file name for a single file */
+  name: string;
+  /** Piece length, a power of 2 >= 16 KiB (default: 256 KiB) */
+  pieceLength?: number;
+  /** Also include v1 keys (pieces, files with pad files) for v1 clients (default: false) */
+  hybrid?: boolean;
+  /** Tracker URLs; the first is also written as 'announce' */
+  announce?: string[];
+  comment?: string;
+  createdBy?: string;
+  /** Creation time in unix seconds */
+  creationDate?: number;
+}
+
+export interface TorrentFile {
+  /** Path inside the torrent; [name] for single-file torrents */
+  path: string[];
+  length: number;
+  /** Merkle root of the file's 16 KiB blocks (absent for empty files) */
+  piecesRoot?: Hash;
+  /** Hash of each piece (absent for files of one piece or less) */
+  pieceLayer?: Hash[];
+}
+
+export interface Torrent {
+  name: string;
+  pieceLength: number;
+  files: TorrentFile[];
+  /** SHA256 of the bencoded info dictionary (v2 infohash) */
+  infoHash: Hash;
+  /** SHA1 of the bencoded info dictionary, for hybrid torrents (v1 infohash) */
+  infoHashV1?: Uint8Array;
+  announce?: string[];
+}
+
+export interface TorrentResult extends Torrent {
+  /** Bencoded .torrent file */
+  torrent: Uint8Array;
+}
+
+export type TorrentFileStatus = 'ok' | 'missing' | 'mismatch';
+
+export interface TorrentFileVerification {
+  path: string[];
+  status: TorrentFileStatus;
+  /** Indexes of pieces whose hashes differ (all pieces if lengths differ) */
+  badPieces: number[];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * BEP52 hashes of one file's content
+ */
+interface FileHashes {
+  length: number;
+  /** Undefined for empty files */
+  piecesRoot?: Hash;
+  /** Hash of each piece, whether or not it goes into the piece layers */
+  pieces: Hash[];
+}
+
+async function hashFile(
+  tree: HashTree,
+  id: CID,
+  pieceLength: number,
+  onChunk?: (chunk: Uint8Array) => Promise<void>
+): Promise<FileHashes> {
+  const stream = new Bep52StreamBuilder();
+  for await (const chunk of tree.readFileStream(id)) {
+    await stream.append(chunk);
+    if (onChunk) await onChunk(chunk);
+  }
+  const { leafHashes, size } = await stream.finalize();
+  if (size === 0) {
+    return { length: 0, pieces: [] };
+  }
+
+  const { root, pieceLayers } = await new Bep52TreeBuilder({ pieceSize: pieceLength })
+    .buildFromHashes(leafHashes, size);
+  return { length: size, piecesRoot: root, pieces: pieceLayers ?? leafHashes };
+}
+
+/**
+ * Root of a merkle tree from one of its layers
+ * Missing nodes on the right are filled with the pad hash of that layer.
+ * @param layer - Hashes of the layer, left to right
+ * @param width - Number of nodes in the full layer (power of 2)
+ * @param pad - Hash of an all-padding subtree at this layer
+ */
+async function layerRoot(layer: Hash[], width: number, pad: Hash): Promise<Hash> {
+  let current = layer;
+  while (width > 1) {
+    const next: Hash[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(await merkleHashPair(current[i], current[i + 1] ?? pad));
+    }
+    pad = await merkleHashPair(pad, pad);
+    current = next;
+    width /= 2;
+  }
+  return current[0] ?? pad;
+}
+
+/**
+ * Expected piece layer root check for a file longer than one piece
+ */
+async function pieceLayerMatches(
+  layer: Hash[],
+  length: number,
+  pieceLength: number,
+  piecesRoot: Hash
+): Promise<boolean> {
+  const blocksPerPiece = pieceLength / BEP52_BLOCK_SIZE;
+  const numLeafs = merkleNumLeafs(Math.ceil(length / BEP52_BLOCK_SIZE));
+  const pad = await merklePadHash(Math.log2(blocksPerPiece));
+  return hashEquals(await layerRoot(layer, numLeafs / blocksPerPiece, pad), piecesRoot);
+}
+
+/**
+ * SHA1 piece hashing over concatenated files, for hybrid torrents
+ */
+class V1PieceHasher {
+  private buffer: Uint8Array;
+  private filled = 0;
+  readonly pieces: Uint8Array[] = [];
+
+  constructor(pieceLength: number) {
+    this.buffer = new Uint8Array(pieceLength);
+  }
+
+  async update(data: Uint8Array): Promise<void> {
+    let offset = 0;
+    while (offset < data.length) {
+      const n = Math.min(this.buffer.length - this.filled, data.length - offset);
+      this.buffer.set(data.subarray(offset, offset + n), this.filled);
+      this.filled += n;
+      offset += n;
+      if (this.filled === this.buffer.length) {
+        this.pieces.push(await sha1(this.buffer));
+        this.filled = 0;
+      }
+    }
+  }
+
+  async finish(): Promise<Uint8Array> {
+    if (this.filled > 0) {
+      this.pieces.push(await sha1(this.buffer.subarray(0, this.filled)));
+      this.filled = 0;
+    }
+    const result = new Uint8Array(this.pieces.length * 20);
+    this.pieces.forEach((piece, i) => result.set(piece, i * 20));
+    return result;
+  }
+}
+
+function compareNames(a: string, b: string): number {
+  const ab = encoder.encode(a);
+  const bb = encoder.encode(b);
+  const n = Math.min(ab.length, bb.length);
+  for (let i = 0; i < n; i++) {
+    if (ab[i] !== bb[i]) return ab[i] - bb[i];
+  }
+  return ab.length - bb.length;
+}
+
+/**
+ * List files under a directory in file tree order
+ */
+async function collectFiles(
+  tree: HashTree,
+  dir: CID,
+  prefix: string[] = []
+): Promise<Array<{ path: string[]; cid: CID }>> {
+  const entries = (await tree.listDirectory(dir)).sort((a, b) => compareNames(a.name, b.name));
+  const files: Array<{ path: string[]; cid: CID }> = [];
+  for (const entry of entries) {
+    const path = [...prefix, entry.name];
+    if (await tree.isDirectory(entry.cid)) {
+      files.push(...await collectFiles(tree, entry.cid, path));
+    } else {
+      files.push({ path, cid: entry.cid });
+    }
+  }
+  return files;
+}
+
+/**
+ * Create a BitTorrent v2 torrent from a directory or file
+ * @param tree - HashTree to read content from
+ * @param root - Directory CID (multi-file torrent) or file CID (single-file torrent)
+ * @param options - Torrent name, piece length, hybrid mode and metadata
+ * @returns Bencoded torrent, infohashes and per-file hashes
+ */
+export async function createTorrent(
+  tree: HashTree,
+  root: CID,
+  options: TorrentOptions
+): Promise<TorrentResult> {
+  const pieceLength = options.pieceLength ?? DEFAULT_PIECE_LENGTH;
+  if (pieceLength < BEP52_BLOCK_SIZE || (pieceLength & (pieceLength - 1)) !== 0) {
+    throw new Error(`Piece length must be a power of 2 >= ${BEP52_BLOCK_SIZE}: ${pieceLength}`);
+  }
+
+  const single = !(await tree.isDirectory(root));
+  const sources = single ? [{ path: [options.name], cid: root }] : await collectFiles(tree, root);
+  if (sources.length === 0) {
+    throw new Error('Cannot create a torrent without files');
+  }
+
+  const v1 = options.hybrid ? new V1PieceHasher(pieceLength) : null;
+  const v1Files: BencodeValue[] = [];
+  // Prototype-less, so file names like __proto__ or constructor are plain keys
+  const fileTree: { [key: string]: BencodeValue } = Object.create(null);
+  const pieceLayers: BencodeMap = new Map();
+  const files: TorrentFile[] = [];
+
+  for (let i = 0; i < sources.length; i++) {
+    const { path, cid } = sources[i];
+    const hashes = await hashFile(tree, cid, pieceLength, v1 ? chunk => v1.update(chunk) : undefined);
+
+    const file: TorrentFile = { path, length: hashes.length, piecesRoot: hashes.piecesRoot };
+    if (hashes.piecesRoot && hashes.length > pieceLength) {
+      file.pieceLayer = hashes.pieces;
+      pieceLayers.set(hashes.piecesRoot, concatHashes(hashes.pieces));
+    }
+    files.push(file);
+
+    let node = fileTree;
+    for (const part of path) {
+      node = (node[part] ??= Object.create(null)) as { [key: string]: BencodeValue };
+    }
+    node[''] = { length: hashes.length, 'pieces root': hashes.piecesRoot };
+
+    if (v1) {
+      v1Files.push({ length: hashes.length, path });
+      // Pad so the next file starts on a piece boundary
+      const pad = (pieceLength - (hashes.length % pieceLength)) % pieceLength;
+      if (pad > 0 && i < sources.length - 1) {
+        await v1.update(new Uint8Array(pad));
+        v1Files.push({ attr: 'p', length: pad, path: ['.pad', String(pad)] });
+      }
+    }
+  }
+
+  const info: { [key: string]: BencodeValue | undefined } = {
+    'file tree': fileTree,
+    'meta version': 2,
+    name: options.name,
+    'piece length': pieceLength,
+  };
+  if (v1) {
+    if (single) {
+      info.length = files[0].length;
+    } else {
+      info.files = v1Files;
+    }
+    info.pieces = await v1.finish();
+  }
+
+  const announce = options.announce ?? [];
+  const torrent = bencode({
+    announce: announce[0],
+    'announce-list': announce.length > 1 ? announce.map(url => [url]) : undefined,
+    comment: options.comment,
+    'created by': options.createdBy,
+    'creation date': options.creationDate,
+    info,
+    'piece layers': pieceLayers,
+  });
+
+  const infoBytes = bencode(info);
+  return {
+    torrent,
+    name: options.name,
+    pieceLength,
+    files,
+    infoHash: await sha256(infoBytes),
+    infoHashV1: v1 ? await sha1(infoBytes) : undefined,
+    announce: announce.length > 0 ? announce : undefined,
+  };
+}
+
+function concatHashes(hashes: Hash[]): Uint8Array {
+  const result = new Uint8Array(hashes.length * 32);
+  hashes.forEach((hash, i) => result.set(hash, i * 32));
+  return result;
+}
+
+function isDict(value: BencodeValue | undefined): value is { [key: string]: BencodeValue | undefined } {
+  return typeof value === 'object' && !(value instanceof Uint8Array) && !Array.isArray(value) && !(value instanceof Map);
+}
+
+function text(value: BencodeValue | undefined): string | undefined {
+  return value instanceof Uint8Array ? decoder.decode(value) : undefined;
+}
+
+/**
+ * Parse a BitTorrent v2 (or hybrid) torrent
+ * Piece layers are checked against each file's pieces root.
+ * @param data - Bencoded .torrent file
+ */
+export async function parseTorrent(data: Uint8Array): Promise<Torrent> {
+  const { value, raw } = bdecodeDict(data, ['info', 'piece layers']);
+  const info = isDict(value) ? value.info : undefined;
+  if (!isDict(value) || !isDict(info) || !raw.info) {
+    throw new Error('Invalid torrent: missing info dictionary');
+  }
+  if (info['meta version'] !== 2 || !isDict(info['file tree'])) {
+    throw new Error('Unsupported torrent: not BitTorrent v2');
+  }
+
+  const name = text(info.name) ?? '';
+  const pieceLength = info['piece length'];
+  if (typeof pieceLength !== 'number' || pieceLength < BEP52_BLOCK_SIZE || (pieceLength & (pieceLength - 1)) !== 0) {
+    throw new Error(`Invalid torrent: bad piece length ${pieceLength}`);
+  }
+
+  // Piece layers are keyed by raw pieces root bytes
+  const layers = new Map<string, Uint8Array>();
+  if (raw['piece layers']) {
+    const map = bdecode(raw['piece layers'], { binaryKeys: true });
+    if (map instanceof Map) {
+      for (const [key, layer] of map) {
+        if (layer instanceof Uint8Array) layers.set(toHex(key), layer);
+      }
+    }
+  }
+
+  const files: TorrentFile[] = [];
+  const walk = async (node: { [key: string]: BencodeValue | undefined }, path: string[]) => {
+    for (const [key, child] of Object.entries(node)) {
+      if (!isDict(child)) continue;
+      if (key !== '') {
+        await walk(child, [...path, key]);
+        continue;
+      }
+
+      const length = child.length;
+      if (typeof length !== 'number') {
+        throw new Error(`Invalid torrent: missing length for ${path.join('/')}`);
+      }
+      const root = child['pieces root'];
+      const file: TorrentFile = { path, length };
+      if (root instanceof Uint8Array) {
+        file.piecesRoot = root;
+        const layer = layers.get(toHex(root));
+        if (layer && length > pieceLength) {
+          const hashes = Array.from({ length: layer.length / 32 }, (_, i) => layer.slice(i * 32, i * 32 + 32));
+          if (hashes.length !== Math.ceil(length / pieceLength)
+            || !(await pieceLayerMatches(hashes, length, pieceLength, root))) {
+            throw new Error(`Invalid torrent: piece layer does not match pieces root for ${path.join('/')}`);
+          }
+          file.pieceLayer = hashes;
+        }
+      }
+      files.push(file);
+    }
+  };
+  await walk(info['file tree'], []);
+
+  const announceList = Array.isArray(value['announce-list'])
+    ? value['announce-list'].flatMap(tier => (Array.isArray(tier) ? tier.map(text) : []))
+    : [text(value.announce)];
+  const announce = announceList.filter((url): url is string => !!url);
+
+  return {
+    name,
+    pieceLength,
+    files,
+    infoHash: await sha256(raw.info),
+    infoHashV1: info.pieces instanceof Uint8Array ? await sha1(raw.info) : undefined,
+    announce: announce.length > 0 ? announce : undefined,
+  };
+}
+
+/**
+ * Verify hashtree content against a v2 torrent's files
+ * Each torrent file is looked up by path under root (a single-file torrent
+ * may also be checked directly against a file CID).
+ * @param tree - HashTree to read content from
+ * @param root - Directory or file CID holding the content
+ * @param torrent - Parsed torrent or bencoded .torrent file
+ */
+export async function verifyTorrent(
+  tree: HashTree,
+  root: CID,
+  torrent: Torrent | Uint8Array
+): Promise<TorrentFileVerification[]> {
+  const parsed = torrent instanceof Uint8Array ? await parseTorrent(torrent) : torrent;
+  const rootIsFile = !(await tree.isDirectory(root));
+
+  const results: TorrentFileVerification[] = [];
+  for (const file of parsed.files) {
+    const pieceCount = Math.ceil(file.length / parsed.pieceLength);
+    const allPieces = Array.from({ length: pieceCount }, (_, i) => i);
+
+    const entry = rootIsFile && parsed.files.length === 1
+      ? { cid: root }
+      : await tree.resolvePath(root, file.path);
+    if (!entry) {
+      results.push({ path: file.path, status: 'missing', badPieces: allPieces });
+      continue;
+    }
+
+    const hashes = await hashFile(tree, entry.cid, parsed.pieceLength);
+    if (hashes.length !== file.length) {
+      results.push({ path: file.path, status: 'mismatch', badPieces: allPieces });
+      continue;
+    }
+
+    let badPieces: number[];
+    if (file.pieceLayer) {
+      badPieces = allPieces.filter(i => !hashEquals(hashes.pieces[i], file.pieceLayer![i]));
+    } else {
+      const expected = file.piecesRoot ?? ZERO_HASH;
+      badPieces = hashEquals(hashes.piecesRoot ?? ZERO_HASH, expected) ? [] : allPieces;
+    }
+    results.push({ path: file.path, status: badPieces.length > 0 ? 'mismatch' : 'ok', badPieces });
+  }
+  return results;
+}
@@ -5,10 +5,18 @@
 import { Store, Hash, TreeNode, Link, LinkType, CID } from '../types.js';
 import { sha256 } from '../hash.js';
 import { encodeAndHash } from '../codec.js';
+import { type Chunker, fixedChunker, chunkRanges } from '../builder.js';
+import { buildDirectory, DEFAULT_SHARD_THRESHOLD, type WriteDirNode } from './hamt.js';
 
 export interface CreateConfig {
   store: Store;
   chunkSize: number;
+  /** Custom chunker for file data (default: fixed chunkSize chunks) */
+  chunker?: Chunker;
+  /** Max entries of a directory node before it's sharded (default: DEFAULT_SHARD_THRESHOLD) */
+  shardThreshold?: number;
+  /** Convergence secret for keyed CHK, e.g. from rotateTreeKeys (default: plain CHK) */
+  convergenceSecret?: Uint8Array;
 }
 
 export interface DirEntry {
@@ -37,8 +45,9 @@ export async function putFile(
 ): Promise<{ hash: Hash; size: number }> {
   const { store, chunkSize } = config;
   const size = data.length;
+  const ranges = chunkRanges(data, config.chunker ?? fixedChunker(chunkSize));
 
-  if (data.length <= chunkSize) {
+  if (ranges.length <= 1) {
     const hash = await putBlob(store, data);
     return { hash, size };
   }
@@ -46,18 +55,15 @@ export async function putFile(
   // Process chunks sequentially to avoid memory spikes
   // (For parallel processing of large files, use StreamWriter instead)
   const links: Link[] = [];
-  let offset = 0;
-  while (offset < data.length) {
-    const end = Math.min(offset + chunkSize, data.length);
+  for (const [start, end] of ranges) {
     // Use subarray to avoid copying
-    const chunk = data.subarray(offset, end);
+    const chunk = data.subarray(start, end);
     const hash = await putBlob(store, chunk);
     links.push({
       hash,
       size: chunk.length,
       type: LinkType.Blob,
     });
-    offset = end;
   }
 
   const rootHash = await buildTree(config, links, size);
@@ -68,16 +74,14 @@ export async function putFile(
  * Build a directory from entries
  *
  * Directories are encoded as MessagePack blobs. If the encoded blob exceeds
- * chunkSize, it's chunked by bytes like files using putFile.
+ * chunkSize, it's chunked by bytes like files using putFile. Directories with
+ * more than shardThreshold entries are sharded (see hamt.ts).
  */
 export async function putDirectory(
   config: CreateConfig,
   entries: DirEntry[]
 ): Promise<Hash> {
-  const { store, chunkSize } = config;
-  const sorted = [...entries].sort((a, b) => a.name.localeCompare(b.name));
-
-  const links: Link[] = sorted.map(e => ({
+  const links: Link[] = entries.map(e => ({
     hash: e.cid.hash,
     key: e.cid.key,
     name: e.name,
@@ -86,21 +90,27 @@ export async function putDirectory(
     meta: e.meta,
   }));
 
-  const node: TreeNode = {
-    type: LinkType.Dir,
-    links,
-  };
-  const { data, hash } = await encodeAndHash(node);
-
-  // Small directory - store directly
-  if (data.length <= chunkSize) {
-    await store.put(hash, data);
-    return hash;
-  }
+  const { ref } = await buildDirectory(dirNodeWriter(config), links, config.shardThreshold ?? DEFAULT_SHARD_THRESHOLD);
+  return ref.hash;
+}
 
-  // Large directory - reuse putFile for chunking
-  const { hash: rootHash } = await putFile(config, data);
-  return rootHash;
+/**
+ * Store directory nodes, chunking large ones like files
+ */
+export function dirNodeWriter(config: CreateConfig): WriteDirNode {
+  return async (node: TreeNode) => {
+    const { data, hash } = await encodeAndHash(node);
+
+    // Small directory - store directly
+    if (data.length <= config.chunkSize) {
+      await config.store.put(hash, data);
+      return { hash };
+    }
+
+    // Large directory - reuse putFile for chunking
+    const { hash: rootHash } = await putFile(config, data);
+    return { hash: rootHash };
+  };
 }
 
 export async function buildTree(
@@ -0,0 +1,209 @@
+/**
+ * Tree diff - compute what changed between two directory roots
+ *
+ * Subtrees whose link hashes are equal are skipped without being read,
+ * so the cost is proportional to the size of the change, not the tree.
+ * Entries with the same hash but a different link type or metadata (mode,
+ * mtime, mimeType...) are reported as modified. A directory whose content
+ * changed is diffed entry by entry instead, so a change to its own metadata
+ * only shows when its content stayed the same.
+ * Works for both public and CHK-encrypted trees.
+ */
+
+import { Store, CID, LinkType, cid, toHex, hashEquals } from '../types.js';
+import { listDirectory, type TreeEntry } from './read.js';
+import { listDirectoryEncrypted } from '../encrypted.js';
+
+export type TreeChangeType = 'added' | 'removed' | 'modified' | 'renamed';
+
+/**
+ * A single change between two trees
+ *
+ * Added or removed directories are reported as one change for the
+ * directory itself, not for each entry inside it.
+ */
+export interface TreeChange {
+  type: TreeChangeType;
+  /** Path of the entry (new path for renames, old path for removals) */
+  path: string;
+  /** Previous path (renamed only) */
+  oldPath?: string;
+  /** Type of the entry: Blob, File, Dir or Symlink */
+  entryType: LinkType;
+  /** CID before the change (removed, modified, renamed) */
+  oldCid?: CID;
+  /** CID after the change (added, modified, renamed) */
+  newCid?: CID;
+  /** Size after the change (before the change for removals) */
+  size: number;
+  /** Entry metadata after the change (before the change for removals) */
+  meta?: Record<string, unknown>;
+}
+
+export interface DiffOptions {
+  /**
+   * Pair removed and added entries with identical content as renames (default: true)
+   * Renames can only be known once the whole diff is computed, so with this
+   * enabled added/removed/renamed changes are yielded after all modifications.
+   */
+  renames?: boolean;
+}
+
+/**
+ * List a directory, public or encrypted
+ */
+export async function listEntries(store: Store, id: CID): Promise<TreeEntry[]> {
+  if (id.key) {
+    const entries = await listDirectoryEncrypted(store, id.hash, id.key);
+    return entries.map(e => ({
+      name: e.name,
+      cid: cid(e.hash, e.key),
+      size: e.size,
+      type: e.type ?? LinkType.Blob,
+      meta: e.meta,
+    }));
+  }
+  return listDirectory(store, id.hash);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Uint8Array && b instanceof Uint8Array) return hashEquals(a, b);
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  return sameMeta(a as Record<string, unknown>, b as Record<string, unknown>);
+}
+
+/**
+ * Compare entry metadata by value; missing and empty metadata are the same
+ */
+export function sameMeta(a?: Record<string, unknown>, b?: Record<string, unknown>): boolean {
+  const keys = new Set([...Object.keys(a ?? {}), ...Object.keys(b ?? {})]);
+  for (const key of keys) {
+    if (!sameValue(a?.[key], b?.[key])) return false;
+  }
+  return true;
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir ? `${dir}/${name}` : name;
+}
+
+/**
+ * Diff two directory trees
+ * @param store - Storage backend
+ * @param oldRoot - Root CID before the change
+ * @param newRoot - Root CID after the change
+ * @param options - Diff options
+ */
+export async function* diffTrees(
+  store: Store,
+  oldRoot: CID,
+  newRoot: CID,
+  options: DiffOptions = {}
+): AsyncGenerator<TreeChange> {
+  const detectRenames = options.renames ?? true;
+  const added: TreeChange[] = [];
+  const removed: TreeChange[] = [];
+
+  async function* diffDir(oldDir: CID, newDir: CID, path: string): AsyncGenerator<TreeChange> {
+    if (hashEquals(oldDir.hash, newDir.hash)) return;
+
+    const [oldEntries, newEntries] = await Promise.all([
+      listEntries(store, oldDir),
+      listEntries(store, newDir),
+    ]);
+    const oldByName = new Map(oldEntries.map(e => [e.name, e]));
+    const newNames = new Set(newEntries.map(e => e.name));
+
+    for (const entry of newEntries) {
+      const entryPath = joinPath(path, entry.name);
+      const prev = oldByName.get(entry.name);
+
+      if (!prev) {
+        const change: TreeChange = {
+          type: 'added',
+          path: entryPath,
+          entryType: entry.type,
+          newCid: entry.cid,
+          size: entry.size,
+          meta: entry.meta,
+        };
+        if (detectRenames) added.push(change);
+        else yield change;
+        continue;
+      }
+
+      const sameContent = hashEquals(prev.cid.hash, entry.cid.hash);
+      if (sameContent && prev.type === entry.type && sameMeta(prev.meta, entry.meta)) continue;
+
+      if (!sameContent && prev.type === LinkType.Dir && entry.type === LinkType.Dir) {
+        yield* diffDir(prev.cid, entry.cid, entryPath);
+        continue;
+      }
+
+      yield {
+        type: 'modified',
+        path: entryPath,
+        entryType: entry.type,
+        oldCid: prev.cid,
+        newCid: entry.cid,
+        size: entry.size,
+        meta: entry.meta,
+      };
+    }
+
+    for (const entry of oldEntries) {
+      if (newNames.has(entry.name)) continue;
+      const change: TreeChange = {
+        type: 'removed',
+        path: joinPath(path, entry.name),
+        entryType: entry.type,
+        oldCid: entry.cid,
+        size: entry.size,
+        meta: entry.meta,
+      };
+      if (detectRenames) removed.push(change);
+      else yield change;
+    }
+  }
+
+  yield* diffDir(oldRoot, newRoot, '');
+
+  if (!detectRenames) return;
+
+  // Same content hash on both sides - the entry was renamed or moved
+  const removedByHash = new Map<string, TreeChange[]>();
+  for (const change of removed) {
+    const hex = toHex(change.oldCid!.hash);
+    const list = removedByHash.get(hex) ?? [];
+    list.push(change);
+    removedByHash.set(hex, list);
+  }
+
+  const renamed = new Set<TreeChange>();
+  const remainingAdded: TreeChange[] = [];
+  for (const change of added) {
+    const source = removedByHash.get(toHex(change.newCid!.hash))?.shift();
+    if (!source) {
+      remainingAdded.push(change);
+      continue;
+    }
+    renamed.add(source);
+    yield {
+      type: 'renamed',
+      path: change.path,
+      oldPath: source.path,
+      entryType: change.entryType,
+      oldCid: source.oldCid,
+      newCid: change.newCid,
+      size: change.size,
+      meta: change.meta,
+    };
+  }
+
+  for (const change of removed) {
+    if (!renamed.has(change)) yield change;
+  }
+  yield* remainingAdded;
+}
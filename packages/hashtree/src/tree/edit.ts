@@ -2,14 +2,35 @@
  * Tree editing operations
  */
 
-import { Store, Hash, CID, cid, LinkType } from '../types.js';
-import { putDirectory, type DirEntry, type CreateConfig } from './create.js';
-import { listDirectory, resolvePath } from './read.js';
+import { Store, Hash, CID, Link, LinkType } from '../types.js';
+import { dirNodeWriter, type CreateConfig } from './create.js';
+import { dirNodeReader, getDirectoryEntry, resolvePath, type TreeEntry } from './read.js';
+import { updateDirectory, DEFAULT_SHARD_THRESHOLD } from './hamt.js';
 
 export interface EditConfig extends CreateConfig {}
 
+function entryLink(entry: TreeEntry): Link {
+  return { hash: entry.cid.hash, key: entry.cid.key, name: entry.name, size: entry.size, type: entry.type, meta: entry.meta };
+}
+
+/**
+ * Apply entry changes to a directory node, rewriting only what changed
+ */
+async function updateDir(config: EditConfig, dirHash: Hash, upserts: Link[], removals: string[]): Promise<Hash> {
+  const { ref } = await updateDirectory(
+    dirNodeReader(config.store),
+    dirNodeWriter(config),
+    { hash: dirHash },
+    upserts,
+    removals,
+    config.shardThreshold ?? DEFAULT_SHARD_THRESHOLD
+  );
+  return ref.hash;
+}
+
 /**
  * Add or update an entry in a directory
+ * @param meta - Entry metadata, e.g. mode and mtime
  * @returns New root hash
  */
 export async function setEntry(
@@ -19,7 +40,8 @@ export async function setEntry(
   name: string,
   entryCid: CID,
   size: number,
-  type: LinkType = LinkType.Blob
+  type: LinkType = LinkType.Blob,
+  meta?: Record<string, unknown>
 ): Promise<Hash> {
   const { store } = config;
   const dirHash = await resolvePathArray(store, rootHash, path);
@@ -27,14 +49,7 @@ export async function setEntry(
     throw new Error(`Path not found: ${path.join('/')}`);
   }
 
-  const entries = await listDirectory(store, dirHash);
-  const newEntries: DirEntry[] = entries
-    .filter(e => e.name !== name)
-    .map(e => ({ name: e.name, cid: e.cid, size: e.size, type: e.type, meta: e.meta }));
-
-  newEntries.push({ name, cid: entryCid, size, type });
-
-  const newDirHash = await putDirectory(config, newEntries);
+  const newDirHash = await updateDir(config, dirHash, [{ hash: entryCid.hash, key: entryCid.key, name, size, type, meta }], []);
   return rebuildPath(config, rootHash, path, newDirHash);
 }
 
@@ -54,12 +69,7 @@ export async function removeEntry(
     throw new Error(`Path not found: ${path.join('/')}`);
   }
 
-  const entries = await listDirectory(store, dirHash);
-  const newEntries: DirEntry[] = entries
-    .filter(e => e.name !== name)
-    .map(e => ({ name: e.name, cid: e.cid, size: e.size, type: e.type, meta: e.meta }));
-
-  const newDirHash = await putDirectory(config, newEntries);
+  const newDirHash = await updateDir(config, dirHash, [], [name]);
   return rebuildPath(config, rootHash, path, newDirHash);
 }
 
@@ -82,19 +92,12 @@ export async function renameEntry(
     throw new Error(`Path not found: ${path.join('/')}`);
   }
 
-  const entries = await listDirectory(store, dirHash);
-  const entry = entries.find(e => e.name === oldName);
+  const entry = await getDirectoryEntry(store, dirHash, oldName);
   if (!entry) {
     throw new Error(`Entry not found: ${oldName}`);
   }
 
-  const newEntries: DirEntry[] = entries
-    .filter(e => e.name !== oldName)
-    .map(e => ({ name: e.name, cid: e.cid, size: e.size, type: e.type, meta: e.meta }));
-
-  newEntries.push({ name: newName, cid: entry.cid, size: entry.size, type: entry.type, meta: entry.meta });
-
-  const newDirHash = await putDirectory(config, newEntries);
+  const newDirHash = await updateDir(config, dirHash, [{ ...entryLink(entry), name: newName }], [oldName]);
   return rebuildPath(config, rootHash, path, newDirHash);
 }
 
@@ -115,8 +118,7 @@ export async function moveEntry(
     throw new Error(`Source path not found: ${sourcePath.join('/')}`);
   }
 
-  const sourceEntries = await listDirectory(store, sourceDirHash);
-  const entry = sourceEntries.find(e => e.name === name);
+  const entry = await getDirectoryEntry(store, sourceDirHash, name);
   if (!entry) {
     throw new Error(`Entry not found: ${name}`);
   }
@@ -132,7 +134,8 @@ export async function moveEntry(
     name,
     entry.cid,
     entry.size,
-    entry.type
+    entry.type,
+    entry.meta
   );
 
   return newRoot;
@@ -168,14 +171,12 @@ async function rebuildPath(
       throw new Error(`Parent path not found: ${parts.join('/')}`);
     }
 
-    const parentEntries = await listDirectory(store, parentHash);
-    const newParentEntries: DirEntry[] = parentEntries.map(e =>
-      e.name === childName
-        ? { name: e.name, cid: cid(childHash), size: e.size, type: e.type, meta: e.meta }
-        : { name: e.name, cid: e.cid, size: e.size, type: e.type, meta: e.meta }
-    );
+    const child = await getDirectoryEntry(store, parentHash, childName);
+    if (!child) {
+      throw new Error(`Path not found: ${[...parts, childName].join('/')}`);
+    }
 
-    childHash = await putDirectory(config, newParentEntries);
+    childHash = await updateDir(config, parentHash, [{ ...entryLink(child), hash: childHash, key: undefined }], []);
   }
 
   return childHash;
@@ -9,9 +9,8 @@ import { Store, Hash, LinkType } from '../types.js';
 export { LinkType };
 import { type EncryptionKey } from '../crypto.js';
 import {
-  putDirectoryEncrypted,
-  listDirectoryEncrypted,
-  type EncryptedDirEntry,
+  updateDirectoryEncrypted,
+  getDirectoryEntryEncrypted,
   type EncryptedTreeConfig,
 } from '../encrypted.js';
 
@@ -48,8 +47,7 @@ async function resolvePathAndCollectKeys(
   let currentKey = rootKey;
 
   for (const segment of path) {
-    const entries = await listDirectoryEncrypted(store, currentHash, currentKey);
-    const entry = entries.find(e => e.name === segment);
+    const entry = await getDirectoryEntryEncrypted(store, currentHash, currentKey, segment);
 
     if (!entry || !entry.key) {
       return null;
@@ -73,7 +71,8 @@ async function resolvePathAndCollectKeys(
  * @param hash - Hash of the entry content
  * @param size - Size of the entry content
  * @param key - Encryption key of the entry (for encrypted content)
- * @param type - LinkType of the entry (Blob, File, or Dir)
+ * @param type - LinkType of the entry (Blob, File, Dir or Symlink)
+ * @param meta - Entry metadata, e.g. mode and mtime
  * @returns New root hash and key
  */
 export async function setEntryEncrypted(
@@ -85,7 +84,8 @@ export async function setEntryEncrypted(
   hash: Hash,
   size: number,
   key?: EncryptionKey,
-  type: LinkType = LinkType.Blob
+  type: LinkType = LinkType.Blob,
+  meta?: Record<string, unknown>
 ): Promise<EncryptedEditResult> {
   const { store } = config;
 
@@ -98,25 +98,8 @@ export async function setEntryEncrypted(
 
   const { dirHash, dirKey, pathKeys } = resolved;
 
-  // List current entries
-  const entries = await listDirectoryEncrypted(store, dirHash, dirKey);
-
-  // Filter out existing entry and add new one
-  const newEntries: EncryptedDirEntry[] = entries
-    .filter(e => e.name !== name)
-    .map(e => ({
-      name: e.name,
-      hash: e.hash,
-      size: e.size,
-      key: e.key,
-      type: e.type,
-      meta: e.meta,
-    }));
-
-  newEntries.push({ name, hash, size, key, type });
-
-  // Create new encrypted directory
-  const newDir = await putDirectoryEncrypted(config, newEntries);
+  // Add or replace the entry
+  const newDir = await updateDirectoryEncrypted(config, dirHash, dirKey, [{ name, hash, size, key, type, meta }], []);
 
   // Rebuild the path with new directory
   return rebuildPathEncrypted(
@@ -150,19 +133,7 @@ export async function removeEntryEncrypted(
 
   const { dirHash, dirKey, pathKeys } = resolved;
 
-  const entries = await listDirectoryEncrypted(store, dirHash, dirKey);
-  const newEntries: EncryptedDirEntry[] = entries
-    .filter(e => e.name !== name)
-    .map(e => ({
-      name: e.name,
-      hash: e.hash,
-      size: e.size,
-      key: e.key,
-      type: e.type,
-      meta: e.meta,
-    }));
-
-  const newDir = await putDirectoryEncrypted(config, newEntries);
+  const newDir = await updateDirectoryEncrypted(config, dirHash, dirKey, [], [name]);
 
   return rebuildPathEncrypted(
     config,
@@ -200,33 +171,12 @@ export async function renameEntryEncrypted(
 
   const { dirHash, dirKey, pathKeys } = resolved;
 
-  const entries = await listDirectoryEncrypted(store, dirHash, dirKey);
-  const entry = entries.find(e => e.name === oldName);
+  const entry = await getDirectoryEntryEncrypted(store, dirHash, dirKey, oldName);
   if (!entry) {
     throw new Error(`Entry not found: ${oldName}`);
   }
 
-  const newEntries: EncryptedDirEntry[] = entries
-    .filter(e => e.name !== oldName)
-    .map(e => ({
-      name: e.name,
-      hash: e.hash,
-      size: e.size,
-      key: e.key,
-      type: e.type,
-      meta: e.meta,
-    }));
-
-  newEntries.push({
-    name: newName,
-    hash: entry.hash,
-    size: entry.size,
-    key: entry.key,
-    type: entry.type,
-    meta: entry.meta,
-  });
-
-  const newDir = await putDirectoryEncrypted(config, newEntries);
+  const newDir = await updateDirectoryEncrypted(config, dirHash, dirKey, [{ ...entry, name: newName }], [oldName]);
 
   return rebuildPathEncrypted(
     config,
@@ -259,8 +209,7 @@ export async function moveEntryEncrypted(
   }
 
   // Get the entry to move
-  const sourceEntries = await listDirectoryEncrypted(store, sourceResolved.dirHash, sourceResolved.dirKey);
-  const entryToMove = sourceEntries.find(e => e.name === name);
+  const entryToMove = await getDirectoryEntryEncrypted(store, sourceResolved.dirHash, sourceResolved.dirKey, name);
   if (!entryToMove) {
     throw new Error(`Entry not found: ${name}`);
   }
@@ -274,33 +223,13 @@ export async function moveEntryEncrypted(
     throw new Error(`Target path not found: ${targetPath.join('/')}`);
   }
 
-  // Add to target
-  const targetEntries = await listDirectoryEncrypted(store, targetResolved.dirHash, targetResolved.dirKey);
-
   // Check for name collision
-  if (targetEntries.some(e => e.name === name)) {
+  if (await getDirectoryEntryEncrypted(store, targetResolved.dirHash, targetResolved.dirKey, name)) {
     throw new Error(`Entry already exists in target: ${name}`);
   }
 
-  const newTargetEntries: EncryptedDirEntry[] = targetEntries.map(e => ({
-    name: e.name,
-    hash: e.hash,
-    size: e.size,
-    key: e.key,
-    type: e.type,
-    meta: e.meta,
-  }));
-
-  newTargetEntries.push({
-    name: entryToMove.name,
-    hash: entryToMove.hash,
-    size: entryToMove.size,
-    key: entryToMove.key,
-    type: entryToMove.type,
-    meta: entryToMove.meta,
-  });
-
-  const newTargetDir = await putDirectoryEncrypted(config, newTargetEntries);
+  // Add to target
+  const newTargetDir = await updateDirectoryEncrypted(config, targetResolved.dirHash, targetResolved.dirKey, [entryToMove], []);
 
   return rebuildPathEncrypted(
     config,
@@ -349,8 +278,7 @@ async function rebuildPathEncrypted(
       parentHash = rootHash;
       parentKey = rootKey;
       for (let i = 0; i < parts.length; i++) {
-        const entries = await listDirectoryEncrypted(store, parentHash, parentKey);
-        const entry = entries.find(e => e.name === parts[i]);
+        const entry = await getDirectoryEntryEncrypted(store, parentHash, parentKey, parts[i]);
         if (!entry || !entry.key) {
           throw new Error(`Parent path not found: ${parts.join('/')}`);
         }
@@ -359,15 +287,13 @@ async function rebuildPathEncrypted(
       }
     }
 
-    // Get parent entries and update the child
-    const parentEntries = await listDirectoryEncrypted(store, parentHash, parentKey);
-    const newParentEntries: EncryptedDirEntry[] = parentEntries.map(e =>
-      e.name === childName
-        ? { name: e.name, hash: childHash, size: e.size, key: childKey, type: e.type, meta: e.meta }
-        : { name: e.name, hash: e.hash, size: e.size, key: e.key, type: e.type, meta: e.meta }
-    );
+    // Update the child in the parent
+    const child = await getDirectoryEntryEncrypted(store, parentHash, parentKey, childName);
+    if (!child) {
+      throw new Error(`Path not found: ${[...parts, childName].join('/')}`);
+    }
 
-    const newParent = await putDirectoryEncrypted(config, newParentEntries);
+    const newParent = await updateDirectoryEncrypted(config, parentHash, parentKey, [{ ...child, hash: childHash, key: childKey }], []);
     childHash = newParent.hash;
     childKey = newParent.key;
   }
@@ -0,0 +1,300 @@
+/**
+ * Sharded directories (HAMT)
+ *
+ * A directory with more than `threshold` entries is split into 64 buckets by
+ * 6 bits of SHA256(name). A bucket node is a Dir node whose links are unnamed
+ * and carry `{ bucket, count }` meta; buckets that are still over the threshold
+ * are split again on the next 6 bits. Leaf buckets are ordinary directory nodes.
+ *
+ * The shape depends only on the set of names, so the same entries always give
+ * the same root hash, however they were added. Edits only rewrite the buckets
+ * on the path to the changed names.
+ *
+ * Node storage is passed in, so the same code serves public and encrypted trees.
+ */
+
+import { Hash, TreeNode, Link, LinkType } from '../types.js';
+import { sha256 } from '../hash.js';
+
+/** Max entries of a directory node before it's sharded */
+export const DEFAULT_SHARD_THRESHOLD = 1000;
+
+const SHARD_BITS = 6;
+const SHARD_MASK = (1 << SHARD_BITS) - 1;
+
+/** Reference to a stored directory node */
+export interface NodeRef {
+  hash: Hash;
+  key?: Uint8Array;
+}
+
+/** Load a directory node (reassembling chunked nodes), null if missing */
+export type ReadDirNode = (ref: NodeRef) => Promise<TreeNode | null>;
+
+/** Store a directory node (chunking it if large) */
+export type WriteDirNode = (node: TreeNode) => Promise<NodeRef>;
+
+export interface BuiltDirectory {
+  ref: NodeRef;
+  /** Number of entries */
+  count: number;
+  /** Total size of the entries */
+  size: number;
+}
+
+interface Item {
+  link: Link;
+  hash: Hash;
+}
+
+interface Change {
+  name: string;
+  hash: Hash;
+  /** New link, or null to remove */
+  link: Link | null;
+}
+
+const nameEncoder = new TextEncoder();
+const EMPTY_DIR: TreeNode = { type: LinkType.Dir, links: [] };
+
+function compareNames(a: string, b: string): number {
+  return a.localeCompare(b);
+}
+
+function nameHash(name: string): Promise<Hash> {
+  return sha256(nameEncoder.encode(name));
+}
+
+function canSplit(depth: number): boolean {
+  return (depth + 1) * SHARD_BITS <= 256;
+}
+
+function bucketIndex(hash: Hash, depth: number): number {
+  const bit = depth * SHARD_BITS;
+  const byte = bit >> 3;
+  const word = (hash[byte] << 8) | (hash[byte + 1] ?? 0);
+  return (word >> (16 - (bit & 7) - SHARD_BITS)) & SHARD_MASK;
+}
+
+function bucketOf(link: Link): number {
+  return link.meta!.bucket as number;
+}
+
+function countOf(link: Link): number {
+  return link.meta!.count as number;
+}
+
+function sumSizes(links: Link[]): number {
+  return links.reduce((sum, l) => sum + l.size, 0);
+}
+
+/**
+ * Check if a directory node is a bucket node of a sharded directory
+ */
+export function isShardNode(node: TreeNode): boolean {
+  return node.type === LinkType.Dir &&
+    node.links.length > 0 &&
+    node.links.every(l => l.name === undefined && typeof l.meta?.bucket === 'number');
+}
+
+/** Name hashes are only needed when the links will be split into buckets */
+async function toItems(links: Link[], threshold: number): Promise<Item[]> {
+  if (links.length <= threshold) {
+    return links.map(link => ({ link, hash: new Uint8Array(0) }));
+  }
+  return Promise.all(links.map(async link => ({ link, hash: await nameHash(link.name!) })));
+}
+
+async function build(write: WriteDirNode, items: Item[], threshold: number, depth: number): Promise<BuiltDirectory> {
+  const links = items.map(i => i.link);
+  if (items.length <= threshold || !canSplit(depth)) {
+    links.sort((a, b) => compareNames(a.name!, b.name!));
+    return { ref: await write({ type: LinkType.Dir, links }), count: links.length, size: sumSizes(links) };
+  }
+
+  const buckets = new Map<number, Item[]>();
+  for (const item of items) {
+    const index = bucketIndex(item.hash, depth);
+    const bucket = buckets.get(index);
+    if (bucket) bucket.push(item);
+    else buckets.set(index, [item]);
+  }
+
+  const children: Link[] = [];
+  for (const index of [...buckets.keys()].sort((a, b) => a - b)) {
+    const child = await build(write, buckets.get(index)!, threshold, depth + 1);
+    children.push(bucketLink(index, child));
+  }
+  return { ref: await write({ type: LinkType.Dir, links: children }), count: items.length, size: sumSizes(children) };
+}
+
+function bucketLink(index: number, built: BuiltDirectory): Link {
+  return {
+    hash: built.ref.hash,
+    key: built.ref.key,
+    size: built.size,
+    type: LinkType.Dir,
+    meta: { bucket: index, count: built.count },
+  };
+}
+
+/**
+ * Store a directory, sharding it if it has more than `threshold` entries
+ * @param links - Named entry links
+ */
+export async function buildDirectory(
+  write: WriteDirNode,
+  links: Link[],
+  threshold: number = DEFAULT_SHARD_THRESHOLD
+): Promise<BuiltDirectory> {
+  return build(write, await toItems(links, threshold), threshold, 0);
+}
+
+async function readBucket(read: ReadDirNode, link: Link): Promise<TreeNode> {
+  const node = await read(link);
+  if (!node) {
+    throw new Error(`Missing directory shard ${bucketOf(link)}`);
+  }
+  return node;
+}
+
+/**
+ * Get all entry links of a directory node, in storage order
+ * (by name for plain directories, by name hash for sharded ones)
+ */
+export async function collectEntries(read: ReadDirNode, node: TreeNode): Promise<Link[]> {
+  if (!isShardNode(node)) {
+    return node.links.filter(l => l.name !== undefined);
+  }
+  const links: Link[] = [];
+  for (const child of node.links) {
+    links.push(...await collectEntries(read, await readBucket(read, child)));
+  }
+  return links;
+}
+
+/**
+ * Iterate the entry links of a directory node lazily, in storage order
+ * Bucket nodes are only loaded when the iteration reaches them.
+ * @param after - Resume after this name, e.g. the last name of a previous page
+ */
+export async function* iterateEntries(
+  read: ReadDirNode,
+  node: TreeNode,
+  after?: string
+): AsyncGenerator<Link> {
+  const afterHash = after !== undefined && isShardNode(node) ? await nameHash(after) : undefined;
+
+  async function* iterate(current: TreeNode, depth: number, bounded: boolean): AsyncGenerator<Link> {
+    if (!isShardNode(current)) {
+      for (const link of current.links) {
+        if (link.name === undefined) continue;
+        if (bounded && after !== undefined && compareNames(link.name, after) <= 0) continue;
+        yield link;
+      }
+      return;
+    }
+
+    const start = bounded && afterHash ? bucketIndex(afterHash, depth) : -1;
+    for (const child of current.links) {
+      const index = bucketOf(child);
+      if (index < start) continue;
+      yield* iterate(await readBucket(read, child), depth + 1, index === start);
+    }
+  }
+
+  yield* iterate(node, 0, after !== undefined);
+}
+
+/**
+ * Find an entry link by name, loading only the buckets on its path
+ */
+export async function findEntry(read: ReadDirNode, node: TreeNode, name: string): Promise<Link | null> {
+  if (!isShardNode(node)) {
+    return node.links.find(l => l.name === name) ?? null;
+  }
+
+  const hash = await nameHash(name);
+  let current = node;
+  for (let depth = 0; isShardNode(current); depth++) {
+    const index = bucketIndex(hash, depth);
+    const child = current.links.find(l => bucketOf(l) === index);
+    if (!child) return null;
+    current = await readBucket(read, child);
+  }
+  return current.links.find(l => l.name === name) ?? null;
+}
+
+async function update(
+  read: ReadDirNode,
+  write: WriteDirNode,
+  node: TreeNode,
+  changes: Change[],
+  threshold: number,
+  depth: number
+): Promise<BuiltDirectory | null> {
+  if (!isShardNode(node)) {
+    const changed = new Set(changes.map(c => c.name));
+    const links = node.links.filter(l => l.name !== undefined && !changed.has(l.name));
+    for (const change of changes) {
+      if (change.link) links.push(change.link);
+    }
+    if (links.length === 0 && depth > 0) return null;
+    return build(write, await toItems(links, threshold), threshold, depth);
+  }
+
+  const byBucket = new Map<number, Change[]>();
+  for (const change of changes) {
+    const index = bucketIndex(change.hash, depth);
+    const bucket = byBucket.get(index);
+    if (bucket) bucket.push(change);
+    else byBucket.set(index, [change]);
+  }
+
+  const children = new Map(node.links.map(l => [bucketOf(l), l]));
+  for (const [index, bucketChanges] of byBucket) {
+    const child = children.get(index);
+    const childNode = child ? await readBucket(read, child) : EMPTY_DIR;
+    const built = await update(read, write, childNode, bucketChanges, threshold, depth + 1);
+    if (built) children.set(index, bucketLink(index, built));
+    else children.delete(index);
+  }
+
+  const links = [...children.values()].sort((a, b) => bucketOf(a) - bucketOf(b));
+  const count = links.reduce((sum, l) => sum + countOf(l), 0);
+
+  // Back under the threshold: merge the buckets into one node
+  if (count <= threshold) {
+    if (count === 0 && depth > 0) return null;
+    const merged = await collectEntries(read, { type: LinkType.Dir, links });
+    return build(write, await toItems(merged, threshold), threshold, depth);
+  }
+
+  return { ref: await write({ type: LinkType.Dir, links }), count, size: sumSizes(links) };
+}
+
+/**
+ * Add, replace and remove entries of a stored directory
+ * Only the buckets holding the changed names are rewritten. A missing
+ * directory node is treated as empty.
+ * @param upserts - Entry links to add or replace (by name)
+ * @param removals - Names to remove
+ */
+export async function updateDirectory(
+  read: ReadDirNode,
+  write: WriteDirNode,
+  dir: NodeRef,
+  upserts: Link[],
+  removals: string[],
+  threshold: number = DEFAULT_SHARD_THRESHOLD
+): Promise<BuiltDirectory> {
+  const node = (await read(dir)) ?? EMPTY_DIR;
+  const upserted = new Set(upserts.map(l => l.name!));
+  const changes: Change[] = await Promise.all([
+    ...upserts.map(async link => ({ name: link.name!, hash: await nameHash(link.name!), link })),
+    ...removals
+      .filter(name => !upserted.has(name))
+      .map(async name => ({ name, hash: await nameHash(name), link: null })),
+  ]);
+  return (await update(read, write, node, changes, threshold, 0))!;
+}
@@ -0,0 +1,181 @@
+/**
+ * Three-way merge of directory trees
+ *
+ * Changes from base to theirs are replayed onto ours with setEntry/removeEntry
+ * (or the encrypted variants, depending on the ours root key). Changes that
+ * touch different paths merge automatically; edits to the same path, or to a
+ * path inside a directory the other side removed, are reported as conflicts
+ * and keep the ours version.
+ */
+
+import { Store, CID, cid, hashEquals } from '../types.js';
+import { setEntry, removeEntry, type EditConfig } from './edit.js';
+import { setEntryEncrypted, removeEntryEncrypted } from './editEncrypted.js';
+import { diffTrees, listEntries, sameMeta, type TreeChange } from './diff.js';
+
+/**
+ * Conflict kind, ours first:
+ * - modify/modify: both sides changed the entry differently
+ * - modify/delete: ours changed the entry, theirs removed it
+ * - delete/modify: ours removed the entry (or a parent dir), theirs changed it
+ * - add/add: both sides added different entries with the same name
+ */
+export type MergeConflictType = 'modify/modify' | 'modify/delete' | 'delete/modify' | 'add/add';
+
+export interface MergeConflict {
+  type: MergeConflictType;
+  /** Path of the conflicting entry */
+  path: string;
+  /** Entry in base (undefined if added) */
+  base?: CID;
+  /** Entry in ours (undefined if removed) - this version is kept in the merged tree */
+  ours?: CID;
+  /** Entry in theirs (undefined if removed) */
+  theirs?: CID;
+}
+
+export interface MergeResult {
+  /** Merged root CID */
+  cid: CID;
+  /** Unresolved same-path edits, empty if the merge was clean */
+  conflicts: MergeConflict[];
+}
+
+async function collectChanges(store: Store, from: CID, to: CID): Promise<TreeChange[]> {
+  const changes: TreeChange[] = [];
+  for await (const change of diffTrees(store, from, to, { renames: false })) {
+    changes.push(change);
+  }
+  return changes;
+}
+
+/**
+ * Resolve a slash-separated path, public or encrypted
+ */
+async function resolveEntry(store: Store, root: CID, path: string): Promise<CID | undefined> {
+  let current = root;
+  for (const segment of path.split('/')) {
+    const entries = await listEntries(store, current);
+    const entry = entries.find(e => e.name === segment);
+    if (!entry) return undefined;
+    current = entry.cid;
+  }
+  return current;
+}
+
+function conflictType(base?: CID, ours?: CID, theirs?: CID): MergeConflictType {
+  if (!ours) return 'delete/modify';
+  if (!theirs) return 'modify/delete';
+  if (!base) return 'add/add';
+  return 'modify/modify';
+}
+
+function sameResult(a: TreeChange, b: TreeChange): boolean {
+  if (!a.newCid || !b.newCid) return !a.newCid && !b.newCid;
+  return hashEquals(a.newCid.hash, b.newCid.hash) && a.entryType === b.entryType && sameMeta(a.meta, b.meta);
+}
+
+/**
+ * Apply a single change to a root
+ */
+async function applyChange(config: EditConfig, root: CID, change: TreeChange): Promise<CID> {
+  const path = change.path.split('/');
+  const name = path.pop()!;
+
+  if (root.key) {
+    const result = change.newCid
+      ? await setEntryEncrypted(
+          config,
+          root.hash,
+          root.key,
+          path,
+          name,
+          change.newCid.hash,
+          change.size,
+          change.newCid.key,
+          change.entryType,
+          change.meta
+        )
+      : await removeEntryEncrypted(config, root.hash, root.key, path, name);
+    return cid(result.hash, result.key);
+  }
+
+  const hash = change.newCid
+    ? await setEntry(config, root.hash, path, name, change.newCid, change.size, change.entryType, change.meta)
+    : await removeEntry(config, root.hash, path, name);
+  return { hash };
+}
+
+/**
+ * Three-way merge of two directory trees with a common base
+ * @param config - Edit config (store, chunk size)
+ * @param base - Common ancestor root
+ * @param ours - Local root; the result keeps its encryption mode
+ * @param theirs - Remote root
+ */
+export async function mergeTrees(
+  config: EditConfig,
+  base: CID,
+  ours: CID,
+  theirs: CID
+): Promise<MergeResult> {
+  const { store } = config;
+
+  if (hashEquals(base.hash, theirs.hash) || hashEquals(ours.hash, theirs.hash)) {
+    return { cid: ours, conflicts: [] };
+  }
+  if (hashEquals(base.hash, ours.hash)) {
+    return { cid: theirs, conflicts: [] };
+  }
+
+  const [oursChanges, theirsChanges] = await Promise.all([
+    collectChanges(store, base, ours),
+    collectChanges(store, base, theirs),
+  ]);
+  const oursByPath = new Map(oursChanges.map(c => [c.path, c]));
+
+  let merged = ours;
+  const conflicts: MergeConflict[] = [];
+  const addConflict = (path: string, oursCid?: CID, change?: TreeChange) => {
+    conflicts.push({
+      type: conflictType(change?.oldCid, oursCid, change?.newCid),
+      path,
+      base: change?.oldCid,
+      ours: oursCid,
+      theirs: change?.newCid,
+    });
+  };
+
+  for (const change of theirsChanges) {
+    // Both sides changed the same entry
+    const same = oursByPath.get(change.path);
+    if (same) {
+      if (!sameResult(same, change)) addConflict(change.path, same.newCid, change);
+      continue;
+    }
+
+    // Ours removed or replaced a parent directory
+    const segments = change.path.split('/');
+    const parent = segments
+      .slice(0, -1)
+      .map((_, i) => oursByPath.get(segments.slice(0, i + 1).join('/')))
+      .find(c => c !== undefined);
+    if (parent) {
+      const bothRemoved = !parent.newCid && !change.newCid;
+      if (!bothRemoved) addConflict(change.path, undefined, change);
+      continue;
+    }
+
+    // Theirs removed or replaced a directory ours edited inside
+    const prefix = `${change.path}/`;
+    const inside = oursChanges.filter(c => c.path.startsWith(prefix));
+    if (inside.some(c => c.newCid) || (inside.length > 0 && change.newCid)) {
+      addConflict(change.path, await resolveEntry(store, ours, change.path), change);
+      continue;
+    }
+
+    merged = await applyChange(config, merged, change);
+  }
+
+  return { cid: merged, conflicts };
+}
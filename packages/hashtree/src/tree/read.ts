@@ -2,8 +2,9 @@
  * Tree reading operations
  */
 
-import { Store, Hash, TreeNode, LinkType, toHex, CID, cid } from '../types.js';
+import { Store, Hash, TreeNode, Link, LinkType, toHex, CID, cid } from '../types.js';
 import { decodeTreeNode, tryDecodeTreeNode, getNodeType } from '../codec.js';
+import { collectEntries, findEntry, iterateEntries, isShardNode, type ReadDirNode } from './hamt.js';
 
 export interface TreeEntry {
   name: string;
@@ -98,10 +99,13 @@ async function assembleChunks(store: Store, node: TreeNode): Promise<Uint8Array>
   return result;
 }
 
+/** Chunks fetched ahead while streaming, so a network store can ask several peers at once */
+export const DEFAULT_PREFETCH = 4;
+
 export interface StreamOptions {
   /** Byte offset to start streaming from (default: 0) */
   offset?: number;
-  /** Number of chunks to prefetch ahead (default: 1 = no prefetch) */
+  /** Number of chunks fetched ahead (default: DEFAULT_PREFETCH; 1 = no prefetch) */
   prefetch?: number;
 }
 
@@ -114,7 +118,7 @@ export async function* readFileStream(
   hash: Hash,
   options: StreamOptions = {}
 ): AsyncGenerator<Uint8Array> {
-  const { offset = 0, prefetch = 1 } = options;
+  const { offset = 0, prefetch = DEFAULT_PREFETCH } = options;
 
   const data = await store.get(hash);
   if (!data) return;
@@ -138,7 +142,7 @@ async function* streamChunksWithOffset(
   store: Store,
   node: TreeNode,
   offset: number,
-  prefetch: number = 1
+  prefetch: number
 ): AsyncGenerator<Uint8Array> {
   let position = 0;
 
@@ -337,7 +341,7 @@ async function readRangeFromNode(
  * For chunked directories (encoded blob > chunkSize), the chunks are assembled
  * first, then decoded as a TreeNode.
  */
-async function getDirectoryNode(store: Store, hash: Hash): Promise<TreeNode | null> {
+export async function getDirectoryNode(store: Store, hash: Hash): Promise<TreeNode | null> {
   const data = await store.get(hash);
   if (!data) return null;
 
@@ -363,37 +367,72 @@ async function getDirectoryNode(store: Store, hash: Hash): Promise<TreeNode | nu
   return null; // Not a directory
 }
 
+/**
+ * Load directory nodes by hash
+ */
+export function dirNodeReader(store: Store): ReadDirNode {
+  return ref => getDirectoryNode(store, ref.hash);
+}
+
+function toEntry(link: Link): TreeEntry {
+  return {
+    name: link.name!,
+    cid: cid(link.hash, link.key),
+    size: link.size,
+    type: link.type,
+    meta: link.meta,
+  };
+}
+
 /**
  * List directory entries
  *
- * Handles both small directories (single node) and large directories
- * (chunked by bytes like files - reassembled then decoded).
+ * Handles small directories (single node), large directories (chunked by
+ * bytes like files - reassembled then decoded) and sharded directories.
+ * Entries are sorted by name.
  */
 export async function listDirectory(store: Store, hash: Hash): Promise<TreeEntry[]> {
   const node = await getDirectoryNode(store, hash);
   if (!node) return [];
 
-  const entries: TreeEntry[] = [];
+  const links = await collectEntries(dirNodeReader(store), node);
+  if (isShardNode(node)) {
+    links.sort((a, b) => a.name!.localeCompare(b.name!));
+  }
+  return links.map(toEntry);
+}
 
-  for (const link of node.links) {
-    if (!link.name) continue; // Skip unnamed links (shouldn't happen in directories)
-
-    entries.push({
-      name: link.name,
-      cid: cid(link.hash, link.key),
-      size: link.size,
-      type: link.type,
-      meta: link.meta,
-    });
+/**
+ * Iterate directory entries lazily
+ * Sharded directories are read one bucket at a time, in name hash order.
+ * @param after - Resume after this entry name
+ */
+export async function* iterateDirectory(store: Store, hash: Hash, after?: string): AsyncGenerator<TreeEntry> {
+  const node = await getDirectoryNode(store, hash);
+  if (!node) return;
+
+  for await (const link of iterateEntries(dirNodeReader(store), node, after)) {
+    yield toEntry(link);
   }
+}
+
+/**
+ * Get a single directory entry by name
+ * Only the buckets on the name's path are loaded for sharded directories.
+ */
+export async function getDirectoryEntry(store: Store, hash: Hash, name: string): Promise<TreeEntry | null> {
+  const node = await getDirectoryNode(store, hash);
+  if (!node) return null;
 
-  return entries;
+  const link = await findEntry(dirNodeReader(store), node, name);
+  return link ? toEntry(link) : null;
 }
 
 /**
  * Resolve a path within a tree
  *
- * Handles chunked directories (reassembles bytes to get the full TreeNode).
+ * Handles chunked directories (reassembles bytes to get the full TreeNode)
+ * and sharded directories.
  */
 export async function resolvePath(store: Store, rootHash: Hash, path: string): Promise<Hash | null> {
   const parts = path.split('/').filter(p => p.length > 0);
@@ -401,13 +440,10 @@ export async function resolvePath(store: Store, rootHash: Hash, path: string): P
   let currentHash = rootHash;
 
   for (const part of parts) {
-    const node = await getDirectoryNode(store, currentHash);
-    if (!node) return null;
-
-    const link = node.links.find(l => l.name === part);
-    if (!link) return null;
+    const entry = await getDirectoryEntry(store, currentHash, part);
+    if (!entry) return null;
 
-    currentHash = link.hash;
+    currentHash = entry.cid.hash;
   }
 
   return currentHash;
@@ -451,9 +487,7 @@ export async function* walk(
     const dirSize = dirNode.links.reduce((sum, l) => sum + l.size, 0);
     yield { path, hash, type: LinkType.Dir, size: dirSize };
 
-    for (const link of dirNode.links) {
-      if (!link.name) continue;
-
+    for (const link of await collectEntries(dirNodeReader(store), dirNode)) {
       const childPath = path ? `${path}/${link.name}` : link.name;
       yield* walk(store, link.hash, childPath);
     }
@@ -9,19 +9,37 @@ import { Store, Hash, TreeNode, Link, LinkType, toHex } from '../types.js';
 import { sha256 } from '../hash.js';
 import { encodeAndHash, decodeTreeNode, tryDecodeTreeNode } from '../codec.js';
 import { encryptChk, decryptChk, type EncryptionKey } from '../crypto.js';
+import { type Chunker, fixedChunker, chunkLimit, chunkRanges } from '../builder.js';
 
 export interface WriteAtConfig {
   store: Store;
   chunkSize: number;
+  /** Chunker for bytes rewritten by spliceFile (default: fixed chunkSize chunks) */
+  chunker?: Chunker;
+  /** Convergence secret for keyed CHK, e.g. from rotateTreeKeys (default: plain CHK) */
+  convergenceSecret?: Uint8Array;
 }
 
 export interface WriteAtResult {
   /** New root hash after modification */
   hash: Hash;
-  /** Total file size (unchanged) */
+  /** Total file size (unchanged by writeAt) */
   size: number;
 }
 
+/**
+ * Size-changing edit of a file
+ * - append: add data at the end
+ * - truncate: keep the first `size` bytes
+ * - insert: add data at offset, shifting the rest
+ * - delete: remove bytes [start, end), shifting the rest
+ */
+export type FileEdit =
+  | { type: 'append'; data: Uint8Array }
+  | { type: 'truncate'; size: number }
+  | { type: 'insert'; offset: number; data: Uint8Array }
+  | { type: 'delete'; start: number; end: number };
+
 export interface WriteAtEncryptedResult extends WriteAtResult {
   /** New encryption key for the root */
   key: EncryptionKey;
@@ -121,7 +139,7 @@ export async function writeAtEncrypted(
     newData.set(data, offset);
 
     // Re-encrypt with CHK
-    const { ciphertext, key } = await encryptChk(newData);
+    const { ciphertext, key } = await encryptChk(newData, config.convergenceSecret);
     const newHash = await sha256(ciphertext);
     await store.put(newHash, ciphertext);
 
@@ -230,9 +248,8 @@ async function writeAtInNode(
 /**
  * Recursively modify chunks in an encrypted tree node
  *
- * NOTE: For encrypted files, link.size stores CIPHERTEXT size (includes AES-GCM tag),
- * but offset/data are in PLAINTEXT terms. We need to decrypt each chunk to get
- * the actual plaintext size for offset calculations.
+ * Link sizes are plaintext sizes (see putFileEncrypted), so offsets can be
+ * computed without decrypting chunks outside the write range.
  */
 async function writeAtInNodeEncrypted(
   config: WriteAtConfig,
@@ -242,22 +259,11 @@ async function writeAtInNodeEncrypted(
 ): Promise<Link[]> {
   const { store } = config;
   const newLinks: Link[] = [];
-
-  // First pass: collect plaintext sizes by decrypting headers or using heuristics
-  // AES-GCM adds 16 bytes tag, so plaintext size = ciphertext size - 16
-  const AES_GCM_TAG_SIZE = 16;
-
-  let position = 0; // Track plaintext position
+  let position = 0;
 
   for (const link of node.links) {
-    // For blobs, plaintext size = ciphertext size - tag
-    // For intermediate nodes, the size stored is the sum of child plaintext sizes
-    const plaintextSize = link.type === LinkType.Blob
-      ? link.size - AES_GCM_TAG_SIZE
-      : link.size; // Intermediate nodes store total plaintext size of subtree
-
     const linkStart = position;
-    const linkEnd = position + plaintextSize;
+    const linkEnd = position + link.size;
     position = linkEnd;
 
     // Check if this chunk overlaps with the write range
@@ -299,18 +305,13 @@ async function writeAtInNodeEncrypted(
         links: newChildLinks,
       };
       const { data: encodedNode } = await encodeAndHash(newChildNode);
-      const { ciphertext, key } = await encryptChk(encodedNode);
+      const { ciphertext, key } = await encryptChk(encodedNode, config.convergenceSecret);
       const newChildHash = await sha256(ciphertext);
       await store.put(newChildHash, ciphertext);
 
-      // Recalculate total plaintext size from new links
-      const newPlaintextSize = newChildLinks.reduce((sum, l) => {
-        return sum + (l.type === LinkType.Blob ? l.size - AES_GCM_TAG_SIZE : l.size);
-      }, 0);
-
       newLinks.push({
         hash: newChildHash,
-        size: newPlaintextSize, // Store plaintext size for intermediate nodes
+        size: link.size,
         key,
         type: LinkType.File,
       });
@@ -327,13 +328,13 @@ async function writeAtInNodeEncrypted(
       newChunkData.set(data.slice(dataReadStart, dataReadEnd), chunkWriteStart);
 
       // Re-encrypt with CHK
-      const { ciphertext, key } = await encryptChk(newChunkData);
+      const { ciphertext, key } = await encryptChk(newChunkData, config.convergenceSecret);
       const newHash = await sha256(ciphertext);
       await store.put(newHash, ciphertext);
 
       newLinks.push({
         hash: newHash,
-        size: ciphertext.length, // Store ciphertext size for blobs
+        size: newChunkData.length,
         key,
         type: LinkType.Blob,
       });
@@ -388,8 +389,239 @@ async function buildEncryptedTreeFromLinks(
     links,
   };
   const { data } = await encodeAndHash(node);
-  const { ciphertext, key } = await encryptChk(data);
+  const { ciphertext, key } = await encryptChk(data, config.convergenceSecret);
   const hash = await sha256(ciphertext);
   await store.put(hash, ciphertext);
   return { hash, key };
 }
+
+/**
+ * Leaf chunk access for spliceFile, plain or CHK encrypted
+ */
+interface ChunkCodec {
+  /** Read the plaintext of a block */
+  read(link: { hash: Hash; key?: EncryptionKey }): Promise<Uint8Array>;
+  /** Store a leaf chunk */
+  putChunk(data: Uint8Array): Promise<Link>;
+  /** Store a file node over leaf links */
+  putNode(links: Link[]): Promise<{ hash: Hash; key?: EncryptionKey }>;
+}
+
+function plainCodec(store: Store): ChunkCodec {
+  return {
+    async read(link) {
+      const data = await store.get(link.hash);
+      if (!data) throw new Error(`Missing chunk: ${toHex(link.hash)}`);
+      return data;
+    },
+    async putChunk(data) {
+      const hash = await sha256(data);
+      await store.put(hash, data);
+      return { hash, size: data.length, type: LinkType.Blob };
+    },
+    async putNode(links) {
+      const { data, hash } = await encodeAndHash({ type: LinkType.File, links });
+      await store.put(hash, data);
+      return { hash };
+    },
+  };
+}
+
+function encryptedCodec(store: Store, convergenceSecret?: Uint8Array): ChunkCodec {
+  return {
+    async read(link) {
+      if (!link.key) {
+        throw new Error(`Missing decryption key for chunk: ${toHex(link.hash)}`);
+      }
+      const data = await store.get(link.hash);
+      if (!data) throw new Error(`Missing chunk: ${toHex(link.hash)}`);
+      return decryptChk(data, link.key);
+    },
+    async putChunk(data) {
+      const { ciphertext, key } = await encryptChk(data, convergenceSecret);
+      const hash = await sha256(ciphertext);
+      await store.put(hash, ciphertext);
+      // Plaintext size, as in putFileEncrypted
+      return { hash, size: data.length, key, type: LinkType.Blob };
+    },
+    async putNode(links) {
+      const { data } = await encodeAndHash({ type: LinkType.File, links });
+      const { ciphertext, key } = await encryptChk(data, convergenceSecret);
+      const hash = await sha256(ciphertext);
+      await store.put(hash, ciphertext);
+      return { hash, key };
+    },
+  };
+}
+
+/**
+ * Append, truncate, insert or delete bytes in an unencrypted file
+ *
+ * Only the chunks at the edit boundaries are rewritten; chunks before and
+ * after keep their hashes. Nested file nodes are flattened into one node.
+ *
+ * @param config - Tree configuration
+ * @param rootHash - Current root hash of the file
+ * @param edit - Edit to apply
+ * @returns New root hash and file size
+ */
+export async function spliceFile(
+  config: WriteAtConfig,
+  rootHash: Hash,
+  edit: FileEdit
+): Promise<WriteAtResult> {
+  const { hash, size } = await splice(config, plainCodec(config.store), { hash: rootHash }, edit);
+  return { hash, size };
+}
+
+/**
+ * Append, truncate, insert or delete bytes in an encrypted file
+ *
+ * @param config - Tree configuration
+ * @param rootHash - Current root hash of the encrypted file
+ * @param rootKey - Current encryption key for the root
+ * @param edit - Edit to apply (plaintext offsets and data)
+ * @returns New root hash, key and file size
+ */
+export async function spliceFileEncrypted(
+  config: WriteAtConfig,
+  rootHash: Hash,
+  rootKey: EncryptionKey,
+  edit: FileEdit
+): Promise<WriteAtEncryptedResult> {
+  const { hash, size, key } = await splice(config, encryptedCodec(config.store, config.convergenceSecret), { hash: rootHash, key: rootKey }, edit);
+  return { hash, size, key: key! };
+}
+
+async function splice(
+  config: WriteAtConfig,
+  codec: ChunkCodec,
+  root: { hash: Hash; key?: EncryptionKey },
+  edit: FileEdit
+): Promise<{ hash: Hash; size: number; key?: EncryptionKey }> {
+  const rawRoot = await config.store.get(root.hash);
+  if (!rawRoot) {
+    throw new Error(`Root not found: ${toHex(root.hash)}`);
+  }
+  const rootData = root.key ? await decryptChk(rawRoot, root.key) : rawRoot;
+
+  const node = tryDecodeTreeNode(rootData);
+  if (node?.type === LinkType.Dir) {
+    throw new Error('Cannot splice a directory');
+  }
+  const leaves = node
+    ? await collectLeaves(codec, node.links)
+    : [{ hash: root.hash, key: root.key, size: rootData.length, type: LinkType.Blob }];
+  const totalSize = leaves.reduce((sum, l) => sum + l.size, 0);
+
+  // Resolve the edit to: replace bytes [start, end) with data
+  let start: number;
+  let end: number;
+  let data: Uint8Array = new Uint8Array(0);
+  switch (edit.type) {
+    case 'append':
+      start = end = totalSize;
+      data = edit.data;
+      break;
+    case 'truncate':
+      if (edit.size < 0 || edit.size > totalSize) {
+        throw new Error(`Truncate size out of range: size=${edit.size}, file=${totalSize}`);
+      }
+      start = edit.size;
+      end = totalSize;
+      break;
+    case 'insert':
+      if (edit.offset < 0 || edit.offset > totalSize) {
+        throw new Error(`Insert beyond end of file: offset=${edit.offset}, file=${totalSize}`);
+      }
+      start = end = edit.offset;
+      data = edit.data;
+      break;
+    case 'delete':
+      if (edit.start < 0 || edit.start > edit.end || edit.end > totalSize) {
+        throw new Error(`Delete range out of bounds: start=${edit.start}, end=${edit.end}, file=${totalSize}`);
+      }
+      start = edit.start;
+      end = edit.end;
+      break;
+  }
+
+  const chunker = config.chunker ?? fixedChunker(config.chunkSize);
+
+  // First affected chunk: the one containing start
+  let first = 0;
+  let firstStart = 0;
+  while (first < leaves.length && firstStart + leaves[first].size <= start) {
+    firstStart += leaves[first].size;
+    first++;
+  }
+  // Appending fills up a partial last chunk instead of adding a small one
+  if (first === leaves.length && first > 0 && data.length > 0) {
+    const last = leaves[first - 1];
+    if (last.size < chunkLimit(chunker, first - 1)) {
+      first--;
+      firstStart -= last.size;
+    }
+  }
+
+  // Chunks [first, after) are replaced: partially kept at either edge, deleted in between
+  let after = first;
+  let afterStart = firstStart;
+  while (after < leaves.length && (afterStart < end || afterStart < start)) {
+    afterStart += leaves[after].size;
+    after++;
+  }
+
+  const prefix = start > firstStart
+    ? (await codec.read(leaves[first])).subarray(0, start - firstStart)
+    : new Uint8Array(0);
+  const suffix = end < afterStart
+    ? (await codec.read(leaves[after - 1])).subarray(leaves[after - 1].size - (afterStart - end))
+    : new Uint8Array(0);
+
+  const bytes = new Uint8Array(prefix.length + data.length + suffix.length);
+  bytes.set(prefix, 0);
+  bytes.set(data, prefix.length);
+  bytes.set(suffix, prefix.length + data.length);
+
+  const newLeaves: Link[] = [];
+  for (const [s, e] of chunkRanges(bytes, shiftChunker(chunker, first))) {
+    newLeaves.push(await codec.putChunk(bytes.subarray(s, e)));
+  }
+
+  const links = [...leaves.slice(0, first), ...newLeaves, ...leaves.slice(after)];
+  const size = totalSize - (end - start) + data.length;
+
+  if (links.length === 0) {
+    const empty = await codec.putChunk(new Uint8Array(0));
+    return { hash: empty.hash, size, key: empty.key };
+  }
+  if (links.length === 1) {
+    return { hash: links[0].hash, size, key: links[0].key };
+  }
+  const { hash, key } = await codec.putNode(links);
+  return { hash, size, key };
+}
+
+/**
+ * Collect leaf links of a file tree in order
+ */
+async function collectLeaves(codec: ChunkCodec, links: Link[]): Promise<Link[]> {
+  const leaves: Link[] = [];
+  for (const link of links) {
+    if (link.type === LinkType.Blob) {
+      leaves.push(link);
+      continue;
+    }
+    const child = decodeTreeNode(await codec.read(link));
+    leaves.push(...await collectLeaves(codec, child.links));
+  }
+  return leaves;
+}
+
+/**
+ * Chunker for rechunking bytes that start at leaf `index` of a file
+ */
+function shiftChunker(chunker: Chunker, index: number): Chunker {
+  return typeof chunker === 'function' ? (i: number) => chunker(i + index) : chunker;
+}
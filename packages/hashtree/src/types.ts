@@ -42,6 +42,8 @@ export enum LinkType {
   File = 1,
   /** Directory tree (TreeNode with named links) */
   Dir = 2,
+  /** Symbolic link (blob holding the UTF-8 target path) */
+  Symlink = 3,
 }
 
 /**
@@ -56,9 +58,9 @@ export interface Link {
   size: number;
   /** CHK decryption key (content hash) for encrypted nodes */
   key?: Uint8Array;
-  /** Type of content this link points to: Blob, File, or Dir */
+  /** Type of content this link points to: Blob, File, Dir or Symlink */
   type: LinkType;
-  /** Optional metadata (for directory entries: createdAt, mimeType, thumbnail, etc.) */
+  /** Optional metadata (for directory entries: createdAt, mimeType, thumbnail, mode, mtime, etc.) */
   meta?: Record<string, unknown>;
 }
 
@@ -111,7 +113,7 @@ export interface DirEntry {
   name: string;
   hash: Hash;
   size: number;
-  /** Type of content this entry points to: Blob, File, or Dir */
+  /** Type of content this entry points to: Blob, File, Dir or Symlink */
   type: LinkType;
 }
 
@@ -141,6 +143,23 @@ export interface Store {
    * @returns true if deleted, false if didn't exist
    */
   delete(hash: Hash): Promise<boolean>;
+
+  /**
+   * Retrieve several blocks at once (optional, see getMany() in store/batch)
+   * @returns data or null for each hash, in the same order
+   */
+  getMany?(hashes: Hash[]): Promise<Array<Uint8Array | null>>;
+
+  /**
+   * Store several blocks at once (optional)
+   * @returns true for each newly stored block, in the same order
+   */
+  putMany?(blocks: Array<{ hash: Hash; data: Uint8Array }>): Promise<boolean[]>;
+
+  /**
+   * Check several hashes at once (optional)
+   */
+  hasMany?(hashes: Hash[]): Promise<boolean[]>;
 }
 
 /**
@@ -193,7 +212,7 @@ export function hashEquals(a: Hash, b: Hash): boolean {
 export interface RefResolverListEntry {
   key: string;
   cid: CID;
-  /** Tree visibility: public, link-visible, or private */
+  /** Tree visibility: public, link-visible, shared, or private */
   visibility?: TreeVisibility;
   /** Encrypted key for link-visible trees - decrypt with link key from URL */
   encryptedKey?: string;
@@ -201,22 +220,36 @@ export interface RefResolverListEntry {
   keyId?: string;
   /** Self-encrypted key for private trees - decrypt with NIP-04 */
   selfEncryptedKey?: string;
+  /** Root key NIP-44 encrypted per recipient pubkey (hex) for shared trees */
+  recipientKeys?: Record<string, string>;
   /** Unix timestamp when the tree was created/last updated */
   createdAt?: number;
 }
 
+/**
+ * A root previously published under a key
+ */
+export interface RefResolverHistoryEntry {
+  cid: CID;
+  /** Unix timestamp of the publication */
+  createdAt: number;
+  visibilityInfo?: SubscribeVisibilityInfo;
+}
+
 /**
  * Visibility info passed to subscribe callbacks
  */
 export interface SubscribeVisibilityInfo {
-  /** Tree visibility: public, link-visible, or private */
+  /** Tree visibility: public, link-visible, shared, or private */
   visibility: TreeVisibility;
   /** Encrypted key for link-visible trees - decrypt with link key from URL */
   encryptedKey?: string;
   /** Key ID for link-visible trees */
   keyId?: string;
-  /** Self-encrypted key for private/link-visible trees - decrypt with NIP-04 */
+  /** Self-encrypted key for private/link-visible/shared trees - decrypt with NIP-04 */
   selfEncryptedKey?: string;
+  /** Root key NIP-44 encrypted per recipient pubkey (hex) for shared trees */
+  recipientKeys?: Record<string, string>;
 }
 
 /**
@@ -284,6 +317,15 @@ export interface RefResolver {
    */
   injectListEntry?(entry: RefResolverListEntry): void;
 
+  /**
+   * Get the roots published under a key, newest first
+   * Includes roots seen or published during this session; a root republished
+   * later (e.g. a restored version) appears once, at its latest time.
+   * @param key The key to look up (e.g., "npub1.../treename")
+   * @param timeoutMs How long to wait for relays before returning
+   */
+  history?(key: string, timeoutMs?: number): Promise<RefResolverHistoryEntry[]>;
+
   /**
    * Delete a tree (publish event without hash to nullify)
    * @param key The key to delete (e.g., "npub1.../treename")
@@ -6,6 +6,7 @@
  * - **Unencrypted**: No CHK, just hash - anyone with hash can read
  * - **Public**: CHK encrypted, ["key", "<hex>"] in event - anyone can decrypt
  * - **Link-visible**: CHK + XOR mask, ["encryptedKey", XOR(key,secret)] - need #k=<secret> URL
+ * - **Shared**: CHK + NIP-44 per member, ["recipientKey", "<pubkey>", "..."] - listed members
  * - **Private**: CHK + NIP-44 to self, ["selfEncryptedKey", "..."] - author only
  *
  * Default is Public (CHK encrypted, key in nostr event).
@@ -17,7 +18,7 @@ import { toHex, fromHex } from './types.js';
 /**
  * Tree visibility levels
  */
-export type TreeVisibility = 'public' | 'link-visible' | 'private';
+export type TreeVisibility = 'public' | 'link-visible' | 'shared' | 'private';
 
 /**
  * Generate a random 32-byte link key for link-visible trees
@@ -1,5 +1,38 @@
 export { WebRTCStore, DEFAULT_RELAYS } from './store.js';
 export { Peer } from './peer.js';
+export {
+  PeerReputation,
+  DEFAULT_REPUTATION_CONFIG,
+  type ReputationConfig,
+  type PeerReputationStats,
+} from './reputation.js';
+export {
+  SwarmFetcher,
+  DEFAULT_SWARM_CONFIG,
+  type SwarmPeer,
+  type SwarmConfig,
+  type SwarmFetchOptions,
+  type SwarmStats,
+} from './swarm.js';
+export {
+  type Transport,
+  type SignalingTransport,
+  type SignalingHandler,
+  type DataConnection,
+  type ConnectionOptions,
+  type ConnectionState,
+} from './transport.js';
+export { NostrSignaling, type NostrSignalingConfig } from './nostrSignaling.js';
+export { RTCConnection } from './rtcConnection.js';
+export { RelayTransport } from './relayTransport.js';
+export { MemoryNetwork, MemoryTransport, type MemoryNetworkOptions } from './memoryTransport.js';
+export {
+  WebSocketTransport,
+  attachWebSocketRelay,
+  type WebSocketTransportConfig,
+  type RelayServer,
+  type RelaySocket,
+} from './websocketTransport.js';
 export {
   PeerId,
   generateUuid,
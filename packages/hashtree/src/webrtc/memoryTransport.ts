@@ -0,0 +1,107 @@
+/**
+ * In-process transport for simulating many peers in one process
+ *
+ * Every WebRTCStore gets its own transport from a shared MemoryNetwork:
+ *
+ *   const network = new MemoryNetwork();
+ *   const a = new WebRTCStore({ pubkey: pkA, transport: network.createTransport() });
+ *   const b = new WebRTCStore({ pubkey: pkB, transport: network.createTransport() });
+ *
+ * Messages are delivered in order after a fixed latency, so multi-peer
+ * behaviour (forwarding, fragment reassembly, pool limits) is deterministic.
+ * Data frames count towards bufferedAmount until delivered.
+ */
+import type { HelloMessage, DirectedMessage } from './types.js';
+import { RelayTransport } from './relayTransport.js';
+
+export interface MemoryNetworkOptions {
+  /** Delivery delay of every message in ms (default 0) */
+  latency?: number;
+}
+
+export class MemoryNetwork {
+  readonly latency: number;
+  // Joined transports by peer id
+  private nodes = new Map<string, MemoryTransport>();
+
+  constructor(options: MemoryNetworkOptions = {}) {
+    this.latency = options.latency ?? 0;
+  }
+
+  createTransport(): MemoryTransport {
+    return new MemoryTransport(this);
+  }
+
+  /** Number of transports currently started */
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  join(peerId: string, node: MemoryTransport): void {
+    this.nodes.set(peerId, node);
+  }
+
+  leave(peerId: string): void {
+    this.nodes.delete(peerId);
+  }
+
+  getNode(peerId: string): MemoryTransport | undefined {
+    return this.nodes.get(peerId);
+  }
+
+  getNodes(): MemoryTransport[] {
+    return Array.from(this.nodes.values());
+  }
+
+  deliver(fn: () => void): void {
+    setTimeout(fn, this.latency);
+  }
+}
+
+export class MemoryTransport extends RelayTransport {
+  constructor(private network: MemoryNetwork) {
+    super();
+  }
+
+  private get me(): string {
+    return this.myPeerId!.toString();
+  }
+
+  protected join(): void {
+    this.network.join(this.me, this);
+  }
+
+  protected leave(): void {
+    this.network.leave(this.me);
+  }
+
+  protected async broadcast(msg: HelloMessage): Promise<void> {
+    const sender = this.myPeerId!.pubkey;
+    for (const node of this.network.getNodes()) {
+      if (node === this) continue;
+      this.network.deliver(() => node.receiveSignaling({ ...msg }, sender));
+    }
+  }
+
+  protected async sendTo(recipientPubkey: string, msg: DirectedMessage): Promise<void> {
+    const sender = this.myPeerId!.pubkey;
+    for (const node of this.network.getNodes()) {
+      if (node.myPeerId?.pubkey !== recipientPubkey) continue;
+      this.network.deliver(() => node.receiveSignaling({ ...msg }, sender));
+    }
+  }
+
+  sendFrame(toPeerId: string, data: ArrayBuffer): void {
+    const from = this.me;
+    const copy = data.slice(0);
+    this.network.deliver(() => {
+      this.frameSent(toPeerId, copy.byteLength);
+      this.network.getNode(toPeerId)?.receiveFrame(from, copy);
+    });
+  }
+
+  sendClose(toPeerId: string): void {
+    const from = this.me;
+    this.network.deliver(() => this.network.getNode(toPeerId)?.receiveClose(from));
+  }
+}
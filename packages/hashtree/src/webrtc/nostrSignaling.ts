@@ -0,0 +1,230 @@
+/**
+ * Nostr signaling for WebRTCStore (the default transport)
+ *
+ * All signaling uses ephemeral kind 25050:
+ * - Hello messages: #l: "hello" tag, broadcast for peer discovery (unencrypted)
+ * - Directed signaling (offer, answer, candidate, candidates): #p tag with
+ *   recipient pubkey, NIP-17 style gift wrap for privacy
+ */
+import { SimplePool, type Event } from 'nostr-tools';
+import type {
+  PeerId,
+  HelloMessage,
+  DirectedMessage,
+  EventSigner,
+  GiftWrapper,
+  GiftUnwrapper,
+  SignedEvent,
+} from './types.js';
+import type { SignalingTransport, SignalingHandler } from './transport.js';
+
+// All WebRTC signaling uses ephemeral kind 25050
+// Hello messages use #l tag for broadcast discovery
+// Directed messages use #p tag with gift wrap
+const SIGNALING_KIND = 25050;
+const HELLO_TAG = 'hello';
+
+export interface NostrSignalingConfig {
+  signer: EventSigner;
+  giftWrap: GiftWrapper;
+  giftUnwrap: GiftUnwrapper;
+  relays: string[];
+  /** Ignore events older than this (ms) */
+  messageTimeout: number;
+  debug?: boolean;
+}
+
+export class NostrSignaling implements SignalingTransport {
+  private pool = new SimplePool();
+  private subscriptions: ReturnType<SimplePool['subscribe']>[] = [];
+  private helloSubscription: ReturnType<SimplePool['subscribe']> | null = null;
+  // null means all authors
+  private helloAuthors: string[] | null = null;
+  private myPeerId: PeerId | null = null;
+  private handler: SignalingHandler | null = null;
+
+  constructor(private config: NostrSignalingConfig) {}
+
+  private log(...args: unknown[]): void {
+    if (this.config.debug) {
+      console.log('[NostrSignaling]', ...args);
+    }
+  }
+
+  start(myPeerId: PeerId, handler: SignalingHandler): void {
+    this.myPeerId = myPeerId;
+    this.handler = handler;
+    this.subscribe();
+  }
+
+  stop(): void {
+    this.closeSubscriptions();
+    this.handler = null;
+  }
+
+  setHelloAuthors(authors: string[] | null): void {
+    this.helloAuthors = authors;
+    if (this.handler) {
+      this.setupHelloSubscription();
+    }
+  }
+
+  setRelays(relays: string[]): void {
+    this.log('setRelays:', relays);
+    this.config.relays = relays;
+    if (this.handler) {
+      this.closeSubscriptions();
+      this.subscribe();
+    }
+  }
+
+  async sendHello(msg: HelloMessage): Promise<void> {
+    // Broadcast for peer discovery (kind 25050 with #l: hello)
+    const expiration = Math.floor((Date.now() + 5 * 60 * 1000) / 1000); // 5 minutes
+    const tags = [
+      ['l', HELLO_TAG],
+      ['peerId', msg.peerId],
+      ['expiration', expiration.toString()],
+    ];
+
+    const eventTemplate = {
+      kind: SIGNALING_KIND,
+      created_at: Math.floor(Date.now() / 1000),
+      tags,
+      content: '',
+    };
+
+    const event = await this.config.signer(eventTemplate) as Event;
+    await this.pool.publish(this.config.relays, event);
+  }
+
+  async sendDirected(msg: DirectedMessage, recipientPubkey: string): Promise<void> {
+    // Use NIP-17 style gift wrap with kind 25050
+    const innerEvent = {
+      kind: SIGNALING_KIND,
+      content: JSON.stringify(msg),
+      tags: [] as string[][],
+    };
+
+    const wrappedEvent = await this.config.giftWrap(innerEvent, recipientPubkey);
+    await this.pool.publish(this.config.relays, wrappedEvent as Event);
+  }
+
+  private since(): number {
+    return Math.floor((Date.now() - this.config.messageTimeout) / 1000);
+  }
+
+  private subscribe(): void {
+    // 1. Subscribe to hello messages from the configured authors
+    this.setupHelloSubscription();
+
+    // 2. Subscribe to directed signaling (kind 25050 with #p tag) for offers/answers/candidates
+    // Always subscribe to directed messages (needed to receive offers/answers)
+    this.subscriptions.push(
+      this.pool.subscribe(
+        this.config.relays,
+        {
+          kinds: [SIGNALING_KIND],
+          '#p': [this.myPeerId!.pubkey],
+          since: this.since(),
+        },
+        {
+          onevent: (event: Event) => { this.handleEvent(event); },
+          oneose: () => {},
+        }
+      )
+    );
+  }
+
+  /**
+   * Setup hello subscription for the configured authors
+   * - [] : don't subscribe to hellos
+   * - null: subscribe to all hellos
+   */
+  private setupHelloSubscription(): void {
+    // Close existing hello subscription if any
+    if (this.helloSubscription) {
+      this.helloSubscription.close();
+      this.helloSubscription = null;
+    }
+
+    const authors = this.helloAuthors;
+    if (authors?.length === 0) {
+      this.log('No hello authors, not subscribing to hellos');
+      return;
+    }
+
+    this.log('Subscribing to hellos from', authors ? `${authors.length} authors` : 'everyone');
+    this.helloSubscription = this.pool.subscribe(
+      this.config.relays,
+      {
+        kinds: [SIGNALING_KIND],
+        '#l': [HELLO_TAG],
+        ...(authors ? { authors } : {}),
+        since: this.since(),
+      },
+      {
+        onevent: (event: Event) => { this.handleEvent(event); },
+        oneose: () => {},
+      }
+    );
+  }
+
+  private closeSubscriptions(): void {
+    for (const sub of this.subscriptions) {
+      sub.close();
+    }
+    this.subscriptions = [];
+    if (this.helloSubscription) {
+      this.helloSubscription.close();
+      this.helloSubscription = null;
+    }
+  }
+
+  private async handleEvent(event: Event): Promise<void> {
+    const handler = this.handler;
+    if (!handler) return;
+
+    // Filter out old events (created more than messageTimeout ago)
+    const eventAge = Date.now() / 1000 - (event.created_at ?? 0);
+    if (eventAge > this.config.messageTimeout / 1000) {
+      return;
+    }
+
+    // Check expiration
+    const expirationTag = event.tags.find(t => t[0] === 'expiration');
+    if (expirationTag) {
+      const expiration = parseInt(expirationTag[1], 10);
+      if (expiration < Date.now() / 1000) {
+        return;
+      }
+    }
+
+    // Check if this is a hello message (#l: hello tag)
+    const lTag = event.tags.find(t => t[0] === 'l')?.[1];
+    if (lTag === HELLO_TAG) {
+      const peerIdTag = event.tags.find(t => t[0] === 'peerId')?.[1];
+      if (peerIdTag) {
+        handler({ type: 'hello', peerId: peerIdTag }, event.pubkey);
+      }
+      return;
+    }
+
+    // Check if this is a directed message (#p tag pointing to us)
+    const pTag = event.tags.find(t => t[0] === 'p')?.[1];
+    if (pTag === this.myPeerId?.pubkey) {
+      // Gift-wrapped signaling message - try to unwrap
+      try {
+        const inner = await this.config.giftUnwrap(event as SignedEvent);
+        if (!inner) {
+          return; // Can't decrypt - not for us
+        }
+
+        const msg = JSON.parse(inner.content) as DirectedMessage;
+        handler(msg, inner.pubkey);
+      } catch {
+        // Not for us or invalid - ignore silently
+      }
+    }
+  }
+}
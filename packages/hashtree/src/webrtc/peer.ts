@@ -1,11 +1,14 @@
 /**
- * WebRTC peer connection for hashtree data exchange
+ * Peer speaking the hashtree data protocol over a DataConnection
  */
 import type { Store, Hash } from '../types.js';
 import type {
-  SignalingMessage,
+  DirectedMessage,
   DataRequest,
   DataResponse,
+  HaveQuery,
+  HaveReply,
+  DataCancel,
   PeerId,
   PendingReassembly,
 } from './types.js';
@@ -13,17 +16,38 @@ import {
   MAX_HTL,
   MSG_TYPE_REQUEST,
   MSG_TYPE_RESPONSE,
+  MSG_TYPE_HAVE,
+  MSG_TYPE_HAVE_QUERY,
+  MSG_TYPE_HAVE_REPLY,
+  MSG_TYPE_CANCEL,
+  MAX_HAVE_QUERY_HASHES,
+  HAVE_QUERY_TIMEOUT,
+  HAVE_QUERY_RETRY_DELAY,
+  MAX_HAVE_QUERY_RETRY_DELAY,
+  MAX_REMOTE_HAVES,
   FRAGMENT_SIZE,
   FRAGMENT_STALL_TIMEOUT,
   FRAGMENT_TOTAL_TIMEOUT,
   MAX_PENDING_REASSEMBLIES,
+  BUFFER_HIGH_THRESHOLD,
+  BUFFER_LOW_THRESHOLD,
+  MAX_SEND_QUEUE_BYTES,
 } from './types.js';
+import { tryDecodeTreeNode } from '../codec.js';
 import { LRUCache } from './lruCache.js';
+import { PeerReputation } from './reputation.js';
+import type { DataConnection, ConnectionState } from './transport.js';
 import {
   PendingRequest,
   PeerHTLConfig,
   encodeRequest,
   encodeResponse,
+  encodeHave,
+  encodeHaveQuery,
+  encodeHaveReply,
+  encodeCancel,
+  encodeHaveBits,
+  decodeHaveBits,
   parseMessage,
   createRequest,
   createResponse,
@@ -37,18 +61,17 @@ import {
   verifyHash,
 } from './protocol.js';
 
-const ICE_SERVERS = [
-  { urls: 'stun:stun.iris.to:3478' },
-  { urls: 'stun:stun.l.google.com:19302' },
-  { urls: 'stun:stun.cloudflare.com:3478' },
-];
-
-// Batch ICE candidates to reduce signaling messages
-const ICE_BATCH_DELAY = 100; // ms to wait before sending batched candidates
-
 // Default LRU cache size
 const THEIR_REQUESTS_SIZE = 200;
 
+/** Look up a block at other peers for a request we can't serve locally */
+export type ForwardRequestHandler = (
+  hash: Uint8Array,
+  excludePeerId: string,
+  htl: number,
+  signal: AbortSignal
+) => Promise<Uint8Array | null>;
+
 // Request this peer sent us that we couldn't fulfill locally
 // We track it so we can push data back when/if we get it
 interface TheirRequest {
@@ -56,46 +79,74 @@ interface TheirRequest {
   requestedAt: number;
 }
 
+// Response waiting in the send queue
+interface OutgoingResponse {
+  hash: Uint8Array;
+  hashKey: string;
+  data: Uint8Array;
+  totalFragments: number; // 0 = unfragmented
+  nextFragment: number;
+  isForwarded: boolean;
+}
+
+// Have query we sent this peer, waiting for its reply
+interface PendingHaveQuery {
+  hashes: Uint8Array[];
+  resolve: (flags: boolean[] | null) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
 export class Peer {
   readonly peerId: string;
   readonly pubkey: string;
   readonly direction: 'inbound' | 'outbound';
 
-  private pc: RTCPeerConnection;
-  private dataChannel: RTCDataChannel | null = null;
+  private connection: DataConnection;
   private localStore: Store | null;
-  private sendSignaling: (msg: SignalingMessage) => Promise<void>;
   private onClose: () => void;
   private onConnected?: () => void;
-  private onConnectedFired = false;  // Guard against double-firing
   private debug: boolean;
 
-  // Perfect negotiation state
-  private makingOffer = false;
-  private ignoreOffer = false;
-  private isPolite: boolean; // true if we should rollback on collision
-  private myPeerId: string; // our peer ID for comparison
-
   // Requests we sent TO this peer (keyed by hash hex)
   private ourRequests = new Map<string, PendingRequest>();
   // Requests this peer sent TO US that we couldn't fulfill (keyed by hash hex)
   // We track these so we can push data back if we get it later
   private theirRequests = new LRUCache<string, TheirRequest>(THEIR_REQUESTS_SIZE);
+  // Hashes this peer said it has (keyed by hash hex): whole trees (announced
+  // roots and the plaintext nodes read under them) and have query answers
+  private remoteRoots = new LRUCache<string, true>(MAX_REMOTE_HAVES);
+  private remoteHaves = new LRUCache<string, true>(MAX_REMOTE_HAVES);
+  // Have queries we sent TO this peer (keyed by query id)
+  private haveQueries = new Map<number, PendingHaveQuery>();
+  private nextHaveQueryId = 0;
+  // Older peers never answer have queries: after one goes unanswered, don't
+  // ask again until haveQueriesPausedUntil, doubling the pause each time
+  private haveQueriesPausedUntil = 0;
+  private haveQueryRetryDelay = HAVE_QUERY_RETRY_DELAY;
+  // Requests this peer sent TO US that we're still looking up (keyed by hash hex),
+  // one controller per request. A cancel aborts them, and so their forwarded fetches.
+  private servingRequests = new Map<string, Set<AbortController>>();
+
+  // Send queue, paced by the connection's bufferedAmount. Unfragmented
+  // responses (tree nodes, small blobs) go before fragments of large ones.
+  private smallResponses: OutgoingResponse[] = [];
+  private largeResponses: OutgoingResponse[] = [];
+  private queuedBytes = 0;
+  private flushing = false;
 
   private requestTimeout: number;
-  private pendingCandidates: RTCIceCandidateInit[] = [];
-  private candidateBatchTimeout: ReturnType<typeof setTimeout> | null = null;
-  private queuedRemoteCandidates: RTCIceCandidateInit[] = [];
 
   // Callback to forward request to other peers when we don't have data locally
-  // htl parameter is the decremented HTL to use when forwarding
-  private onForwardRequest?: (hash: Uint8Array, excludePeerId: string, htl: number) => Promise<Uint8Array | null>;
+  // htl parameter is the decremented HTL to use when forwarding; signal aborts
+  // when the requester cancels or disconnects
+  private onForwardRequest?: ForwardRequestHandler;
 
   // Per-peer stats tracking
   private stats = {
     requestsSent: 0,
     requestsReceived: 0,
     responsesSent: 0,
+    responsesCancelled: 0,
     responsesReceived: 0,
     receiveErrors: 0,
     fragmentsSent: 0,
@@ -114,47 +165,50 @@ export class Peer {
   // Per-peer HTL decrement config (Freenet-style probabilistic)
   private htlConfig: PeerHTLConfig;
 
+  // Accounting shared by all connections of this pubkey
+  readonly reputation: PeerReputation;
+  // Trusted peers (e.g. follows) aren't rate limited
+  private isTrusted: () => boolean;
+
   readonly createdAt: number;
   connectedAt?: number;
 
   constructor(options: {
     peerId: PeerId;
-    myPeerId: string; // Our peer ID (uuid) for perfect negotiation
+    connection: DataConnection;
     direction: 'inbound' | 'outbound';
     localStore: Store | null;
-    sendSignaling: (msg: SignalingMessage) => Promise<void>;
     onClose: () => void;
     onConnected?: () => void;
-    onForwardRequest?: (hash: Uint8Array, excludePeerId: string, htl: number) => Promise<Uint8Array | null>;
+    onForwardRequest?: ForwardRequestHandler;
     requestTimeout?: number;
+    reputation?: PeerReputation;
+    isTrusted?: () => boolean;
     debug?: boolean;
   }) {
     this.peerId = options.peerId.toString();
     this.pubkey = options.peerId.pubkey;
     this.direction = options.direction;
+    this.connection = options.connection;
     this.localStore = options.localStore;
-    this.sendSignaling = options.sendSignaling;
     this.onClose = options.onClose;
     this.onConnected = options.onConnected;
     this.onForwardRequest = options.onForwardRequest;
     this.requestTimeout = options.requestTimeout ?? 500;
+    this.reputation = options.reputation ?? new PeerReputation();
+    this.isTrusted = options.isTrusted ?? (() => false);
     this.debug = options.debug ?? false;
     this.createdAt = Date.now();
     // Generate random HTL config for this peer (Freenet-style)
     this.htlConfig = generatePeerHTLConfig();
 
-    // Perfect negotiation: polite peer (smaller ID) rolls back on collision
-    this.myPeerId = options.myPeerId;
-    this.isPolite = options.myPeerId < options.peerId.uuid;
-
     // Start fragment reassembly cleanup interval
     this.reassemblyCleanupInterval = setInterval(
       () => this.cleanupStaleReassemblies(),
       5000
     );
 
-    this.pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
-    this.setupPeerConnection();
+    this.setupConnection();
   }
 
   private log(...args: unknown[]): void {
@@ -163,95 +217,36 @@ export class Peer {
     }
   }
 
-  get state(): RTCPeerConnectionState {
-    return this.pc.connectionState;
+  get state(): ConnectionState {
+    return this.connection.state;
   }
 
   get isConnected(): boolean {
-    return this.pc.connectionState === 'connected' &&
-           this.dataChannel?.readyState === 'open';
+    return this.connection.state === 'connected' && this.connection.isOpen;
   }
 
   get pendingTheirRequestsCount(): number {
     return this.theirRequests.size;
   }
 
-  private scheduleCandidateBatch(): void {
-    if (this.candidateBatchTimeout) return;
-
-    this.candidateBatchTimeout = setTimeout(() => {
-      this.candidateBatchTimeout = null;
-      if (this.pendingCandidates.length > 0) {
-        const candidates = this.pendingCandidates;
-        this.pendingCandidates = [];
-
-        // Send as batch
-        this.sendSignaling({
-          type: 'candidates',
-          candidates,
-          recipient: this.peerId,
-          peerId: '', // Will be set by caller
-        }).catch((err) => {
-          this.log('Failed to send candidates batch:', err);
-        });
-      }
-    }, ICE_BATCH_DELAY);
-  }
-
-  private setupPeerConnection(): void {
-    this.pc.onicecandidate = (event) => {
-      if (event.candidate) {
-        this.pendingCandidates.push(event.candidate.toJSON());
-        this.scheduleCandidateBatch();
-      }
-    };
-
-    this.pc.onconnectionstatechange = () => {
-      if (this.pc.connectionState === 'connected') {
-        this.connectedAt = Date.now();
-        // Only trigger onConnected if data channel is also ready
-        // (it may already be open, or will fire via channel.onopen)
-        if (this.dataChannel?.readyState === 'open' && !this.onConnectedFired) {
-          this.onConnectedFired = true;
-          this.onConnected?.();
-        }
-      } else if (
-        this.pc.connectionState === 'failed' ||
-        this.pc.connectionState === 'closed' ||
-        this.pc.connectionState === 'disconnected'
-      ) {
-        this.close();
-      }
-    };
-
-    this.pc.ondatachannel = (event) => {
-      this.dataChannel = event.channel;
-      this.setupDataChannel(this.dataChannel);
+  private setupConnection(): void {
+    this.connection.onopen = () => {
+      this.connectedAt = Date.now();
+      this.onConnected?.();
     };
-  }
 
-  private setupDataChannel(channel: RTCDataChannel): void {
-    channel.binaryType = 'arraybuffer';
-
-    channel.onopen = () => {
-      // If PC is already connected, fire onConnected now
-      // (handles case where data channel opens after PC connects)
-      if (this.pc.connectionState === 'connected' && !this.onConnectedFired) {
-        this.onConnectedFired = true;
-        this.onConnected?.();
-      }
+    this.connection.onclose = () => {
+      this.log('Connection closed');
+      this.close();
     };
 
-    channel.onclose = () => {
-      this.log('Data channel closed');
-      this.close();
+    this.connection.onmessage = (data) => {
+      this.handleMessage(data);
     };
 
-    channel.onmessage = async (event) => {
-      // All messages are binary with type prefix
-      if (event.data instanceof ArrayBuffer) {
-        await this.handleMessage(event.data);
-      }
+    this.connection.bufferedAmountLowThreshold = BUFFER_LOW_THRESHOLD;
+    this.connection.onbufferedamountlow = () => {
+      this.flushSendQueue();
     };
   }
 
@@ -299,13 +294,30 @@ export class Peer {
 
         const isValid = await verifyHash(finalData, hash);
         if (isValid) {
+          this.noteBlock(hash, finalData);
           pending.resolve(finalData);
           this.stats.responsesReceived++;
           this.stats.bytesReceived += finalData.length;
+          this.reputation.recordReceived(finalData.length, Date.now() - (pending.sentAt ?? Date.now()));
         } else {
           pending.resolve(null);
           this.stats.receiveErrors++;
+          this.reputation.recordHashMismatch();
+          if (this.reputation.isBanned) {
+            this.log('Disconnecting: too many hash mismatches');
+            this.close();
+          }
+        }
+      } else if (msg.type === MSG_TYPE_HAVE) {
+        for (const root of msg.body.r.slice(0, MAX_HAVE_QUERY_HASHES)) {
+          this.remoteRoots.set(hashToKey(root), true);
         }
+      } else if (msg.type === MSG_TYPE_HAVE_QUERY) {
+        await this.handleHaveQuery(msg.body);
+      } else if (msg.type === MSG_TYPE_HAVE_REPLY) {
+        this.handleHaveReply(msg.body);
+      } else if (msg.type === MSG_TYPE_CANCEL) {
+        this.handleCancel(msg.body);
       }
     } catch (err) {
       this.log('Error handling message:', err);
@@ -320,13 +332,40 @@ export class Peer {
 
     this.stats.requestsReceived++;
 
+    // Tit-for-tat: drop requests over the peer's rate limit, let it time out
+    if (!this.isTrusted() && !this.reputation.allowRequest()) {
+      return;
+    }
+
+    // Several requests for one hash (e.g. asked again after a cancel) are tracked apart
+    const request = new AbortController();
+    let serving = this.servingRequests.get(hashKey);
+    if (!serving) {
+      serving = new Set();
+      this.servingRequests.set(hashKey, serving);
+    }
+    serving.add(request);
+    try {
+      await this.serveRequest(hash, hashKey, htl, request.signal);
+    } finally {
+      serving.delete(request);
+      if (serving.size === 0 && this.servingRequests.get(hashKey) === serving) {
+        this.servingRequests.delete(hashKey);
+      }
+    }
+  }
+
+  private async serveRequest(hash: Uint8Array, hashKey: string, htl: number, signal: AbortSignal): Promise<void> {
     // Try local store first
     if (this.localStore) {
       const data = await this.localStore.get(hash);
 
       if (data) {
-        this.sendResponse(hash, data);
-        this.stats.responsesSent++;
+        // Unless the requester cancelled meanwhile
+        if (!signal.aborted) {
+          this.sendResponse(hash, data);
+          this.stats.responsesSent++;
+        }
         return;
       }
     }
@@ -343,9 +382,9 @@ export class Peer {
       const forwardHTL = decrementHTL(htl, this.htlConfig);
 
       // Forward to other peers (excluding this one)
-      const data = await this.onForwardRequest(hash, this.peerId, forwardHTL);
+      const data = await this.onForwardRequest(hash, this.peerId, forwardHTL, signal);
 
-      if (data) {
+      if (data && !signal.aborted) {
         // Got it from another peer, send response (mark as forwarded)
         this.theirRequests.delete(hashKey);
         this.sendResponse(hash, data, true);
@@ -358,32 +397,128 @@ export class Peer {
     // Not found anywhere - stay silent, let requester timeout.
   }
 
+  private async handleHaveQuery(query: HaveQuery): Promise<void> {
+    // Counts as one request for rate limiting; oversized queries are ignored
+    if (query.h.length > MAX_HAVE_QUERY_HASHES) return;
+    if (!this.isTrusted() && !this.reputation.allowRequest()) return;
+
+    const flags = this.localStore
+      ? await Promise.all(query.h.map(hash => this.localStore!.has(hash)))
+      : query.h.map(() => false);
+
+    if (!this.connection.isOpen) return;
+    this.connection.send(encodeHaveReply({ id: query.id, b: encodeHaveBits(flags) }));
+  }
+
+  private handleHaveReply(reply: HaveReply): void {
+    const query = this.haveQueries.get(reply.id);
+    if (!query) return;
+
+    clearTimeout(query.timeout);
+    this.haveQueries.delete(reply.id);
+    this.haveQueriesPausedUntil = 0;
+    this.haveQueryRetryDelay = HAVE_QUERY_RETRY_DELAY;
+
+    const flags = decodeHaveBits(reply.b, query.hashes.length);
+    flags.forEach((has, i) => {
+      if (has) this.remoteHaves.set(hashToKey(query.hashes[i]), true);
+    });
+    query.resolve(flags);
+  }
+
+  private handleCancel(cancel: DataCancel): void {
+    const hashKey = hashToKey(cancel.h);
+    for (const request of this.servingRequests.get(hashKey) ?? []) {
+      request.abort();
+    }
+    this.servingRequests.delete(hashKey);
+    this.theirRequests.delete(hashKey);
+
+    const keep = (response: OutgoingResponse) => {
+      if (response.hashKey !== hashKey) return true;
+      this.queuedBytes -= this.remainingBytes(response);
+      this.stats.responsesCancelled++;
+      return false;
+    };
+    this.smallResponses = this.smallResponses.filter(keep);
+    this.largeResponses = this.largeResponses.filter(keep);
+  }
+
+  /**
+   * Queue a response; it's sent as fast as the connection's buffer drains
+   */
   private sendResponse(hash: Uint8Array, data: Uint8Array, isForwarded = false): void {
-    if (!this.dataChannel || this.dataChannel.readyState !== 'open') return;
+    if (!this.connection.isOpen) return;
 
-    // Track bytes sent
-    this.stats.bytesSent += data.length;
-    if (isForwarded) {
-      this.stats.bytesForwarded += data.length;
+    // Drop responses over the memory cap and let the requester time out
+    if (this.queuedBytes + data.length > MAX_SEND_QUEUE_BYTES) {
+      this.log('Send queue full, dropping response:', hashToKey(hash).slice(0, 16));
+      return;
     }
 
-    if (data.length <= FRAGMENT_SIZE) {
+    const response: OutgoingResponse = {
+      hash,
+      hashKey: hashToKey(hash),
+      data,
+      totalFragments: data.length <= FRAGMENT_SIZE ? 0 : Math.ceil(data.length / FRAGMENT_SIZE),
+      nextFragment: 0,
+      isForwarded,
+    };
+    this.queuedBytes += data.length;
+    if (response.totalFragments === 0) {
+      this.smallResponses.push(response);
+    } else {
+      this.largeResponses.push(response);
+    }
+    this.flushSendQueue();
+  }
+
+  /**
+   * Send queued messages until the connection's buffer is full
+   * One fragment at a time, so small responses can go between fragments.
+   */
+  private flushSendQueue(): void {
+    if (this.flushing) return;
+    this.flushing = true;
+    try {
+      while (this.connection.isOpen && this.connection.bufferedAmount < BUFFER_HIGH_THRESHOLD) {
+        const response = this.smallResponses.shift() ?? this.largeResponses[0];
+        if (!response) break;
+        this.sendNextMessage(response);
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private sendNextMessage(response: OutgoingResponse): void {
+    let chunk: Uint8Array;
+    if (response.totalFragments === 0) {
       // Small enough - send unfragmented (backward compatible)
-      const res = createResponse(hash, data);
-      this.dataChannel.send(encodeResponse(res));
+      chunk = response.data;
+      this.connection.send(encodeResponse(createResponse(response.hash, chunk)));
     } else {
-      // Fragment large responses
-      const totalFragments = Math.ceil(data.length / FRAGMENT_SIZE);
-      for (let i = 0; i < totalFragments; i++) {
-        const start = i * FRAGMENT_SIZE;
-        const end = Math.min(start + FRAGMENT_SIZE, data.length);
-        const fragment = data.slice(start, end);
-
-        const res = createFragmentResponse(hash, fragment, i, totalFragments);
-        this.dataChannel.send(encodeResponse(res));
-        this.stats.fragmentsSent++;
+      const i = response.nextFragment++;
+      const start = i * FRAGMENT_SIZE;
+      chunk = response.data.slice(start, Math.min(start + FRAGMENT_SIZE, response.data.length));
+      this.connection.send(encodeResponse(createFragmentResponse(response.hash, chunk, i, response.totalFragments)));
+      this.stats.fragmentsSent++;
+      if (response.nextFragment === response.totalFragments) {
+        this.largeResponses.shift();
       }
     }
+
+    // Track bytes sent
+    this.queuedBytes -= chunk.length;
+    this.stats.bytesSent += chunk.length;
+    this.reputation.recordSent(chunk.length);
+    if (response.isForwarded) {
+      this.stats.bytesForwarded += chunk.length;
+    }
+  }
+
+  private remainingBytes(response: OutgoingResponse): number {
+    return response.data.length - Math.min(response.nextFragment * FRAGMENT_SIZE, response.data.length);
   }
 
   /**
@@ -418,6 +553,7 @@ export class Peer {
         this.ourRequests.delete(hashKey);
         this.pendingReassemblies.delete(hashKey);
         this.stats.fragmentTimeouts++;
+        this.reputation.recordTimeout();
         pendingReq.resolve(null);
       }, FRAGMENT_STALL_TIMEOUT);
     }
@@ -487,7 +623,7 @@ export class Peer {
    * @param htl Hops To Live - decremented before sending
    */
   async request(hash: Hash, htl: number = MAX_HTL): Promise<Uint8Array | null> {
-    if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+    if (!this.connection.isOpen) {
       return null;
     }
 
@@ -511,19 +647,113 @@ export class Peer {
 
     this.stats.requestsSent++;
 
+    // Peers stay silent when they don't have a hash, so only a peer known to
+    // hold it is blamed for not answering
+    const expected = this.hasHash(hash);
+
     return new Promise((resolve) => {
       const timeout = setTimeout(() => {
         this.ourRequests.delete(hashKey);
+        if (expected) this.reputation.recordTimeout();
         resolve(null);
       }, this.requestTimeout);
 
-      this.ourRequests.set(hashKey, { hash, resolve, timeout });
+      this.ourRequests.set(hashKey, { hash, resolve, timeout, sentAt: Date.now() });
 
       const req = createRequest(hash, sendHTL);
-      this.dataChannel!.send(encodeRequest(req));
+      this.connection.send(encodeRequest(req));
+    });
+  }
+
+  /**
+   * Give up on a request to this peer, resolving it with null
+   * The peer is told to stop sending; a late response is ignored and
+   * doesn't count against it.
+   */
+  cancelRequest(hash: Hash): void {
+    const hashKey = hashToKey(hash);
+    const pending = this.ourRequests.get(hashKey);
+    if (!pending) return;
+
+    clearTimeout(pending.timeout);
+    this.ourRequests.delete(hashKey);
+    this.pendingReassemblies.delete(hashKey);
+    pending.resolve(null);
+
+    if (this.connection.isOpen) {
+      this.connection.send(encodeCancel({ h: hash }));
+    }
+  }
+
+  /**
+   * Tell this peer we hold the whole trees of these roots
+   */
+  announceRoots(roots: Hash[]): void {
+    if (!this.connection.isOpen) return;
+    for (let i = 0; i < roots.length; i += MAX_HAVE_QUERY_HASHES) {
+      this.connection.send(encodeHave({ r: roots.slice(i, i + MAX_HAVE_QUERY_HASHES) }));
+    }
+  }
+
+  /**
+   * Ask this peer which of these hashes it has, in one round trip
+   * Positive answers are remembered for hasHash. After a query goes
+   * unanswered the peer isn't asked for a while, longer after each miss.
+   * @returns One flag per hash, or null if the peer didn't answer
+   */
+  queryHave(hashes: Hash[]): Promise<boolean[] | null> {
+    if (hashes.length > MAX_HAVE_QUERY_HASHES) {
+      throw new Error(`Too many hashes in have query: ${hashes.length}`);
+    }
+    if (!this.connection.isOpen || Date.now() < this.haveQueriesPausedUntil) {
+      return Promise.resolve(null);
+    }
+
+    const id = this.nextHaveQueryId++;
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        this.haveQueries.delete(id);
+        this.pauseHaveQueries();
+        resolve(null);
+      }, HAVE_QUERY_TIMEOUT);
+
+      this.haveQueries.set(id, { hashes, resolve, timeout });
+      this.connection.send(encodeHaveQuery({ id, h: hashes }));
     });
   }
 
+  private pauseHaveQueries(): void {
+    // Queries sent together time out together: count them as one miss
+    if (Date.now() < this.haveQueriesPausedUntil) return;
+    this.haveQueriesPausedUntil = Date.now() + this.haveQueryRetryDelay;
+    this.haveQueryRetryDelay = Math.min(this.haveQueryRetryDelay * 2, MAX_HAVE_QUERY_RETRY_DELAY);
+  }
+
+  /**
+   * Check if this peer announced this root or said it has this hash
+   * Blocks under an announced root count too, as far as its tree nodes were
+   * read (from any peer, see noteBlock). CHK-encrypted nodes can't be decoded
+   * without their keys, so of an encrypted tree only the root is known; its
+   * other blocks are found through have query answers.
+   */
+  hasHash(hash: Hash): boolean {
+    const key = hashToKey(hash);
+    return this.remoteRoots.has(key) || this.remoteHaves.has(key);
+  }
+
+  /**
+   * A block was fetched, from this peer or another one
+   * If this peer holds the block's tree, it holds the block's children too.
+   */
+  noteBlock(hash: Hash, data: Uint8Array): void {
+    if (!this.remoteRoots.has(hashToKey(hash))) return;
+    const node = tryDecodeTreeNode(data);
+    if (!node) return;
+    for (const link of node.links) {
+      this.remoteRoots.set(hashToKey(link.hash), true);
+    }
+  }
+
   /**
    * Get per-peer statistics
    */
@@ -531,6 +761,7 @@ export class Peer {
     requestsSent: number;
     requestsReceived: number;
     responsesSent: number;
+    responsesCancelled: number;
     responsesReceived: number;
     receiveErrors: number;
     fragmentsSent: number;
@@ -581,120 +812,23 @@ export class Peer {
 
   /**
    * Initiate connection (create offer)
-   * Uses perfect negotiation pattern - both peers can call this
+   * Both peers may call this; the connection resolves collisions
    */
   async connect(): Promise<void> {
-    // Create data channel if we don't have one yet
-    if (!this.dataChannel) {
-      // Unordered for better performance - protocol is stateless (each message self-describes)
-      this.dataChannel = this.pc.createDataChannel('hashtree', { ordered: false });
-      this.setupDataChannel(this.dataChannel);
-    }
-
-    try {
-      this.makingOffer = true;
-      const offer = await this.pc.createOffer();
-      await this.pc.setLocalDescription(offer);
-
-      await this.sendSignaling({
-        type: 'offer',
-        offer: offer,
-        recipient: this.peerId,
-        peerId: this.myPeerId,
-      });
-    } finally {
-      this.makingOffer = false;
-    }
+    await this.connection.connect();
   }
 
   /**
-   * Handle incoming signaling message
-   * Implements perfect negotiation pattern for collision handling
+   * Handle incoming signaling message (offer, answer, candidates)
    */
-  async handleSignaling(msg: SignalingMessage): Promise<void> {
-    if (msg.type === 'offer') {
-      // Perfect negotiation: check for offer collision
-      const offerCollision =
-        this.makingOffer ||
-        (this.pc.signalingState !== 'stable' && this.pc.signalingState !== 'closed');
-
-      this.ignoreOffer = !this.isPolite && offerCollision;
-
-      if (this.ignoreOffer) {
-        this.log('Ignoring offer collision (impolite peer)');
-        return;
-      }
-
-      // If we're polite and have a collision, we rollback and accept their offer
-      if (offerCollision) {
-        this.log('Rolling back local offer (polite peer)');
-      }
-
-      await this.pc.setRemoteDescription(new RTCSessionDescription(msg.offer));
-      await this.processQueuedCandidates();
-      const answer = await this.pc.createAnswer();
-      await this.pc.setLocalDescription(answer);
-
-      await this.sendSignaling({
-        type: 'answer',
-        answer: answer,
-        recipient: this.peerId,
-        peerId: this.myPeerId,
-      });
-    } else if (msg.type === 'answer') {
-      // Ignore answer if we're not expecting one (e.g., after rollback)
-      if (this.pc.signalingState === 'stable') {
-        this.log('Ignoring unexpected answer in stable state');
-        return;
-      }
-      await this.pc.setRemoteDescription(new RTCSessionDescription(msg.answer));
-      await this.processQueuedCandidates();
-    } else if (msg.type === 'candidate') {
-      await this.addRemoteCandidate(msg.candidate);
-    } else if (msg.type === 'candidates') {
-      // Handle batched candidates
-      for (const candidate of msg.candidates) {
-        await this.addRemoteCandidate(candidate);
-      }
-    }
-  }
-
-  private async addRemoteCandidate(candidate: RTCIceCandidateInit): Promise<void> {
-    // Queue candidates if remote description not set yet
-    if (!this.pc.remoteDescription) {
-      this.queuedRemoteCandidates.push(candidate);
-      return;
-    }
-
-    try {
-      await this.pc.addIceCandidate(new RTCIceCandidate(candidate));
-    } catch (err) {
-      this.log('Failed to add ICE candidate:', err);
-    }
-  }
-
-  private async processQueuedCandidates(): Promise<void> {
-    const candidates = this.queuedRemoteCandidates;
-    this.queuedRemoteCandidates = [];
-
-    for (const candidate of candidates) {
-      try {
-        await this.pc.addIceCandidate(new RTCIceCandidate(candidate));
-      } catch (err) {
-        this.log('Failed to add queued ICE candidate:', err);
-      }
-    }
+  async handleSignaling(msg: DirectedMessage): Promise<void> {
+    await this.connection.handleSignaling(msg);
   }
 
   /**
    * Close the peer connection
    */
   close(): void {
-    if (this.candidateBatchTimeout) {
-      clearTimeout(this.candidateBatchTimeout);
-      this.candidateBatchTimeout = null;
-    }
-
     // Clean up fragment reassembly
     if (this.reassemblyCleanupInterval) {
       clearInterval(this.reassemblyCleanupInterval);
@@ -703,19 +837,21 @@ export class Peer {
     this.pendingReassemblies.clear();
 
     clearPendingRequests(this.ourRequests);
+    for (const query of this.haveQueries.values()) {
+      clearTimeout(query.timeout);
+      query.resolve(null);
+    }
+    this.haveQueries.clear();
 
-    if (this.dataChannel) {
-      this.dataChannel.onopen = null;
-      this.dataChannel.onclose = null;
-      this.dataChannel.onmessage = null;
-      this.dataChannel.close();
-      this.dataChannel = null;
+    this.smallResponses = [];
+    this.largeResponses = [];
+    this.queuedBytes = 0;
+    for (const serving of this.servingRequests.values()) {
+      for (const request of serving) request.abort();
     }
+    this.servingRequests.clear();
 
-    this.pc.onicecandidate = null;
-    this.pc.onconnectionstatechange = null;
-    this.pc.ondatachannel = null;
-    this.pc.close();
+    this.connection.close();
 
     this.onClose();
   }
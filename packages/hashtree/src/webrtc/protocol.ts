@@ -6,38 +6,82 @@
  * Wire format: [type byte][msgpack body]
  * Request:  [0x00][msgpack: {id: u32, h: bytes32, htl?: u8}]
  * Response: [0x01][msgpack: {id: u32, h: bytes32, d: bytes}]
+ * Have:       [0x02][msgpack: {r: bytes32[]}]
+ * HaveQuery:  [0x03][msgpack: {id: u32, h: bytes32[]}]
+ * HaveReply:  [0x04][msgpack: {id: u32, b: bytes}]
+ * Cancel:     [0x05][msgpack: {h: bytes32}]
  */
 import { encode, decode } from '@msgpack/msgpack';
 import { sha256 } from '../hash.js';
-import type { DataRequest, DataResponse, DataMessage } from './types.js';
+import type {
+  DataRequest,
+  DataResponse,
+  DataMessage,
+  HaveAnnouncement,
+  HaveQuery,
+  HaveReply,
+  DataCancel,
+} from './types.js';
 import {
   MAX_HTL,
   DECREMENT_AT_MAX_PROB,
   DECREMENT_AT_MIN_PROB,
   MSG_TYPE_REQUEST,
   MSG_TYPE_RESPONSE,
+  MSG_TYPE_HAVE,
+  MSG_TYPE_HAVE_QUERY,
+  MSG_TYPE_HAVE_REPLY,
+  MSG_TYPE_CANCEL,
 } from './types.js';
 
+function encodeMessage(type: number, body: unknown): ArrayBuffer {
+  const encoded = encode(body);
+  const result = new Uint8Array(1 + encoded.length);
+  result[0] = type;
+  result.set(encoded, 1);
+  return result.buffer;
+}
+
 /**
  * Encode a request message to wire format
  */
 export function encodeRequest(req: DataRequest): ArrayBuffer {
-  const body = encode(req);
-  const result = new Uint8Array(1 + body.length);
-  result[0] = MSG_TYPE_REQUEST;
-  result.set(body, 1);
-  return result.buffer;
+  return encodeMessage(MSG_TYPE_REQUEST, req);
 }
 
 /**
  * Encode a response message to wire format
  */
 export function encodeResponse(res: DataResponse): ArrayBuffer {
-  const body = encode(res);
-  const result = new Uint8Array(1 + body.length);
-  result[0] = MSG_TYPE_RESPONSE;
-  result.set(body, 1);
-  return result.buffer;
+  return encodeMessage(MSG_TYPE_RESPONSE, res);
+}
+
+/**
+ * Encode a have announcement to wire format
+ */
+export function encodeHave(have: HaveAnnouncement): ArrayBuffer {
+  return encodeMessage(MSG_TYPE_HAVE, have);
+}
+
+/**
+ * Encode a have query to wire format
+ */
+export function encodeHaveQuery(query: HaveQuery): ArrayBuffer {
+  return encodeMessage(MSG_TYPE_HAVE_QUERY, query);
+}
+
+/**
+ * Encode a have reply to wire format
+ */
+export function encodeHaveReply(reply: HaveReply): ArrayBuffer {
+  return encodeMessage(MSG_TYPE_HAVE_REPLY, reply);
+}
+
+/**
+ * Encode a request cancellation to wire format
+ */
+export function encodeCancel(cancel: DataCancel): ArrayBuffer {
+  return encodeMessage(MSG_TYPE_CANCEL, cancel);
 }
 
 /**
@@ -55,6 +99,14 @@ export function parseMessage(data: ArrayBuffer | Uint8Array): DataMessage | null
       return { type: MSG_TYPE_REQUEST, body: decode(body) as DataRequest };
     } else if (type === MSG_TYPE_RESPONSE) {
       return { type: MSG_TYPE_RESPONSE, body: decode(body) as DataResponse };
+    } else if (type === MSG_TYPE_HAVE) {
+      return { type: MSG_TYPE_HAVE, body: decode(body) as HaveAnnouncement };
+    } else if (type === MSG_TYPE_HAVE_QUERY) {
+      return { type: MSG_TYPE_HAVE_QUERY, body: decode(body) as HaveQuery };
+    } else if (type === MSG_TYPE_HAVE_REPLY) {
+      return { type: MSG_TYPE_HAVE_REPLY, body: decode(body) as HaveReply };
+    } else if (type === MSG_TYPE_CANCEL) {
+      return { type: MSG_TYPE_CANCEL, body: decode(body) as DataCancel };
     }
     return null;
   } catch {
@@ -81,6 +133,7 @@ export interface PendingRequest {
   hash: Uint8Array;
   resolve: (data: Uint8Array | null) => void;
   timeout: ReturnType<typeof setTimeout>;
+  sentAt?: number;  // For response latency
 }
 
 /**
@@ -154,6 +207,28 @@ export function createFragmentResponse(
   return { h: hash, d: data, i: index, n: total };
 }
 
+/**
+ * Pack have flags into a reply bitfield (bit i, LSB first, is flag i)
+ */
+export function encodeHaveBits(flags: boolean[]): Uint8Array {
+  const bits = new Uint8Array(Math.ceil(flags.length / 8));
+  flags.forEach((flag, i) => {
+    if (flag) bits[i >> 3] |= 1 << (i & 7);
+  });
+  return bits;
+}
+
+/**
+ * Unpack a reply bitfield into one flag per queried hash
+ */
+export function decodeHaveBits(bits: Uint8Array, count: number): boolean[] {
+  const flags: boolean[] = [];
+  for (let i = 0; i < count; i++) {
+    flags.push(((bits[i >> 3] ?? 0) & (1 << (i & 7))) !== 0);
+  }
+  return flags;
+}
+
 /**
  * Check if a response is fragmented
  */
@@ -0,0 +1,199 @@
+/**
+ * Base for transports where a hub carries both signaling and data
+ *
+ * There is no connection negotiation: an offer opens the connection on the
+ * receiving side, which answers to open it on the offering side, and data
+ * frames are routed by peer id through the hub. Subclasses move messages
+ * to and from the hub (in-process for tests, a WebSocket relay for Node),
+ * and call frameSent once a frame has left so bufferedAmount goes down.
+ */
+import type { PeerId, HelloMessage, DirectedMessage, SignalingMessage } from './types.js';
+import type {
+  Transport,
+  SignalingTransport,
+  SignalingHandler,
+  DataConnection,
+  ConnectionOptions,
+  ConnectionState,
+} from './transport.js';
+
+export abstract class RelayTransport implements Transport, SignalingTransport {
+  readonly signaling: SignalingTransport = this;
+  protected myPeerId: PeerId | null = null;
+  private handler: SignalingHandler | null = null;
+  // null means all authors
+  private helloAuthors: string[] | null = null;
+  // Connections by remote peer id
+  private connections = new Map<string, RelayedConnection>();
+
+  start(myPeerId: PeerId, handler: SignalingHandler): void {
+    this.myPeerId = myPeerId;
+    this.handler = handler;
+    this.join();
+  }
+
+  stop(): void {
+    this.handler = null;
+    for (const connection of Array.from(this.connections.values())) {
+      connection.close();
+    }
+    this.leave();
+  }
+
+  setHelloAuthors(authors: string[] | null): void {
+    this.helloAuthors = authors;
+  }
+
+  sendHello(msg: HelloMessage): Promise<void> {
+    return this.broadcast(msg);
+  }
+
+  sendDirected(msg: DirectedMessage, recipientPubkey: string): Promise<void> {
+    return this.sendTo(recipientPubkey, msg);
+  }
+
+  createConnection(options: ConnectionOptions): DataConnection {
+    const connection = new RelayedConnection(options, this);
+    this.connections.set(options.peerId.toString(), connection);
+    return connection;
+  }
+
+  /** Forget a closed connection (called by RelayedConnection) */
+  removeConnection(peerId: string, connection: RelayedConnection): void {
+    if (this.connections.get(peerId) === connection) {
+      this.connections.delete(peerId);
+    }
+  }
+
+  protected receiveSignaling(msg: SignalingMessage, senderPubkey: string): void {
+    if (msg.type === 'hello' && this.helloAuthors && !this.helloAuthors.includes(senderPubkey)) {
+      return;
+    }
+    this.handler?.(msg, senderPubkey);
+  }
+
+  protected receiveFrame(fromPeerId: string, data: ArrayBuffer): void {
+    this.connections.get(fromPeerId)?.receive(data);
+  }
+
+  /** A frame sendFrame was given has left for the hub */
+  protected frameSent(toPeerId: string, bytes: number): void {
+    this.connections.get(toPeerId)?.drained(bytes);
+  }
+
+  protected receiveClose(fromPeerId: string): void {
+    this.connections.get(fromPeerId)?.remoteClosed();
+  }
+
+  /** The hub went away: every connection is gone */
+  protected receiveCloseAll(): void {
+    for (const connection of Array.from(this.connections.values())) {
+      connection.remoteClosed();
+    }
+  }
+
+  /** Start receiving from the hub as myPeerId */
+  protected abstract join(): void;
+  protected abstract leave(): void;
+  protected abstract broadcast(msg: HelloMessage): Promise<void>;
+  protected abstract sendTo(recipientPubkey: string, msg: DirectedMessage): Promise<void>;
+  /** Send a data frame to a peer (called by RelayedConnection) */
+  abstract sendFrame(toPeerId: string, data: ArrayBuffer): void;
+  /** Tell a peer we closed our connection to it (called by RelayedConnection) */
+  abstract sendClose(toPeerId: string): void;
+}
+
+class RelayedConnection implements DataConnection {
+  state: ConnectionState = 'new';
+  onopen: (() => void) | null = null;
+  onmessage: ((data: ArrayBuffer) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onbufferedamountlow: (() => void) | null = null;
+  bufferedAmount = 0;
+  bufferedAmountLowThreshold = 0;
+
+  private peerId: string;
+
+  constructor(
+    private options: ConnectionOptions,
+    private transport: RelayTransport
+  ) {
+    this.peerId = options.peerId.toString();
+  }
+
+  get isOpen(): boolean {
+    return this.state === 'connected';
+  }
+
+  async connect(): Promise<void> {
+    if (this.state !== 'new') return;
+    this.state = 'connecting';
+    await this.options.sendSignaling({
+      type: 'offer',
+      offer: { type: 'offer', sdp: '' },
+      recipient: this.peerId,
+      peerId: this.options.myPeerId,
+    });
+  }
+
+  async handleSignaling(msg: DirectedMessage): Promise<void> {
+    if (msg.type === 'offer') {
+      this.open();
+      await this.options.sendSignaling({
+        type: 'answer',
+        answer: { type: 'answer', sdp: '' },
+        recipient: this.peerId,
+        peerId: this.options.myPeerId,
+      });
+    } else if (msg.type === 'answer') {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    if (this.state === 'connected' || this.state === 'closed') return;
+    this.state = 'connected';
+    this.onopen?.();
+  }
+
+  send(data: ArrayBuffer): void {
+    if (this.isOpen) {
+      this.bufferedAmount += data.byteLength;
+      this.transport.sendFrame(this.peerId, data);
+    }
+  }
+
+  drained(bytes: number): void {
+    const before = this.bufferedAmount;
+    this.bufferedAmount = Math.max(0, before - bytes);
+    if (before > this.bufferedAmountLowThreshold && this.bufferedAmount <= this.bufferedAmountLowThreshold) {
+      this.onbufferedamountlow?.();
+    }
+  }
+
+  receive(data: ArrayBuffer): void {
+    this.onmessage?.(data);
+  }
+
+  remoteClosed(): void {
+    const onclose = this.onclose;
+    this.shutdown();
+    onclose?.();
+  }
+
+  close(): void {
+    if (this.state === 'closed') return;
+    this.shutdown();
+    this.transport.sendClose(this.peerId);
+  }
+
+  private shutdown(): void {
+    this.state = 'closed';
+    this.onopen = null;
+    this.onmessage = null;
+    this.onclose = null;
+    this.onbufferedamountlow = null;
+    this.bufferedAmount = 0;
+    this.transport.removeConnection(this.peerId, this);
+  }
+}
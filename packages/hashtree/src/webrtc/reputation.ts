@@ -0,0 +1,164 @@
+/**
+ * Per-peer accounting and reputation
+ *
+ * Tracks what each peer (by pubkey, so it survives reconnects) has given us
+ * and taken from us, how fast and reliably it answers, and whether it ever
+ * sent data that didn't match the requested hash. The resulting score orders
+ * which peers we ask first; the byte balance drives tit-for-tat rate limits
+ * on the requests we serve; bad data gets a peer disconnected and banned.
+ */
+
+export interface ReputationConfig {
+  /** Bytes we serve a peer before its give/take ratio is checked (default 16MB) */
+  freeBytes: number;
+  /** Received/sent ratio below which a peer is a freeloader (default 0.1) */
+  minRatio: number;
+  /** Requests per second served to a peer (default 100) */
+  requestRate: number;
+  /** Requests per second served to a freeloader (default 5) */
+  freeloaderRequestRate: number;
+  /** Hash mismatches after which a peer is disconnected and banned (default 3) */
+  maxHashMismatches: number;
+  /** Peers whose reputation is remembered; the least recently seen are forgotten first (default 1000) */
+  maxPeers: number;
+}
+
+export const DEFAULT_REPUTATION_CONFIG: ReputationConfig = {
+  freeBytes: 16 * 1024 * 1024,
+  minRatio: 0.1,
+  requestRate: 100,
+  freeloaderRequestRate: 5,
+  maxHashMismatches: 3,
+  maxPeers: 1000,
+};
+
+/** Weight of a new latency sample in the moving average */
+const LATENCY_ALPHA = 0.2;
+/** Latency at which the latency factor of the score drops to half */
+const LATENCY_HALF_SCORE_MS = 500;
+
+export interface PeerReputationStats {
+  /** 0..1, higher is better; 0.5 for an unknown peer */
+  score: number;
+  /** Bytes we served this peer */
+  bytesSent: number;
+  /** Verified bytes this peer served us */
+  bytesReceived: number;
+  /** Verified responses to our requests */
+  responses: number;
+  /** Our requests that got no answer in time although the peer holds the data or started sending it */
+  timeouts: number;
+  /** Responses that didn't match the requested hash */
+  hashMismatches: number;
+  /** Moving average of response latency, if any responses yet */
+  latencyMs?: number;
+  /** Requests of this peer we dropped by rate limit */
+  requestsThrottled: number;
+  /** True if over the free allowance and below the give/take ratio */
+  freeloader: boolean;
+  /** True if disconnected for sending bad data */
+  banned: boolean;
+}
+
+export class PeerReputation {
+  private bytesSent = 0;
+  private bytesReceived = 0;
+  private responses = 0;
+  private timeouts = 0;
+  private hashMismatches = 0;
+  private latencyMs?: number;
+  private requestsThrottled = 0;
+  // Token bucket for requests we serve
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private config: ReputationConfig = DEFAULT_REPUTATION_CONFIG,
+    now: number = Date.now()
+  ) {
+    this.tokens = config.requestRate;
+    this.lastRefill = now;
+  }
+
+  /** We served this peer some bytes */
+  recordSent(bytes: number): void {
+    this.bytesSent += bytes;
+  }
+
+  /** This peer answered one of our requests with verified data */
+  recordReceived(bytes: number, latencyMs: number): void {
+    this.bytesReceived += bytes;
+    this.responses++;
+    this.latencyMs = this.latencyMs === undefined
+      ? latencyMs
+      : this.latencyMs + LATENCY_ALPHA * (latencyMs - this.latencyMs);
+  }
+
+  /**
+   * One of our requests to this peer went unanswered although it holds the data
+   * Misses of peers that don't have a hash, and cancelled requests, aren't timeouts.
+   */
+  recordTimeout(): void {
+    this.timeouts++;
+  }
+
+  /** This peer sent data that doesn't hash to what we asked for */
+  recordHashMismatch(): void {
+    this.hashMismatches++;
+  }
+
+  get isBanned(): boolean {
+    return this.hashMismatches >= this.config.maxHashMismatches;
+  }
+
+  get isFreeloader(): boolean {
+    return this.bytesSent > this.config.freeBytes &&
+      this.bytesReceived < this.bytesSent * this.config.minRatio;
+  }
+
+  /**
+   * Score from 0 to 1 for ordering requests
+   * Success rate (with a prior of one success and one failure), scaled by
+   * latency and halved for every hash mismatch.
+   */
+  get score(): number {
+    if (this.isBanned) return 0;
+    const successRate = (this.responses + 1) / (this.responses + this.timeouts + 2);
+    const latencyFactor = this.latencyMs === undefined
+      ? 1
+      : LATENCY_HALF_SCORE_MS / (LATENCY_HALF_SCORE_MS + this.latencyMs);
+    return successRate * (0.5 + 0.5 * latencyFactor) * 0.5 ** this.hashMismatches;
+  }
+
+  /**
+   * Check whether to serve a request from this peer now
+   * Freeloaders get a lower request rate. Dropped requests are counted.
+   */
+  allowRequest(now: number = Date.now()): boolean {
+    const rate = this.isFreeloader ? this.config.freeloaderRequestRate : this.config.requestRate;
+    this.tokens = Math.min(rate, this.tokens + ((now - this.lastRefill) / 1000) * rate);
+    this.lastRefill = now;
+
+    if (this.tokens >= 1) {
+      this.tokens--;
+      return true;
+    }
+    this.requestsThrottled++;
+    return false;
+  }
+
+  getStats(): PeerReputationStats {
+    return {
+      score: this.score,
+      bytesSent: this.bytesSent,
+      bytesReceived: this.bytesReceived,
+      responses: this.responses,
+      timeouts: this.timeouts,
+      hashMismatches: this.hashMismatches,
+      latencyMs: this.latencyMs,
+      requestsThrottled: this.requestsThrottled,
+      freeloader: this.isFreeloader,
+      banned: this.isBanned,
+    };
+  }
+}
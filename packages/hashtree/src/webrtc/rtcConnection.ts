@@ -0,0 +1,314 @@
+/**
+ * RTCPeerConnection data channel (the default data connection)
+ *
+ * Uses the perfect negotiation pattern: both peers may send offers, and on
+ * a collision the polite peer (smaller uuid) rolls back and answers.
+ */
+import type { DirectedMessage, SignalingMessage } from './types.js';
+import type { DataConnection, ConnectionOptions, ConnectionState } from './transport.js';
+
+const ICE_SERVERS = [
+  { urls: 'stun:stun.iris.to:3478' },
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun.cloudflare.com:3478' },
+];
+
+// Batch ICE candidates to reduce signaling messages
+const ICE_BATCH_DELAY = 100; // ms to wait before sending batched candidates
+
+export class RTCConnection implements DataConnection {
+  onopen: (() => void) | null = null;
+  onmessage: ((data: ArrayBuffer) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onbufferedamountlow: (() => void) | null = null;
+
+  private peerId: string;
+  private pc: RTCPeerConnection;
+  private dataChannel: RTCDataChannel | null = null;
+  private sendSignaling: (msg: SignalingMessage) => Promise<void>;
+  private openFired = false;  // Guard against double-firing
+  private lowThreshold = 0;
+  private debug: boolean;
+
+  // Perfect negotiation state
+  private makingOffer = false;
+  private ignoreOffer = false;
+  private isPolite: boolean; // true if we should rollback on collision
+  private myPeerId: string; // our peer ID for comparison
+
+  private pendingCandidates: RTCIceCandidateInit[] = [];
+  private candidateBatchTimeout: ReturnType<typeof setTimeout> | null = null;
+  private queuedRemoteCandidates: RTCIceCandidateInit[] = [];
+
+  constructor(options: ConnectionOptions) {
+    this.peerId = options.peerId.toString();
+    this.sendSignaling = options.sendSignaling;
+    this.debug = options.debug ?? false;
+
+    // Perfect negotiation: polite peer (smaller ID) rolls back on collision
+    this.myPeerId = options.myPeerId;
+    this.isPolite = options.myPeerId < options.peerId.uuid;
+
+    this.pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    this.setupPeerConnection();
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.debug) {
+      console.log(`[RTCConnection ${this.peerId.slice(0, 12)}]`, ...args);
+    }
+  }
+
+  get state(): ConnectionState {
+    return this.pc.connectionState;
+  }
+
+  get isOpen(): boolean {
+    return this.dataChannel?.readyState === 'open';
+  }
+
+  get bufferedAmount(): number {
+    return this.dataChannel?.bufferedAmount ?? 0;
+  }
+
+  get bufferedAmountLowThreshold(): number {
+    return this.lowThreshold;
+  }
+
+  set bufferedAmountLowThreshold(value: number) {
+    this.lowThreshold = value;
+    if (this.dataChannel) {
+      this.dataChannel.bufferedAmountLowThreshold = value;
+    }
+  }
+
+  send(data: ArrayBuffer): void {
+    this.dataChannel?.send(data);
+  }
+
+  private fireOpen(): void {
+    if (this.openFired) return;
+    this.openFired = true;
+    this.onopen?.();
+  }
+
+  private scheduleCandidateBatch(): void {
+    if (this.candidateBatchTimeout) return;
+
+    this.candidateBatchTimeout = setTimeout(() => {
+      this.candidateBatchTimeout = null;
+      if (this.pendingCandidates.length > 0) {
+        const candidates = this.pendingCandidates;
+        this.pendingCandidates = [];
+
+        // Send as batch
+        this.sendSignaling({
+          type: 'candidates',
+          candidates,
+          recipient: this.peerId,
+          peerId: '', // Will be set by caller
+        }).catch((err) => {
+          this.log('Failed to send candidates batch:', err);
+        });
+      }
+    }, ICE_BATCH_DELAY);
+  }
+
+  private setupPeerConnection(): void {
+    this.pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.pendingCandidates.push(event.candidate.toJSON());
+        this.scheduleCandidateBatch();
+      }
+    };
+
+    this.pc.onconnectionstatechange = () => {
+      if (this.pc.connectionState === 'connected') {
+        // Only open if data channel is also ready
+        // (it may already be open, or will fire via channel.onopen)
+        if (this.dataChannel?.readyState === 'open') {
+          this.fireOpen();
+        }
+      } else if (
+        this.pc.connectionState === 'failed' ||
+        this.pc.connectionState === 'closed' ||
+        this.pc.connectionState === 'disconnected'
+      ) {
+        this.handleClosed();
+      }
+    };
+
+    this.pc.ondatachannel = (event) => {
+      this.dataChannel = event.channel;
+      this.setupDataChannel(this.dataChannel);
+    };
+  }
+
+  private setupDataChannel(channel: RTCDataChannel): void {
+    channel.binaryType = 'arraybuffer';
+    channel.bufferedAmountLowThreshold = this.lowThreshold;
+
+    channel.onopen = () => {
+      // If PC is already connected, open now
+      // (handles case where data channel opens after PC connects)
+      if (this.pc.connectionState === 'connected') {
+        this.fireOpen();
+      }
+    };
+
+    channel.onclose = () => {
+      this.log('Data channel closed');
+      this.handleClosed();
+    };
+
+    channel.onmessage = (event) => {
+      // All messages are binary with type prefix
+      if (event.data instanceof ArrayBuffer) {
+        this.onmessage?.(event.data);
+      }
+    };
+
+    channel.onbufferedamountlow = () => {
+      this.onbufferedamountlow?.();
+    };
+  }
+
+  private handleClosed(): void {
+    const onclose = this.onclose;
+    this.close();
+    onclose?.();
+  }
+
+  /**
+   * Initiate connection (create offer)
+   * Uses perfect negotiation pattern - both peers can call this
+   */
+  async connect(): Promise<void> {
+    // Create data channel if we don't have one yet
+    if (!this.dataChannel) {
+      // Unordered for better performance - protocol is stateless (each message self-describes)
+      this.dataChannel = this.pc.createDataChannel('hashtree', { ordered: false });
+      this.setupDataChannel(this.dataChannel);
+    }
+
+    try {
+      this.makingOffer = true;
+      const offer = await this.pc.createOffer();
+      await this.pc.setLocalDescription(offer);
+
+      await this.sendSignaling({
+        type: 'offer',
+        offer: offer,
+        recipient: this.peerId,
+        peerId: this.myPeerId,
+      });
+    } finally {
+      this.makingOffer = false;
+    }
+  }
+
+  /**
+   * Handle incoming signaling message
+   * Implements perfect negotiation pattern for collision handling
+   */
+  async handleSignaling(msg: DirectedMessage): Promise<void> {
+    if (msg.type === 'offer') {
+      // Perfect negotiation: check for offer collision
+      const offerCollision =
+        this.makingOffer ||
+        (this.pc.signalingState !== 'stable' && this.pc.signalingState !== 'closed');
+
+      this.ignoreOffer = !this.isPolite && offerCollision;
+
+      if (this.ignoreOffer) {
+        this.log('Ignoring offer collision (impolite peer)');
+        return;
+      }
+
+      // If we're polite and have a collision, we rollback and accept their offer
+      if (offerCollision) {
+        this.log('Rolling back local offer (polite peer)');
+      }
+
+      await this.pc.setRemoteDescription(new RTCSessionDescription(msg.offer));
+      await this.processQueuedCandidates();
+      const answer = await this.pc.createAnswer();
+      await this.pc.setLocalDescription(answer);
+
+      await this.sendSignaling({
+        type: 'answer',
+        answer: answer,
+        recipient: this.peerId,
+        peerId: this.myPeerId,
+      });
+    } else if (msg.type === 'answer') {
+      // Ignore answer if we're not expecting one (e.g., after rollback)
+      if (this.pc.signalingState === 'stable') {
+        this.log('Ignoring unexpected answer in stable state');
+        return;
+      }
+      await this.pc.setRemoteDescription(new RTCSessionDescription(msg.answer));
+      await this.processQueuedCandidates();
+    } else if (msg.type === 'candidate') {
+      await this.addRemoteCandidate(msg.candidate);
+    } else if (msg.type === 'candidates') {
+      // Handle batched candidates
+      for (const candidate of msg.candidates) {
+        await this.addRemoteCandidate(candidate);
+      }
+    }
+  }
+
+  private async addRemoteCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    // Queue candidates if remote description not set yet
+    if (!this.pc.remoteDescription) {
+      this.queuedRemoteCandidates.push(candidate);
+      return;
+    }
+
+    try {
+      await this.pc.addIceCandidate(new RTCIceCandidate(candidate));
+    } catch (err) {
+      this.log('Failed to add ICE candidate:', err);
+    }
+  }
+
+  private async processQueuedCandidates(): Promise<void> {
+    const candidates = this.queuedRemoteCandidates;
+    this.queuedRemoteCandidates = [];
+
+    for (const candidate of candidates) {
+      try {
+        await this.pc.addIceCandidate(new RTCIceCandidate(candidate));
+      } catch (err) {
+        this.log('Failed to add queued ICE candidate:', err);
+      }
+    }
+  }
+
+  close(): void {
+    this.onopen = null;
+    this.onmessage = null;
+    this.onclose = null;
+    this.onbufferedamountlow = null;
+
+    if (this.candidateBatchTimeout) {
+      clearTimeout(this.candidateBatchTimeout);
+      this.candidateBatchTimeout = null;
+    }
+
+    if (this.dataChannel) {
+      this.dataChannel.onopen = null;
+      this.dataChannel.onclose = null;
+      this.dataChannel.onmessage = null;
+      this.dataChannel.onbufferedamountlow = null;
+      this.dataChannel.close();
+      this.dataChannel = null;
+    }
+
+    this.pc.onicecandidate = null;
+    this.pc.onconnectionstatechange = null;
+    this.pc.ondatachannel = null;
+    this.pc.close();
+  }
+}
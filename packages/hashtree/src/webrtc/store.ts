@@ -2,42 +2,47 @@
  * WebRTC-based distributed store for hashtree
  *
  * Implements the Store interface, fetching data from P2P network.
- * Uses Nostr relays for WebRTC signaling with perfect negotiation (both peers can initiate).
- *
- * Signaling protocol (all use ephemeral kind 25050):
- * - Hello messages: #l: "hello" tag, broadcast for peer discovery (unencrypted)
- * - Directed signaling (offer, answer, candidate, candidates): #p tag with
- *   recipient pubkey, NIP-17 style gift wrap for privacy
+ * Signaling and data connections come from a Transport (see transport.ts).
+ * By default, Nostr relays carry the signaling (see nostrSignaling.ts) and
+ * RTCPeerConnection data channels the data, with perfect negotiation (both
+ * peers can initiate).
  *
  * Pool-based peer management:
  * - 'follows' pool: Users in your social graph (followed or followers)
  * - 'other' pool: Everyone else (randos)
  * Each pool has its own connection limits.
  */
-import { SimplePool, type Event } from 'nostr-tools';
 import type { Store, Hash } from '../types.js';
 import { toHex } from '../types.js';
 import {
   PeerId,
   generateUuid,
   type SignalingMessage,
+  type HelloMessage,
   type DirectedMessage,
   type WebRTCStoreConfig,
   type PeerStatus,
   type WebRTCStoreEvent,
   type WebRTCStoreEventHandler,
-  type EventSigner,
-  type EventEncrypter,
-  type EventDecrypter,
-  type GiftWrapper,
-  type GiftUnwrapper,
-  type SignedEvent,
   type PeerPool,
   type PeerClassifier,
   type PoolConfig,
   type WebRTCStats,
+  MAX_HAVE_QUERY_HASHES,
 } from './types.js';
 import { Peer } from './peer.js';
+import type { Transport } from './transport.js';
+import { NostrSignaling } from './nostrSignaling.js';
+import { RTCConnection } from './rtcConnection.js';
+import { SwarmFetcher, type SwarmStats } from './swarm.js';
+import { LRUCache } from './lruCache.js';
+import { getMany } from '../store/batch.js';
+import {
+  PeerReputation,
+  DEFAULT_REPUTATION_CONFIG,
+  type ReputationConfig,
+  type PeerReputationStats,
+} from './reputation.js';
 
 export const DEFAULT_RELAYS = [
   'wss://relay.damus.io',
@@ -48,12 +53,6 @@ export const DEFAULT_RELAYS = [
   'wss://relay.snort.social',
 ];
 
-// All WebRTC signaling uses ephemeral kind 25050
-// Hello messages use #l tag for broadcast discovery
-// Directed messages use #p tag with gift wrap
-const SIGNALING_KIND = 25050;
-const HELLO_TAG = 'hello';
-
 
 // Pending request with callbacks
 interface PendingReq {
@@ -83,15 +82,8 @@ export class WebRTCStore implements Store {
   private peerClassifier: PeerClassifier;
   private getFollowedPubkeys: (() => string[]) | null;
   private isPeerBlocked: ((pubkey: string) => boolean) | null;
-  private signer: EventSigner;
-  private encrypt: EventEncrypter;
-  private decrypt: EventDecrypter;
-  private giftWrap: GiftWrapper;
-  private giftUnwrap: GiftUnwrapper;
+  private transport: Transport;
   private myPeerId: PeerId;
-  private pool: SimplePool;
-  private subscriptions: ReturnType<SimplePool['subscribe']>[] = [];
-  private helloSubscription: ReturnType<SimplePool['subscribe']> | null = null;
   private peers = new Map<string, PeerInfo>();
   // Track pubkeys we're currently connecting to in 'other' pool (prevents race conditions)
   private pendingOtherPubkeys = new Set<string>();
@@ -104,15 +96,17 @@ export class WebRTCStore implements Store {
   private pendingGets = new Map<string, Promise<Uint8Array | null>>();
   // Store-level stats (not per-peer)
   private blossomFetches = 0;
-  // Track current hello subscription authors for change detection
+  // Track current hello authors for change detection
   private currentHelloAuthors: string[] | null = null;
+  // Accounting by pubkey, kept across reconnects for the most recently seen peers
+  private reputationConfig: ReputationConfig;
+  private reputations: LRUCache<string, PeerReputation>;
+  // Shared want-list spreading block requests over all connected peers
+  private swarm: SwarmFetcher;
+  // Roots we hold the whole tree of, announced to every peer that connects
+  private announcedRoots = new Map<string, Hash>();
 
   constructor(config: WebRTCStoreConfig) {
-    this.signer = config.signer;
-    this.encrypt = config.encrypt;
-    this.decrypt = config.decrypt;
-    this.giftWrap = config.giftWrap;
-    this.giftUnwrap = config.giftUnwrap;
     this.myPeerId = new PeerId(config.pubkey, generateUuid());
 
     // Default classifier: everyone is 'other' unless classifier provided
@@ -121,6 +115,8 @@ export class WebRTCStore implements Store {
     this.getFollowedPubkeys = config.getFollowedPubkeys ?? null;
     // Function to check if a peer is blocked
     this.isPeerBlocked = config.isPeerBlocked ?? null;
+    this.reputationConfig = { ...DEFAULT_REPUTATION_CONFIG, ...config.reputation };
+    this.reputations = new LRUCache(this.reputationConfig.maxPeers);
 
     // Use pool config if provided, otherwise fall back to legacy config or defaults
     if (config.pools) {
@@ -146,7 +142,33 @@ export class WebRTCStore implements Store {
       debug: config.debug ?? false,
     };
 
-    this.pool = new SimplePool();
+    this.swarm = new SwarmFetcher(() => this.rankedPeers().map(({ peer }) => peer), {
+      maxInFlightPerPeer: config.maxInFlightPerPeer,
+      hedgeDelay: this.config.peerQueryDelay,
+    });
+
+    this.transport = config.transport ?? this.createNostrTransport(config);
+  }
+
+  /**
+   * Default transport: Nostr signaling and RTCPeerConnection data channels
+   */
+  private createNostrTransport(config: WebRTCStoreConfig): Transport {
+    const { signer, giftWrap, giftUnwrap } = config;
+    if (!signer || !giftWrap || !giftUnwrap) {
+      throw new Error('WebRTCStore needs signer, giftWrap and giftUnwrap, or a transport');
+    }
+    return {
+      signaling: new NostrSignaling({
+        signer,
+        giftWrap,
+        giftUnwrap,
+        relays: this.config.relays,
+        messageTimeout: this.config.messageTimeout,
+        debug: this.config.debug,
+      }),
+      createConnection: (options) => new RTCConnection(options),
+    };
   }
 
   private log(...args: unknown[]): void {
@@ -219,7 +241,11 @@ export class WebRTCStore implements Store {
     this.log('Relays:', this.config.relays);
 
     // Subscribe to signaling messages
-    this.startSubscription();
+    this.currentHelloAuthors = this.helloAuthors();
+    this.transport.signaling.setHelloAuthors?.(this.currentHelloAuthors);
+    this.transport.signaling.start(this.myPeerId, (msg, senderPubkey) => {
+      this.handleSignaling(msg, senderPubkey);
+    });
 
     // Send hello messages when not satisfied
     this.helloInterval = setInterval(() => {
@@ -254,10 +280,7 @@ export class WebRTCStore implements Store {
       this.cleanupInterval = null;
     }
 
-    for (const sub of this.subscriptions) {
-      sub.close();
-    }
-    this.subscriptions = [];
+    this.transport.signaling.stop();
 
     // Close all peer connections
     for (const { peer } of this.peers.values()) {
@@ -277,20 +300,14 @@ export class WebRTCStore implements Store {
 
     // If running, restart subscriptions with new relays
     if (this.running) {
-      // Close existing subscriptions
-      for (const sub of this.subscriptions) {
-        sub.close();
-      }
-      this.subscriptions = [];
-
       // Clear existing peers (they were discovered via old relays)
       for (const { peer } of this.peers.values()) {
         peer.close();
       }
       this.peers.clear();
 
-      // Start new subscriptions with updated relays
-      this.startSubscription();
+      // Resubscribe on the updated relays
+      this.transport.signaling.setRelays?.(relays);
 
       this.emit({ type: 'update' });
     }
@@ -310,93 +327,23 @@ export class WebRTCStore implements Store {
     }
   }
 
-  private startSubscription(): void {
-    const since = Math.floor((Date.now() - this.config.messageTimeout) / 1000);
-
-    const subHandler = {
-      onevent: (event: Event) => {
-        this.handleSignalingEvent(event);
-      },
-      oneose: () => {},
-    };
-
-    // 1. Subscribe to hello messages based on pool configuration
-    this.setupHelloSubscription(since, subHandler);
-
-    // 2. Subscribe to directed signaling (kind 25050 with #p tag) for offers/answers/candidates
-    // Always subscribe to directed messages (needed to receive offers/answers)
-    this.subscriptions.push(
-      this.pool.subscribe(
-        this.config.relays,
-        {
-          kinds: [SIGNALING_KIND],
-          '#p': [this.myPeerId.pubkey],
-          since,
-        },
-        subHandler
-      )
-    );
-  }
-
   /**
-   * Setup hello subscription based on pool configuration
-   * - If both pools are 0: don't subscribe to hellos
-   * - If other pool is disabled but follows is enabled: subscribe to followed pubkeys only
-   * - If other pool is enabled: subscribe to all hellos
+   * Whose hellos to receive, based on pool configuration
+   * - If both pools are 0: nobody
+   * - If other pool is disabled but follows is enabled: followed pubkeys only
+   * - If other pool is enabled: everyone (null)
    */
-  private setupHelloSubscription(since: number, subHandler: { onevent: (event: Event) => void; oneose: () => void }): void {
-    // Close existing hello subscription if any
-    if (this.helloSubscription) {
-      this.helloSubscription.close();
-      this.helloSubscription = null;
-    }
-
+  private helloAuthors(): string[] | null {
     const followsMax = this.pools.follows.maxConnections;
     const otherMax = this.pools.other.maxConnections;
 
-    // If both pools are disabled, don't subscribe to hellos at all
     if (followsMax === 0 && otherMax === 0) {
-      this.log('Both pools disabled, not subscribing to hellos');
-      this.currentHelloAuthors = [];
-      return;
+      return [];
     }
-
-    // If other pool is disabled but follows pool is enabled, only subscribe to followed users
     if (otherMax === 0 && followsMax > 0) {
-      const followedPubkeys = this.getFollowedPubkeys?.() ?? [];
-      if (followedPubkeys.length === 0) {
-        this.log('Follows pool enabled but no followed users, not subscribing to hellos');
-        this.currentHelloAuthors = [];
-        return;
-      }
-
-      this.log('Other pool disabled, subscribing to hellos from', followedPubkeys.length, 'followed users');
-      this.currentHelloAuthors = [...followedPubkeys];
-      this.helloSubscription = this.pool.subscribe(
-        this.config.relays,
-        {
-          kinds: [SIGNALING_KIND],
-          '#l': [HELLO_TAG],
-          authors: followedPubkeys,
-          since,
-        },
-        subHandler
-      );
-      return;
+      return [...(this.getFollowedPubkeys?.() ?? [])];
     }
-
-    // Otherwise subscribe to all hellos
-    this.log('Subscribing to all hellos');
-    this.currentHelloAuthors = null; // null means all authors
-    this.helloSubscription = this.pool.subscribe(
-      this.config.relays,
-      {
-        kinds: [SIGNALING_KIND],
-        '#l': [HELLO_TAG],
-        since,
-      },
-      subHandler
-    );
+    return null;
   }
 
   /**
@@ -406,72 +353,25 @@ export class WebRTCStore implements Store {
   updateHelloSubscription(): void {
     if (!this.running) return;
 
-    const followsMax = this.pools.follows.maxConnections;
-    const otherMax = this.pools.other.maxConnections;
-
-    // Only need to update if we're in follows-only mode
-    if (otherMax === 0 && followsMax > 0) {
-      const followedPubkeys = this.getFollowedPubkeys?.() ?? [];
-      const currentAuthors = this.currentHelloAuthors ?? [];
-
-      // Check if follows list changed
-      const changed = followedPubkeys.length !== currentAuthors.length ||
-        !followedPubkeys.every(pk => currentAuthors.includes(pk));
-
-      if (changed) {
-        const since = Math.floor((Date.now() - this.config.messageTimeout) / 1000);
-        const subHandler = {
-          onevent: (event: Event) => {
-            this.handleSignalingEvent(event);
-          },
-          oneose: () => {},
-        };
-        this.setupHelloSubscription(since, subHandler);
-      }
-    }
-  }
-
-  private async handleSignalingEvent(event: Event): Promise<void> {
-    // Filter out old events (created more than messageTimeout ago)
-    const eventAge = Date.now() / 1000 - (event.created_at ?? 0);
-    if (eventAge > this.config.messageTimeout / 1000) {
-      return;
-    }
+    const authors = this.helloAuthors();
+    const currentAuthors = this.currentHelloAuthors;
 
-    // Check expiration
-    const expirationTag = event.tags.find(t => t[0] === 'expiration');
-    if (expirationTag) {
-      const expiration = parseInt(expirationTag[1], 10);
-      if (expiration < Date.now() / 1000) {
-        return;
-      }
-    }
+    // Check if authors changed
+    const changed = authors === null || currentAuthors === null
+      ? authors !== currentAuthors
+      : authors.length !== currentAuthors.length || !authors.every(pk => currentAuthors.includes(pk));
 
-    // Check if this is a hello message (#l: hello tag)
-    const lTag = event.tags.find(t => t[0] === 'l')?.[1];
-    if (lTag === HELLO_TAG) {
-      const peerIdTag = event.tags.find(t => t[0] === 'peerId')?.[1];
-      if (peerIdTag) {
-        await this.handleHello(peerIdTag, event.pubkey);
-      }
-      return;
+    if (changed) {
+      this.currentHelloAuthors = authors;
+      this.transport.signaling.setHelloAuthors?.(authors);
     }
+  }
 
-    // Check if this is a directed message (#p tag pointing to us)
-    const pTag = event.tags.find(t => t[0] === 'p')?.[1];
-    if (pTag === this.myPeerId.pubkey) {
-      // Gift-wrapped signaling message - try to unwrap
-      try {
-        const inner = await this.giftUnwrap(event as SignedEvent);
-        if (!inner) {
-          return; // Can't decrypt - not for us
-        }
-
-        const msg = JSON.parse(inner.content) as DirectedMessage;
-        await this.handleSignalingMessage(msg, inner.pubkey);
-      } catch {
-        // Not for us or invalid - ignore silently
-      }
+  private async handleSignaling(msg: SignalingMessage, senderPubkey: string): Promise<void> {
+    if (msg.type === 'hello') {
+      await this.handleHello(msg.peerId, senderPubkey);
+    } else {
+      await this.handleSignalingMessage(msg, senderPubkey);
     }
   }
 
@@ -503,8 +403,8 @@ export class WebRTCStore implements Store {
       return;
     }
 
-    // Skip blocked peers
-    if (this.isPeerBlocked?.(senderPubkey)) {
+    // Skip blocked peers and peers banned for sending bad data
+    if (this.isPeerBlocked?.(senderPubkey) || this.reputations.get(senderPubkey)?.isBanned) {
       this.log('Ignoring hello from blocked peer:', senderPubkey.slice(0, 8));
       return;
     }
@@ -546,14 +446,14 @@ export class WebRTCStore implements Store {
     }
   }
 
-  private async handleOffer(peerId: PeerId, msg: SignalingMessage): Promise<void> {
+  private async handleOffer(peerId: PeerId, msg: DirectedMessage): Promise<void> {
     // Skip self (exact same peerId)
     if (peerId.toString() === this.myPeerId.toString()) {
       return;
     }
 
-    // Skip blocked peers
-    if (this.isPeerBlocked?.(peerId.pubkey)) {
+    // Skip blocked peers and peers banned for sending bad data
+    if (this.isPeerBlocked?.(peerId.pubkey) || this.reputations.get(peerId.pubkey)?.isBanned) {
       this.log('Ignoring offer from blocked peer:', peerId.pubkey.slice(0, 8));
       return;
     }
@@ -587,18 +487,20 @@ export class WebRTCStore implements Store {
 
     const peer = new Peer({
       peerId,
-      myPeerId: this.myPeerId.uuid,
+      connection: this.createConnection(peerId),
       direction: 'inbound',
       localStore: this.config.localStore,
-      sendSignaling: (m) => this.sendSignaling(m, peerId.pubkey),
       onClose: () => this.handlePeerClose(peerIdStr),
       onConnected: () => {
         this.emit({ type: 'peer-connected', peerId: peerIdStr });
         this.emit({ type: 'update' });
+        peer.announceRoots(Array.from(this.announcedRoots.values()));
         this.tryPendingReqs(peer);
       },
-      onForwardRequest: (hash, exclude, htl) => this.forwardRequest(hash, exclude, htl),
+      onForwardRequest: (hash, exclude, htl, signal) => this.forwardRequest(hash, exclude, htl, signal),
       requestTimeout: this.config.requestTimeout,
+      reputation: this.getReputation(peerId.pubkey),
+      isTrusted: () => this.peers.get(peerIdStr)?.pool === 'follows',
       debug: this.config.debug,
     });
 
@@ -619,18 +521,20 @@ export class WebRTCStore implements Store {
 
     const peer = new Peer({
       peerId,
-      myPeerId: this.myPeerId.uuid,
+      connection: this.createConnection(peerId),
       direction: 'outbound',
       localStore: this.config.localStore,
-      sendSignaling: (m) => this.sendSignaling(m, peerId.pubkey),
       onClose: () => this.handlePeerClose(peerIdStr),
       onConnected: () => {
         this.emit({ type: 'peer-connected', peerId: peerIdStr });
         this.emit({ type: 'update' });
+        peer.announceRoots(Array.from(this.announcedRoots.values()));
         this.tryPendingReqs(peer);
       },
-      onForwardRequest: (hash, exclude, htl) => this.forwardRequest(hash, exclude, htl),
+      onForwardRequest: (hash, exclude, htl, signal) => this.forwardRequest(hash, exclude, htl, signal),
       requestTimeout: this.config.requestTimeout,
+      reputation: this.getReputation(peerId.pubkey),
+      isTrusted: () => this.peers.get(peerIdStr)?.pool === 'follows',
       debug: this.config.debug,
     });
 
@@ -638,8 +542,48 @@ export class WebRTCStore implements Store {
     await peer.connect();
   }
 
+  private createConnection(peerId: PeerId) {
+    return this.transport.createConnection({
+      peerId,
+      myPeerId: this.myPeerId.uuid,
+      sendSignaling: (m) => this.sendSignaling(m, peerId.pubkey),
+      debug: this.config.debug,
+    });
+  }
+
+  private getReputation(pubkey: string): PeerReputation {
+    let reputation = this.reputations.get(pubkey);
+    if (!reputation) {
+      reputation = new PeerReputation(this.reputationConfig);
+      this.reputations.set(pubkey, reputation);
+    }
+    return reputation;
+  }
+
+  /**
+   * Connected peers in the order to ask them: follows first, then by reputation score
+   */
+  private rankedPeers(excludePeerId?: string): PeerInfo[] {
+    return Array.from(this.peers.values())
+      .filter(({ peer }) => peer.isConnected && peer.peerId !== excludePeerId)
+      .sort((a, b) => {
+        if (a.pool === 'follows' && b.pool !== 'follows') return -1;
+        if (a.pool !== 'follows' && b.pool === 'follows') return 1;
+        return b.peer.reputation.score - a.peer.reputation.score;
+      });
+  }
+
   private handlePeerClose(peerIdStr: string): void {
+    const closed = this.peers.get(peerIdStr)?.peer;
     this.peers.delete(peerIdStr);
+
+    // A ban covers every connection of the pubkey
+    if (closed?.reputation.isBanned) {
+      for (const { peer } of this.peers.values()) {
+        if (peer.pubkey === closed.pubkey) peer.close();
+      }
+    }
+
     this.emit({ type: 'peer-disconnected', peerId: peerIdStr });
     this.emit({ type: 'update' });
   }
@@ -647,49 +591,22 @@ export class WebRTCStore implements Store {
   /**
    * Forward a request to other peers (excluding the requester)
    * Called by Peer when it receives a request it can't fulfill locally
-   * Uses sequential queries with delays between attempts
+   * Goes through the swarm, so it shares in-flight requests with our own fetches
    * @param htl - Hops To Live (already decremented by calling peer)
+   * @param signal - Aborted when the requester cancels; the swarm then drops
+   *   the want unless our own fetches still wait for it
    */
-  private async forwardRequest(hash: Uint8Array, excludePeerId: string, htl: number): Promise<Uint8Array | null> {
-    // Try all connected peers except the one who requested
-    const otherPeers = Array.from(this.peers.values())
-      .filter(({ peer }) => peer.isConnected && peer.peerId !== excludePeerId);
-
-    // Sort: follows first
-    otherPeers.sort((a, b) => {
-      if (a.pool === 'follows' && b.pool !== 'follows') return -1;
-      if (a.pool !== 'follows' && b.pool === 'follows') return 1;
-      return 0;
-    });
-
-    // Query peers sequentially with delay between attempts
-    for (let i = 0; i < otherPeers.length; i++) {
-      const { peer } = otherPeers[i];
-
-      // Start request to this peer with the decremented HTL
-      const requestPromise = peer.request(hash, htl);
-
-      // Race between request completing and delay timeout
-      const result = await Promise.race([
-        requestPromise.then(data => ({ type: 'data' as const, data })),
-        this.delay(this.config.peerQueryDelay).then(() => ({ type: 'timeout' as const })),
-      ]);
-
-      if (result.type === 'data' && result.data) {
-        // Got data from this peer
-        if (this.config.localStore) {
-          await this.config.localStore.put(hash, result.data);
-        }
-        return result.data;
-      }
-
-      // If timeout, continue to next peer
-      if (result.type === 'timeout') {
-        this.log('Forward: peer', peer.peerId.slice(0, 12), 'timeout, trying next');
-      }
+  private async forwardRequest(
+    hash: Uint8Array,
+    excludePeerId: string,
+    htl: number,
+    signal: AbortSignal
+  ): Promise<Uint8Array | null> {
+    const data = await this.swarm.fetch(hash, { htl, excludePeerId, signal });
+    if (data && this.config.localStore) {
+      await this.config.localStore.put(hash, data);
     }
-
-    return null;
+    return data;
   }
 
   /**
@@ -717,33 +634,10 @@ export class WebRTCStore implements Store {
 
     if (recipientPubkey) {
       // Directed message (offer, answer, candidate, candidates)
-      // Use NIP-17 style gift wrap with kind 25050
-      const innerEvent = {
-        kind: SIGNALING_KIND,
-        content: JSON.stringify(msg),
-        tags: [] as string[][],
-      };
-
-      const wrappedEvent = await this.giftWrap(innerEvent, recipientPubkey);
-      await this.pool.publish(this.config.relays, wrappedEvent as Event);
+      await this.transport.signaling.sendDirected(msg as DirectedMessage, recipientPubkey);
     } else {
-      // Hello message - broadcast for peer discovery (kind 25050 with #l: hello)
-      const expiration = Math.floor((Date.now() + 5 * 60 * 1000) / 1000); // 5 minutes
-      const tags = [
-        ['l', HELLO_TAG],
-        ['peerId', msg.peerId],
-        ['expiration', expiration.toString()],
-      ];
-
-      const eventTemplate = {
-        kind: SIGNALING_KIND,
-        created_at: Math.floor(Date.now() / 1000),
-        tags,
-        content: '',
-      };
-
-      const event = await this.signer(eventTemplate) as Event;
-      await this.pool.publish(this.config.relays, event);
+      // Hello message - broadcast for peer discovery
+      await this.transport.signaling.sendHello(msg as HelloMessage);
     }
   }
 
@@ -810,9 +704,43 @@ export class WebRTCStore implements Store {
       isSelf: peer.pubkey === this.myPeerId.pubkey,
       pool,
       isConnected: peer.isConnected, // Includes data channel state
+      score: peer.reputation.score,
     }));
   }
 
+  /**
+   * Announce that we hold the whole tree of a root
+   * Sent to connected peers now and to peers that connect later, so they can
+   * route requests for it to us.
+   */
+  announceRoot(hash: Hash): void {
+    const key = toHex(hash);
+    if (this.announcedRoots.has(key)) return;
+    this.announcedRoots.set(key, hash);
+    for (const { peer } of this.rankedPeers()) {
+      peer.announceRoots([hash]);
+    }
+  }
+
+  /**
+   * Ask all connected peers which of these hashes they have
+   * Peers remember the answers, so later fetches go to peers that have the blocks.
+   * @returns Ids of the peers that have each hash, in the same order
+   */
+  async findHolders(hashes: Hash[]): Promise<string[][]> {
+    const holders: string[][] = hashes.map(() => []);
+    await Promise.all(this.rankedPeers().map(async ({ peer }) => {
+      for (let start = 0; start < hashes.length; start += MAX_HAVE_QUERY_HASHES) {
+        const flags = await peer.queryHave(hashes.slice(start, start + MAX_HAVE_QUERY_HASHES));
+        if (!flags) return; // No answer (or an older peer): don't wait for the rest
+        flags.forEach((has, i) => {
+          if (has) holders[start + i].push(peer.peerId);
+        });
+      }
+    }));
+    return holders;
+  }
+
   /**
    * Disconnect all peers with a given pubkey
    * Used when blocking a peer to immediately disconnect them
@@ -863,28 +791,11 @@ export class WebRTCStore implements Store {
    * Update pool configuration (e.g., from settings)
    */
   setPoolConfig(pools: { follows: PoolConfig; other: PoolConfig }): void {
-    const oldOtherMax = this.pools.other.maxConnections;
-    const oldFollowsMax = this.pools.follows.maxConnections;
     this.pools = pools;
     this.log('Pool config updated:', pools);
 
-    // Check if subscription mode needs to change
-    const newOtherMax = pools.other.maxConnections;
-    const newFollowsMax = pools.follows.maxConnections;
-    const subscriptionModeChanged =
-      (oldOtherMax === 0) !== (newOtherMax === 0) ||
-      (oldFollowsMax === 0) !== (newFollowsMax === 0);
-
-    if (subscriptionModeChanged && this.running) {
-      const since = Math.floor((Date.now() - this.config.messageTimeout) / 1000);
-      const subHandler = {
-        onevent: (event: Event) => {
-          this.handleSignalingEvent(event);
-        },
-        oneose: () => {},
-      };
-      this.setupHelloSubscription(since, subHandler);
-    }
+    // Hello authors depend on which pools are enabled
+    this.updateHelloSubscription();
 
     // Existing connections remain, but new limits apply for future connections
     this.emit({ type: 'update' });
@@ -905,14 +816,16 @@ export class WebRTCStore implements Store {
   }
 
   /**
-   * Get WebRTC stats (aggregate and per-peer)
+   * Get WebRTC stats (aggregate, want-list, and per-peer with reputation)
    */
   getStats(): {
     aggregate: WebRTCStats;
+    swarm: SwarmStats;
     perPeer: Map<string, {
       pubkey: string;
       pool: PeerPool;
       stats: ReturnType<Peer['getStats']>;
+      reputation: PeerReputationStats;
     }>;
   } {
     // Aggregate stats from all peers + store-level stats
@@ -920,6 +833,7 @@ export class WebRTCStore implements Store {
       requestsSent: 0,
       requestsReceived: 0,
       responsesSent: 0,
+      responsesCancelled: 0,
       responsesReceived: 0,
       receiveErrors: 0,
       blossomFetches: this.blossomFetches,
@@ -936,6 +850,7 @@ export class WebRTCStore implements Store {
       pubkey: string;
       pool: PeerPool;
       stats: ReturnType<Peer['getStats']>;
+      reputation: PeerReputationStats;
     }>();
 
     for (const [peerIdStr, { peer, pool }] of this.peers) {
@@ -943,6 +858,7 @@ export class WebRTCStore implements Store {
       aggregate.requestsSent += peerStats.requestsSent;
       aggregate.requestsReceived += peerStats.requestsReceived;
       aggregate.responsesSent += peerStats.responsesSent;
+      aggregate.responsesCancelled += peerStats.responsesCancelled;
       aggregate.responsesReceived += peerStats.responsesReceived;
       aggregate.receiveErrors += peerStats.receiveErrors;
       aggregate.fragmentsSent += peerStats.fragmentsSent;
@@ -956,10 +872,11 @@ export class WebRTCStore implements Store {
         pubkey: peer.pubkey,
         pool,
         stats: peerStats,
+        reputation: peer.reputation.getStats(),
       });
     }
 
-    return { aggregate, perPeer };
+    return { aggregate, swarm: this.swarm.getStats(), perPeer };
   }
 
   // Store interface implementation
@@ -1016,53 +933,36 @@ export class WebRTCStore implements Store {
     }
   }
 
+  /**
+   * Get several blocks at once
+   * Missing blocks are fetched in parallel right away. Have queries for them
+   * go out at the same time, so the blocks still waiting for a peer when the
+   * answers arrive are asked from the peers that have them.
+   */
+  async getMany(hashes: Hash[]): Promise<Array<Uint8Array | null>> {
+    const local = this.config.localStore
+      ? await getMany(this.config.localStore, hashes)
+      : hashes.map(() => null);
+
+    const missing = hashes.filter((_, i) => !local[i]);
+    if (missing.length > 1) {
+      this.findHolders(missing).catch(() => {});
+    }
+    return Promise.all(hashes.map((hash, i) => local[i] ?? this.get(hash)));
+  }
+
   /**
    * Internal method to fetch data from peers (separated for deduplication)
    */
   private async fetchFromPeers(hash: Hash): Promise<Uint8Array | null> {
-    // Get currently connected peers (prioritize follows pool)
-    const triedPeers = new Set<string>();
-    const allPeers = Array.from(this.peers.values())
-      .filter(({ peer }) => peer.isConnected);
-
-    // Sort: follows first, then others
-    allPeers.sort((a, b) => {
-      if (a.pool === 'follows' && b.pool !== 'follows') return -1;
-      if (a.pool !== 'follows' && b.pool === 'follows') return 1;
-      return 0;
-    });
-
-    // Query peers sequentially with delay between attempts
-    for (let i = 0; i < allPeers.length; i++) {
-      const { peer } = allPeers[i];
-      triedPeers.add(peer.peerId);
-
-      // Start request to this peer
-      const requestPromise = peer.request(hash);
-
-      // Race between request completing and delay timeout
-      // If request completes within delay, we're done
-      // If delay passes first, start next peer while still waiting
-      const result = await Promise.race([
-        requestPromise.then(data => ({ type: 'data' as const, data })),
-        this.delay(this.config.peerQueryDelay).then(() => ({ type: 'timeout' as const })),
-      ]);
-
-      if (result.type === 'data' && result.data) {
-        // Got data from this peer
-        if (this.config.localStore) {
-          await this.config.localStore.put(hash, result.data);
-        }
-        return result.data;
-      }
-
-      // If timeout, continue to next peer but also await the original request
-      // in case it eventually returns data
-      if (result.type === 'timeout') {
-        // Fire-and-forget: if this peer eventually responds, we'll miss it
-        // but that's fine - we're trying the next peer
-        this.log('Peer', peer.peerId.slice(0, 12), 'timeout after', this.config.peerQueryDelay, 'ms, trying next');
+    // Ask the connected peers in parallel (follows first, then by reputation)
+    const triedPeers = new Set(this.rankedPeers().map(({ peer }) => peer.peerId));
+    const data = await this.swarm.fetch(hash);
+    if (data) {
+      if (this.config.localStore) {
+        await this.config.localStore.put(hash, data);
       }
+      return data;
     }
 
     // All WebRTC peers failed - try fallback stores in order
@@ -1094,13 +994,6 @@ export class WebRTCStore implements Store {
     return null;
   }
 
-  /**
-   * Helper to create a delay promise
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Add hash to pending requests list and wait for it to be resolved by peers
    * Also immediately tries any connected peers that weren't tried yet
@@ -1138,10 +1031,8 @@ export class WebRTCStore implements Store {
     const reqs = this.pendingReqs.get(hash);
     if (!reqs || reqs.length === 0) return;
 
-    // Get all connected peers
-    const connectedPeers = Array.from(this.peers.values())
-      .filter(({ peer }) => peer.isConnected)
-      .map(({ peer }) => peer);
+    // Get all connected peers, best first
+    const connectedPeers = this.rankedPeers().map(({ peer }) => peer);
 
     for (const peer of connectedPeers) {
       const peerIdStr = peer.peerId;
@@ -0,0 +1,288 @@
+/**
+ * Swarm-style block fetching across several peers
+ *
+ * Every wanted hash goes into one shared want-list. Wants are handed out to
+ * the connected peers in parallel, up to an in-flight limit per peer, so a
+ * batch of blocks (pull, streaming prefetch) keeps all connections busy
+ * instead of asking one peer at a time.
+ *
+ * - A want that gets no answer within hedgeDelay is also sent to the next
+ *   peer; when any peer answers, the duplicates are cancelled.
+ * - A peer that doesn't have a block is skipped for it; the want moves on to
+ *   the next untried peer and resolves null when every peer missed.
+ * - Peers known to hold a hash (announced root, have query answer) are
+ *   asked for it before anyone else; other peers are asked blindly only
+ *   when all of those missed. Every fetched block is shown to all peers, so
+ *   a peer that announced a tree is known to hold the children of its nodes
+ *   whichever peer served them.
+ * - Peers that recently had what we asked for get new wants first, so
+ *   blocks of one file tend to go to the peers that hold that file.
+ */
+import type { Hash } from '../types.js';
+import { toHex } from '../types.js';
+import { MAX_HTL } from './types.js';
+
+/** What the swarm needs from a peer (implemented by Peer) */
+export interface SwarmPeer {
+  readonly peerId: string;
+  request(hash: Hash, htl?: number): Promise<Uint8Array | null>;
+  /** Give up on a request, resolving it with null */
+  cancelRequest(hash: Hash): void;
+  /** True if the peer is known to hold this hash */
+  hasHash?(hash: Hash): boolean;
+  /** A block was fetched, from this peer or another one */
+  noteBlock?(hash: Hash, data: Uint8Array): void;
+}
+
+export interface SwarmConfig {
+  /** Max requests in flight to one peer (default 8) */
+  maxInFlightPerPeer: number;
+  /** Ms without an answer before asking another peer too (default 500) */
+  hedgeDelay: number;
+  /** Max peers asked for the same hash at once (default 2) */
+  maxPeersPerWant: number;
+}
+
+export const DEFAULT_SWARM_CONFIG: SwarmConfig = {
+  maxInFlightPerPeer: 8,
+  hedgeDelay: 500,
+  maxPeersPerWant: 2,
+};
+
+export interface SwarmFetchOptions {
+  /** Hops To Live for the requests (default MAX_HTL) */
+  htl?: number;
+  /** Peer not to ask on this caller's behalf, e.g. the one that asked us */
+  excludePeerId?: string;
+  /** Gives up this caller's fetch (resolving null); a want with no callers left is cancelled */
+  signal?: AbortSignal;
+}
+
+export interface SwarmStats {
+  /** Hashes waiting for a peer or an answer */
+  wants: number;
+  /** Requests in flight over all peers */
+  inFlight: number;
+  /** Requests cancelled after another peer answered, or when every caller gave up */
+  cancelled: number;
+}
+
+interface Waiter {
+  resolve: (data: Uint8Array | null) => void;
+  excludePeerId?: string;
+  /** Stops listening to the caller's abort signal */
+  detach?: () => void;
+}
+
+interface Want {
+  hash: Hash;
+  /** Highest HTL of the waiters */
+  htl: number;
+  waiters: Waiter[];
+  tried: Set<string>;
+  inFlight: Map<string, SwarmPeer>;
+  /** Set when the hedge delay passed without an answer */
+  hedge: boolean;
+  hedgeTimer?: ReturnType<typeof setTimeout>;
+}
+
+/** Weight of the latest hit/miss in a peer's availability */
+const AVAILABILITY_ALPHA = 0.3;
+
+export class SwarmFetcher {
+  private config: SwarmConfig;
+  private wants = new Map<string, Want>();
+  private inFlight = new Map<string, number>();
+  // Recent hit rate of each peer, 1 = had everything we asked
+  private availability = new Map<string, number>();
+  private cancelled = 0;
+
+  /**
+   * @param getPeers - Connected peers, best first
+   */
+  constructor(
+    private getPeers: () => SwarmPeer[],
+    config: Partial<SwarmConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_SWARM_CONFIG, ...config };
+  }
+
+  /**
+   * Fetch a block from whichever peer has it first
+   * Concurrent fetches of the same hash share one want. A peer excluded by
+   * one caller is still asked for the others; a caller with a higher HTL
+   * than the requests sent so far gets another peer asked right away.
+   * @returns Data, or null if no connected peer had it
+   */
+  fetch(hash: Hash, options: SwarmFetchOptions = {}): Promise<Uint8Array | null> {
+    const key = toHex(hash);
+    const htl = options.htl ?? MAX_HTL;
+    const { signal } = options;
+    if (signal?.aborted) return Promise.resolve(null);
+
+    return new Promise(resolve => {
+      let want = this.wants.get(key);
+      if (!want) {
+        want = {
+          hash,
+          htl,
+          waiters: [],
+          tried: new Set(),
+          inFlight: new Map(),
+          hedge: false,
+        };
+        this.wants.set(key, want);
+      } else if (htl > want.htl) {
+        want.htl = htl;
+        want.hedge = true;
+      }
+      const waiter: Waiter = { resolve, excludePeerId: options.excludePeerId };
+      if (signal) {
+        const current = want;
+        const onAbort = () => this.abort(key, current, waiter);
+        signal.addEventListener('abort', onAbort, { once: true });
+        waiter.detach = () => signal.removeEventListener('abort', onAbort);
+      }
+      want.waiters.push(waiter);
+      this.pump();
+    });
+  }
+
+  /**
+   * Fetch several blocks, spread over the connected peers
+   * @returns Data or null for each hash, in the same order
+   */
+  fetchMany(hashes: Hash[], options: SwarmFetchOptions = {}): Promise<Array<Uint8Array | null>> {
+    return Promise.all(hashes.map(hash => this.fetch(hash, options)));
+  }
+
+  getStats(): SwarmStats {
+    let inFlight = 0;
+    for (const count of this.inFlight.values()) inFlight += count;
+    return { wants: this.wants.size, inFlight, cancelled: this.cancelled };
+  }
+
+  /**
+   * Hand out wants to peers with free slots
+   */
+  private pump(): void {
+    const peers = this.getPeers();
+
+    for (const [key, want] of this.wants) {
+      const asking = want.inFlight.size;
+      if (asking > 0 && (!want.hedge || asking >= this.config.maxPeersPerWant)) continue;
+
+      const peer = this.pickPeer(peers, want);
+      if (peer) {
+        this.send(want, peer);
+      } else if (asking === 0 && !peers.some(p => this.mayAsk(want, p))) {
+        // Every connected peer missed
+        this.finish(key, want, null);
+      }
+    }
+  }
+
+  /**
+   * Untried peer with a free slot, preferring peers that recently had what we asked
+   * While an untried peer is known to hold the hash, only such peers are picked.
+   */
+  private pickPeer(peers: SwarmPeer[], want: Want): SwarmPeer | null {
+    const untried = peers.filter(p => this.mayAsk(want, p));
+    const holders = untried.filter(p => p.hasHash?.(want.hash));
+    const candidates = holders.length > 0 ? holders : untried;
+
+    let best: SwarmPeer | null = null;
+    let bestAvailability = -1;
+    for (const peer of candidates) {
+      if ((this.inFlight.get(peer.peerId) ?? 0) >= this.config.maxInFlightPerPeer) continue;
+      const availability = this.availability.get(peer.peerId) ?? 1;
+      // Peers come best first, so only a strictly better availability wins
+      if (availability > bestAvailability) {
+        best = peer;
+        bestAvailability = availability;
+      }
+    }
+    return best;
+  }
+
+  /** Untried, and not excluded by every waiter */
+  private mayAsk(want: Want, peer: SwarmPeer): boolean {
+    return !want.tried.has(peer.peerId) && want.waiters.some(w => w.excludePeerId !== peer.peerId);
+  }
+
+  private send(want: Want, peer: SwarmPeer): void {
+    want.tried.add(peer.peerId);
+    want.inFlight.set(peer.peerId, peer);
+    want.hedge = false;
+    this.inFlight.set(peer.peerId, (this.inFlight.get(peer.peerId) ?? 0) + 1);
+
+    clearTimeout(want.hedgeTimer);
+    want.hedgeTimer = setTimeout(() => {
+      want.hedge = true;
+      this.pump();
+    }, this.config.hedgeDelay);
+
+    peer.request(want.hash, want.htl)
+      .catch(() => null)
+      .then(data => this.handleResult(want, peer, data));
+  }
+
+  private handleResult(want: Want, peer: SwarmPeer, data: Uint8Array | null): void {
+    const count = (this.inFlight.get(peer.peerId) ?? 1) - 1;
+    if (count > 0) this.inFlight.set(peer.peerId, count);
+    else this.inFlight.delete(peer.peerId);
+
+    const key = toHex(want.hash);
+    const current = want.inFlight.delete(peer.peerId) && this.wants.get(key) === want;
+
+    // Answers to cancelled duplicates say nothing about availability
+    if (current) {
+      const previous = this.availability.get(peer.peerId) ?? 1;
+      const hit = data ? 1 : 0;
+      this.availability.set(peer.peerId, previous + AVAILABILITY_ALPHA * (hit - previous));
+    }
+
+    if (current && data) {
+      this.finish(key, want, data);
+    }
+    this.pump();
+  }
+
+  /**
+   * A caller gave up: resolve it, and cancel the want if nobody else waits
+   */
+  private abort(key: string, want: Want, waiter: Waiter): void {
+    const index = want.waiters.indexOf(waiter);
+    if (index === -1) return;
+    want.waiters.splice(index, 1);
+    waiter.resolve(null);
+
+    if (want.waiters.length === 0 && this.wants.get(key) === want) {
+      this.finish(key, want, null);
+    } else {
+      // The callers left may exclude every peer not yet asked
+      this.pump();
+    }
+  }
+
+  private finish(key: string, want: Want, data: Uint8Array | null): void {
+    this.wants.delete(key);
+    clearTimeout(want.hedgeTimer);
+
+    if (data) {
+      for (const peer of this.getPeers()) peer.noteBlock?.(want.hash, data);
+    }
+
+    // Cancel duplicates still in flight
+    for (const peer of want.inFlight.values()) {
+      peer.cancelRequest(want.hash);
+      this.cancelled++;
+    }
+    want.inFlight.clear();
+
+    for (const { resolve, detach } of want.waiters) {
+      detach?.();
+      resolve(data);
+    }
+  }
+}
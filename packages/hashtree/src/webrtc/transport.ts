@@ -0,0 +1,69 @@
+/**
+ * Transport abstraction for WebRTCStore
+ *
+ * A transport has two halves:
+ * - Signaling: hello broadcasts for peer discovery, and directed
+ *   offer/answer/candidate messages to one pubkey (Nostr by default)
+ * - Data connections: one per peer, carrying the binary data protocol
+ *   (RTCPeerConnection data channels by default)
+ *
+ * Peer speaks the data protocol over any DataConnection, so the same store
+ * logic runs over WebRTC, an in-process network (tests) or a WebSocket relay.
+ */
+import type { PeerId, SignalingMessage, HelloMessage, DirectedMessage } from './types.js';
+
+/** Receives signaling messages along with the sender's pubkey */
+export type SignalingHandler = (msg: SignalingMessage, senderPubkey: string) => void;
+
+export interface SignalingTransport {
+  /** Start receiving signaling messages for this peer */
+  start(myPeerId: PeerId, handler: SignalingHandler): void;
+  stop(): void;
+  /** Broadcast a hello for peer discovery */
+  sendHello(msg: HelloMessage): Promise<void>;
+  /** Send a message to every session of a pubkey */
+  sendDirected(msg: DirectedMessage, recipientPubkey: string): Promise<void>;
+  /** Only receive hellos from these pubkeys; null = everyone, [] = nobody */
+  setHelloAuthors?(authors: string[] | null): void;
+  /** Switch to other relays, if the transport uses any */
+  setRelays?(relays: string[]): void;
+}
+
+export type ConnectionState = 'new' | 'connecting' | 'connected' | 'disconnected' | 'failed' | 'closed';
+
+/** Binary message channel to one peer */
+export interface DataConnection {
+  readonly state: ConnectionState;
+  /** True when messages can be sent */
+  readonly isOpen: boolean;
+  /** Fired once, when connected and open */
+  onopen: (() => void) | null;
+  onmessage: ((data: ArrayBuffer) => void) | null;
+  /** Fired when the connection goes away, unless close() was called */
+  onclose: (() => void) | null;
+  /** Bytes sent but not yet handed to the network */
+  readonly bufferedAmount: number;
+  /** onbufferedamountlow fires when bufferedAmount drops to this or below */
+  bufferedAmountLowThreshold: number;
+  onbufferedamountlow: (() => void) | null;
+  /** Initiate the connection (send an offer) */
+  connect(): Promise<void>;
+  /** Handle an offer, answer or candidates from the peer */
+  handleSignaling(msg: DirectedMessage): Promise<void>;
+  send(data: ArrayBuffer): void;
+  close(): void;
+}
+
+export interface ConnectionOptions {
+  peerId: PeerId;
+  /** Our uuid */
+  myPeerId: string;
+  /** Send a signaling message to this peer */
+  sendSignaling: (msg: SignalingMessage) => Promise<void>;
+  debug?: boolean;
+}
+
+export interface Transport {
+  signaling: SignalingTransport;
+  createConnection(options: ConnectionOptions): DataConnection;
+}
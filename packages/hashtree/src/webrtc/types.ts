@@ -53,15 +53,38 @@ export const FRAGMENT_TOTAL_TIMEOUT = 120_000;    // 2min max for full chunk rea
 export const MAX_PENDING_REASSEMBLIES = 20;       // Memory cap: max concurrent reassemblies
 export const MAX_PENDING_BYTES = 64 * 1024 * 1024; // 64MB memory cap for reassembly buffers
 
+// Send flow control (per data connection)
+export const BUFFER_HIGH_THRESHOLD = 256 * 1024;  // Stop sending fragments above this bufferedAmount
+export const BUFFER_LOW_THRESHOLD = 64 * 1024;    // Resume when the buffer drains below this
+export const MAX_SEND_QUEUE_BYTES = 16 * 1024 * 1024; // Memory cap: responses waiting to be sent
+
 // Message type bytes (prefix before MessagePack body)
 export const MSG_TYPE_REQUEST = 0x00;
 export const MSG_TYPE_RESPONSE = 0x01;
+export const MSG_TYPE_HAVE = 0x02;
+export const MSG_TYPE_HAVE_QUERY = 0x03;
+export const MSG_TYPE_HAVE_REPLY = 0x04;
+export const MSG_TYPE_CANCEL = 0x05;
+
+// Have queries
+export const MAX_HAVE_QUERY_HASHES = 256;         // Max hashes asked in one query
+export const HAVE_QUERY_TIMEOUT = 2_000;          // 2s to answer a have query
+export const HAVE_QUERY_RETRY_DELAY = 30_000;     // No have queries for 30s after one went unanswered
+export const MAX_HAVE_QUERY_RETRY_DELAY = 10 * 60_000; // Cap of the delay, doubled per unanswered query
+export const MAX_REMOTE_HAVES = 10_000;           // Memory cap: hashes remembered per peer
 
 // Data channel protocol messages
 // Wire format: [type byte][msgpack body]
-// Request:  [0x00][msgpack: {h: bytes32, htl?: u8}]
-// Response: [0x01][msgpack: {h: bytes32, d: bytes, i?: u32, n?: u32}]
+// Request:    [0x00][msgpack: {h: bytes32, htl?: u8}]
+// Response:   [0x01][msgpack: {h: bytes32, d: bytes, i?: u32, n?: u32}]
+// Have:       [0x02][msgpack: {r: bytes32[]}]
+// HaveQuery:  [0x03][msgpack: {id: u32, h: bytes32[]}]
+// HaveReply:  [0x04][msgpack: {id: u32, b: bytes}]
+// Cancel:     [0x05][msgpack: {h: bytes32}]
 // Fragmented responses include i (index) and n (total), unfragmented omit them
+// Have announces roots whose whole tree the sender holds
+// HaveReply bit i (LSB first) is set if the sender has hash i of the query
+// Cancel withdraws a request; the receiver stops sending the response
 
 export interface DataRequest {
   h: Uint8Array;   // 32-byte hash
@@ -75,9 +98,31 @@ export interface DataResponse {
   n?: number;      // Total fragments, absent = unfragmented
 }
 
+export interface HaveAnnouncement {
+  r: Uint8Array[]; // Root hashes
+}
+
+export interface HaveQuery {
+  id: number;      // Matches the reply to the query
+  h: Uint8Array[]; // Hashes asked about
+}
+
+export interface HaveReply {
+  id: number;
+  b: Uint8Array;   // Bitfield over the queried hashes
+}
+
+export interface DataCancel {
+  h: Uint8Array;   // Hash of the withdrawn request
+}
+
 export type DataMessage =
   | { type: typeof MSG_TYPE_REQUEST; body: DataRequest }
-  | { type: typeof MSG_TYPE_RESPONSE; body: DataResponse };
+  | { type: typeof MSG_TYPE_RESPONSE; body: DataResponse }
+  | { type: typeof MSG_TYPE_HAVE; body: HaveAnnouncement }
+  | { type: typeof MSG_TYPE_HAVE_QUERY; body: HaveQuery }
+  | { type: typeof MSG_TYPE_HAVE_REPLY; body: HaveReply }
+  | { type: typeof MSG_TYPE_CANCEL; body: DataCancel };
 
 // Signer function type (compatible with window.nostr.signEvent)
 export type EventSigner = (event: {
@@ -131,18 +176,22 @@ export interface PoolConfig {
 
 // Configuration
 export interface WebRTCStoreConfig {
-  signer: EventSigner;            // NIP-07 compatible signer
   pubkey: string;                 // signer's pubkey
-  encrypt: EventEncrypter;        // NIP-44 compatible encrypter
-  decrypt: EventDecrypter;        // NIP-44 compatible decrypter
-  giftWrap: GiftWrapper;          // NIP-17 style gift wrap (kind 25050)
-  giftUnwrap: GiftUnwrapper;      // NIP-17 style gift unwrap
+  // Nostr signing, needed by the default transport
+  signer?: EventSigner;           // NIP-07 compatible signer
+  encrypt?: EventEncrypter;       // NIP-44 compatible encrypter
+  decrypt?: EventDecrypter;       // NIP-44 compatible decrypter
+  giftWrap?: GiftWrapper;         // NIP-17 style gift wrap (kind 25050)
+  giftUnwrap?: GiftUnwrapper;     // NIP-17 style gift unwrap
+  // Signaling and data connections (default: Nostr relays + RTCPeerConnection)
+  transport?: import('./transport.js').Transport;
   satisfiedConnections?: number;  // default 3 (legacy, used if no pools)
   maxConnections?: number;        // default 6 (legacy, used if no pools)
   helloInterval?: number;         // default 10000ms
   messageTimeout?: number;        // default 15000ms
   requestTimeout?: number;        // default 500ms - fast fallback to Blossom
-  peerQueryDelay?: number;        // default 500ms - delay between sequential peer queries
+  peerQueryDelay?: number;        // default 500ms - delay before also asking the next peer
+  maxInFlightPerPeer?: number;    // default 8 - parallel requests per peer
   relays?: string[];
   localStore?: import('../types.js').Store;
   debug?: boolean;
@@ -162,17 +211,20 @@ export interface WebRTCStoreConfig {
   // Function to check if a peer is blocked (by pubkey)
   // Blocked peers won't be connected to
   isPeerBlocked?: (pubkey: string) => boolean;
+  // Reputation thresholds (see reputation.ts); follows aren't rate limited
+  reputation?: Partial<import('./reputation.js').ReputationConfig>;
 }
 
 export interface PeerStatus {
   peerId: string;
   pubkey: string;
-  state: RTCPeerConnectionState | 'connected';
+  state: import('./transport.js').ConnectionState;
   direction: 'inbound' | 'outbound';
   connectedAt?: number;
   isSelf?: boolean;
   pool?: PeerPool;
   isConnected?: boolean; // True when peer connection AND data channel are ready
+  score?: number;        // Reputation score 0..1 (see reputation.ts)
 }
 
 export type WebRTCStoreEvent =
@@ -187,6 +239,7 @@ export interface WebRTCStats {
   requestsSent: number;           // Requests we sent to peers
   requestsReceived: number;       // Requests we received from peers
   responsesSent: number;          // Responses we sent to peers
+  responsesCancelled: number;     // Responses we stopped sending because the requester cancelled
   responsesReceived: number;      // Responses we received from peers
   receiveErrors: number;          // Errors handling incoming messages (parse, hash mismatch, etc)
   blossomFetches: number;         // Successful fetches from blossom fallback stores
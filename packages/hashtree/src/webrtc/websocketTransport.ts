@@ -0,0 +1,326 @@
+/**
+ * WebSocket transport: signaling and data through a WebSocket relay
+ *
+ * For Node (no WebRTC) and networks where WebRTC can't connect. Every peer
+ * keeps one socket to the relay; the relay broadcasts hellos, routes
+ * directed signaling by pubkey and data frames by peer id.
+ *
+ * Node client, with the ws package:
+ *
+ *   import WebSocket from 'ws';
+ *   const transport = new WebSocketTransport({ url: 'ws://relay:8080', WebSocket });
+ *   const store = new WebRTCStore({ pubkey, transport });
+ *
+ * Relay, with a ws server:
+ *
+ *   attachWebSocketRelay(new WebSocketServer({ port: 8080 }));
+ *
+ * The relay trusts the peer ids that clients join with, so use it between
+ * peers that trust the relay (data is still verified against its hash).
+ *
+ * Relay protocol:
+ * - Text frames, JSON: {t: 'join', peerId} | {t: 'hello', msg} |
+ *   {t: 'signal', to: pubkey, msg} | {t: 'close', to: peerId};
+ *   the relay forwards them with `from` (pubkey, or peer id for close)
+ *   instead of `to`, and sends {t: 'close', from} when a socket goes away
+ * - Binary frames: [id length: u8][peer id: utf8][payload]; the relay swaps
+ *   the recipient's peer id for the sender's
+ */
+import type { HelloMessage, DirectedMessage, SignalingMessage } from './types.js';
+import { RelayTransport } from './relayTransport.js';
+
+type RelayMessage =
+  | { t: 'join'; peerId: string }
+  | { t: 'hello'; msg: HelloMessage; from?: string }
+  | { t: 'signal'; msg: DirectedMessage; to?: string; from?: string }
+  | { t: 'close'; to?: string; from?: string };
+
+/**
+ * Prefix a payload with a peer id
+ */
+function encodeFrame(peerId: string, payload: Uint8Array): Uint8Array {
+  const id = new TextEncoder().encode(peerId);
+  if (id.length > 255) {
+    throw new Error(`Peer id too long: ${peerId}`);
+  }
+  const frame = new Uint8Array(1 + id.length + payload.length);
+  frame[0] = id.length;
+  frame.set(id, 1);
+  frame.set(payload, 1 + id.length);
+  return frame;
+}
+
+function decodeFrame(frame: Uint8Array): { peerId: string; payload: Uint8Array } | null {
+  if (frame.length < 1 || frame.length < 1 + frame[0]) return null;
+  const end = 1 + frame[0];
+  return {
+    peerId: new TextDecoder().decode(frame.subarray(1, end)),
+    payload: frame.subarray(end),
+  };
+}
+
+/** How often the socket's bufferedAmount is checked while data frames are in it */
+const DRAIN_POLL_INTERVAL = 20;
+
+/** Bytes a message takes in the socket buffer (text counted by length) */
+function sizeOf(data: string | Uint8Array): number {
+  return typeof data === 'string' ? data.length : data.byteLength;
+}
+
+function pubkeyOf(peerId: string): string {
+  return peerId.split(':')[0];
+}
+
+export interface WebSocketTransportConfig {
+  /** Relay URL */
+  url: string;
+  /** WebSocket implementation, e.g. the ws package in Node (default: global WebSocket) */
+  WebSocket?: typeof WebSocket;
+  debug?: boolean;
+}
+
+// Message for the socket; data frames carry the peer and payload size to report as sent
+interface Outgoing {
+  data: string | Uint8Array;
+  frame?: { peerId: string; bytes: number };
+}
+
+export class WebSocketTransport extends RelayTransport {
+  private socket: WebSocket | null = null;
+  // Messages sent before the socket opened
+  private queue: Outgoing[] = [];
+  // The socket buffer is shared by all peers: data frames handed to it, oldest
+  // first, with the offset they end at in the bytes written, are reported as
+  // sent to their connection once bufferedAmount shows they left
+  private inSocket: Array<{ peerId: string; bytes: number; end: number }> = [];
+  private bytesWritten = 0;
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private config: WebSocketTransportConfig) {
+    super();
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.config.debug) {
+      console.log('[WebSocketTransport]', ...args);
+    }
+  }
+
+  protected join(): void {
+    const Impl = this.config.WebSocket ?? globalThis.WebSocket;
+    if (!Impl) {
+      throw new Error('No WebSocket implementation: pass one in the config');
+    }
+
+    const socket = new Impl(this.config.url);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.write(socket, { data: JSON.stringify({ t: 'join', peerId: this.myPeerId!.toString() }) });
+      for (const message of this.queue) this.write(socket, message);
+      this.queue = [];
+    };
+
+    socket.onmessage = (event) => {
+      if (typeof event.data === 'string') {
+        this.handleText(event.data);
+      } else if (event.data instanceof ArrayBuffer) {
+        const frame = decodeFrame(new Uint8Array(event.data));
+        if (frame) {
+          this.receiveFrame(frame.peerId, frame.payload.slice().buffer);
+        }
+      }
+    };
+
+    socket.onclose = () => {
+      this.log('Relay connection closed');
+      if (this.socket === socket) {
+        this.socket = null;
+        this.resetDrain();
+        this.receiveCloseAll();
+      }
+    };
+  }
+
+  protected leave(): void {
+    this.queue = [];
+    this.resetDrain();
+    if (this.socket) {
+      this.socket.onopen = null;
+      this.socket.onmessage = null;
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  private handleText(text: string): void {
+    let message: RelayMessage;
+    try {
+      message = JSON.parse(text) as RelayMessage;
+    } catch {
+      this.log('Invalid relay message');
+      return;
+    }
+
+    if ((message.t === 'hello' || message.t === 'signal') && message.from) {
+      this.receiveSignaling(message.msg as SignalingMessage, message.from);
+    } else if (message.t === 'close' && message.from) {
+      this.receiveClose(message.from);
+    }
+  }
+
+  private sendRaw(data: string | Uint8Array, frame?: Outgoing['frame']): void {
+    if (this.socket?.readyState === 1) {
+      this.write(this.socket, { data, frame });
+    } else if (this.socket) {
+      this.queue.push({ data, frame });
+    }
+  }
+
+  private write(socket: WebSocket, { data, frame }: Outgoing): void {
+    socket.send(data);
+    this.bytesWritten += sizeOf(data);
+    if (frame) {
+      this.inSocket.push({ ...frame, end: this.bytesWritten });
+      this.drainTimer ??= setTimeout(() => this.checkDrained(), 0);
+    }
+  }
+
+  /**
+   * Report the data frames that left the socket buffer as sent
+   */
+  private checkDrained(): void {
+    this.drainTimer = null;
+    const buffered = this.socket?.bufferedAmount ?? 0;
+    // Frame headers count in bufferedAmount too, so this errs on the late side
+    const drained = this.bytesWritten - buffered;
+    while (this.inSocket.length > 0 && (buffered === 0 || this.inSocket[0].end <= drained)) {
+      const { peerId, bytes } = this.inSocket.shift()!;
+      this.frameSent(peerId, bytes);
+    }
+    if (this.inSocket.length > 0) {
+      this.drainTimer = setTimeout(() => this.checkDrained(), DRAIN_POLL_INTERVAL);
+    }
+  }
+
+  private resetDrain(): void {
+    if (this.drainTimer) clearTimeout(this.drainTimer);
+    this.drainTimer = null;
+    this.inSocket = [];
+    this.bytesWritten = 0;
+  }
+
+  protected async broadcast(msg: HelloMessage): Promise<void> {
+    this.sendRaw(JSON.stringify({ t: 'hello', msg }));
+  }
+
+  protected async sendTo(recipientPubkey: string, msg: DirectedMessage): Promise<void> {
+    this.sendRaw(JSON.stringify({ t: 'signal', to: recipientPubkey, msg }));
+  }
+
+  sendFrame(toPeerId: string, data: ArrayBuffer): void {
+    this.sendRaw(encodeFrame(toPeerId, new Uint8Array(data)), { peerId: toPeerId, bytes: data.byteLength });
+  }
+
+  sendClose(toPeerId: string): void {
+    this.sendRaw(JSON.stringify({ t: 'close', to: toPeerId }));
+  }
+}
+
+/** What the relay needs from a client socket (ws WebSocket) */
+export interface RelaySocket {
+  send(data: string | Uint8Array): void;
+  on(event: 'message', listener: (data: unknown, isBinary: boolean) => void): unknown;
+  on(event: 'close', listener: () => void): unknown;
+}
+
+/** What the relay needs from a server (ws WebSocketServer) */
+export interface RelayServer {
+  on(event: 'connection', listener: (socket: RelaySocket) => void): unknown;
+}
+
+function toBytes(data: unknown): Uint8Array | null {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (Array.isArray(data) && data.every(part => part instanceof Uint8Array)) {
+    const total = data.reduce((sum: number, part: Uint8Array) => sum + part.length, 0);
+    const bytes = new Uint8Array(total);
+    let offset = 0;
+    for (const part of data as Uint8Array[]) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return bytes;
+  }
+  return null;
+}
+
+/**
+ * Relay WebSocketTransport peers through a WebSocket server
+ */
+export function attachWebSocketRelay(server: RelayServer): void {
+  // Joined sockets by peer id
+  const peers = new Map<string, RelaySocket>();
+
+  const sendJson = (socket: RelaySocket, message: RelayMessage) => {
+    socket.send(JSON.stringify(message));
+  };
+
+  server.on('connection', (socket) => {
+    let peerId: string | null = null;
+
+    socket.on('message', (data, isBinary) => {
+      const bytes = toBytes(data);
+      if (!bytes) return;
+
+      if (isBinary) {
+        const frame = decodeFrame(bytes);
+        const target = frame && peerId ? peers.get(frame.peerId) : undefined;
+        if (frame && target) {
+          target.send(encodeFrame(peerId!, frame.payload));
+        }
+        return;
+      }
+
+      let message: RelayMessage;
+      try {
+        message = JSON.parse(new TextDecoder().decode(bytes)) as RelayMessage;
+      } catch {
+        return;
+      }
+
+      if (message.t === 'join') {
+        peerId = message.peerId;
+        peers.set(peerId, socket);
+        return;
+      }
+      if (!peerId) return;
+
+      const from = pubkeyOf(peerId);
+      if (message.t === 'hello') {
+        for (const [id, other] of peers) {
+          if (id !== peerId) sendJson(other, { t: 'hello', msg: message.msg, from });
+        }
+      } else if (message.t === 'signal' && message.to) {
+        for (const [id, other] of peers) {
+          if (id !== peerId && pubkeyOf(id) === message.to) {
+            sendJson(other, { t: 'signal', msg: message.msg, from });
+          }
+        }
+      } else if (message.t === 'close' && message.to) {
+        const target = peers.get(message.to);
+        if (target) sendJson(target, { t: 'close', from: peerId });
+      }
+    });
+
+    socket.on('close', () => {
+      if (!peerId || peers.get(peerId) !== socket) return;
+      peers.delete(peerId);
+      for (const other of peers.values()) {
+        sendJson(other, { t: 'close', from: peerId });
+      }
+    });
+  });
+}
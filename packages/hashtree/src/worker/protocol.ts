@@ -97,6 +97,10 @@ export type WorkerRequest =
   | { type: 'getRelayStats'; id: string }
   | { type: 'getStorageStats'; id: string }
 
+  // Storage maintenance
+  | { type: 'setPins'; id: string; pins: TreePin[] }
+  | { type: 'gc'; id: string; dryRun?: boolean }
+
   // WebRTC pool configuration
   | { type: 'setWebRTCPools'; id: string; pools: { follows: { max: number; satisfied: number }; other: { max: number; satisfied: number } } }
   | { type: 'sendWebRTCHello'; id: string }
@@ -136,6 +140,7 @@ export interface WorkerConfig {
   pubkey: string;  // User's pubkey (required - user always logged in)
   nsec?: string;  // Hex-encoded secret key (only for nsec login, not extension)
   storeName?: string;  // IndexedDB database name, defaults to 'hashtree-worker'
+  storeMaxBytes?: number;  // Evict least recently used blocks beyond this (own trees are protected)
 }
 
 // ============================================================================
@@ -165,6 +170,7 @@ export type WorkerResponse =
   | { type: 'peerStats'; id: string; stats: PeerStats[] }
   | { type: 'relayStats'; id: string; stats: RelayStats[] }
   | { type: 'storageStats'; id: string; items: number; bytes: number }
+  | { type: 'gcResult'; id: string; result?: GcReport; error?: string }
 
   // SocialGraph responses
   | { type: 'socialGraphReady'; id: string; version: number; size: number }
@@ -189,6 +195,22 @@ export interface DirEntry {
   cid?: CID;
 }
 
+/**
+ * Tree root kept by garbage collection (name is "npub/treeName")
+ */
+export interface TreePin {
+  name: string;
+  cid: CID;
+}
+
+export interface GcReport {
+  dryRun: boolean;
+  marked: number;      // Blocks reachable from pinned roots
+  unreachable: number; // Blocks not reachable
+  swept: number;       // Blocks deleted (0 for dry runs)
+  bytes: number;       // Bytes reclaimed, or reclaimable for dry runs
+}
+
 export interface RelayStats {
   url: string;
   connected: boolean;
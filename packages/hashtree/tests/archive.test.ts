@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HashTree, MemoryStore, LinkType, importArchive, toHex, type CID } from '../src/index.js';
+
+describe('archive export/import', () => {
+  let store: MemoryStore;
+  let tree: HashTree;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    tree = new HashTree({ store, chunkSize: 16 });
+  });
+
+  const text = (s: string) => new TextEncoder().encode(s);
+
+  async function collect(chunks: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+    const parts: Uint8Array[] = [];
+    for await (const chunk of chunks) parts.push(chunk);
+    const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+
+  async function* rechunk(data: Uint8Array, size: number): AsyncGenerator<Uint8Array> {
+    for (let i = 0; i < data.length; i += size) {
+      yield data.subarray(i, i + size);
+    }
+  }
+
+  async function buildTree(isPublic: boolean): Promise<CID> {
+    const opts = { public: isPublic };
+    const { cid: a, size } = await tree.putFile(text('a file that spans several chunks'), opts);
+    const { cid: b } = await tree.putFile(text('b'), opts);
+    const { cid: sub } = await tree.putDirectory([
+      { name: 'b.txt', cid: b, size: 1, type: LinkType.Blob },
+    ], opts);
+    return (await tree.putDirectory([
+      { name: 'a.txt', cid: a, size, type: LinkType.File },
+      { name: 'sub', cid: sub, size: 1, type: LinkType.Dir },
+    ], opts)).cid;
+  }
+
+  for (const isPublic of [true, false]) {
+    it(`should round-trip a ${isPublic ? 'public' : 'encrypted'} tree`, async () => {
+      const root = await buildTree(isPublic);
+      const archive = await collect(tree.exportArchive(root));
+
+      const target = new MemoryStore();
+      const result = await importArchive(rechunk(archive, 7), target);
+
+      expect(result.roots).toHaveLength(1);
+      expect(toHex(result.roots[0].hash)).toBe(toHex(root.hash));
+      expect(result.roots[0].key).toEqual(root.key);
+      expect(result.blocks).toBe(store.size);
+      expect(result.bytes).toBe(store.totalBytes);
+
+      const imported = new HashTree({ store: target });
+      const entry = await imported.resolvePath(result.roots[0], 'a.txt');
+      expect(await imported.readFile(entry!.cid)).toEqual(text('a file that spans several chunks'));
+    });
+  }
+
+  it('should export several roots and write shared blocks once', async () => {
+    tree = new HashTree({ store });
+    const { cid: shared } = await tree.putFile(text('shared'), { public: true });
+    const { cid: a } = await tree.putDirectory([{ name: 's', cid: shared, size: 6, type: LinkType.Blob }], { public: true });
+    const { cid: b } = await tree.putDirectory([{ name: 't', cid: shared, size: 6, type: LinkType.Blob }], { public: true });
+
+    const target = new MemoryStore();
+    const result = await new HashTree({ store: target }).importArchive(tree.exportArchive([a, b]));
+
+    expect(result.roots.map(r => toHex(r.hash))).toEqual([toHex(a.hash), toHex(b.hash)]);
+    expect(result.blocks).toBe(3);
+  });
+
+  it('should omit root keys when requested', async () => {
+    const root = await buildTree(false);
+    const archive = await collect(tree.exportArchive(root, { keys: false }));
+
+    const result = await importArchive(archive, new MemoryStore());
+    expect(result.roots[0].key).toBeUndefined();
+  });
+
+  it('should accept a ReadableStream', async () => {
+    const root = await buildTree(true);
+    const archive = await collect(tree.exportArchive(root));
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(archive.subarray(0, 10));
+        controller.enqueue(archive.subarray(10));
+        controller.close();
+      },
+    });
+
+    const result = await importArchive(stream, new MemoryStore());
+    expect(result.blocks).toBe(store.size);
+  });
+
+  it('should reject corrupted blocks', async () => {
+    const { cid } = await tree.putFile(text('important data'), { public: true });
+    const archive = await collect(tree.exportArchive(cid));
+    archive[archive.length - 1] ^= 0xff;
+
+    const target = new MemoryStore();
+    await expect(importArchive(archive, target)).rejects.toThrow('Archive block hash mismatch');
+    expect(await target.has(cid.hash)).toBe(false);
+  });
+
+  it('should reject truncated archives and bad magic', async () => {
+    const { cid } = await tree.putFile(text('important data'), { public: true });
+    const archive = await collect(tree.exportArchive(cid));
+
+    await expect(importArchive(archive.subarray(0, archive.length - 3), new MemoryStore()))
+      .rejects.toThrow('Unexpected end of archive');
+    await expect(importArchive(text('nope'), new MemoryStore())).rejects.toThrow('bad magic');
+  });
+});
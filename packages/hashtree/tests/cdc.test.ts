@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HashTree, MemoryStore, fastCdcChunker, chunkRanges, toHex } from '../src/index.js';
+import { TreeBuilder, StreamBuilder } from '../src/builder.js';
+import { decodeTreeNode } from '../src/codec.js';
+
+/** Deterministic pseudo-random bytes */
+function randomBytes(length: number, seed: number): Uint8Array {
+  const data = new Uint8Array(length);
+  let x = seed || 1;
+  for (let i = 0; i < length; i++) {
+    x ^= x << 13;
+    x ^= x >>> 17;
+    x ^= x << 5;
+    data[i] = x & 0xff;
+  }
+  return data;
+}
+
+function insertAt(data: Uint8Array, offset: number, insert: Uint8Array): Uint8Array {
+  const result = new Uint8Array(data.length + insert.length);
+  result.set(data.subarray(0, offset));
+  result.set(insert, offset);
+  result.set(data.subarray(offset), offset + insert.length);
+  return result;
+}
+
+const config = { minSize: 1024, avgSize: 4096, maxSize: 16384 };
+
+describe('fastCdcChunker', () => {
+  it('should respect min and max sizes', () => {
+    const data = randomBytes(200_000, 1);
+    const ranges = chunkRanges(data, fastCdcChunker(config));
+
+    expect(ranges[0][0]).toBe(0);
+    expect(ranges[ranges.length - 1][1]).toBe(data.length);
+    for (let i = 0; i < ranges.length; i++) {
+      const size = ranges[i][1] - ranges[i][0];
+      expect(size).toBeLessThanOrEqual(config.maxSize);
+      if (i < ranges.length - 1) {
+        expect(size).toBeGreaterThan(config.minSize);
+      }
+    }
+  });
+
+  it('should produce chunks around the average size', () => {
+    const data = randomBytes(400_000, 2);
+    const ranges = chunkRanges(data, fastCdcChunker(config));
+    const avg = data.length / ranges.length;
+
+    expect(avg).toBeGreaterThan(config.avgSize / 2);
+    expect(avg).toBeLessThan(config.avgSize * 2);
+  });
+
+  it('should cut at max size when content has no boundary', () => {
+    const data = new Uint8Array(50_000);
+    const ranges = chunkRanges(data, fastCdcChunker(config));
+
+    expect(ranges.slice(0, -1).every(([s, e]) => e - s === config.maxSize)).toBe(true);
+  });
+
+  it('should keep boundaries after an insertion', () => {
+    const chunker = fastCdcChunker(config);
+    const original = randomBytes(200_000, 3);
+    const edited = insertAt(original, 100_000, new TextEncoder().encode('inserted text'));
+
+    const chunksOf = (data: Uint8Array) =>
+      new Set(chunkRanges(data, chunker).map(([s, e]) => toHex(data.subarray(s, e).subarray(0, 64)) + (e - s)));
+    const before = chunksOf(original);
+    const after = chunksOf(edited);
+
+    let changed = 0;
+    for (const chunk of after) {
+      if (!before.has(chunk)) changed++;
+    }
+    expect(changed).toBeLessThanOrEqual(2);
+  });
+
+  it('should reject invalid sizes', () => {
+    expect(() => fastCdcChunker({ minSize: 4096, avgSize: 1024, maxSize: 8192 })).toThrow();
+    expect(() => fastCdcChunker({ minSize: 0 })).toThrow();
+  });
+});
+
+describe('content-defined chunking in builders', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  async function leafHashes(hash: Uint8Array): Promise<string[]> {
+    const node = decodeTreeNode((await store.get(hash))!);
+    return node.links.map(l => toHex(l.hash));
+  }
+
+  it('should re-upload only a couple of chunks after editing a large file', async () => {
+    const tree = new HashTree({ store, chunker: fastCdcChunker(config) });
+    const original = randomBytes(200_000, 4);
+    const edited = insertAt(original, 120_000, new Uint8Array([1, 2, 3, 4, 5]));
+
+    const { cid: a } = await tree.putFile(original, { public: true });
+    const { cid: b } = await tree.putFile(edited, { public: true });
+
+    const before = new Set(await leafHashes(a.hash));
+    const after = await leafHashes(b.hash);
+    const newChunks = after.filter(h => !before.has(h));
+
+    expect(after.length).toBeGreaterThan(10);
+    expect(newChunks.length).toBeLessThanOrEqual(2);
+    expect(await tree.readFile(b)).toEqual(edited);
+  });
+
+  it('should produce the same CID for putFile and createStream', async () => {
+    const chunker = fastCdcChunker(config);
+    const tree = new HashTree({ store, chunker });
+    const data = randomBytes(100_000, 5);
+
+    const { cid: fileCid } = await tree.putFile(data);
+
+    const stream = tree.createStream();
+    for (let offset = 0; offset < data.length; offset += 7000) {
+      await stream.append(data.subarray(offset, offset + 7000));
+    }
+    const result = await stream.finalize();
+
+    expect(toHex(result.hash)).toBe(toHex(fileCid.hash));
+    expect(toHex(result.key!)).toBe(toHex(fileCid.key!));
+    expect(await tree.readFile({ hash: result.hash, key: result.key })).toEqual(data);
+  });
+
+  it('should produce the same hash with TreeBuilder and StreamBuilder', async () => {
+    const chunker = fastCdcChunker(config);
+    const data = randomBytes(80_000, 6);
+
+    const { hash: treeHash } = await new TreeBuilder({ store, chunker }).putFile(data);
+
+    const builder = new StreamBuilder({ store, chunker });
+    for (let offset = 0; offset < data.length; offset += 3000) {
+      await builder.append(data.subarray(offset, offset + 3000));
+    }
+    const { hash: streamHash, size } = await builder.finalize();
+
+    expect(size).toBe(data.length);
+    expect(toHex(streamHash)).toBe(toHex(treeHash));
+  });
+
+  it('should store small files as a single blob', async () => {
+    const tree = new HashTree({ store, chunker: fastCdcChunker(config) });
+    const data = randomBytes(500, 7);
+
+    const { cid } = await tree.putFile(data, { public: true });
+    expect(await store.get(cid.hash)).toEqual(data);
+  });
+});
@@ -0,0 +1,118 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DexieStore } from '../src/store/dexie.js';
+import { sha256, toHex } from '../src/index.js';
+
+const DB_NAME = 'test-hashtree-dexie';
+
+async function block(fill: number, size = 300) {
+  const data = new Uint8Array(size).fill(fill);
+  return { hash: await sha256(data), data };
+}
+
+describe('DexieStore', () => {
+  let store: DexieStore;
+  let now: number;
+
+  beforeEach(async () => {
+    await DexieStore.deleteDatabase(DB_NAME);
+    now = 1_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    store?.close();
+    vi.restoreAllMocks();
+  });
+
+  /** Put blocks a minute apart, so access times order them */
+  async function putAll(blocks: Array<{ hash: Uint8Array; data: Uint8Array }>) {
+    for (const b of blocks) {
+      now += 60_001;
+      await store.put(b.hash, b.data);
+    }
+  }
+
+  it('should evict least recently used blocks beyond maxBytes', async () => {
+    store = new DexieStore(DB_NAME, { maxBytes: 1000 });
+    const blocks = await Promise.all([1, 2, 3, 4].map(n => block(n)));
+
+    await putAll(blocks);
+
+    expect(await store.has(blocks[0].hash)).toBe(false);
+    for (const b of blocks.slice(1)) {
+      expect(await store.has(b.hash)).toBe(true);
+    }
+    expect(await store.getUsage()).toEqual({ bytes: 900, count: 3, maxBytes: 1000 });
+  });
+
+  it('should keep recently read blocks', async () => {
+    store = new DexieStore(DB_NAME, { maxBytes: 1000 });
+    const blocks = await Promise.all([1, 2, 3, 4].map(n => block(n)));
+
+    await putAll(blocks.slice(0, 3));
+    now += 60_001;
+    await store.get(blocks[0].hash);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await putAll(blocks.slice(3));
+
+    expect(await store.has(blocks[0].hash)).toBe(true);
+    expect(await store.has(blocks[1].hash)).toBe(false);
+  });
+
+  it('should never evict pinned blocks', async () => {
+    store = new DexieStore(DB_NAME, { maxBytes: 1000 });
+    const blocks = await Promise.all([1, 2, 3, 4].map(n => block(n)));
+
+    store.setPinned([blocks[0].hash]);
+    await putAll(blocks);
+
+    expect(await store.has(blocks[0].hash)).toBe(true);
+    expect(await store.has(blocks[1].hash)).toBe(false);
+  });
+
+  it('should evict when storing with putMany', async () => {
+    store = new DexieStore(DB_NAME, { maxBytes: 1000 });
+    const blocks = await Promise.all([1, 2, 3, 4].map(n => block(n)));
+
+    await putAll(blocks.slice(0, 1));
+    now += 60_001;
+    await store.putMany(blocks.slice(1));
+
+    expect(await store.has(blocks[0].hash)).toBe(false);
+    expect((await store.getUsage()).bytes).toBe(900);
+  });
+
+  it('should keep usage current without maxBytes', async () => {
+    store = new DexieStore(DB_NAME);
+    const [a, b] = await Promise.all([block(1, 100), block(2, 50)]);
+
+    expect((await store.getUsage()).bytes).toBe(0);
+    await store.put(a.hash, a.data);
+    await store.put(a.hash, a.data);
+    await store.putMany([a, b]);
+    expect(await store.getUsage()).toEqual({ bytes: 150, count: 2, maxBytes: undefined });
+
+    await store.delete(a.hash);
+    expect((await store.getUsage()).bytes).toBe(50);
+  });
+
+  it('should report only newly stored blobs from putMany', async () => {
+    store = new DexieStore(DB_NAME);
+    const [a, b] = await Promise.all([block(1, 100), block(2, 50)]);
+    await store.put(a.hash, a.data);
+
+    expect(await store.putMany([a, b, b])).toEqual([false, true, false]);
+  });
+
+  it('should report sizes without reading blobs', async () => {
+    store = new DexieStore(DB_NAME);
+    const [a, b] = await Promise.all([block(1, 100), block(2, 50)]);
+    await store.putMany([a, b]);
+
+    const sizes = await store.sizes();
+    expect(sizes.get(toHex(a.hash))).toBe(100);
+    expect(sizes.get(toHex(b.hash))).toBe(50);
+    expect(await store.totalBytes()).toBe(150);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HashTree, MemoryStore, LinkType, type CID, type TreeChange } from '../src/index.js';
+
+describe('HashTree.diff', () => {
+  let store: MemoryStore;
+  let tree: HashTree;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    tree = new HashTree({ store });
+  });
+
+  const text = (s: string) => new TextEncoder().encode(s);
+
+  async function collect(oldCid: CID, newCid: CID, renames?: boolean): Promise<TreeChange[]> {
+    const changes: TreeChange[] = [];
+    for await (const change of tree.diff(oldCid, newCid, { renames })) {
+      changes.push(change);
+    }
+    return changes;
+  }
+
+  function summary(changes: TreeChange[]): string[] {
+    return changes.map(c => c.oldPath ? `${c.type} ${c.oldPath} -> ${c.path}` : `${c.type} ${c.path}`);
+  }
+
+  for (const isPublic of [true, false]) {
+    describe(isPublic ? 'public' : 'encrypted', () => {
+      const opts = { public: isPublic };
+
+      async function buildTree(): Promise<CID> {
+        const { cid: a } = await tree.putFile(text('file a'), opts);
+        const { cid: b } = await tree.putFile(text('file b'), opts);
+        const { cid: sub } = await tree.putDirectory([
+          { name: 'b.txt', cid: b, size: 6, type: LinkType.Blob },
+        ], opts);
+        const { cid: root } = await tree.putDirectory([
+          { name: 'a.txt', cid: a, size: 6, type: LinkType.Blob },
+          { name: 'sub', cid: sub, size: 6, type: LinkType.Dir },
+        ], opts);
+        return root;
+      }
+
+      it('should yield nothing for identical roots', async () => {
+        const root = await buildTree();
+        expect(await collect(root, root)).toEqual([]);
+      });
+
+      it('should detect added, removed and modified entries in nested dirs', async () => {
+        const root = await buildTree();
+        const { cid: c } = await tree.putFile(text('file c'), opts);
+        const { cid: b2 } = await tree.putFile(text('file b v2'), opts);
+
+        let next = await tree.setEntry(root, ['sub'], 'c.txt', c, 6);
+        next = await tree.setEntry(next, ['sub'], 'b.txt', b2, 9);
+        next = await tree.removeEntry(next, [], 'a.txt');
+
+        const changes = await collect(root, next);
+        expect(summary(changes).sort()).toEqual([
+          'added sub/c.txt',
+          'modified sub/b.txt',
+          'removed a.txt',
+        ]);
+
+        const modified = changes.find(c => c.type === 'modified')!;
+        expect(await tree.readFile(modified.newCid!)).toEqual(text('file b v2'));
+        expect(await tree.readFile(modified.oldCid!)).toEqual(text('file b'));
+      });
+
+      it('should detect renames and moves', async () => {
+        const root = await buildTree();
+        let next = await tree.renameEntry(root, [], 'a.txt', 'renamed.txt');
+        next = await tree.moveEntry(next, ['sub'], 'b.txt', []);
+
+        const changes = await collect(root, next);
+        expect(summary(changes).sort()).toEqual([
+          'renamed a.txt -> renamed.txt',
+          'renamed sub/b.txt -> b.txt',
+        ]);
+      });
+
+      it('should report renames as removed + added when disabled', async () => {
+        const root = await buildTree();
+        const next = await tree.renameEntry(root, [], 'a.txt', 'renamed.txt');
+
+        const changes = await collect(root, next, false);
+        expect(summary(changes).sort()).toEqual([
+          'added renamed.txt',
+          'removed a.txt',
+        ]);
+      });
+
+      it('should report changes to metadata or link type alone as modified', async () => {
+        const { cid: a } = await tree.putFile(text('file a'), opts);
+        const dirWith = async (type: LinkType, meta?: Record<string, unknown>) =>
+          (await tree.putDirectory([{ name: 'a.txt', cid: a, size: 6, type, meta }], opts)).cid;
+        const root = await dirWith(LinkType.Blob);
+
+        const changes = await collect(root, await dirWith(LinkType.Blob, { mode: 0o100755 }));
+        expect(summary(changes)).toEqual(['modified a.txt']);
+        expect(changes[0].meta).toEqual({ mode: 0o100755 });
+
+        expect(summary(await collect(root, await dirWith(LinkType.File)))).toEqual(['modified a.txt']);
+      });
+
+      it('should report added directories as a single change', async () => {
+        const root = await buildTree();
+        const { cid: f } = await tree.putFile(text('new'), opts);
+        const { cid: dir } = await tree.putDirectory([
+          { name: 'x.txt', cid: f, size: 3, type: LinkType.Blob },
+          { name: 'y.txt', cid: f, size: 3, type: LinkType.Blob },
+        ], opts);
+        const next = await tree.setEntry(root, [], 'newdir', dir, 6, LinkType.Dir);
+
+        const changes = await collect(root, next);
+        expect(summary(changes)).toEqual(['added newdir']);
+        expect(changes[0].entryType).toBe(LinkType.Dir);
+      });
+    });
+  }
+
+  it('should not read unchanged subtrees', async () => {
+    const { cid: f } = await tree.putFile(text('content'), { public: true });
+    const { cid: big } = await tree.putDirectory([
+      { name: 'f.txt', cid: f, size: 7, type: LinkType.Blob },
+    ], { public: true });
+    const { cid: root } = await tree.putDirectory([
+      { name: 'big', cid: big, size: 7, type: LinkType.Dir },
+    ], { public: true });
+    const next = await tree.setEntry(root, [], 'new.txt', f, 7);
+
+    // Deleting the unchanged subtree must not matter
+    await store.delete(big.hash);
+
+    const changes = await collect(root, next);
+    expect(summary(changes)).toEqual(['added new.txt']);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MemoryStore, sha256 } from '../src/index.js';
+import { Peer, type ForwardRequestHandler } from '../src/webrtc/peer.js';
+import { encodeRequest, encodeCancel, parseMessage, hashToKey } from '../src/webrtc/protocol.js';
+import {
+  PeerId,
+  FRAGMENT_SIZE,
+  BUFFER_HIGH_THRESHOLD,
+  MSG_TYPE_RESPONSE,
+  MSG_TYPE_CANCEL,
+  type DataMessage,
+} from '../src/webrtc/types.js';
+import type { DataConnection, ConnectionState } from '../src/webrtc/transport.js';
+
+/**
+ * Open connection whose buffer only drains when the test says so
+ */
+class FakeConnection implements DataConnection {
+  state: ConnectionState = 'connected';
+  isOpen = true;
+  onopen: (() => void) | null = null;
+  onmessage: ((data: ArrayBuffer) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onbufferedamountlow: (() => void) | null = null;
+  bufferedAmount = 0;
+  bufferedAmountLowThreshold = 0;
+  sent: DataMessage[] = [];
+
+  async connect(): Promise<void> {}
+  async handleSignaling(): Promise<void> {}
+
+  send(data: ArrayBuffer): void {
+    this.bufferedAmount += data.byteLength;
+    this.sent.push(parseMessage(data)!);
+  }
+
+  drain(): void {
+    this.bufferedAmount = 0;
+    this.onbufferedamountlow?.();
+  }
+
+  receive(data: ArrayBuffer): void {
+    this.onmessage?.(data);
+  }
+
+  close(): void {
+    this.isOpen = false;
+  }
+
+  /** Response messages sent for a hash */
+  responsesFor(hash: Uint8Array): number {
+    return this.sent.filter(msg => msg.type === MSG_TYPE_RESPONSE && hashToKey(msg.body.h) === hashToKey(hash)).length;
+  }
+}
+
+let peers: Peer[] = [];
+
+function createPeer(localStore: MemoryStore | null = null, onForwardRequest?: ForwardRequestHandler) {
+  const connection = new FakeConnection();
+  const peer = new Peer({
+    peerId: new PeerId('a'.repeat(64)),
+    connection,
+    direction: 'outbound',
+    localStore,
+    onClose: () => {},
+    onForwardRequest,
+  });
+  peers.push(peer);
+  return { peer, connection };
+}
+
+async function putBlock(store: MemoryStore, data: Uint8Array): Promise<Uint8Array> {
+  const hash = await sha256(data);
+  await store.put(hash, data);
+  return hash;
+}
+
+async function waitFor(condition: () => boolean, timeout = 1000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+}
+
+afterEach(() => {
+  for (const peer of peers) peer.close();
+  peers = [];
+});
+
+describe('Peer flow control', () => {
+  const FRAGMENTS = 20;
+  const FRAGMENTS_PER_BUFFER = Math.ceil(BUFFER_HIGH_THRESHOLD / FRAGMENT_SIZE);
+
+  it('should pause fragments while the buffer is full', async () => {
+    const store = new MemoryStore();
+    const { connection } = createPeer(store);
+    const hash = await putBlock(store, new Uint8Array(FRAGMENT_SIZE * FRAGMENTS).fill(1));
+
+    connection.receive(encodeRequest({ h: hash }));
+    await waitFor(() => connection.sent.length > 0);
+    expect(connection.responsesFor(hash)).toBe(FRAGMENTS_PER_BUFFER);
+
+    while (connection.responsesFor(hash) < FRAGMENTS) {
+      const before = connection.sent.length;
+      connection.drain();
+      expect(connection.sent.length).toBeGreaterThan(before);
+    }
+    expect(connection.responsesFor(hash)).toBe(FRAGMENTS);
+  });
+
+  it('should send small responses before queued fragments', async () => {
+    const store = new MemoryStore();
+    const { connection } = createPeer(store);
+    const large = await putBlock(store, new Uint8Array(FRAGMENT_SIZE * FRAGMENTS).fill(1));
+    const small = await putBlock(store, new TextEncoder().encode('tree node'));
+
+    connection.receive(encodeRequest({ h: large }));
+    await waitFor(() => connection.sent.length > 0);
+    connection.receive(encodeRequest({ h: small }));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(connection.responsesFor(small)).toBe(0);
+
+    const before = connection.sent.length;
+    connection.drain();
+    const next = connection.sent[before];
+    expect(next.type === MSG_TYPE_RESPONSE && hashToKey(next.body.h)).toBe(hashToKey(small));
+  });
+
+  it('should stop a response when the requester cancels', async () => {
+    const store = new MemoryStore();
+    const { peer, connection } = createPeer(store);
+    const hash = await putBlock(store, new Uint8Array(FRAGMENT_SIZE * FRAGMENTS).fill(1));
+
+    connection.receive(encodeRequest({ h: hash }));
+    await waitFor(() => connection.sent.length > 0);
+    connection.receive(encodeCancel({ h: hash }));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    connection.drain();
+
+    expect(connection.responsesFor(hash)).toBe(FRAGMENTS_PER_BUFFER);
+    expect(peer.getStats().responsesCancelled).toBe(1);
+    expect(peer.getStats().bytesSent).toBe(FRAGMENT_SIZE * FRAGMENTS_PER_BUFFER);
+  });
+
+  it('should abort the forwarded fetch on cancel and answer a request sent again', async () => {
+    const data = new TextEncoder().encode('from another peer');
+    const hash = await sha256(data);
+    const forwards: Array<{ signal: AbortSignal; resolve: (data: Uint8Array | null) => void }> = [];
+    const { connection } = createPeer(null, (_hash, _exclude, _htl, signal) =>
+      new Promise(resolve => forwards.push({ signal, resolve })));
+
+    connection.receive(encodeRequest({ h: hash }));
+    await waitFor(() => forwards.length === 1);
+    connection.receive(encodeCancel({ h: hash }));
+    expect(forwards[0].signal.aborted).toBe(true);
+
+    connection.receive(encodeRequest({ h: hash }));
+    await waitFor(() => forwards.length === 2);
+    forwards[0].resolve(null);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    forwards[1].resolve(data);
+
+    await waitFor(() => connection.responsesFor(hash) === 1);
+    expect(forwards[1].signal.aborted).toBe(false);
+  });
+
+  it('should tell the peer when a request is cancelled', async () => {
+    const { peer, connection } = createPeer();
+    const hash = await sha256(new TextEncoder().encode('elsewhere'));
+
+    const result = peer.request(hash);
+    peer.cancelRequest(hash);
+
+    expect(await result).toBeNull();
+    const last = connection.sent[connection.sent.length - 1];
+    expect(last.type).toBe(MSG_TYPE_CANCEL);
+    expect(last.body).toEqual({ h: hash });
+  });
+});
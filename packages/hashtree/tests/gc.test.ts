@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  HashTree,
+  MemoryStore,
+  TieredStore,
+  PinSet,
+  LinkType,
+  toHex,
+  isBoundedStore,
+  type BoundedStore,
+} from '../src/index.js';
+
+describe('gc', () => {
+  let store: MemoryStore;
+  let tree: HashTree;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    tree = new HashTree({ store, chunkSize: 16 });
+  });
+
+  const text = (s: string) => new TextEncoder().encode(s);
+
+  it('should delete everything when nothing is pinned', async () => {
+    await tree.putFile(text('some content that gets chunked'), { public: true });
+    expect(store.size).toBeGreaterThan(0);
+
+    const result = await tree.gc();
+    expect(result.swept).toBeGreaterThan(0);
+    expect(store.size).toBe(0);
+  });
+
+  it('should keep blocks reachable from pinned roots', async () => {
+    const { cid: fileCid, size } = await tree.putFile(text('pinned file content, long enough'), { public: true });
+    const { cid: dirCid } = await tree.putDirectory([
+      { name: 'a.txt', cid: fileCid, size, type: LinkType.File },
+    ], { public: true });
+    await tree.putFile(text('garbage'), { public: true });
+
+    tree.pin('npub1test/docs', dirCid);
+    const result = await tree.gc();
+
+    expect(result.swept).toBe(1);
+    expect(await tree.readFile(fileCid)).toEqual(text('pinned file content, long enough'));
+    expect(await tree.listDirectory(dirCid)).toHaveLength(1);
+  });
+
+  it('should reclaim blocks of old roots after edits', async () => {
+    const { cid: a } = await tree.putFile(text('first version'), { public: true });
+    const { cid: b } = await tree.putFile(text('second version'), { public: true });
+    const { cid: root } = await tree.putDirectory([], { public: true });
+
+    const v1 = await tree.setEntry(root, [], 'file.txt', a, 13);
+    const v2 = await tree.setEntry(v1, [], 'file.txt', b, 14);
+
+    tree.pin('npub1test/docs', v2);
+    await tree.gc();
+
+    expect(await store.has(v1.hash)).toBe(false);
+    expect(await store.has(a.hash)).toBe(false);
+    expect(await store.has(v2.hash)).toBe(true);
+    expect(await store.has(b.hash)).toBe(true);
+  });
+
+  it('should follow CHK keys into encrypted trees', async () => {
+    const { cid: fileCid, size } = await tree.putFile(text('secret content spanning several chunks'));
+    const { cid: dirCid } = await tree.putDirectory([
+      { name: 'secret.txt', cid: fileCid, size, type: LinkType.File },
+    ]);
+    await tree.putFile(text('unpinned secret'));
+
+    tree.pin('npub1test/private', dirCid);
+    const result = await tree.gc();
+
+    expect(result.swept).toBe(1);
+    expect(await tree.readFile(fileCid)).toEqual(text('secret content spanning several chunks'));
+  });
+
+  it('should keep entries of chunked directories', async () => {
+    const small = new HashTree({ store, chunkSize: 64 });
+    const entries = [];
+    for (let i = 0; i < 10; i++) {
+      const { cid, size } = await small.putFile(text(`file ${i}`));
+      entries.push({ name: `file-${i}.txt`, cid, size, type: LinkType.Blob });
+    }
+    const { cid: dirCid } = await small.putDirectory(entries);
+
+    small.pin('big', dirCid);
+    const result = await small.gc();
+
+    expect(result.swept).toBe(0);
+    const listed = await small.listDirectory(dirCid);
+    expect(listed).toHaveLength(10);
+    expect(await small.readFile(listed[3].cid)).toEqual(text('file 3'));
+  });
+
+  it('should keep chunked directories nested below the root', async () => {
+    const small = new HashTree({ store, chunkSize: 64 });
+    const entries = [];
+    for (let i = 0; i < 10; i++) {
+      const { cid, size } = await small.putFile(text(`file ${i}`));
+      entries.push({ name: `file-${i}.txt`, cid, size, type: LinkType.Blob });
+    }
+    const { cid: subCid, size } = await small.putDirectory(entries);
+    const { cid: rootCid } = await small.putDirectory([{ name: 'sub', cid: subCid, size, type: LinkType.Dir }]);
+
+    small.pin('nested', rootCid);
+    const result = await small.gc();
+
+    expect(result.swept).toBe(0);
+    const listed = await small.listDirectory(subCid);
+    expect(await small.readFile(listed[7].cid)).toEqual(text('file 7'));
+  });
+
+  it('should not follow links inside files that look like directories', async () => {
+    const small = new HashTree({ store, chunkSize: 32 });
+    const { cid: garbage, size: garbageSize } = await small.putFile(text('unreferenced'), { public: true });
+    const { cid: decoy } = await new HashTree({ store }).putDirectory([
+      { name: 'g.txt', cid: garbage, size: garbageSize, type: LinkType.Blob },
+    ], { public: true });
+    const decoyBytes = (await store.get(decoy.hash))!;
+    const { cid: fileCid, size } = await small.putFile(decoyBytes, { public: true });
+    const { cid: dirCid } = await tree.putDirectory([
+      { name: 'looks-like-a-dir.bin', cid: fileCid, size, type: LinkType.File },
+    ], { public: true });
+
+    tree.pin('tree', dirCid);
+    await tree.gc();
+
+    expect(await store.has(garbage.hash)).toBe(false);
+    expect(await tree.readFile(fileCid)).toEqual(decoyBytes);
+  });
+
+  it('should size unreachable blocks without reading them', async () => {
+    await tree.putFile(text('garbage that spans a few chunks'), { public: true });
+    let reads = 0;
+    const get = store.get.bind(store);
+    store.get = async (hash) => { reads++; return get(hash); };
+
+    const result = await tree.gc({ dryRun: true });
+
+    expect(result.bytes).toBe(store.totalBytes);
+    expect(reads).toBe(0);
+  });
+
+  it('should report reclaimable bytes without deleting on dry run', async () => {
+    const { cid: kept } = await tree.putFile(text('kept'), { public: true });
+    const { cid: garbage } = await tree.putFile(text('garbage!'), { public: true });
+    tree.pin('kept', kept);
+
+    const result = await tree.gc({ dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.swept).toBe(0);
+    expect(result.bytes).toBe(8);
+    expect(result.unreachable.map(toHex)).toEqual([toHex(garbage.hash)]);
+    expect(await store.has(garbage.hash)).toBe(true);
+  });
+
+  it('should replace the previous root when pinning the same name', async () => {
+    const { cid: v1 } = await tree.putFile(text('v1'), { public: true });
+    const { cid: v2 } = await tree.putFile(text('v2'), { public: true });
+
+    tree.pin('tree', v1);
+    tree.pin('tree', v2);
+    await tree.gc();
+
+    expect(await store.has(v1.hash)).toBe(false);
+    expect(await store.has(v2.hash)).toBe(true);
+  });
+
+  it('should keep extra roots and hashes passed as options', async () => {
+    const { cid: root } = await tree.putFile(text('temporary root'), { public: true });
+    const { cid: record } = await tree.putFile(text('cached record'), { public: true });
+
+    const result = await tree.gc({ roots: [root], keep: [record.hash] });
+
+    expect(result.swept).toBe(0);
+    expect(await store.has(root.hash)).toBe(true);
+    expect(await store.has(record.hash)).toBe(true);
+  });
+
+  it('should share a pin set between trees', async () => {
+    const pins = new PinSet();
+    const a = new HashTree({ store, pins });
+    const b = new HashTree({ store, pins });
+    const { cid } = await a.putFile(text('shared'), { public: true });
+
+    a.pin('shared', cid);
+    await b.gc();
+
+    expect(await store.has(cid.hash)).toBe(true);
+    expect(b.unpin('shared')).toBe(true);
+    expect(pins.size).toBe(0);
+  });
+
+  it('should reject stores that cannot enumerate keys', async () => {
+    const opaque = {
+      put: store.put.bind(store),
+      get: store.get.bind(store),
+      has: store.has.bind(store),
+      delete: store.delete.bind(store),
+    };
+    const t = new HashTree({ store: opaque });
+    await expect(t.gc()).rejects.toThrow('Store does not support key enumeration');
+  });
+
+  it('should protect blocks of pinned roots in bounded stores', async () => {
+    let pinned: string[] = [];
+    const bounded = Object.assign(store, {
+      setPinned: (hashes: Iterable<Uint8Array>) => { pinned = Array.from(hashes, toHex); },
+      getUsage: async () => ({ bytes: store.totalBytes, count: store.size }),
+    });
+    const t = new HashTree({ store: bounded, chunkSize: 16 });
+    const { cid } = await t.putFile(text('pinned content spanning chunks'), { public: true });
+    await t.putFile(text('not pinned'), { public: true });
+    const { cid: record } = await t.putFile(text('record'), { public: true });
+
+    t.pin('tree', cid);
+    const count = await t.protectPinned([record.hash]);
+
+    expect(count).toBe(pinned.length);
+    expect(pinned).toContain(toHex(cid.hash));
+    expect(pinned).toContain(toHex(record.hash));
+    expect(store.size - pinned.length).toBe(1);
+  });
+
+  it('should protect pinned blocks in bounded stores behind wrappers', async () => {
+    const pinned: string[][] = [];
+    const bounded = (inner: MemoryStore) => Object.assign(inner, {
+      setPinned: (hashes: Iterable<Uint8Array>) => { pinned.push(Array.from(hashes, toHex)); },
+      getUsage: async () => ({ bytes: inner.totalBytes, count: inner.size, maxBytes: 1000 }),
+    });
+    const cache = bounded(new MemoryStore());
+    const disk = bounded(store);
+    const t = new HashTree({ store: new TieredStore([cache, disk]), verify: true, chunkSize: 16 });
+    const { cid } = await t.putFile(text('pinned content spanning chunks'), { public: true });
+
+    t.pin('tree', cid);
+    const count = await t.protectPinned();
+
+    expect(count).toBeGreaterThan(1);
+    expect(pinned.map(hashes => hashes.length)).toEqual([count, count]);
+    expect(isBoundedStore(t.getStore())).toBe(true);
+    expect(await (t.getStore() as BoundedStore).getUsage()).toEqual({
+      bytes: cache.totalBytes + disk.totalBytes,
+      count: cache.size + disk.size,
+      maxBytes: 2000,
+    });
+  });
+
+  it('should not protect anything behind wrappers of unbounded stores', async () => {
+    const t = new HashTree({ store: new TieredStore([new MemoryStore(), store]), verify: true });
+    const { cid } = await t.putFile(text('content'), { public: true });
+    t.pin('tree', cid);
+    expect(await t.protectPinned()).toBe(0);
+  });
+
+  it('should not protect anything in unbounded stores', async () => {
+    const { cid } = await tree.putFile(text('content'), { public: true });
+    tree.pin('tree', cid);
+    expect(await tree.protectPinned()).toBe(0);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  HashTree,
+  MemoryStore,
+  LinkType,
+  isShardNode,
+  toHex,
+  verifyProof,
+  type CID,
+} from '../src/index.js';
+
+const THRESHOLD = 8;
+
+function names(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `file-${String(i).padStart(3, '0')}.txt`);
+}
+
+async function makeTree(encrypted: boolean) {
+  const store = new MemoryStore();
+  const tree = new HashTree({ store, shardThreshold: THRESHOLD });
+  const opts = { public: !encrypted };
+  const file = await tree.putFile(new TextEncoder().encode('hello'), opts);
+  const entries = names(50).map(name => ({ name, cid: file.cid, size: file.size, type: LinkType.File }));
+  return { store, tree, opts, file, entries };
+}
+
+async function collect(tree: HashTree, id: CID): Promise<string[]> {
+  const result: string[] = [];
+  for await (const entry of tree.iterateDirectory(id)) result.push(entry.name);
+  return result;
+}
+
+describe('sharded directories', () => {
+  for (const encrypted of [false, true]) {
+    const label = encrypted ? 'encrypted' : 'public';
+
+    it(`should shard directories over the threshold (${label})`, async () => {
+      const { tree, opts, entries } = await makeTree(encrypted);
+      const { cid: dir, size } = await tree.putDirectory(entries, opts);
+
+      const node = await tree.getTreeNode(dir);
+      expect(isShardNode(node!)).toBe(true);
+      expect(await tree.isDirectory(dir)).toBe(true);
+      expect(size).toBe(50 * 5);
+
+      const listed = await tree.listDirectory(dir);
+      expect(listed.map(e => e.name)).toEqual(names(50));
+      expect((await collect(tree, dir)).sort()).toEqual(names(50));
+
+      const resolved = await tree.resolvePath(dir, 'file-042.txt');
+      expect(resolved?.type).toBe(LinkType.File);
+      expect(await tree.readFile(resolved!.cid)).toEqual(new TextEncoder().encode('hello'));
+      expect(await tree.resolvePath(dir, 'missing.txt')).toBeNull();
+    });
+
+    it(`should give the same root however entries were added (${label})`, async () => {
+      const { tree, opts, file, entries } = await makeTree(encrypted);
+      const { cid: direct } = await tree.putDirectory(entries, opts);
+
+      let { cid: root } = await tree.putDirectory([], opts);
+      for (const entry of [...entries].reverse()) {
+        root = await tree.setEntry(root, [], entry.name, file.cid, file.size, LinkType.File);
+      }
+      expect(toHex(root.hash)).toBe(toHex(direct.hash));
+    });
+
+    it(`should collapse back to a flat node below the threshold (${label})`, async () => {
+      const { tree, opts, entries } = await makeTree(encrypted);
+      let { cid: root } = await tree.putDirectory(entries, opts);
+
+      for (const entry of entries.slice(THRESHOLD)) {
+        root = await tree.removeEntry(root, [], entry.name);
+      }
+
+      const node = await tree.getTreeNode(root);
+      expect(isShardNode(node!)).toBe(false);
+      expect((await tree.listDirectory(root)).map(e => e.name)).toEqual(names(THRESHOLD));
+
+      const { cid: flat } = await tree.putDirectory(entries.slice(0, THRESHOLD), opts);
+      expect(toHex(root.hash)).toBe(toHex(flat.hash));
+    });
+
+    it(`should edit nested sharded directories (${label})`, async () => {
+      const { tree, opts, file, entries } = await makeTree(encrypted);
+      const { cid: big } = await tree.putDirectory(entries, opts);
+      let { cid: root } = await tree.putDirectory([{ name: 'big', cid: big, size: 0, type: LinkType.Dir }], opts);
+
+      root = await tree.setEntry(root, ['big'], 'new.txt', file.cid, file.size, LinkType.File);
+      root = await tree.renameEntry(root, ['big'], 'file-007.txt', 'renamed.txt');
+      root = await tree.moveEntry(root, ['big'], 'file-010.txt', []);
+
+      expect(await tree.resolvePath(root, 'big/new.txt')).not.toBeNull();
+      expect(await tree.resolvePath(root, 'big/renamed.txt')).not.toBeNull();
+      expect(await tree.resolvePath(root, 'big/file-007.txt')).toBeNull();
+      expect(await tree.resolvePath(root, 'file-010.txt')).not.toBeNull();
+
+      const bigDir = (await tree.resolvePath(root, 'big'))!.cid;
+      expect((await tree.listDirectory(bigDir)).length).toBe(50);
+    });
+
+    it(`should page through entries with a cursor (${label})`, async () => {
+      const { tree, opts, entries } = await makeTree(encrypted);
+      const { cid: dir } = await tree.putDirectory(entries, opts);
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+      do {
+        const page = await tree.listDirectoryPage(dir, { cursor, limit: 7 });
+        seen.push(...page.entries.map(e => e.name));
+        cursor = page.cursor;
+        pages++;
+      } while (cursor);
+
+      expect(pages).toBe(8);
+      expect(seen).toEqual(await collect(tree, dir));
+      expect([...seen].sort()).toEqual(names(50));
+    });
+
+    it(`should walk all blocks of a sharded directory (${label})`, async () => {
+      const { store, tree, opts, entries } = await makeTree(encrypted);
+      const { cid: dir } = await tree.putDirectory(entries, opts);
+
+      const walked = new Set<string>();
+      for await (const block of tree.walkBlocks(dir)) walked.add(toHex(block.hash));
+
+      // Everything in the store is the directory plus the one file
+      const stored = store.keys().map(toHex);
+      expect(walked).toEqual(new Set(stored));
+
+      const copy = new HashTree({ store: new MemoryStore() });
+      for await (const block of tree.walkBlocks(dir)) await copy.getStore().put(block.hash, block.data);
+      expect((await copy.listDirectory(dir)).length).toBe(50);
+    });
+
+    it(`should report blocks missing from the store while walking (${label})`, async () => {
+      const { store, tree, opts, file, entries } = await makeTree(encrypted);
+      const { cid: dir } = await tree.putDirectory(entries, opts);
+      await store.delete(file.cid.hash);
+
+      const missing: string[] = [];
+      for await (const block of tree.walkBlocks(dir, { onMissing: hash => missing.push(toHex(hash)) })) {
+        expect(toHex(block.hash)).not.toBe(toHex(file.cid.hash));
+      }
+      expect(missing).toEqual([toHex(file.cid.hash)]);
+    });
+
+    it(`should prove entries of sharded directories (${label})`, async () => {
+      const { tree, opts, entries } = await makeTree(encrypted);
+      const { cid: dir } = await tree.putDirectory(entries, opts);
+
+      const proof = await tree.createProof(dir, 'file-023.txt');
+      expect(await verifyProof(proof, dir, new TextEncoder().encode('hello'))).toBe(true);
+
+      // Only the buckets on the path are included, not the whole directory
+      const walked: Uint8Array[] = [];
+      for await (const block of tree.walkBlocks(dir)) walked.push(block.data);
+      expect(proof.nodes.length).toBeLessThan(walked.length);
+    });
+  }
+
+  for (const encrypted of [false, true]) {
+    const label = encrypted ? 'encrypted' : 'public';
+
+    it(`should page sorted by name and filtered by prefix (${label})`, async () => {
+      const { tree, opts, entries } = await makeTree(encrypted);
+      const { cid: dir } = await tree.putDirectory(entries, opts);
+
+      const first = await tree.listDirectoryPage(dir, { sort: 'name', limit: 5 });
+      expect(first.entries.map(e => e.name)).toEqual(names(5));
+      const second = await tree.listDirectoryPage(dir, { sort: 'name', limit: 5, cursor: first.cursor });
+      expect(second.entries.map(e => e.name)).toEqual(names(10).slice(5));
+
+      const filtered = await tree.listDirectoryPage(dir, { prefix: 'file-01', limit: 100 });
+      expect(filtered.cursor).toBeUndefined();
+      expect(filtered.entries.map(e => e.name).sort()).toEqual(names(20).slice(10));
+
+      const sorted: string[] = [];
+      for await (const e of tree.iterateDirectory(dir, { sort: 'name', prefix: 'file-04', after: 'file-045.txt' })) {
+        sorted.push(e.name);
+      }
+      expect(sorted).toEqual(['file-046.txt', 'file-047.txt', 'file-048.txt', 'file-049.txt']);
+    });
+
+    it(`should read a directory once when paging sorted by name (${label})`, async () => {
+      const { store, tree, opts, entries } = await makeTree(encrypted);
+      const { cid: dir } = await tree.putDirectory(entries, opts);
+      const first = await tree.listDirectoryPage(dir, { sort: 'name', limit: 5 });
+
+      const get = vi.spyOn(store, 'get');
+      const second = await tree.listDirectoryPage(dir, { sort: 'name', limit: 5, cursor: first.cursor });
+
+      expect(second.entries.map(e => e.name)).toEqual(names(10).slice(5));
+      expect(get).not.toHaveBeenCalled();
+    });
+  }
+
+  it('should reject empty pages', async () => {
+    const { tree, entries } = await makeTree(false);
+    const { cid: dir } = await tree.putDirectory(entries, { public: true });
+    await expect(tree.listDirectoryPage(dir, { limit: 0 })).rejects.toThrow('Invalid page limit: 0');
+  });
+
+  it('should not shard directories at the threshold', async () => {
+    const { tree, entries } = await makeTree(false);
+    const { cid: dir } = await tree.putDirectory(entries.slice(0, THRESHOLD), { public: true });
+    const node = await tree.getTreeNode(dir);
+    expect(isShardNode(node!)).toBe(false);
+    expect(node!.links.length).toBe(THRESHOLD);
+  });
+});
@@ -501,6 +501,27 @@ describe('HashTree', () => {
       expect(result.cid.key).toBeDefined();
       expect(result.chunks).toBeGreaterThanOrEqual(2);
     });
+
+    it('should fetch each level with getMany', async () => {
+      const entries = [];
+      for (let i = 0; i < 5; i++) {
+        const { cid, size } = await tree.putFile(new TextEncoder().encode(`file ${i}`));
+        entries.push({ name: `${i}.txt`, cid, size, type: LinkType.Blob });
+      }
+      const { cid: dirCid } = await tree.putDirectory(entries);
+
+      const batches: number[] = [];
+      const getMany = store.getMany.bind(store);
+      store.getMany = async (hashes) => {
+        batches.push(hashes.length);
+        return getMany(hashes);
+      };
+
+      const result = await tree.pull(dirCid);
+
+      expect(result.chunks).toBe(6);
+      expect(batches).toEqual([1, 5]);
+    });
   });
 
   describe('push', () => {
@@ -648,5 +669,44 @@ describe('HashTree', () => {
       expect(entries).toHaveLength(1);
       expect(entries[0].name).toBe('secret.txt');
     });
+
+    it('should upload batches with putMany', async () => {
+      const smallTree = new HashTree({ store, chunkSize: 10 });
+      const { cid } = await smallTree.putFile(new TextEncoder().encode('this is a longer message'), { public: true });
+
+      const targetStore = new MemoryStore();
+      let putManyCalls = 0;
+      const putMany = targetStore.putMany.bind(targetStore);
+      targetStore.putMany = async (blocks) => {
+        putManyCalls++;
+        return putMany(blocks);
+      };
+
+      const result = await smallTree.push(cid, targetStore, { concurrency: 1 });
+
+      expect(result.pushed).toBe(4); // tree node + 3 chunks
+      expect(putManyCalls).toBeGreaterThan(0);
+      expect(targetStore.size).toBe(4);
+    });
+
+    it('should retry a failed batch block by block', async () => {
+      const smallTree = new HashTree({ store, chunkSize: 10 });
+      const { cid } = await smallTree.putFile(new TextEncoder().encode('this is a longer message'), { public: true });
+      const { cid: bad } = await smallTree.putFile(new TextEncoder().encode('this is a '), { public: true });
+
+      const targetStore = new MemoryStore();
+      targetStore.putMany = async () => { throw new Error('Batch upload failed'); };
+      const put = targetStore.put.bind(targetStore);
+      targetStore.put = async (hash, data) => {
+        if (toHex(hash) === toHex(bad.hash)) throw new Error('Upload failed');
+        return put(hash, data);
+      };
+
+      const result = await smallTree.push(cid, targetStore, { concurrency: 1 });
+
+      expect(result.pushed).toBe(3);
+      expect(result.failed).toBe(1);
+      expect(toHex(result.errors[0].hash)).toBe(toHex(bad.hash));
+    });
   });
 });
@@ -0,0 +1,221 @@
+/**
+ * Have announcements and have queries between Peers over the in-memory network
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { HashTree, MemoryNetwork, MemoryStore, WebRTCStore, sha256 } from '../src/index.js';
+import { Peer } from '../src/webrtc/peer.js';
+import { encodeHaveReply, encodeHaveBits, parseMessage } from '../src/webrtc/protocol.js';
+import {
+  PeerId,
+  MSG_TYPE_HAVE_QUERY,
+  HAVE_QUERY_TIMEOUT,
+  HAVE_QUERY_RETRY_DELAY,
+  type DirectedMessage,
+  type HaveQuery,
+} from '../src/webrtc/types.js';
+import type { DataConnection } from '../src/webrtc/transport.js';
+
+const PUBKEYS = ['a', 'b'].map(c => c.repeat(64));
+
+let peers: Peer[] = [];
+let stores: WebRTCStore[] = [];
+
+async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * Open a connection between two sessions over a MemoryNetwork
+ */
+async function connect(): Promise<[DataConnection, DataConnection]> {
+  const network = new MemoryNetwork();
+  const ids = PUBKEYS.map(pubkey => new PeerId(pubkey));
+  const transports = ids.map(() => network.createTransport());
+  const connections = transports.map((transport, i) => {
+    const remote = ids[1 - i];
+    return transport.createConnection({
+      peerId: remote,
+      myPeerId: ids[i].uuid,
+      sendSignaling: msg => transport.signaling.sendDirected(msg as DirectedMessage, remote.pubkey),
+    });
+  });
+  transports.forEach((transport, i) => transport.signaling.start(ids[i], msg => {
+    if (msg.type !== 'hello') connections[i].handleSignaling(msg);
+  }));
+
+  await connections[0].connect();
+  await waitFor(() => connections.every(c => c.isOpen));
+  return [connections[0], connections[1]];
+}
+
+function createPeer(connection: DataConnection, pubkey: string, localStore: MemoryStore | null = null): Peer {
+  const peer = new Peer({
+    peerId: new PeerId(pubkey),
+    connection,
+    direction: 'outbound',
+    localStore,
+    onClose: () => {},
+  });
+  peers.push(peer);
+  return peer;
+}
+
+/** Two connected Peers: ours, and theirs answering from a local store */
+async function createPair() {
+  const [ours, theirs] = await connect();
+  const remoteStore = new MemoryStore();
+  return {
+    peer: createPeer(ours, PUBKEYS[1]),
+    remote: createPeer(theirs, PUBKEYS[0], remoteStore),
+    remoteStore,
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  for (const peer of peers) peer.close();
+  for (const store of stores) store.stop();
+  peers = [];
+  stores = [];
+});
+
+describe('Peer have announcements', () => {
+  it('should take blocks under an announced root as held', async () => {
+    const { peer, remote, remoteStore } = await createPair();
+    const tree = new HashTree({ store: remoteStore });
+    const { cid: file } = await tree.putFile(new TextEncoder().encode('file'), { public: true });
+    const { cid: root } = await tree.putDirectory([{ name: 'file.txt', cid: file }], { public: true });
+
+    expect(peer.hasHash(root.hash)).toBe(false);
+    remote.announceRoots([root.hash]);
+    await waitFor(() => peer.hasHash(root.hash));
+
+    // Children are known once the root node was read from the peer
+    expect(peer.hasHash(file.hash)).toBe(false);
+    expect(await peer.request(root.hash)).not.toBeNull();
+    expect(peer.hasHash(file.hash)).toBe(true);
+  });
+
+  it('should take children as held whichever peer served their parent', async () => {
+    const { peer, remote, remoteStore } = await createPair();
+    const tree = new HashTree({ store: remoteStore });
+    const { cid: file } = await tree.putFile(new TextEncoder().encode('file'), { public: true });
+    const { cid: root } = await tree.putDirectory([{ name: 'file.txt', cid: file }], { public: true });
+    remote.announceRoots([root.hash]);
+    await waitFor(() => peer.hasHash(root.hash));
+
+    // The root node came from some other peer
+    peer.noteBlock(root.hash, (await remoteStore.get(root.hash))!);
+    expect(peer.hasHash(file.hash)).toBe(true);
+  });
+
+  it('should know only the root of an announced encrypted tree', async () => {
+    const { peer, remote, remoteStore } = await createPair();
+    const tree = new HashTree({ store: remoteStore });
+    const { cid: file } = await tree.putFile(new TextEncoder().encode('file'));
+    const { cid: root } = await tree.putDirectory([{ name: 'file.txt', cid: file }]);
+    remote.announceRoots([root.hash]);
+    await waitFor(() => peer.hasHash(root.hash));
+
+    // The root node is ciphertext, so its links can't be followed
+    expect(await peer.request(root.hash)).not.toBeNull();
+    expect(peer.hasHash(file.hash)).toBe(false);
+
+    // Have queries still find the other blocks
+    expect(await peer.queryHave([file.hash])).toEqual([true]);
+    expect(peer.hasHash(file.hash)).toBe(true);
+  });
+
+  it('should remember the hashes a have query answered for', async () => {
+    const { peer, remoteStore } = await createPair();
+    const tree = new HashTree({ store: remoteStore });
+    const { cid: file } = await tree.putFile(new TextEncoder().encode('file'), { public: true });
+    const { cid: dir } = await tree.putDirectory([{ name: 'file.txt', cid: file }], { public: true });
+    const missing = await sha256(new TextEncoder().encode('missing'));
+
+    expect(await peer.queryHave([dir.hash, missing])).toEqual([true, false]);
+    expect(peer.hasHash(dir.hash)).toBe(true);
+    expect(peer.hasHash(missing)).toBe(false);
+
+    // Having a node doesn't mean having its subtree
+    expect(await peer.request(dir.hash)).not.toBeNull();
+    expect(peer.hasHash(file.hash)).toBe(false);
+  });
+
+  it('should pause have queries to a peer that leaves them unanswered, then retry', async () => {
+    const [ours, theirs] = await connect();
+    const peer = createPeer(ours, PUBKEYS[1]);
+    // Older peer: ignores have queries unless told to answer
+    const queries: HaveQuery[] = [];
+    let answer = false;
+    theirs.onmessage = data => {
+      const msg = parseMessage(data);
+      if (msg?.type !== MSG_TYPE_HAVE_QUERY) return;
+      queries.push(msg.body);
+      if (answer) theirs.send(encodeHaveReply({ id: msg.body.id, b: encodeHaveBits([true]) }));
+    };
+    const hash = await sha256(new TextEncoder().encode('block'));
+
+    vi.useFakeTimers();
+    const first = peer.queryHave([hash]);
+    await vi.advanceTimersByTimeAsync(HAVE_QUERY_TIMEOUT);
+    expect(await first).toBeNull();
+    expect(queries).toHaveLength(1);
+
+    expect(await peer.queryHave([hash])).toBeNull();
+    expect(queries).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(HAVE_QUERY_RETRY_DELAY);
+    answer = true;
+    const retried = peer.queryHave([hash]);
+    await vi.advanceTimersByTimeAsync(10);
+    expect(await retried).toEqual([true]);
+    expect(queries).toHaveLength(2);
+  });
+
+  it('should double the pause after each unanswered retry', async () => {
+    const [ours] = await connect();
+    const peer = createPeer(ours, PUBKEYS[1]);
+    const hash = await sha256(new TextEncoder().encode('block'));
+    const send = vi.spyOn(ours, 'send');
+
+    vi.useFakeTimers();
+    for (const pause of [HAVE_QUERY_RETRY_DELAY, HAVE_QUERY_RETRY_DELAY * 2]) {
+      const query = peer.queryHave([hash]);
+      await vi.advanceTimersByTimeAsync(HAVE_QUERY_TIMEOUT);
+      expect(await query).toBeNull();
+      await vi.advanceTimersByTimeAsync(pause - 1);
+      await peer.queryHave([hash]);
+      await vi.advanceTimersByTimeAsync(1);
+    }
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('WebRTCStore getMany', () => {
+  it('should fetch without waiting for have query answers', async () => {
+    const network = new MemoryNetwork();
+    const pools = { follows: { maxConnections: 0, satisfiedConnections: 0 }, other: { maxConnections: 2, satisfiedConnections: 1 } };
+    const [a, b] = PUBKEYS.map(pubkey => {
+      const localStore = new MemoryStore();
+      const store = new WebRTCStore({ pubkey, transport: network.createTransport(), localStore, pools });
+      stores.push(store);
+      store.start();
+      return { store, localStore };
+    });
+    await waitFor(() => a.store.getConnectedCount() === 1);
+
+    const blocks = ['one', 'two'].map(text => new TextEncoder().encode(text));
+    const hashes = await Promise.all(blocks.map(data => sha256(data)));
+    await Promise.all(hashes.map((hash, i) => b.localStore.put(hash, blocks[i])));
+
+    // Answers that never come
+    const findHolders = vi.spyOn(a.store, 'findHolders').mockReturnValue(new Promise(() => {}));
+    expect(await a.store.getMany(hashes)).toEqual(blocks);
+    expect(findHolders).toHaveBeenCalledWith(hashes);
+  });
+});
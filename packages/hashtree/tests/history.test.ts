@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { cid, toHex, fromHex, snapshotEventTemplate } from '../src/index.js';
+import {
+  createNostrRefResolver,
+  ROOT_HISTORY_KIND,
+  type NostrEvent,
+  type NostrFilter,
+} from '../src/resolver/nostr.js';
+
+const owner = 'aa'.repeat(32);
+
+function rootEvent(hash: string, createdAt: number, extra: string[][] = [], kind = ROOT_HISTORY_KIND): NostrEvent {
+  return {
+    pubkey: owner,
+    kind,
+    content: '',
+    created_at: createdAt,
+    tags: [['d', 'docs'], ['l', 'hashtree'], ['hash', hash], ...extra],
+  };
+}
+
+/**
+ * Relay that keeps only the newest kind-30078 event per d-tag, like real
+ * relays do for parameterized replaceable events
+ */
+class TestRelay {
+  events: NostrEvent[] = [];
+
+  add(event: NostrEvent): void {
+    const dTag = (e: NostrEvent) => e.tags.find(t => t[0] === 'd')?.[1];
+    if (event.kind === 30078) {
+      const existing = this.events.find(e => e.kind === 30078 && e.pubkey === event.pubkey && dTag(e) === dTag(event));
+      if (existing && existing.created_at >= event.created_at) return;
+      this.events = this.events.filter(e => e !== existing);
+    }
+    this.events.push(event);
+  }
+
+  matching(filter: NostrFilter): NostrEvent[] {
+    const tagMatches = (event: NostrEvent, name: string, values?: string[]) =>
+      !values || event.tags.some(t => t[0] === name && values.includes(t[1]));
+    return this.events.filter(event =>
+      (!filter.kinds || filter.kinds.includes(event.kind)) &&
+      (!filter.authors || filter.authors.includes(event.pubkey)) &&
+      tagMatches(event, 'd', filter['#d']) &&
+      tagMatches(event, 'l', filter['#l'])
+    );
+  }
+}
+
+/** Resolver connected to a relay holding the given events */
+function createResolver(relayEvents: NostrEvent[], relay = new TestRelay()) {
+  for (const event of relayEvents) relay.add(event);
+  const filters: NostrFilter[] = [];
+  const resolver = createNostrRefResolver({
+    subscribe: (filter, onEvent) => {
+      filters.push(filter);
+      for (const event of relay.matching(filter)) onEvent(event);
+      return () => {};
+    },
+    publish: async event => {
+      relay.add({ ...event, pubkey: owner, created_at: event.created_at ?? Math.floor(Date.now() / 1000) });
+      return true;
+    },
+    getPubkey: () => owner,
+    nip19: {
+      decode: () => ({ type: 'npub', data: owner }),
+      npubEncode: () => 'npub1owner',
+    },
+  });
+  return { resolver, filters, relay };
+}
+
+describe('root history', () => {
+  it('should return every root published under a key, newest first', async () => {
+    const { resolver, filters } = createResolver([
+      rootEvent('01'.repeat(32), 100),
+      rootEvent('03'.repeat(32), 300, [['key', 'ee'.repeat(32)]]),
+      rootEvent('02'.repeat(32), 200),
+    ]);
+
+    const history = await resolver.history!('npub1owner/docs', 0);
+
+    expect(filters[0]).toEqual({ kinds: [30078, ROOT_HISTORY_KIND], authors: [owner], '#d': ['docs'], '#l': ['hashtree'] });
+    expect(history.map(e => [toHex(e.cid.hash).slice(0, 2), e.createdAt])).toEqual([
+      ['03', 300],
+      ['02', 200],
+      ['01', 100],
+    ]);
+    expect(toHex(history[0].cid.key!)).toBe('ee'.repeat(32));
+    expect(history[0].visibilityInfo?.visibility).toBe('public');
+  });
+
+  it('should keep a republished root once, at its latest time', async () => {
+    const { resolver } = createResolver([
+      rootEvent('01'.repeat(32), 100),
+      rootEvent('02'.repeat(32), 200),
+      rootEvent('01'.repeat(32), 300),
+    ]);
+
+    const history = await resolver.history!('npub1owner/docs', 0);
+    expect(history.map(e => e.createdAt)).toEqual([300, 200]);
+  });
+
+  it('should include roots published locally and seen by subscriptions', async () => {
+    const { resolver } = createResolver([rootEvent('01'.repeat(32), 100)]);
+    resolver.subscribe('npub1owner/docs', () => {});
+    await resolver.publish!('npub1owner/docs', cid(new Uint8Array(32).fill(9)));
+
+    const history = await resolver.history!('npub1owner/docs', 0);
+    expect(history.map(e => toHex(e.cid.hash).slice(0, 2))).toEqual(['09', '01']);
+  });
+
+  it('should find roots published in earlier sessions after relays replaced them', async () => {
+    const relay = new TestRelay();
+    const first = createResolver([], relay).resolver;
+    const now = vi.spyOn(Date, 'now');
+    for (const [i, fill] of [1, 2, 3].entries()) {
+      now.mockReturnValue((1000 + i) * 1000);
+      await first.publish!('npub1owner/docs', cid(new Uint8Array(32).fill(fill)));
+    }
+    now.mockRestore();
+
+    expect(relay.matching({ kinds: [30078] })).toHaveLength(1);
+    const { resolver } = createResolver([], relay);
+    const history = await resolver.history!('npub1owner/docs', 0);
+    expect(history.map(e => [toHex(e.cid.hash).slice(0, 2), e.createdAt])).toEqual([
+      ['03', 1002],
+      ['02', 1001],
+      ['01', 1000],
+    ]);
+  });
+
+  it('should ignore snapshot events of the tree', async () => {
+    const snapshot = snapshotEventTemplate('docs', fromHex('02'.repeat(32)), 200);
+    const { resolver } = createResolver([
+      rootEvent('01'.repeat(32), 100),
+      { ...snapshot, pubkey: owner },
+    ]);
+
+    const history = await resolver.history!('npub1owner/docs', 0);
+    expect(history.map(e => toHex(e.cid.hash))).toEqual(['01'.repeat(32)]);
+  });
+
+  it('should ignore deleted trees, other trees and invalid keys', async () => {
+    const { resolver } = createResolver([
+      rootEvent('01'.repeat(32), 100),
+      { ...rootEvent('02'.repeat(32), 200), tags: [['d', 'other'], ['l', 'hashtree'], ['hash', '02'.repeat(32)]] },
+      { ...rootEvent('', 300, [], 30078), tags: [['d', 'docs'], ['l', 'hashtree']] },
+    ]);
+
+    expect((await resolver.history!('npub1owner/docs', 0)).map(e => e.createdAt)).toEqual([100]);
+    expect(await resolver.history!('invalid', 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HashTree, MemoryStore, LinkType, type CID } from '../src/index.js';
+
+describe('HashTree.mergeTrees', () => {
+  let store: MemoryStore;
+  let tree: HashTree;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    tree = new HashTree({ store });
+  });
+
+  const text = (s: string) => new TextEncoder().encode(s);
+  const decode = (d: Uint8Array | null) => new TextDecoder().decode(d!);
+
+  for (const isPublic of [true, false]) {
+    describe(isPublic ? 'public' : 'encrypted', () => {
+      const opts = { public: isPublic };
+
+      async function file(content: string): Promise<CID> {
+        return (await tree.putFile(text(content), opts)).cid;
+      }
+
+      async function buildBase(): Promise<CID> {
+        const { cid: sub } = await tree.putDirectory([
+          { name: 'b.txt', cid: await file('b'), size: 1, type: LinkType.Blob },
+        ], opts);
+        const { cid: root } = await tree.putDirectory([
+          { name: 'a.txt', cid: await file('a'), size: 1, type: LinkType.Blob },
+          { name: 'sub', cid: sub, size: 1, type: LinkType.Dir },
+        ], opts);
+        return root;
+      }
+
+      async function readPath(root: CID, path: string): Promise<string | null> {
+        const entry = await tree.resolvePath(root, path);
+        return entry ? decode(await tree.readFile(entry.cid)) : null;
+      }
+
+      it('should merge changes to different paths', async () => {
+        const base = await buildBase();
+        const ours = await tree.setEntry(base, ['sub'], 'c.txt', await file('ours c'), 6);
+        let theirs = await tree.setEntry(base, [], 'a.txt', await file('theirs a'), 8);
+        theirs = await tree.removeEntry(theirs, ['sub'], 'b.txt');
+
+        const result = await tree.mergeTrees(base, ours, theirs);
+
+        expect(result.conflicts).toEqual([]);
+        expect(!!result.cid.key).toBe(!isPublic);
+        expect(await readPath(result.cid, 'a.txt')).toBe('theirs a');
+        expect(await readPath(result.cid, 'sub/c.txt')).toBe('ours c');
+        expect(await readPath(result.cid, 'sub/b.txt')).toBeNull();
+      });
+
+      it('should report same-path edits as conflicts and keep ours', async () => {
+        const base = await buildBase();
+        const ours = await tree.setEntry(base, [], 'a.txt', await file('ours a'), 6);
+        const theirs = await tree.setEntry(base, [], 'a.txt', await file('theirs a'), 8);
+
+        const result = await tree.mergeTrees(base, ours, theirs);
+
+        expect(result.conflicts).toHaveLength(1);
+        const [conflict] = result.conflicts;
+        expect(conflict.type).toBe('modify/modify');
+        expect(conflict.path).toBe('a.txt');
+        expect(decode(await tree.readFile(conflict.base!))).toBe('a');
+        expect(decode(await tree.readFile(conflict.ours!))).toBe('ours a');
+        expect(decode(await tree.readFile(conflict.theirs!))).toBe('theirs a');
+        expect(await readPath(result.cid, 'a.txt')).toBe('ours a');
+      });
+
+      it('should not conflict when both sides made the same change', async () => {
+        const base = await buildBase();
+        const same = await file('same');
+        const ours = await tree.setEntry(base, ['sub'], 'b.txt', same, 4);
+        const theirs = await tree.setEntry(base, ['sub'], 'b.txt', same, 4);
+
+        const result = await tree.mergeTrees(base, ours, theirs);
+        expect(result.conflicts).toEqual([]);
+        expect(await readPath(result.cid, 'sub/b.txt')).toBe('same');
+      });
+
+      it('should report edits inside a directory removed by the other side', async () => {
+        const base = await buildBase();
+        const ours = await tree.removeEntry(base, [], 'sub');
+        const theirs = await tree.setEntry(base, ['sub'], 'b.txt', await file('theirs b'), 8);
+
+        const result = await tree.mergeTrees(base, ours, theirs);
+        expect(result.conflicts.map(c => `${c.type} ${c.path}`)).toEqual(['delete/modify sub/b.txt']);
+        expect(await tree.resolvePath(result.cid, 'sub')).toBeNull();
+
+        const reverse = await tree.mergeTrees(base, theirs, ours);
+        expect(reverse.conflicts.map(c => `${c.type} ${c.path}`)).toEqual(['modify/delete sub']);
+        expect(await readPath(reverse.cid, 'sub/b.txt')).toBe('theirs b');
+      });
+
+      it('should keep the metadata of merged entries', async () => {
+        const base = await buildBase();
+        const meta = { mimeType: 'text/plain', createdAt: 5 };
+        const ours = await tree.setEntry(base, ['sub'], 'c.txt', await file('ours c'), 6);
+        const a = (await tree.resolvePath(base, 'a.txt'))!;
+        const sub = (await tree.resolvePath(base, 'sub'))!;
+        const { cid: theirs } = await tree.putDirectory([
+          { name: 'a.txt', cid: a.cid, size: 1, type: LinkType.Blob, meta: { createdAt: 7 } },
+          { name: 'new.txt', cid: await file('new'), size: 3, type: LinkType.Blob, meta },
+          { name: 'sub', cid: sub.cid, size: 1, type: LinkType.Dir },
+        ], opts);
+
+        const result = await tree.mergeTrees(base, ours, theirs);
+        expect(result.conflicts).toEqual([]);
+        const entries = await tree.listDirectory(result.cid);
+        expect(entries.find(e => e.name === 'new.txt')?.meta).toEqual(meta);
+        expect(entries.find(e => e.name === 'a.txt')?.meta).toEqual({ createdAt: 7 });
+        expect(await readPath(result.cid, 'sub/c.txt')).toBe('ours c');
+      });
+
+      it('should report entries added on both sides with different content', async () => {
+        const base = await buildBase();
+        const ours = await tree.setEntry(base, [], 'new.txt', await file('ours'), 4);
+        const theirs = await tree.setEntry(base, [], 'new.txt', await file('theirs'), 6);
+
+        const result = await tree.mergeTrees(base, ours, theirs);
+        expect(result.conflicts.map(c => c.type)).toEqual(['add/add']);
+        expect(result.conflicts[0].base).toBeUndefined();
+      });
+    });
+  }
+
+  it('should fast-forward when one side is unchanged', async () => {
+    const { cid: base } = await tree.putDirectory([], { public: true });
+    const { cid: f } = await tree.putFile(text('x'), { public: true });
+    const theirs = await tree.setEntry(base, [], 'x.txt', f, 1);
+
+    expect((await tree.mergeTrees(base, base, theirs)).cid).toEqual(theirs);
+    expect((await tree.mergeTrees(base, theirs, base)).cid).toEqual(theirs);
+  });
+
+  it('should not conflict when both sides removed the same directory contents', async () => {
+    const { cid: f } = await tree.putFile(text('x'), { public: true });
+    const { cid: sub } = await tree.putDirectory([
+      { name: 'x.txt', cid: f, size: 1, type: LinkType.Blob },
+    ], { public: true });
+    const { cid: base } = await tree.putDirectory([
+      { name: 'sub', cid: sub, size: 1, type: LinkType.Dir },
+      { name: 'keep.txt', cid: f, size: 1, type: LinkType.Blob },
+    ], { public: true });
+
+    const ours = await tree.removeEntry(base, ['sub'], 'x.txt');
+    const theirs = await tree.removeEntry(base, [], 'sub');
+
+    const result = await tree.mergeTrees(base, ours, theirs);
+    expect(result.conflicts).toEqual([]);
+    expect((await tree.listDirectory(result.cid)).map(e => e.name)).toEqual(['keep.txt']);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HashTree,
+  MemoryStore,
+  LinkType,
+  entryMode,
+  entryMtime,
+  isExecutable,
+  modeLinkType,
+  posixMeta,
+  encodeTreeNode,
+  decodeTreeNode,
+} from '../src/index.js';
+
+describe('POSIX mode metadata', () => {
+  it('should default modes by link type', () => {
+    expect(entryMode({ type: LinkType.File })).toBe(0o100644);
+    expect(entryMode({ type: LinkType.Blob })).toBe(0o100644);
+    expect(entryMode({ type: LinkType.Dir })).toBe(0o40755);
+    expect(entryMode({ type: LinkType.Symlink })).toBe(0o120777);
+    expect(entryMtime({ type: LinkType.File })).toBeUndefined();
+  });
+
+  it('should keep permission bits but take the file type from the link type', () => {
+    expect(entryMode({ type: LinkType.File, meta: { mode: 0o100755 } })).toBe(0o100755);
+    expect(entryMode({ type: LinkType.File, meta: { mode: 0o40700 } })).toBe(0o100700);
+    expect(entryMode({ type: LinkType.File, meta: { mode: 'rwx' } })).toBe(0o100644);
+    expect(isExecutable({ type: LinkType.File, meta: { mode: 0o100755 } })).toBe(true);
+    expect(isExecutable({ type: LinkType.Dir })).toBe(false);
+    expect(modeLinkType(0o120777)).toBe(LinkType.Symlink);
+    expect(modeLinkType(0o40755)).toBe(LinkType.Dir);
+    expect(modeLinkType(0o100755)).toBe(LinkType.File);
+  });
+
+  it('should build meta without default modes', () => {
+    expect(posixMeta(LinkType.File, { mode: 0o100644 })).toBeUndefined();
+    expect(posixMeta(LinkType.File, { mode: 0o100755, mtime: 1700000000.9 })).toEqual({ mode: 0o100755, mtime: 1700000000 });
+    expect(posixMeta(LinkType.Dir, { mode: 0o755 }, { createdAt: 1 })).toEqual({ createdAt: 1 });
+    expect(posixMeta(LinkType.File, { mode: 0o644 }, { mode: 0o100755 })).toBeUndefined();
+  });
+
+  it('should round-trip symlink links through the codec', () => {
+    const hash = new Uint8Array(32).fill(1);
+    const node = decodeTreeNode(encodeTreeNode({
+      type: LinkType.Dir,
+      links: [{ hash, name: 'link', size: 5, type: LinkType.Symlink, meta: { mtime: 1700000000 } }],
+    }));
+    expect(node.links[0].type).toBe(LinkType.Symlink);
+    expect(node.links[0].meta).toEqual({ mtime: 1700000000 });
+  });
+});
+
+describe('symlinks and modes in trees', () => {
+  for (const encrypted of [true, false]) {
+    const label = encrypted ? 'encrypted' : 'public';
+
+    it(`should store symlinks and entry modes (${label})`, async () => {
+      const tree = new HashTree({ store: new MemoryStore() });
+      const opts = { public: !encrypted };
+      const script = await tree.putFile(new TextEncoder().encode('#!/bin/sh\necho hi\n'), opts);
+      const link = await tree.putSymlink('run.sh', opts);
+
+      let { cid: root } = await tree.putDirectory([], opts);
+      root = await tree.setEntry(root, [], 'run.sh', script.cid, script.size, LinkType.File,
+        posixMeta(LinkType.File, { mode: 0o100755, mtime: 1700000000 }));
+      root = await tree.setEntry(root, [], 'start', link.cid, link.size, LinkType.Symlink);
+
+      const entries = await tree.listDirectory(root);
+      const file = entries.find(e => e.name === 'run.sh')!;
+      const symlink = entries.find(e => e.name === 'start')!;
+
+      expect(entryMode(file)).toBe(0o100755);
+      expect(entryMtime(file)).toBe(1700000000);
+      expect(symlink.type).toBe(LinkType.Symlink);
+      expect(entryMode(symlink)).toBe(0o120777);
+      expect(await tree.readSymlink(symlink.cid)).toBe('run.sh');
+    });
+
+    it(`should keep entry meta when moving (${label})`, async () => {
+      const tree = new HashTree({ store: new MemoryStore() });
+      const opts = { public: !encrypted };
+      const file = await tree.putFile(new Uint8Array([1, 2, 3]), opts);
+      const sub = await tree.putDirectory([], opts);
+
+      let { cid: root } = await tree.putDirectory([], opts);
+      root = await tree.setEntry(root, [], 'sub', sub.cid, 0, LinkType.Dir);
+      root = await tree.setEntry(root, [], 'tool', file.cid, file.size, LinkType.File, { mode: 0o100755 });
+      root = await tree.moveEntry(root, [], 'tool', ['sub']);
+
+      const entries = await tree.listDirectory((await tree.resolvePath(root, 'sub'))!.cid);
+      expect(isExecutable(entries[0])).toBe(true);
+    });
+  }
+
+  it('should reject empty symlink targets', async () => {
+    const tree = new HashTree({ store: new MemoryStore() });
+    await expect(tree.putSymlink('')).rejects.toThrow('Symlink target cannot be empty');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OpfsStore } from '../src/store/opfs.js';
+import { sha256, toHex } from '../src/index.js';
+
+/**
+ * In-memory stand-in for the OPFS handles OpfsStore uses
+ */
+class FakeFileHandle {
+  readonly kind = 'file';
+  data = new Uint8Array(0);
+  lastModified = Date.now();
+
+  async getFile() {
+    const { data, lastModified } = this;
+    return { size: data.length, lastModified, arrayBuffer: async () => data.slice().buffer };
+  }
+
+  async createWritable() {
+    return {
+      write: async (data: Uint8Array) => {
+        this.data = new Uint8Array(data);
+        this.lastModified = Date.now();
+      },
+      close: async () => {},
+    };
+  }
+}
+
+class FakeDirectoryHandle {
+  readonly kind = 'directory';
+  private children = new Map<string, FakeDirectoryHandle | FakeFileHandle>();
+
+  async getDirectoryHandle(name: string, options?: { create?: boolean }) {
+    return this.child(name, options?.create, () => new FakeDirectoryHandle());
+  }
+
+  async getFileHandle(name: string, options?: { create?: boolean }) {
+    return this.child(name, options?.create, () => new FakeFileHandle());
+  }
+
+  async removeEntry(name: string) {
+    if (!this.children.delete(name)) throw new DOMException('Not found', 'NotFoundError');
+  }
+
+  async *entries() {
+    yield* this.children.entries();
+  }
+
+  private child<T extends FakeDirectoryHandle | FakeFileHandle>(name: string, create: boolean | undefined, make: () => T): T {
+    const existing = this.children.get(name);
+    if (existing) return existing as T;
+    if (!create) throw new DOMException('Not found', 'NotFoundError');
+    const created = make();
+    this.children.set(name, created);
+    return created;
+  }
+}
+
+async function block(fill: number, size = 300) {
+  const data = new Uint8Array(size).fill(fill);
+  return { hash: await sha256(data), data };
+}
+
+describe('OpfsStore', () => {
+  let now: number;
+
+  beforeEach(() => {
+    const root = new FakeDirectoryHandle();
+    vi.stubGlobal('navigator', { storage: { getDirectory: async () => root } });
+    now = 1_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => ++now);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should evict least recently used blocks beyond maxBytes', async () => {
+    const store = new OpfsStore({ maxBytes: 1000 });
+    const blocks = await Promise.all([1, 2, 3, 4].map(n => block(n)));
+
+    for (const b of blocks.slice(0, 3)) await store.put(b.hash, b.data);
+    await store.get(blocks[0].hash);
+    await store.put(blocks[3].hash, blocks[3].data);
+
+    expect(await store.has(blocks[0].hash)).toBe(true);
+    expect(await store.has(blocks[1].hash)).toBe(false);
+    expect(await store.getUsage()).toEqual({ bytes: 900, count: 3, maxBytes: 1000 });
+  });
+
+  it('should never evict pinned blocks', async () => {
+    const store = new OpfsStore({ maxBytes: 1000 });
+    const blocks = await Promise.all([1, 2, 3, 4].map(n => block(n)));
+
+    store.setPinned([blocks[0].hash]);
+    for (const b of blocks) await store.put(b.hash, b.data);
+
+    expect(await store.has(blocks[0].hash)).toBe(true);
+    expect(await store.has(blocks[1].hash)).toBe(false);
+  });
+
+  it('should start from file modification times after a restart', async () => {
+    const blocks = await Promise.all([1, 2, 3, 4].map(n => block(n)));
+    const first = new OpfsStore();
+    for (const b of blocks.slice(0, 3)) await first.put(b.hash, b.data);
+
+    const store = new OpfsStore({ maxBytes: 1000 });
+    await store.put(blocks[3].hash, blocks[3].data);
+
+    expect(await store.has(blocks[0].hash)).toBe(false);
+    expect(await store.count()).toBe(3);
+  });
+
+  it('should keep usage current without maxBytes', async () => {
+    const store = new OpfsStore();
+    const [a, b] = await Promise.all([block(1, 100), block(2, 50)]);
+
+    expect((await store.getUsage()).bytes).toBe(0);
+    await store.put(a.hash, a.data);
+    await store.putMany([a, b]);
+    expect(await store.getUsage()).toEqual({ bytes: 150, count: 2, maxBytes: undefined });
+
+    await store.delete(a.hash);
+    expect((await store.getUsage()).bytes).toBe(50);
+    expect((await store.sizes()).get(toHex(b.hash))).toBe(50);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HashTree, MemoryStore, LinkType, fixedChunker, verifyProof, type CID } from '../src/index.js';
+
+describe('inclusion proofs', () => {
+  let store: MemoryStore;
+  let tree: HashTree;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    // Small file chunks, directories stay single nodes
+    tree = new HashTree({ store, chunker: fixedChunker(16) });
+  });
+
+  const text = (s: string) => new TextEncoder().encode(s);
+  const content = text('0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ');
+
+  for (const isPublic of [true, false]) {
+    describe(isPublic ? 'public' : 'encrypted', () => {
+      const opts = { public: isPublic };
+      let root: CID;
+
+      beforeEach(async () => {
+        const { cid: big, size } = await tree.putFile(content, opts);
+        const { cid: small } = await tree.putFile(text('tiny'), opts);
+        const { cid: docs } = await tree.putDirectory([
+          { name: 'big.txt', cid: big, size, type: LinkType.File },
+          { name: 'small.txt', cid: small, size: 4, type: LinkType.Blob },
+        ], opts);
+        const { cid: other } = await tree.putFile(text('unrelated content'), opts);
+        root = (await tree.putDirectory([
+          { name: 'docs', cid: docs, size, type: LinkType.Dir },
+          { name: 'other.txt', cid: other, size: 17, type: LinkType.Blob },
+        ], opts)).cid;
+      });
+
+      it('should prove a whole file', async () => {
+        const proof = await tree.createProof(root, 'docs/big.txt');
+
+        expect(await verifyProof(proof, root, content)).toBe(true);
+        expect(await verifyProof(proof, root, text('tampered'))).toBe(false);
+        expect(await verifyProof(proof, root, content.subarray(0, 40))).toBe(false);
+      });
+
+      it('should prove a single-chunk file', async () => {
+        const proof = await tree.createProof(root, ['docs', 'small.txt']);
+
+        expect(await verifyProof(proof, root, text('tiny'))).toBe(true);
+        expect(await verifyProof(proof, root, text('tinY'))).toBe(false);
+      });
+
+      it('should reject truncated content for a single-chunk proof that carries the chunk', async () => {
+        const proof = await tree.createProof(root, ['docs', 'small.txt']);
+        const small = await tree.resolvePath(root, 'docs/small.txt');
+        const forged = { ...proof, nodes: [...proof.nodes, (await store.get(small!.cid.hash))!] };
+
+        expect(await verifyProof(forged, root, text('tiny'))).toBe(true);
+        expect(await verifyProof(forged, root, text('ti'))).toBe(false);
+        expect(await verifyProof(forged, root, new Uint8Array(0))).toBe(false);
+      });
+
+      it('should prove a byte range with partially covered chunks', async () => {
+        const range = { start: 10, end: 40 };
+        const proof = await tree.createProof(root, 'docs/big.txt', range);
+
+        expect(await verifyProof(proof, root, content.subarray(10, 40))).toBe(true);
+        expect(await verifyProof(proof, root, content.subarray(11, 41))).toBe(false);
+      });
+
+      it('should only include blocks along the path', async () => {
+        const full = await tree.createProof(root, 'docs/big.txt');
+        const ranged = await tree.createProof(root, 'docs/big.txt', { start: 20, end: 30 });
+
+        // root dir, docs dir, file tree node - no data chunks
+        expect(full.nodes).toHaveLength(3);
+        // plus the one chunk containing bytes 20-30
+        expect(ranged.nodes).toHaveLength(4);
+      });
+
+      it('should prove that a path exists without content', async () => {
+        const proof = await tree.createProof(root, 'docs');
+        expect(await verifyProof(proof, root)).toBe(true);
+      });
+
+      it('should reject a proof for a different root', async () => {
+        const proof = await tree.createProof(root, 'docs/small.txt');
+        const { cid: otherRoot } = await tree.putDirectory([], opts);
+
+        expect(await verifyProof(proof, otherRoot, text('tiny'))).toBe(false);
+      });
+
+      it('should reject proofs with missing blocks', async () => {
+        const proof = await tree.createProof(root, 'docs/big.txt');
+        proof.nodes = proof.nodes.slice(1);
+
+        expect(await verifyProof(proof, root, content)).toBe(false);
+      });
+    });
+  }
+
+  it('should prove paths through chunked directories', async () => {
+    const small = new HashTree({ store, chunkSize: 64 });
+    const entries = [];
+    for (let i = 0; i < 10; i++) {
+      const { cid, size } = await small.putFile(text(`file ${i}`));
+      entries.push({ name: `file-${i}.txt`, cid, size, type: LinkType.Blob });
+    }
+    const { cid: root } = await small.putDirectory(entries);
+
+    const proof = await small.createProof(root, 'file-7.txt');
+    expect(proof.nodes.length).toBeGreaterThan(1);
+    expect(await verifyProof(proof, root, text('file 7'))).toBe(true);
+  });
+
+  it('should prove files of trees keyed by a convergence secret', async () => {
+    const secret = crypto.getRandomValues(new Uint8Array(32));
+    const keyed = new HashTree({ store, chunker: fixedChunker(16), convergenceSecret: secret });
+    const { cid: file, size } = await keyed.putFile(content);
+    const { cid: root } = await keyed.putDirectory([{ name: 'big.txt', cid: file, size, type: LinkType.File }]);
+
+    const whole = await keyed.createProof(root, 'big.txt');
+    expect(await verifyProof(whole, root, content)).toBe(true);
+    expect(await verifyProof(whole, root, text('tampered'))).toBe(false);
+
+    const range = await keyed.createProof(root, 'big.txt', { start: 16, end: 48 });
+    expect(await verifyProof(range, root, content.subarray(16, 48))).toBe(true);
+  });
+
+  it('should reject a range outside the file', async () => {
+    const { cid } = await tree.putFile(content, { public: true });
+    const proof = await tree.createProof(cid, [], { start: 60, end: 70 });
+
+    expect(await verifyProof(proof, cid, new Uint8Array(10))).toBe(false);
+  });
+
+  it('should throw for paths that do not exist', async () => {
+    const { cid: root } = await tree.putDirectory([], { public: true });
+    await expect(tree.createProof(root, 'missing.txt')).rejects.toThrow('Path not found: missing.txt');
+  });
+});
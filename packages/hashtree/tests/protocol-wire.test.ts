@@ -7,6 +7,10 @@
  * Wire format: [type byte][msgpack body]
  * Request:  [0x00][msgpack: {h: bytes32, htl?: u8}]
  * Response: [0x01][msgpack: {h: bytes32, d: bytes, i?: u32, n?: u32}]
+ * Have:       [0x02][msgpack: {r: bytes32[]}]
+ * HaveQuery:  [0x03][msgpack: {id: u32, h: bytes32[]}]
+ * HaveReply:  [0x04][msgpack: {id: u32, b: bytes}]
+ * Cancel:     [0x05][msgpack: {h: bytes32}]
  */
 
 import { describe, it, expect } from 'vitest';
@@ -19,10 +23,20 @@ import {
   createFragmentResponse,
   isFragmented,
   hashToKey,
+  encodeHave,
+  encodeHaveQuery,
+  encodeHaveReply,
+  encodeHaveBits,
+  decodeHaveBits,
+  encodeCancel,
 } from '../src/webrtc/protocol.js';
 import {
   MSG_TYPE_REQUEST,
   MSG_TYPE_RESPONSE,
+  MSG_TYPE_HAVE,
+  MSG_TYPE_HAVE_QUERY,
+  MSG_TYPE_HAVE_REPLY,
+  MSG_TYPE_CANCEL,
   FRAGMENT_SIZE,
 } from '../src/webrtc/types.js';
 
@@ -141,6 +155,51 @@ describe('Protocol Wire Format', () => {
     });
   });
 
+  describe('Have Messages', () => {
+    it('should round-trip a have announcement', () => {
+      const roots = [testHash(0x01), testHash(0x02)];
+      const parsed = parseMessage(encodeHave({ r: roots }));
+
+      expect(parsed?.type).toBe(MSG_TYPE_HAVE);
+      expect(parsed?.body).toEqual({ r: roots });
+    });
+
+    it('should round-trip a have query and its reply', () => {
+      const hashes = [testHash(0x01), testHash(0x02), testHash(0x03)];
+      const query = parseMessage(encodeHaveQuery({ id: 7, h: hashes }));
+      expect(query?.type).toBe(MSG_TYPE_HAVE_QUERY);
+      expect(query?.body).toEqual({ id: 7, h: hashes });
+
+      const reply = parseMessage(encodeHaveReply({ id: 7, b: encodeHaveBits([true, false, true]) }));
+      expect(reply?.type).toBe(MSG_TYPE_HAVE_REPLY);
+      if (reply?.type !== MSG_TYPE_HAVE_REPLY) return;
+      expect(reply.body.id).toBe(7);
+      expect(decodeHaveBits(reply.body.b, 3)).toEqual([true, false, true]);
+    });
+
+    it('should pack have flags LSB first', () => {
+      const flags = Array.from({ length: 10 }, (_, i) => i === 0 || i === 9);
+      const bits = encodeHaveBits(flags);
+
+      expect(toHex(bits)).toBe('0102');
+      expect(decodeHaveBits(bits, 10)).toEqual(flags);
+      // Missing bytes read as not having
+      expect(decodeHaveBits(new Uint8Array(0), 2)).toEqual([false, false]);
+    });
+  });
+
+  describe('Cancel Messages', () => {
+    it('should round-trip a cancel', () => {
+      const hash = testHash(0x05);
+      const encoded = encodeCancel({ h: hash });
+      const parsed = parseMessage(encoded);
+
+      expect(new Uint8Array(encoded)[0]).toBe(MSG_TYPE_CANCEL);
+      expect(parsed?.type).toBe(MSG_TYPE_CANCEL);
+      expect(parsed?.body).toEqual({ h: hash });
+    });
+  });
+
   describe('Parse Invalid Messages', () => {
     it('should return null for empty data', () => {
       expect(parseMessage(new ArrayBuffer(0))).toBeNull();
@@ -178,6 +237,10 @@ describe('Protocol Wire Format', () => {
     it('should have correct type markers', () => {
       expect(MSG_TYPE_REQUEST).toBe(0x00);
       expect(MSG_TYPE_RESPONSE).toBe(0x01);
+      expect(MSG_TYPE_HAVE).toBe(0x02);
+      expect(MSG_TYPE_HAVE_QUERY).toBe(0x03);
+      expect(MSG_TYPE_HAVE_REPLY).toBe(0x04);
+      expect(MSG_TYPE_CANCEL).toBe(0x05);
     });
 
     it('should have correct fragment size', () => {
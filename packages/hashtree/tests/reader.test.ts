@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { HashTree, verifyTree } from '../src/index.js';
+import { HashTree, verifyTree, DEFAULT_PREFETCH } from '../src/index.js';
 import { MemoryStore } from '../src/store/memory.js';
 import { toHex, LinkType } from '../src/types.js';
 
@@ -278,6 +278,29 @@ describe('HashTree read operations', () => {
 
       expect(total).toEqual(data.slice(200));
     });
+
+    it('should prefetch chunks by default', async () => {
+      const data = new Uint8Array(1000).map((_, i) => i % 256);
+      const { cid } = await tree.putFile(data, { public: true });
+
+      let active = 0;
+      let maxActive = 0;
+      const get = store.get.bind(store);
+      store.get = async (hash) => {
+        maxActive = Math.max(maxActive, ++active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        return get(hash);
+      };
+
+      let length = 0;
+      for await (const chunk of tree.readFileStream(cid)) {
+        length += chunk.length;
+      }
+
+      expect(length).toBe(data.length);
+      expect(maxActive).toBe(DEFAULT_PREFETCH);
+    });
   });
 
   describe('listDirectory', () => {
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  PeerReputation,
+  DEFAULT_REPUTATION_CONFIG,
+  WebRTCStore,
+  MemoryNetwork,
+  MemoryStore,
+  sha256,
+  type WebRTCStoreConfig,
+} from '../src/index.js';
+
+const MB = 1024 * 1024;
+
+describe('PeerReputation', () => {
+  it('should start unknown peers at 0.5', () => {
+    const rep = new PeerReputation();
+    expect(rep.score).toBe(0.5);
+    expect(rep.getStats()).toMatchObject({ bytesSent: 0, bytesReceived: 0, banned: false, freeloader: false });
+  });
+
+  it('should rank fast reliable peers above slow or unreliable ones', () => {
+    const fast = new PeerReputation();
+    const slow = new PeerReputation();
+    const flaky = new PeerReputation();
+    for (let i = 0; i < 10; i++) {
+      fast.recordReceived(1000, 20);
+      slow.recordReceived(1000, 2000);
+      flaky.recordReceived(1000, 20);
+      flaky.recordTimeout();
+    }
+
+    expect(fast.score).toBeGreaterThan(slow.score);
+    expect(fast.score).toBeGreaterThan(flaky.score);
+    expect(fast.score).toBeGreaterThan(new PeerReputation().score);
+    expect(fast.getStats().latencyMs).toBe(20);
+  });
+
+  it('should halve the score per hash mismatch and ban at the limit', () => {
+    const rep = new PeerReputation();
+    rep.recordReceived(1000, 100);
+    const before = rep.score;
+
+    rep.recordHashMismatch();
+    expect(rep.score).toBeCloseTo(before / 2);
+    expect(rep.isBanned).toBe(false);
+
+    for (let i = 1; i < DEFAULT_REPUTATION_CONFIG.maxHashMismatches; i++) rep.recordHashMismatch();
+    expect(rep.isBanned).toBe(true);
+    expect(rep.score).toBe(0);
+  });
+
+  it('should flag freeloaders only past the free allowance', () => {
+    const rep = new PeerReputation({ ...DEFAULT_REPUTATION_CONFIG, freeBytes: 10 * MB });
+    rep.recordSent(8 * MB);
+    expect(rep.isFreeloader).toBe(false);
+
+    rep.recordSent(8 * MB);
+    expect(rep.isFreeloader).toBe(true);
+
+    // Giving back restores the ratio
+    rep.recordReceived(2 * MB, 50);
+    expect(rep.isFreeloader).toBe(false);
+  });
+
+  it('should rate limit requests, tighter for freeloaders', () => {
+    const config = { ...DEFAULT_REPUTATION_CONFIG, requestRate: 10, freeloaderRequestRate: 2, freeBytes: 0 };
+    const now = 1_000_000;
+    const rep = new PeerReputation(config, now);
+
+    let allowed = 0;
+    for (let i = 0; i < 20; i++) if (rep.allowRequest(now)) allowed++;
+    expect(allowed).toBe(10);
+    expect(rep.getStats().requestsThrottled).toBe(10);
+
+    // Refills over time
+    expect(rep.allowRequest(now + 500)).toBe(true);
+
+    rep.recordSent(1000);
+    allowed = 0;
+    for (let i = 0; i < 10; i++) if (rep.allowRequest(now + 5000)) allowed++;
+    expect(allowed).toBe(2);
+  });
+});
+
+describe('WebRTCStore reputation', () => {
+  const PUBKEYS = ['a', 'b', 'c'].map(c => c.repeat(64));
+  // Satisfied with one peer, so misses don't wait for more peers to connect
+  const pools = { follows: { maxConnections: 2, satisfiedConnections: 0 }, other: { maxConnections: 3, satisfiedConnections: 1 } };
+  let network: MemoryNetwork;
+  let stores: WebRTCStore[] = [];
+
+  function createStore(pubkey: string, config: Partial<WebRTCStoreConfig> = {}) {
+    const localStore = new MemoryStore();
+    const store = new WebRTCStore({
+      pubkey,
+      transport: network.createTransport(),
+      localStore,
+      pools,
+      requestTimeout: 100,
+      peerQueryDelay: 50,
+      ...config,
+    });
+    stores.push(store);
+    store.start();
+    return { store, localStore };
+  }
+
+  /** Reputation of the connected peers with this pubkey */
+  function reputationOf(store: WebRTCStore, pubkey: string) {
+    return [...store.getStats().perPeer.values()].find(p => p.pubkey === pubkey)?.reputation;
+  }
+
+  async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+    const start = Date.now();
+    while (!condition()) {
+      if (Date.now() - start > timeout) throw new Error('Timed out waiting for condition');
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  }
+
+  const blocking = (...pubkeys: string[]) => ({ isPeerBlocked: (pubkey: string) => pubkeys.includes(pubkey) });
+
+  beforeEach(() => {
+    network = new MemoryNetwork();
+  });
+
+  afterEach(() => {
+    for (const store of stores) store.stop();
+    stores = [];
+  });
+
+  it('should not count misses and hedged requests as timeouts', async () => {
+    const a = createStore(PUBKEYS[0]);
+    createStore(PUBKEYS[1], blocking(PUBKEYS[2]));
+    const c = createStore(PUBKEYS[2], blocking(PUBKEYS[1]));
+    await waitFor(() => a.store.getConnectedCount() === 2);
+
+    const data = new TextEncoder().encode('only c has this');
+    const hash = await sha256(data);
+    await c.localStore.put(hash, data);
+    expect(await a.store.get(hash)).toEqual(data);
+    expect(await a.store.get(await sha256(new TextEncoder().encode('nobody has this')))).toBeNull();
+
+    expect(reputationOf(a.store, PUBKEYS[1])?.timeouts).toBe(0);
+    expect(reputationOf(a.store, PUBKEYS[2])).toMatchObject({ timeouts: 0, responses: 1 });
+  });
+
+  it('should count unanswered requests to peers that announced the hash', async () => {
+    const a = createStore(PUBKEYS[0]);
+    const b = createStore(PUBKEYS[1]);
+    await waitFor(() => a.store.getConnectedCount() === 1);
+
+    // b claims a root it doesn't have
+    const root = await sha256(new TextEncoder().encode('announced but missing'));
+    b.store.announceRoot(root);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(await a.store.get(root)).toBeNull();
+    expect(reputationOf(a.store, PUBKEYS[1])?.timeouts).toBe(1);
+  });
+
+  it('should close every connection of a banned pubkey', async () => {
+    // Two sessions of the same pubkey, as follows so both may connect
+    const a = createStore(PUBKEYS[0], {
+      peerClassifier: () => 'follows',
+      getFollowedPubkeys: () => [PUBKEYS[1]],
+      pools: { follows: { maxConnections: 2, satisfiedConnections: 0 }, other: { maxConnections: 0, satisfiedConnections: 0 } },
+      reputation: { maxHashMismatches: 1 },
+    });
+    const bad = createStore(PUBKEYS[1], blocking(PUBKEYS[1]));
+    createStore(PUBKEYS[1], blocking(PUBKEYS[1]));
+    await waitFor(() => a.store.getConnectedCount() === 2);
+
+    const data = new TextEncoder().encode('the real data');
+    const hash = await sha256(data);
+    await bad.localStore.put(hash, new TextEncoder().encode('something else'));
+
+    expect(await a.store.get(hash)).toBeNull();
+    await waitFor(() => a.store.getPeers().length === 0);
+  });
+
+  it('should forget the reputation of the least recently seen peers', async () => {
+    const a = createStore(PUBKEYS[0], { reputation: { maxPeers: 1 } });
+    let b = createStore(PUBKEYS[1]);
+    await waitFor(() => a.store.getConnectedCount() === 1);
+
+    const data = new TextEncoder().encode('from b');
+    const hash = await sha256(data);
+    await b.localStore.put(hash, data);
+    await a.store.get(hash);
+    expect(reputationOf(a.store, PUBKEYS[1])?.responses).toBe(1);
+
+    b.store.stop();
+    createStore(PUBKEYS[2]);
+    await waitFor(() => a.store.getConnectedCount() === 1 && !!reputationOf(a.store, PUBKEYS[2]));
+
+    b = createStore(PUBKEYS[1]);
+    await waitFor(() => a.store.getConnectedCount() === 2);
+    expect(reputationOf(a.store, PUBKEYS[1])?.responses).toBe(0);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  HashTree,
+  MemoryStore,
+  LinkType,
+  decryptChk,
+  decryptKeyFromLink,
+  generateLinkKey,
+  computeKeyId,
+  encryptChk,
+  keyedContentHash,
+  toHex,
+  fromHex,
+  type CID,
+} from '../src/index.js';
+import { createNostrRefResolver, ROOT_HISTORY_KIND, type NostrPublishEvent } from '../src/resolver/nostr.js';
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+describe('key rotation', () => {
+  let store: MemoryStore;
+  let tree: HashTree;
+  let root: CID;
+  let file: CID;
+  const content = 'the quick brown fox jumps over the lazy dog';
+
+  beforeEach(async () => {
+    store = new MemoryStore();
+    tree = new HashTree({ store, chunkSize: 16 });
+    file = (await tree.putFile(text(content))).cid;
+    const { cid: sub } = await tree.putDirectory([
+      { name: 'copy.txt', cid: file, size: content.length, type: LinkType.File },
+    ]);
+    root = (await tree.putDirectory([
+      { name: 'fox.txt', cid: file, size: content.length, type: LinkType.File },
+      { name: 'sub', cid: sub, size: content.length, type: LinkType.Dir },
+    ])).cid;
+  });
+
+  it('should derive keyed CHK keys that differ per secret', async () => {
+    const data = text('same content');
+    const a = await encryptChk(data, generateLinkKey());
+    const b = await encryptChk(data, generateLinkKey());
+
+    expect(toHex(a.key)).not.toBe(toHex(b.key));
+    expect(toHex(a.ciphertext)).not.toBe(toHex(b.ciphertext));
+    expect(await decryptChk(a.ciphertext, a.key)).toEqual(data);
+
+    const secret = generateLinkKey();
+    expect(toHex((await encryptChk(data, secret)).key)).toBe(toHex(await keyedContentHash(data, secret)));
+  });
+
+  it('should re-encrypt every block and keep the content', async () => {
+    const result = await tree.rotateKeys(root, { visibility: 'link-visible' });
+
+    expect(toHex(result.cid.hash)).not.toBe(toHex(root.hash));
+    expect((await tree.listDirectory(result.cid)).map(e => e.name)).toEqual(['fox.txt', 'sub']);
+    const copy = await tree.resolvePath(result.cid, 'sub/copy.txt');
+    expect(new TextDecoder().decode((await tree.readFile(copy!.cid))!)).toBe(content);
+
+    // Old keys decrypt nothing in the rotated tree
+    const rootBlock = await store.get(result.cid.hash);
+    await expect(decryptChk(rootBlock!, root.key!)).rejects.toThrow();
+
+    const oldChunkKeys = (await tree.getTreeNode(file))!.links.map(l => l.key!);
+    const fox = await tree.resolvePath(result.cid, 'fox.txt');
+    const newChunks = (await tree.getTreeNode(fox!.cid))!.links;
+    expect(newChunks).toHaveLength(oldChunkKeys.length);
+    for (const [i, link] of newChunks.entries()) {
+      await expect(decryptChk((await store.get(link.hash))!, oldChunkKeys[i])).rejects.toThrow();
+    }
+
+    // The file shared by both directories is rotated once
+    expect(toHex(copy!.cid.hash)).toBe(toHex(fox!.cid.hash));
+  });
+
+  it('should wrap the new root key with a new link key', async () => {
+    const oldKeyId = toHex(await computeKeyId(generateLinkKey()));
+    const result = await tree.rotateKeys(root, {
+      visibility: 'link-visible',
+      previousKeyIds: [oldKeyId, oldKeyId],
+      selfEncrypt: async keyHex => `sealed:${keyHex}`,
+    });
+    const { encryptedKey, keyId, selfEncryptedKey } = result.visibilityInfo;
+
+    expect(keyId).toBe(toHex(await computeKeyId(result.linkKey!)));
+    const unwrapped = await decryptKeyFromLink(fromHex(encryptedKey!), result.linkKey!);
+    expect(toHex(unwrapped!)).toBe(toHex(result.cid.key!));
+    expect(selfEncryptedKey).toBe(`sealed:${toHex(result.cid.key!)}`);
+    expect(result.invalidatedKeyIds).toEqual([oldKeyId]);
+  });
+
+  it('should keep a reused link key valid', async () => {
+    const linkKey = generateLinkKey();
+    const keyId = toHex(await computeKeyId(linkKey));
+    const result = await tree.rotateKeys(root, { visibility: 'link-visible', linkKey, previousKeyIds: [keyId] });
+
+    expect(result.visibilityInfo.keyId).toBe(keyId);
+    expect(result.invalidatedKeyIds).toEqual([]);
+  });
+
+  it('should rotate chunked directories', async () => {
+    const entries = [];
+    for (let i = 0; i < 20; i++) {
+      entries.push({ name: `file-${i}.txt`, cid: file, size: content.length, type: LinkType.File });
+    }
+    const { cid: big } = await tree.putDirectory(entries);
+    expect((await tree.getTreeNode(big))!.type).toBe(LinkType.File);
+
+    const result = await tree.rotateKeys(big, { visibility: 'private', selfEncrypt: async k => k });
+    const listed = await tree.listDirectory(result.cid);
+
+    expect(listed).toHaveLength(20);
+    const entry = await tree.resolvePath(result.cid, 'file-7.txt');
+    expect(new TextDecoder().decode((await tree.readFile(entry!.cid))!)).toBe(content);
+    expect(result.visibilityInfo.encryptedKey).toBeUndefined();
+  });
+
+  it('should re-encrypt the root key for every member of a shared tree', async () => {
+    const result = await tree.rotateKeys(root, {
+      visibility: 'shared',
+      encryptForRecipients: async keyHex => ({ alice: `alice:${keyHex}`, bob: `bob:${keyHex}` }),
+    });
+
+    expect(result.visibilityInfo.recipientKeys).toEqual({
+      alice: `alice:${toHex(result.cid.key!)}`,
+      bob: `bob:${toHex(result.cid.key!)}`,
+    });
+    expect(result.linkKey).toBeUndefined();
+    await expect(tree.rotateKeys(root, { visibility: 'shared' })).rejects.toThrow('encryptForRecipients');
+  });
+
+  it('should reject unencrypted roots and private rotation without selfEncrypt', async () => {
+    const { cid: plain } = await tree.putFile(text(content), { public: true });
+    await expect(tree.rotateKeys(plain, { visibility: 'link-visible' })).rejects.toThrow('unencrypted tree');
+    await expect(tree.rotateKeys(root, { visibility: 'private' })).rejects.toThrow('selfEncrypt');
+  });
+
+  it('should keep using the rotated secret for later edits', async () => {
+    const result = await tree.rotateKeys(root, { visibility: 'link-visible' });
+    tree.setConvergenceSecret(result.convergenceSecret);
+
+    const data = text('edited later');
+    const { cid: added } = await tree.putFile(data);
+    expect(toHex(added.key!)).toBe(toHex(await keyedContentHash(data, result.convergenceSecret)));
+    expect(toHex(added.key!)).not.toBe(toHex((await encryptChk(data)).key));
+
+    const edited = await tree.setEntry(result.cid, ['sub'], 'new.txt', added, data.length, LinkType.File);
+    const sub = await tree.resolvePath(edited, 'sub');
+    const subBlock = await store.get(sub!.cid.hash);
+    const subKey = await keyedContentHash(await decryptChk(subBlock!, sub!.cid.key!), result.convergenceSecret);
+    expect(toHex(sub!.cid.key!)).toBe(toHex(subKey));
+
+    const stream = tree.createStream();
+    await stream.append(data);
+    expect(toHex((await stream.finalize()).key!)).toBe(toHex(added.key!));
+  });
+
+  it('should republish with wrapped key tags only', async () => {
+    const published: NostrPublishEvent[] = [];
+    const resolver = createNostrRefResolver({
+      subscribe: () => () => {},
+      publish: async event => {
+        published.push(event);
+        return true;
+      },
+      getPubkey: () => 'ab'.repeat(32),
+      nip19: {
+        decode: () => ({ type: 'npub', data: 'ab'.repeat(32) }),
+        npubEncode: () => 'npub1test',
+      },
+    });
+
+    const result = await tree.rotateKeys(root, {
+      visibility: 'link-visible',
+      publish: { resolver, key: 'npub1test/docs' },
+    });
+
+    expect(published.map(e => e.kind)).toEqual([30078, ROOT_HISTORY_KIND]);
+    expect(published[1].tags).toEqual(published[0].tags);
+    const tags = Object.fromEntries(published[0].tags.map(([name, value]) => [name, value]));
+    expect(tags.hash).toBe(toHex(result.cid.hash));
+    expect(tags.key).toBeUndefined();
+    expect(tags.encryptedKey).toBe(result.visibilityInfo.encryptedKey);
+    expect(tags.keyId).toBe(result.visibilityInfo.keyId);
+  });
+});
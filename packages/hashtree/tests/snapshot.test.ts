@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools';
+import {
+  HashTree,
+  MemoryStore,
+  createTreeSnapshot,
+  snapshotToEvent,
+  snapshotFromEvent,
+  verifyTreeSnapshot,
+  nsnapEncode,
+  nsnapDecode,
+  decode,
+  isNSnap,
+  toHex,
+  TREE_SNAPSHOT_KIND,
+  type CID,
+  type SnapshotSigner,
+} from '../src/index.js';
+
+const secretKey = generateSecretKey();
+const pubkey = getPublicKey(secretKey);
+const signer: SnapshotSigner = async template => finalizeEvent(template, secretKey);
+
+async function encryptedRoot(): Promise<CID> {
+  const tree = new HashTree({ store: new MemoryStore() });
+  return (await tree.putFile(new TextEncoder().encode('snapshot me'))).cid;
+}
+
+describe('tree snapshots', () => {
+  it('should sign and verify a snapshot', async () => {
+    const root = await encryptedRoot();
+    const snapshot = await createTreeSnapshot(signer, 'photos', root, 1700000000);
+
+    expect(snapshot.pubkey).toBe(pubkey);
+    expect(snapshot.createdAt).toBe(1700000000);
+    expect(verifyTreeSnapshot(snapshot)).toBe(true);
+
+    const event = snapshotToEvent(snapshot);
+    expect(event.kind).toBe(TREE_SNAPSHOT_KIND);
+    expect(event.tags).toContainEqual(['hash', toHex(root.hash)]);
+    // The key grants access, it is not part of the signed event
+    expect(JSON.stringify(event)).not.toContain(toHex(root.key!));
+  });
+
+  it('should reject tampered snapshots', async () => {
+    const snapshot = await createTreeSnapshot(signer, 'photos', await encryptedRoot());
+    const other = getPublicKey(generateSecretKey());
+
+    expect(verifyTreeSnapshot({ ...snapshot, treeName: 'videos' })).toBe(false);
+    expect(verifyTreeSnapshot({ ...snapshot, createdAt: snapshot.createdAt + 1 })).toBe(false);
+    expect(verifyTreeSnapshot({ ...snapshot, pubkey: other })).toBe(false);
+    expect(verifyTreeSnapshot({ ...snapshot, cid: { hash: new Uint8Array(32) } })).toBe(false);
+    expect(verifyTreeSnapshot({ ...snapshot, cid: { hash: snapshot.cid.hash } })).toBe(true);
+  });
+
+  it('should reject signers that sign something else', async () => {
+    const cheat: SnapshotSigner = async template => finalizeEvent({ ...template, content: 'other' }, secretKey);
+    await expect(createTreeSnapshot(cheat, 'photos', await encryptedRoot())).rejects.toThrow('invalid snapshot');
+  });
+
+  it('should read snapshots from events', async () => {
+    const root = await encryptedRoot();
+    const snapshot = await createTreeSnapshot(signer, 'photos', root);
+    const event = snapshotToEvent(snapshot);
+
+    const read = snapshotFromEvent(event, root.key);
+    expect(read).toEqual(snapshot);
+    expect(() => snapshotFromEvent({ ...event, kind: 30078 })).toThrow('Not a tree snapshot');
+    expect(() => snapshotFromEvent({ ...event, tags: [...event.tags, ['x', '1']] })).toThrow('unexpected tags');
+  });
+
+  it('should round-trip through nsnap and verify offline', async () => {
+    const root = await encryptedRoot();
+    const snapshot = await createTreeSnapshot(signer, 'home/docs', root);
+    const encoded = nsnapEncode(snapshot);
+
+    expect(isNSnap(encoded)).toBe(true);
+    const decoded = nsnapDecode(encoded);
+    expect(decoded).toEqual(snapshot);
+    expect(verifyTreeSnapshot(decoded)).toBe(true);
+
+    const generic = decode(`hashtree:${encoded}`);
+    expect(generic.type).toBe('nsnap');
+
+    // Without the key the snapshot still verifies
+    const withoutKey = nsnapDecode(nsnapEncode({ ...snapshot, cid: { hash: root.hash } }));
+    expect(withoutKey.cid.key).toBeUndefined();
+    expect(verifyTreeSnapshot(withoutKey)).toBe(true);
+  });
+
+  it('should reject malformed nsnap input', async () => {
+    const snapshot = await createTreeSnapshot(signer, 'photos', await encryptedRoot());
+    expect(() => nsnapEncode({ ...snapshot, sig: 'abcd' })).toThrow('Signature must be 64 bytes');
+    expect(() => nsnapEncode({ ...snapshot, createdAt: -1 })).toThrow('Invalid snapshot timestamp');
+    expect(() => nsnapDecode('nhash1qqqqqqqq')).toThrow();
+  });
+});
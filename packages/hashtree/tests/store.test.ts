@@ -1,7 +1,11 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { MemoryStore } from '../src/store/memory.js';
+import { VerifyingStore, type VerifyingStoreEvent } from '../src/store/verifying.js';
+import { TieredStore } from '../src/store/tiered.js';
+import { HashTree } from '../src/hashtree.js';
 import { sha256 } from '../src/hash.js';
-import { toHex } from '../src/types.js';
+import { getMany, putMany, hasMany } from '../src/store/batch.js';
+import { toHex, type Store } from '../src/types.js';
 
 describe('MemoryStore', () => {
   let store: MemoryStore;
@@ -175,4 +179,266 @@ describe('MemoryStore', () => {
       expect(hexKeys).toEqual(expectedKeys);
     });
   });
+
+  describe('batch operations', () => {
+    it('should get, put and check several blocks in order', async () => {
+      const blocks = await Promise.all([1, 2, 3].map(async n => {
+        const data = new Uint8Array([n]);
+        return { hash: await sha256(data), data };
+      }));
+      const missing = await sha256(new Uint8Array([4]));
+
+      expect(await store.putMany(blocks.slice(0, 2))).toEqual([true, true]);
+      expect(await store.putMany(blocks)).toEqual([false, false, true]);
+      expect(await store.hasMany([blocks[2].hash, missing])).toEqual([true, false]);
+
+      const results = await store.getMany([blocks[1].hash, missing, blocks[0].hash]);
+      expect(results).toEqual([blocks[1].data, null, blocks[0].data]);
+    });
+
+    it('should fall back to single operations for stores without batch methods', async () => {
+      const data = new Uint8Array([1]);
+      const hash = await sha256(data);
+      const plain: Store = {
+        put: (h, d) => store.put(h, d),
+        get: h => store.get(h),
+        has: h => store.has(h),
+        delete: h => store.delete(h),
+      };
+
+      expect(await putMany(plain, [{ hash, data }])).toEqual([true]);
+      expect(await hasMany(plain, [hash])).toEqual([true]);
+      expect(await getMany(plain, [hash])).toEqual([data]);
+    });
+  });
+});
+
+describe('VerifyingStore', () => {
+  let primary: MemoryStore;
+  let backup: MemoryStore;
+  const data = new Uint8Array([1, 2, 3]);
+  const corrupted = new Uint8Array([6, 6, 6]);
+
+  beforeEach(() => {
+    primary = new MemoryStore();
+    backup = new MemoryStore();
+  });
+
+  it('should return data whose hash matches', async () => {
+    const hash = await sha256(data);
+    await primary.put(hash, data);
+
+    const store = new VerifyingStore(primary);
+    expect(await store.get(hash)).toEqual(data);
+    expect(store.corruptions).toBe(0);
+  });
+
+  it('should fall through to the next store on mismatch and report it', async () => {
+    const hash = await sha256(data);
+    await primary.put(hash, corrupted);
+    await backup.put(hash, data);
+
+    const store = new VerifyingStore([primary, backup]);
+    const events: VerifyingStoreEvent[] = [];
+    store.on(e => events.push(e));
+
+    expect(await store.get(hash)).toEqual(data);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'corrupt', index: 0, store: primary });
+    expect(toHex(events[0].hash)).toBe(toHex(hash));
+    // Not repaired by default
+    expect(await primary.get(hash)).toEqual(corrupted);
+  });
+
+  it('should return null when every copy is corrupted', async () => {
+    const hash = await sha256(data);
+    await primary.put(hash, corrupted);
+
+    const store = new VerifyingStore(primary);
+    expect(await store.get(hash)).toBeNull();
+    expect(store.corruptions).toBe(1);
+  });
+
+  it('should repair corrupted copies when enabled', async () => {
+    const hash = await sha256(data);
+    await primary.put(hash, corrupted);
+    await backup.put(hash, data);
+
+    const store = new VerifyingStore([primary, backup], { repair: true });
+    const events: VerifyingStoreEvent[] = [];
+    store.on(e => events.push(e));
+
+    await store.get(hash);
+    expect(events.map(e => e.type)).toEqual(['corrupt', 'repaired']);
+    expect(await primary.get(hash)).toEqual(data);
+  });
+
+  it('should verify batched reads and fall back per block', async () => {
+    const other = new Uint8Array([4, 5, 6]);
+    const [hash, otherHash, missing] = await Promise.all([sha256(data), sha256(other), sha256(new Uint8Array([7]))]);
+    await primary.put(hash, corrupted);
+    await primary.put(otherHash, other);
+    await backup.put(hash, data);
+
+    const store = new VerifyingStore([primary, backup]);
+    expect(await store.getMany([hash, otherHash, missing])).toEqual([data, other, null]);
+    expect(store.corruptions).toBe(1);
+  });
+
+  it('should write and delete through the first store only', async () => {
+    const hash = await sha256(data);
+    const store = new VerifyingStore([primary, backup]);
+    await backup.put(hash, data);
+
+    await store.put(hash, data);
+    expect(await primary.has(hash)).toBe(true);
+
+    await store.delete(hash);
+    expect(await primary.has(hash)).toBe(false);
+    expect(await backup.has(hash)).toBe(true);
+    expect(await store.has(hash)).toBe(true);
+  });
+
+  it('should be used by HashTree with verify: true', async () => {
+    const tree = new HashTree({ store: primary, verify: true });
+    const { cid } = await tree.putFile(new TextEncoder().encode('hello'), { public: true });
+    await primary.delete(cid.hash);
+    await primary.put(cid.hash, corrupted);
+
+    expect(tree.getStore()).toBeInstanceOf(VerifyingStore);
+    expect(await tree.readFile(cid)).toBeNull();
+    expect(await new HashTree({ store: primary }).readFile(cid)).toEqual(corrupted);
+  });
+});
+
+describe('TieredStore', () => {
+  let fast: MemoryStore;
+  let slow: MemoryStore;
+
+  beforeEach(() => {
+    fast = new MemoryStore();
+    slow = new MemoryStore();
+  });
+
+  async function block(n: number, size = 10): Promise<{ hash: Uint8Array; data: Uint8Array }> {
+    const data = new Uint8Array(size).fill(n);
+    return { hash: await sha256(data), data };
+  }
+
+  it('should read through and cache hits from slower tiers', async () => {
+    const { hash, data } = await block(1);
+    await slow.put(hash, data);
+
+    const store = new TieredStore([fast, slow]);
+    expect(await store.get(hash)).toEqual(data);
+    expect(await fast.has(hash)).toBe(true);
+
+    await store.get(hash);
+    const stats = store.getStats();
+    expect(stats.tiers.map(t => t.hits)).toEqual([1, 1]);
+    expect(stats.misses).toBe(0);
+  });
+
+  it('should not cache into tiers with caching disabled', async () => {
+    const { hash, data } = await block(1);
+    await slow.put(hash, data);
+
+    const store = new TieredStore([{ store: fast, cache: false }, slow]);
+    await store.get(hash);
+    expect(await fast.has(hash)).toBe(false);
+  });
+
+  it('should write through to all writable tiers', async () => {
+    const readOnly = new MemoryStore();
+    const { hash, data } = await block(1);
+
+    const store = new TieredStore([fast, slow, { store: readOnly, readOnly: true }]);
+    expect(await store.put(hash, data)).toBe(true);
+    expect(await fast.has(hash)).toBe(true);
+    expect(await slow.has(hash)).toBe(true);
+    expect(await readOnly.has(hash)).toBe(false);
+  });
+
+  it('should write back lower tiers on flush', async () => {
+    const { hash, data } = await block(1);
+
+    const store = new TieredStore([fast, slow], { writePolicy: 'write-back', flushDelay: 0 });
+    await store.put(hash, data);
+    expect(await slow.has(hash)).toBe(false);
+    expect(store.getStats().pendingWrites).toBe(1);
+
+    await store.flush();
+    expect(await slow.has(hash)).toBe(true);
+    expect(store.getStats().pendingWrites).toBe(0);
+  });
+
+  it('should keep failed write-back blocks pending', async () => {
+    const { hash, data } = await block(1);
+    const failing = {
+      put: async () => { throw new Error('offline'); },
+      get: async () => null,
+      has: async () => false,
+      delete: async () => false,
+    };
+
+    const store = new TieredStore([fast, failing], { writePolicy: 'write-back', flushDelay: 0 });
+    await store.put(hash, data);
+    await store.flush();
+
+    const stats = store.getStats();
+    expect(stats.pendingWrites).toBe(1);
+    expect(stats.tiers[1].errors).toBe(1);
+  });
+
+  it('should evict least recently used blocks over quota', async () => {
+    const store = new TieredStore([{ store: fast, maxBytes: 25 }, slow]);
+    const a = await block(1);
+    const b = await block(2);
+    const c = await block(3);
+
+    await store.put(a.hash, a.data);
+    await store.put(b.hash, b.data);
+    await store.get(a.hash); // a is now more recent than b
+    await store.put(c.hash, c.data);
+
+    expect(await fast.has(a.hash)).toBe(true);
+    expect(await fast.has(b.hash)).toBe(false);
+    expect(await fast.has(c.hash)).toBe(true);
+    expect(await store.get(b.hash)).toEqual(b.data);
+
+    const stats = store.getStats();
+    expect(stats.tiers[0].evictions).toBeGreaterThanOrEqual(1);
+    expect(stats.tiers[0].bytes).toBeLessThanOrEqual(25);
+  });
+
+  it('should batch reads across tiers and cache hits', async () => {
+    const a = await block(1);
+    const b = await block(2);
+    const c = await block(3);
+    await fast.put(a.hash, a.data);
+    await slow.put(b.hash, b.data);
+
+    const store = new TieredStore([fast, slow]);
+    expect(await store.getMany([a.hash, b.hash, c.hash])).toEqual([a.data, b.data, null]);
+    expect(await fast.has(b.hash)).toBe(true);
+
+    const stats = store.getStats();
+    expect(stats.tiers.map(t => t.hits)).toEqual([1, 1]);
+    expect(stats.misses).toBe(1);
+  });
+
+  it('should skip tiers that throw on read', async () => {
+    const { hash, data } = await block(1);
+    await slow.put(hash, data);
+    const broken = {
+      put: async () => false,
+      get: async () => { throw new Error('broken'); },
+      has: async () => false,
+      delete: async () => false,
+    };
+
+    const store = new TieredStore([broken, slow]);
+    expect(await store.get(hash)).toEqual(data);
+    expect(store.getStats().tiers[0].errors).toBe(1);
+  });
 });
@@ -0,0 +1,243 @@
+import { describe, it, expect } from 'vitest';
+import { SwarmFetcher, sha256, toHex, type SwarmPeer } from '../src/index.js';
+import { MAX_HTL } from '../src/webrtc/types.js';
+
+/**
+ * Fake peer answering from a block map after a delay
+ */
+class FakePeer implements SwarmPeer {
+  requests: string[] = [];
+  htls: number[] = [];
+  cancelled: string[] = [];
+  noted: string[] = [];
+  inFlight = 0;
+  maxInFlight = 0;
+  private pending = new Map<string, (data: Uint8Array | null) => void>();
+
+  constructor(
+    readonly peerId: string,
+    private blocks: Map<string, Uint8Array>,
+    private latency = 5,
+    private holds?: Set<string>
+  ) {}
+
+  hasHash(hash: Uint8Array): boolean {
+    return this.holds?.has(toHex(hash)) ?? false;
+  }
+
+  request(hash: Uint8Array, htl = MAX_HTL): Promise<Uint8Array | null> {
+    const key = toHex(hash);
+    this.requests.push(key);
+    this.htls.push(htl);
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    return new Promise(resolve => {
+      const done = (data: Uint8Array | null) => {
+        if (!this.pending.delete(key)) return;
+        this.inFlight--;
+        resolve(data);
+      };
+      this.pending.set(key, done);
+      setTimeout(() => done(this.blocks.get(key) ?? null), this.latency);
+    });
+  }
+
+  noteBlock(hash: Uint8Array): void {
+    this.noted.push(toHex(hash));
+  }
+
+  cancelRequest(hash: Uint8Array): void {
+    const key = toHex(hash);
+    this.cancelled.push(key);
+    this.pending.get(key)?.(null);
+  }
+}
+
+async function makeBlocks(count: number) {
+  const blocks = new Map<string, Uint8Array>();
+  const hashes: Uint8Array[] = [];
+  for (let i = 0; i < count; i++) {
+    const data = new TextEncoder().encode(`block ${i}`);
+    const hash = await sha256(data);
+    blocks.set(toHex(hash), data);
+    hashes.push(hash);
+  }
+  return { blocks, hashes };
+}
+
+describe('SwarmFetcher', () => {
+  it('should spread a batch over peers within in-flight limits', async () => {
+    const { blocks, hashes } = await makeBlocks(40);
+    const peers = [new FakePeer('a', blocks), new FakePeer('b', blocks), new FakePeer('c', blocks)];
+    const swarm = new SwarmFetcher(() => peers, { maxInFlightPerPeer: 4, hedgeDelay: 1000 });
+
+    const results = await swarm.fetchMany(hashes);
+
+    expect(results.map(r => r && new TextDecoder().decode(r))).toEqual(hashes.map((_, i) => `block ${i}`));
+    for (const peer of peers) {
+      expect(peer.requests.length).toBeGreaterThan(0);
+      expect(peer.maxInFlight).toBeLessThanOrEqual(4);
+    }
+    // Each block asked once: no hedging needed
+    expect(peers.reduce((sum, p) => sum + p.requests.length, 0)).toBe(40);
+    expect(swarm.getStats()).toEqual({ wants: 0, inFlight: 0, cancelled: 0 });
+  });
+
+  it('should move on to the next peer when one misses', async () => {
+    const { blocks, hashes } = await makeBlocks(3);
+    const empty = new FakePeer('empty', new Map());
+    const full = new FakePeer('full', blocks);
+    const swarm = new SwarmFetcher(() => [empty, full], { hedgeDelay: 1000 });
+
+    const results = await swarm.fetchMany(hashes);
+    expect(results.every(r => r !== null)).toBe(true);
+    expect(full.requests.length).toBe(3);
+  });
+
+  it('should resolve null when every peer misses', async () => {
+    const { hashes } = await makeBlocks(1);
+    const peers = [new FakePeer('a', new Map()), new FakePeer('b', new Map())];
+    const swarm = new SwarmFetcher(() => peers);
+
+    expect(await swarm.fetch(hashes[0])).toBeNull();
+    expect(peers.every(p => p.requests.length === 1)).toBe(true);
+    expect(await new SwarmFetcher(() => []).fetch(hashes[0])).toBeNull();
+  });
+
+  it('should hedge slow peers and cancel the duplicate', async () => {
+    const { blocks, hashes } = await makeBlocks(1);
+    const slow = new FakePeer('slow', blocks, 200);
+    const fast = new FakePeer('fast', blocks, 5);
+    const swarm = new SwarmFetcher(() => [slow, fast], { hedgeDelay: 20 });
+
+    const data = await swarm.fetch(hashes[0]);
+    expect(data).not.toBeNull();
+    expect(fast.requests).toEqual([toHex(hashes[0])]);
+    expect(slow.cancelled).toEqual([toHex(hashes[0])]);
+    expect(swarm.getStats().cancelled).toBe(1);
+  });
+
+  it('should share one want between concurrent fetches and skip the excluded peer', async () => {
+    const { blocks, hashes } = await makeBlocks(1);
+    const a = new FakePeer('a', blocks);
+    const b = new FakePeer('b', blocks);
+    const swarm = new SwarmFetcher(() => [a, b], { hedgeDelay: 1000 });
+
+    const [first, second] = await Promise.all([
+      swarm.fetch(hashes[0], { excludePeerId: 'a' }),
+      swarm.fetch(hashes[0]),
+    ]);
+    expect(first).toEqual(second);
+    expect(a.requests).toEqual([]);
+    expect(b.requests.length).toBe(1);
+  });
+
+  it('should still ask a peer excluded by one caller for the other callers', async () => {
+    const { blocks, hashes } = await makeBlocks(1);
+    const a = new FakePeer('a', blocks);
+    const b = new FakePeer('b', new Map());
+    const swarm = new SwarmFetcher(() => [a, b], { hedgeDelay: 1000 });
+
+    expect(await swarm.fetch(hashes[0], { excludePeerId: 'a' })).toBeNull();
+    expect(a.requests).toEqual([]);
+
+    const [forwarded, own] = await Promise.all([
+      swarm.fetch(hashes[0], { excludePeerId: 'a' }),
+      swarm.fetch(hashes[0]),
+    ]);
+    expect(forwarded).not.toBeNull();
+    expect(own).toEqual(forwarded);
+    expect(a.requests.length).toBe(1);
+  });
+
+  it('should ask another peer at once when a caller wants a higher htl', async () => {
+    const { blocks, hashes } = await makeBlocks(1);
+    const a = new FakePeer('a', blocks, 100);
+    const b = new FakePeer('b', blocks, 100);
+    const swarm = new SwarmFetcher(() => [a, b], { hedgeDelay: 1000 });
+
+    const forwarded = swarm.fetch(hashes[0], { htl: 2 });
+    const own = swarm.fetch(hashes[0]);
+    expect(a.htls).toEqual([2]);
+    expect(b.htls).toEqual([MAX_HTL]);
+
+    expect(await forwarded).not.toBeNull();
+    expect(await own).not.toBeNull();
+    // Joining with a lower htl doesn't ask anyone new
+    const c = new FakePeer('c', blocks, 100);
+    const low = new SwarmFetcher(() => [a, c], { hedgeDelay: 1000 });
+    const results = Promise.all([low.fetch(hashes[0]), low.fetch(hashes[0], { htl: 2 })]);
+    expect(c.requests).toEqual([]);
+    await results;
+  });
+
+  it('should cancel a want when its only caller aborts', async () => {
+    const { blocks, hashes } = await makeBlocks(1);
+    const slow = new FakePeer('slow', blocks, 200);
+    const swarm = new SwarmFetcher(() => [slow], { hedgeDelay: 1000 });
+    const controller = new AbortController();
+
+    const result = swarm.fetch(hashes[0], { signal: controller.signal });
+    controller.abort();
+
+    expect(await result).toBeNull();
+    expect(slow.cancelled).toEqual([toHex(hashes[0])]);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(swarm.getStats()).toMatchObject({ wants: 0, inFlight: 0 });
+    expect(await swarm.fetch(hashes[0], { signal: controller.signal })).toBeNull();
+  });
+
+  it('should keep a want while other callers wait for it', async () => {
+    const { blocks, hashes } = await makeBlocks(1);
+    const peer = new FakePeer('a', blocks, 20);
+    const swarm = new SwarmFetcher(() => [peer], { hedgeDelay: 1000 });
+    const controller = new AbortController();
+
+    const forwarded = swarm.fetch(hashes[0], { signal: controller.signal });
+    const own = swarm.fetch(hashes[0]);
+    controller.abort();
+
+    expect(await forwarded).toBeNull();
+    expect(await own).not.toBeNull();
+    expect(peer.cancelled).toEqual([]);
+  });
+
+  it('should ask peers known to hold a hash before the others', async () => {
+    const { blocks, hashes } = await makeBlocks(1);
+    const key = toHex(hashes[0]);
+    const first = new FakePeer('first', blocks);
+    const holder = new FakePeer('holder', blocks, 50, new Set([key]));
+    // Listed first and faster, but doesn't hold it
+    const swarm = new SwarmFetcher(() => [first, holder], { hedgeDelay: 1000 });
+
+    expect(await swarm.fetch(hashes[0])).not.toBeNull();
+    expect(first.requests).toEqual([]);
+    expect(holder.requests).toEqual([key]);
+  });
+
+  it('should show fetched blocks to every peer', async () => {
+    const { blocks, hashes } = await makeBlocks(1);
+    const peers = [new FakePeer('a', blocks), new FakePeer('b', new Map())];
+    const swarm = new SwarmFetcher(() => peers, { hedgeDelay: 1000 });
+
+    expect(await swarm.fetch(hashes[0])).not.toBeNull();
+    expect(peers.map(p => p.noted)).toEqual([[toHex(hashes[0])], [toHex(hashes[0])]]);
+
+    const { hashes: missing } = await makeBlocks(2);
+    expect(await swarm.fetch(missing[1])).toBeNull();
+    expect(peers[1].noted).toHaveLength(1);
+  });
+
+  it('should prefer peers that recently had the blocks', async () => {
+    const { blocks, hashes } = await makeBlocks(12);
+    const empty = new FakePeer('empty', new Map());
+    const full = new FakePeer('full', blocks);
+    const swarm = new SwarmFetcher(() => [empty, full], { maxInFlightPerPeer: 1, hedgeDelay: 1000 });
+
+    for (const hash of hashes) {
+      expect(await swarm.fetch(hash)).not.toBeNull();
+    }
+    // After a few misses the empty peer stops being asked first
+    expect(empty.requests.length).toBeLessThan(hashes.length / 2);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  HashTree,
+  MemoryStore,
+  LinkType,
+  bencode,
+  bdecode,
+  parseTorrent,
+  toHex,
+  type CID,
+  type BencodeValue,
+} from '../src/index.js';
+import { sha256, sha1 } from '../src/hash.js';
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+function pattern(length: number, seed: number): Uint8Array {
+  const data = new Uint8Array(length);
+  for (let i = 0; i < length; i++) data[i] = (i * 31 + seed) & 0xff;
+  return data;
+}
+
+describe('bencode', () => {
+  it('should encode values with sorted dictionary keys', () => {
+    const encoded = bencode({ b: 1, a: ['x', -3], c: undefined });
+    expect(new TextDecoder().decode(encoded)).toBe('d1:al1:xi-3ee1:bi1ee');
+  });
+
+  it('should round-trip values', () => {
+    const value = { info: { name: text('file'), length: 42, list: [text('a'), 0] } };
+    expect(bdecode(bencode(value))).toEqual(value);
+  });
+
+  it('should decode binary dictionary keys on request', () => {
+    const key = new Uint8Array([0xff, 0x00, 0x80]);
+    const decoded = bdecode(bencode(new Map([[key, 1]])), { binaryKeys: true });
+
+    expect(decoded).toBeInstanceOf(Map);
+    expect([...(decoded as Map<Uint8Array, BencodeValue>).keys()]).toEqual([key]);
+  });
+
+  it('should decode __proto__ as a plain key', () => {
+    const decoded = bdecode(text('d9:__proto__d8:injectedi1eee')) as Record<string, BencodeValue>;
+
+    expect(Object.getPrototypeOf(decoded)).toBeNull();
+    expect(Object.keys(decoded)).toEqual(['__proto__']);
+    expect(decoded.__proto__).toEqual({ injected: 1 });
+    expect(({} as Record<string, unknown>).injected).toBeUndefined();
+    expect((decoded as Record<string, unknown>).injected).toBeUndefined();
+  });
+
+  it('should reject malformed input', () => {
+    expect(() => bdecode(text('i01e'))).toThrow('bad number');
+    expect(() => bdecode(text('5:abc'))).toThrow('unexpected end');
+    expect(() => bdecode(text('i1ei2e'))).toThrow('trailing data');
+  });
+});
+
+describe('torrents', () => {
+  let tree: HashTree;
+  let root: CID;
+  const big = pattern(100_000, 1);
+  const small = text('small file');
+
+  beforeEach(async () => {
+    tree = new HashTree({ store: new MemoryStore(), chunkSize: 8192 });
+    const { cid: bigCid } = await tree.putFile(big);
+    const { cid: smallCid } = await tree.putFile(small);
+    const { cid: emptyCid } = await tree.putFile(new Uint8Array(0));
+    const { cid: sub } = await tree.putDirectory([
+      { name: 'small.txt', cid: smallCid, size: small.length, type: LinkType.Blob },
+    ]);
+    root = (await tree.putDirectory([
+      { name: 'big.bin', cid: bigCid, size: big.length, type: LinkType.File },
+      { name: 'empty', cid: emptyCid, size: 0, type: LinkType.Blob },
+      { name: 'sub', cid: sub, size: small.length, type: LinkType.Dir },
+    ])).cid;
+  });
+
+  it('should create a v2 torrent with file tree and piece layers', async () => {
+    const result = await tree.createTorrent(root, { name: 'content', pieceLength: 32768 });
+
+    expect(result.files.map(f => f.path.join('/'))).toEqual(['big.bin', 'empty', 'sub/small.txt']);
+    const [bigFile, emptyFile, smallFile] = result.files;
+
+    // 100000 bytes = 4 pieces of 32 KiB
+    expect(bigFile.pieceLayer).toHaveLength(4);
+    expect(emptyFile.piecesRoot).toBeUndefined();
+    // A file of a single block has its block hash as pieces root
+    expect(toHex(smallFile.piecesRoot!)).toBe(toHex(await sha256(small)));
+    expect(smallFile.pieceLayer).toBeUndefined();
+
+    const decoded = bdecode(result.torrent) as { info: Record<string, BencodeValue> };
+    expect(decoded.info['meta version']).toBe(2);
+    expect(decoded.info['piece length']).toBe(32768);
+    expect(decoded.info.pieces).toBeUndefined();
+    expect(toHex(result.infoHash)).toBe(toHex(await sha256(bencode(decoded.info))));
+  });
+
+  it('should round-trip through parseTorrent', async () => {
+    const result = await tree.createTorrent(root, {
+      name: 'content',
+      pieceLength: 32768,
+      announce: ['wss://tracker.example', 'udp://tracker.example:1337'],
+    });
+    const parsed = await parseTorrent(result.torrent);
+
+    expect(parsed.name).toBe('content');
+    expect(parsed.pieceLength).toBe(32768);
+    expect(toHex(parsed.infoHash)).toBe(toHex(result.infoHash));
+    expect(parsed.infoHashV1).toBeUndefined();
+    expect(parsed.announce).toEqual(['wss://tracker.example', 'udp://tracker.example:1337']);
+    expect(parsed.files).toEqual(result.files);
+  });
+
+  it('should keep files named like object properties', async () => {
+    const names = ['__proto__', 'constructor', 'normal.txt'];
+    const entries = await Promise.all(names.map(async name => {
+      const { cid } = await tree.putFile(text(name));
+      return { name, cid, size: name.length, type: LinkType.Blob };
+    }));
+    const { cid: dir } = await tree.putDirectory(entries);
+
+    const result = await tree.createTorrent(dir, { name: 'content' });
+    const parsed = await parseTorrent(result.torrent);
+    expect(parsed.files.map(f => f.path)).toEqual(names.map(name => [name]));
+    // Nothing written onto Object or its prototype
+    expect(Object.hasOwn(Object, '')).toBe(false);
+    expect(Object.hasOwn(Object.prototype, '')).toBe(false);
+  });
+
+  it('should create a hybrid torrent with v1 pieces and pad files', async () => {
+    const pieceLength = 16384;
+    const result = await tree.createTorrent(root, { name: 'content', pieceLength, hybrid: true });
+    const decoded = bdecode(result.torrent) as { info: Record<string, BencodeValue> };
+    const files = decoded.info.files as Array<{ length: number; path: Uint8Array[]; attr?: Uint8Array }>;
+
+    // big.bin is padded to a piece boundary; the empty file needs no padding
+    const pad = pieceLength - (big.length % pieceLength);
+    expect(files.map(f => f.length)).toEqual([big.length, pad, 0, small.length]);
+    expect(new TextDecoder().decode(files[1].attr)).toBe('p');
+
+    // v1 pieces cover the padded concatenation
+    const padded = new Uint8Array(big.length + pad + small.length);
+    padded.set(big);
+    padded.set(small, big.length + pad);
+    const pieces = decoded.info.pieces as Uint8Array;
+    expect(pieces.length).toBe(Math.ceil(padded.length / pieceLength) * 20);
+    expect(toHex(pieces.subarray(0, 20))).toBe(toHex(await sha1(padded.subarray(0, pieceLength))));
+
+    const parsed = await parseTorrent(result.torrent);
+    expect(toHex(parsed.infoHashV1!)).toBe(toHex(result.infoHashV1!));
+    expect(toHex(parsed.infoHash)).toBe(toHex(result.infoHash));
+  });
+
+  it('should create a single-file torrent from a file CID', async () => {
+    const { cid } = await tree.putFile(big, { public: true });
+    const result = await tree.createTorrent(cid, { name: 'big.bin', hybrid: true, pieceLength: 65536 });
+    const decoded = bdecode(result.torrent) as { info: Record<string, BencodeValue> };
+
+    expect(decoded.info.length).toBe(big.length);
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0].path).toEqual(['big.bin']);
+
+    const [check] = await tree.verifyTorrent(cid, result.torrent);
+    expect(check.status).toBe('ok');
+  });
+
+  it('should verify content and report bad pieces', async () => {
+    const { torrent } = await tree.createTorrent(root, { name: 'content', pieceLength: 32768 });
+    expect((await tree.verifyTorrent(root, torrent)).every(r => r.status === 'ok')).toBe(true);
+
+    // Corrupt the third piece of big.bin and drop the small file
+    const tampered = new Uint8Array(big);
+    tampered[70_000] ^= 0xff;
+    const { cid: bigCid } = await tree.putFile(tampered);
+    let other = await tree.setEntry(root, [], 'big.bin', bigCid, tampered.length, LinkType.File);
+    other = await tree.removeEntry(other, ['sub'], 'small.txt');
+
+    const results = await tree.verifyTorrent(other, torrent);
+    expect(results.map(r => [r.path.join('/'), r.status, r.badPieces])).toEqual([
+      ['big.bin', 'mismatch', [2]],
+      ['empty', 'ok', []],
+      ['sub/small.txt', 'missing', [0]],
+    ]);
+  });
+
+  it('should reject piece layers that do not match the pieces root', async () => {
+    const { torrent, files } = await tree.createTorrent(root, { name: 'content', pieceLength: 32768 });
+
+    // Flip a byte inside big.bin's piece layer
+    const decoded = bdecode(torrent, { binaryKeys: true }) as Map<Uint8Array, BencodeValue>;
+    const [, layers] = [...decoded].find(([key]) => new TextDecoder().decode(key) === 'piece layers')!;
+    const [layer] = (layers as Map<Uint8Array, Uint8Array>).values();
+    layer[0] ^= 0xff;
+
+    await expect(parseTorrent(bencode(decoded))).rejects.toThrow('piece layer does not match');
+    expect(files[0].pieceLayer).toHaveLength(4);
+  });
+
+  it('should reject v1-only torrents and bad piece lengths', async () => {
+    const v1 = bencode({ info: { name: 'x', length: 1, 'piece length': 16384, pieces: new Uint8Array(20) } });
+    await expect(parseTorrent(v1)).rejects.toThrow('not BitTorrent v2');
+    await expect(tree.createTorrent(root, { name: 'x', pieceLength: 1000 })).rejects.toThrow('power of 2');
+  });
+});
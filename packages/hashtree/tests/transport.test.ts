@@ -0,0 +1,217 @@
+/**
+ * WebRTCStore over the in-memory and WebSocket transports
+ * @vitest-environment node
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import WebSocket, { WebSocketServer } from 'ws';
+import {
+  WebRTCStore,
+  MemoryNetwork,
+  MemoryStore,
+  WebSocketTransport,
+  attachWebSocketRelay,
+  sha256,
+  type Transport,
+  type WebRTCStoreConfig,
+  type RelayServer,
+} from '../src/index.js';
+import { FRAGMENT_SIZE, PeerId } from '../src/webrtc/types.js';
+
+const PUBKEYS = ['a', 'b', 'c', 'd'].map(c => c.repeat(64));
+
+let stores: WebRTCStore[] = [];
+
+function createStore(transport: Transport, pubkey: string, config: Partial<WebRTCStoreConfig> = {}) {
+  const localStore = new MemoryStore();
+  const store = new WebRTCStore({ pubkey, transport, localStore, ...config });
+  stores.push(store);
+  return { store, localStore };
+}
+
+async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+async function putBlock(store: MemoryStore, data: Uint8Array): Promise<Uint8Array> {
+  const hash = await sha256(data);
+  await store.put(hash, data);
+  return hash;
+}
+
+afterEach(() => {
+  for (const store of stores) store.stop();
+  stores = [];
+});
+
+describe('MemoryNetwork', () => {
+  it('should connect peers and fetch blocks', async () => {
+    const network = new MemoryNetwork();
+    const a = createStore(network.createTransport(), PUBKEYS[0]);
+    const b = createStore(network.createTransport(), PUBKEYS[1]);
+
+    a.store.start();
+    b.store.start();
+    await waitFor(() => a.store.getConnectedCount() === 1 && b.store.getConnectedCount() === 1);
+
+    const data = new TextEncoder().encode('hello from b');
+    const hash = await putBlock(b.localStore, data);
+    expect(await a.store.get(hash)).toEqual(data);
+    // Cached locally after the fetch
+    expect(await a.localStore.has(hash)).toBe(true);
+  });
+
+  it('should reassemble fragmented responses', async () => {
+    const network = new MemoryNetwork({ latency: 1 });
+    const a = createStore(network.createTransport(), PUBKEYS[0]);
+    const b = createStore(network.createTransport(), PUBKEYS[1]);
+    a.store.start();
+    b.store.start();
+    await waitFor(() => a.store.getConnectedCount() === 1);
+
+    const data = new Uint8Array(FRAGMENT_SIZE * 3 + 123).map((_, i) => i % 251);
+    const hash = await putBlock(b.localStore, data);
+
+    expect(await a.store.get(hash)).toEqual(data);
+    expect(a.store.getStats().aggregate.reassembliesCompleted).toBe(1);
+    expect(b.store.getStats().aggregate.fragmentsSent).toBe(4);
+  });
+
+  it('should pace large responses through the connection buffer', async () => {
+    const network = new MemoryNetwork({ latency: 1 });
+    const a = createStore(network.createTransport(), PUBKEYS[0], { requestTimeout: 2000 });
+    const b = createStore(network.createTransport(), PUBKEYS[1]);
+    a.store.start();
+    b.store.start();
+    await waitFor(() => a.store.getConnectedCount() === 1);
+
+    // Well over BUFFER_HIGH_THRESHOLD, so sending has to wait for deliveries
+    const data = new Uint8Array(FRAGMENT_SIZE * 20).map((_, i) => i % 253);
+    const hash = await putBlock(b.localStore, data);
+
+    // Compare hashes: deep equality on large arrays is slow
+    const received = await a.store.get(hash);
+    expect(received && await sha256(received)).toEqual(hash);
+    expect(b.store.getStats().aggregate.fragmentsSent).toBe(20);
+  });
+
+  it('should forward requests through intermediate peers', async () => {
+    const network = new MemoryNetwork();
+    // a and c don't connect to each other, only to b
+    const blocking = (other: string) => ({ isPeerBlocked: (pubkey: string) => pubkey === other });
+    const a = createStore(network.createTransport(), PUBKEYS[0], blocking(PUBKEYS[2]));
+    const b = createStore(network.createTransport(), PUBKEYS[1]);
+    const c = createStore(network.createTransport(), PUBKEYS[2], blocking(PUBKEYS[0]));
+
+    a.store.start();
+    b.store.start();
+    await waitFor(() => a.store.getConnectedCount() === 1);
+    c.store.start();
+    await waitFor(() => b.store.getConnectedCount() === 2 && c.store.getConnectedCount() === 1);
+    expect(a.store.getConnectedCount()).toBe(1);
+
+    const data = new TextEncoder().encode('only c has this');
+    const hash = await putBlock(c.localStore, data);
+
+    expect(await a.store.get(hash)).toEqual(data);
+    // b cached it on the way
+    expect(await b.localStore.has(hash)).toBe(true);
+    expect(b.store.getStats().aggregate.bytesForwarded).toBe(data.length);
+  });
+
+  it('should respect pool limits', async () => {
+    const network = new MemoryNetwork();
+    const pools = { follows: { maxConnections: 0, satisfiedConnections: 0 }, other: { maxConnections: 1, satisfiedConnections: 1 } };
+    const nodes = PUBKEYS.map(pubkey => createStore(network.createTransport(), pubkey, { pools }));
+
+    for (const node of nodes) node.store.start();
+    await waitFor(() => nodes.filter(n => n.store.getConnectedCount() === 1).length >= 2);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    for (const node of nodes) {
+      expect(node.store.getPeers().length).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should close connections when a peer stops', async () => {
+    const network = new MemoryNetwork();
+    const a = createStore(network.createTransport(), PUBKEYS[0]);
+    const b = createStore(network.createTransport(), PUBKEYS[1]);
+    a.store.start();
+    b.store.start();
+    await waitFor(() => a.store.getConnectedCount() === 1);
+
+    b.store.stop();
+    await waitFor(() => a.store.getPeers().length === 0);
+    expect(network.size).toBe(1);
+  });
+});
+
+describe('WebSocketTransport', () => {
+  it('should exchange blocks through a relay', async () => {
+    const server = new WebSocketServer({ port: 0 });
+    await new Promise<void>(resolve => server.once('listening', () => resolve()));
+    attachWebSocketRelay(server as unknown as RelayServer);
+    const url = `ws://127.0.0.1:${(server.address() as { port: number }).port}`;
+    const transport = () => new WebSocketTransport({ url, WebSocket: WebSocket as unknown as typeof globalThis.WebSocket });
+
+    try {
+      const a = createStore(transport(), PUBKEYS[0]);
+      const b = createStore(transport(), PUBKEYS[1]);
+      a.store.start();
+      // Let a join before b says hello
+      await new Promise(resolve => setTimeout(resolve, 100));
+      b.store.start();
+      await waitFor(() => a.store.getConnectedCount() === 1 && b.store.getConnectedCount() === 1);
+
+      const data = new Uint8Array(FRAGMENT_SIZE * 2).fill(7);
+      const hash = await putBlock(a.localStore, data);
+      expect(await b.store.get(hash)).toEqual(data);
+    } finally {
+      for (const store of stores) store.stop();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+  it('should report frames as sent once they left the socket buffer', async () => {
+    /** Socket whose buffer only drains when the test says so */
+    class FakeSocket {
+      static last: FakeSocket;
+      readyState = 1;
+      bufferedAmount = 0;
+      binaryType = '';
+      onopen: (() => void) | null = null;
+      onmessage: (() => void) | null = null;
+      onclose: (() => void) | null = null;
+      constructor() {
+        FakeSocket.last = this;
+      }
+      send(data: string | Uint8Array) {
+        this.bufferedAmount += typeof data === 'string' ? data.length : data.byteLength;
+      }
+      close() {}
+    }
+
+    const transport = new WebSocketTransport({ url: 'ws://relay', WebSocket: FakeSocket as unknown as typeof globalThis.WebSocket });
+    transport.start(new PeerId(PUBKEYS[0]), () => {});
+    const connection = transport.createConnection({
+      peerId: new PeerId(PUBKEYS[1]),
+      myPeerId: 'me',
+      sendSignaling: async () => {},
+    });
+    await connection.handleSignaling({ type: 'answer', answer: { type: 'answer', sdp: '' }, recipient: 'me', peerId: 'them' });
+    let drained = 0;
+    connection.onbufferedamountlow = () => drained++;
+
+    connection.send(new ArrayBuffer(1000));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(connection.bufferedAmount).toBe(1000);
+
+    FakeSocket.last.bufferedAmount = 0;
+    await waitFor(() => connection.bufferedAmount === 0);
+    expect(drained).toBe(1);
+    transport.stop();
+  });
+});
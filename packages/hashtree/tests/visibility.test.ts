@@ -8,7 +8,11 @@ import {
   encryptKeyForLink,
   decryptKeyFromLink,
   visibilityHex,
+  cid,
+  toHex,
+  type SubscribeVisibilityInfo,
 } from '../src/index.js';
+import { createNostrRefResolver, type NostrEvent, type NostrPublishEvent } from '../src/resolver/nostr.js';
 
 describe('visibility', () => {
   describe('generateLinkKey', () => {
@@ -154,4 +158,75 @@ describe('visibility', () => {
       expect(decrypted).toBeNull();
     });
   });
+
+  describe('shared trees', () => {
+    const owner = 'aa'.repeat(32);
+    const alice = 'bb'.repeat(32);
+    const bob = 'cc'.repeat(32);
+
+    function createResolver() {
+      const published: NostrPublishEvent[] = [];
+      const handlers: Array<(event: NostrEvent) => void> = [];
+      const resolver = createNostrRefResolver({
+        subscribe: (_filter, onEvent) => {
+          handlers.push(onEvent);
+          return () => {};
+        },
+        publish: async event => {
+          published.push(event);
+          return true;
+        },
+        getPubkey: () => owner,
+        nip19: {
+          decode: () => ({ type: 'npub', data: owner }),
+          npubEncode: () => 'npub1owner',
+        },
+      });
+      return { resolver, published, handlers };
+    }
+
+    it('should parse per-recipient keys as shared visibility', () => {
+      const { resolver, handlers } = createResolver();
+      const received: Array<SubscribeVisibilityInfo | undefined> = [];
+      resolver.subscribe('npub1owner/team', (_cid, info) => received.push(info));
+
+      handlers[0]({
+        pubkey: owner,
+        kind: 30078,
+        content: '',
+        created_at: 1000,
+        tags: [
+          ['d', 'team'],
+          ['l', 'hashtree'],
+          ['hash', 'ff'.repeat(32)],
+          ['selfEncryptedKey', 'sealed-owner'],
+          ['recipientKey', alice, 'sealed-alice'],
+          ['recipientKey', bob, 'sealed-bob'],
+        ],
+      });
+
+      expect(received).toHaveLength(1);
+      expect(received[0]!.visibility).toBe('shared');
+      expect(received[0]!.recipientKeys).toEqual({ [alice]: 'sealed-alice', [bob]: 'sealed-bob' });
+      expect(received[0]!.selfEncryptedKey).toBe('sealed-owner');
+    });
+
+    it('should publish one recipientKey tag per member and no plain key', async () => {
+      const { resolver, published } = createResolver();
+      const rootKey = generateLinkKey();
+
+      await resolver.publish!('npub1owner/team', cid(new Uint8Array(32).fill(1), rootKey), {
+        visibility: 'shared',
+        selfEncryptedKey: 'sealed-owner',
+        recipientKeys: { [alice]: 'sealed-alice', [bob]: 'sealed-bob' },
+      });
+
+      const tags = published[0].tags;
+      expect(tags.filter(t => t[0] === 'recipientKey')).toEqual([
+        ['recipientKey', alice, 'sealed-alice'],
+        ['recipientKey', bob, 'sealed-bob'],
+      ]);
+      expect(tags.some(t => t[0] === 'key' && t[1] === toHex(rootKey))).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HashTree, MemoryStore, toHex, type CID } from '../src/index.js';
+
+describe('file editing', () => {
+  let store: MemoryStore;
+  let tree: HashTree;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    tree = new HashTree({ store, chunkSize: 10 });
+  });
+
+  const text = (s: string) => new TextEncoder().encode(s);
+  const read = async (id: CID) => new TextDecoder().decode((await tree.readFile(id))!);
+  const content = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+  /** Leaf chunk hashes of a file, in order */
+  async function chunkHashes(id: CID): Promise<string[]> {
+    const node = await tree.getTreeNode(id);
+    return node ? node.links.map(l => toHex(l.hash)) : [toHex(id.hash)];
+  }
+
+  for (const isPublic of [true, false]) {
+    describe(isPublic ? 'public' : 'encrypted', () => {
+      const opts = { public: isPublic };
+      let file: CID;
+
+      beforeEach(async () => {
+        file = (await tree.putFile(text(content), opts)).cid;
+      });
+
+      it('should overwrite bytes in place', async () => {
+        const result = await tree.writeAt(file, 8, text('XYZW'));
+        expect(await read(result)).toBe('01234567XYZWcdefghijklmnopqrstuvwxyz');
+      });
+
+      it('should append and fill up the partial last chunk', async () => {
+        const before = await chunkHashes(file);
+        const { cid, size } = await tree.appendAt(file, text('ABCDEFGH'));
+
+        expect(size).toBe(44);
+        expect(await read(cid)).toBe(content + 'ABCDEFGH');
+
+        const after = await chunkHashes(cid);
+        expect(after.slice(0, 3)).toEqual(before.slice(0, 3));
+        expect(after).toHaveLength(5);
+      });
+
+      it('should append to a single-chunk file', async () => {
+        const { cid: small } = await tree.putFile(text('abc'), opts);
+        const { cid, size } = await tree.appendAt(small, text('defghijklmn'));
+
+        expect(size).toBe(14);
+        expect(await read(cid)).toBe('abcdefghijklmn');
+      });
+
+      it('should truncate and keep earlier chunks', async () => {
+        const before = await chunkHashes(file);
+        const { cid, size } = await tree.truncate(file, 15);
+
+        expect(size).toBe(15);
+        expect(await read(cid)).toBe('0123456789abcde');
+        expect((await chunkHashes(cid))[0]).toBe(before[0]);
+      });
+
+      it('should truncate to a chunk boundary and to zero', async () => {
+        const atBoundary = await tree.truncate(file, 20);
+        expect(await read(atBoundary.cid)).toBe('0123456789abcdefghij');
+        expect(await chunkHashes(atBoundary.cid)).toEqual((await chunkHashes(file)).slice(0, 2));
+
+        const empty = await tree.truncate(file, 0);
+        expect(empty.size).toBe(0);
+        expect(await read(empty.cid)).toBe('');
+      });
+
+      it('should insert in the middle, shifting the rest', async () => {
+        const before = await chunkHashes(file);
+        const { cid, size } = await tree.insertAt(file, 12, text('++'));
+
+        expect(size).toBe(38);
+        expect(await read(cid)).toBe('0123456789ab++cdefghijklmnopqrstuvwxyz');
+        // Only the chunk containing the offset is rewritten
+        const after = await chunkHashes(cid);
+        expect(after[0]).toBe(before[0]);
+        expect(after.slice(-2)).toEqual(before.slice(-2));
+      });
+
+      it('should insert at the start and at the end', async () => {
+        const start = await tree.insertAt(file, 0, text('>'));
+        expect(await read(start.cid)).toBe('>' + content);
+
+        const end = await tree.insertAt(file, content.length, text('<'));
+        expect(await read(end.cid)).toBe(content + '<');
+      });
+
+      it('should delete a range spanning several chunks', async () => {
+        const before = await chunkHashes(file);
+        const { cid, size } = await tree.deleteRange(file, 5, 25);
+
+        expect(size).toBe(16);
+        expect(await read(cid)).toBe('01234pqrstuvwxyz');
+        expect((await chunkHashes(cid)).slice(-1)).toEqual(before.slice(-1));
+      });
+
+      it('should read ranges of edited files', async () => {
+        const { cid } = await tree.insertAt(file, 12, text('++'));
+        const range = await tree.readFileRange(cid, 10, 20);
+        expect(new TextDecoder().decode(range!)).toBe('ab++cdefgh');
+      });
+
+      it('should reject out of range edits', async () => {
+        await expect(tree.truncate(file, 40)).rejects.toThrow('Truncate size out of range');
+        await expect(tree.insertAt(file, 37, text('x'))).rejects.toThrow('Insert beyond end of file');
+        await expect(tree.deleteRange(file, 30, 40)).rejects.toThrow('Delete range out of bounds');
+      });
+    });
+  }
+
+  it('should produce the same tree as putFile for appends at chunk boundaries', async () => {
+    const { cid: file } = await tree.putFile(text('0123456789'), { public: true });
+    const { cid } = await tree.appendAt(file, text('abcdefghij'));
+    const { cid: expected } = await tree.putFile(text('0123456789abcdefghij'), { public: true });
+
+    expect(toHex(cid.hash)).toBe(toHex(expected.hash));
+  });
+
+  it('should refuse to splice a directory', async () => {
+    const { cid: dir } = await tree.putDirectory([], { public: true });
+    await expect(tree.appendAt(dir, text('x'))).rejects.toThrow('Cannot splice a directory');
+  });
+});
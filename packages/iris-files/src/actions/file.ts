@@ -1,7 +1,7 @@
 /**
  * File operations - create, save, upload files
  */
-import { LinkType, type CID } from 'hashtree';
+import { LinkType, modeLinkType, posixMeta, type CID } from 'hashtree';
 import { autosaveIfOwn } from '../nostr';
 import { getTree } from '../store';
 import { markFilesChanged } from '../stores/recentlyChanged';
@@ -275,8 +275,12 @@ export async function uploadExtractedFiles(archiveData: Uint8Array, archiveName:
       await new Promise(r => setTimeout(r, 0));
     }
 
-    // Store the file
-    const { cid: fileCid, size } = await tree.putFile(file.data);
+    // Store the file, keeping symlinks and unix modes from the archive
+    const type = file.mode !== undefined && modeLinkType(file.mode) === LinkType.Symlink ? LinkType.Symlink : LinkType.Blob;
+    const { cid: fileCid, size } = type === LinkType.Symlink
+      ? await tree.putSymlink(new TextDecoder().decode(file.data))
+      : await tree.putFile(file.data);
+    const meta = posixMeta(type, { mode: file.mode, mtime: file.mtime });
     bytesProcessed += file.data.length;
 
     // Parse path to handle nested directories
@@ -291,12 +295,13 @@ export async function uploadExtractedFiles(archiveData: Uint8Array, archiveName:
         fileName,
         fileCid,
         size,
-        LinkType.Blob
+        type,
+        meta
       );
       rootCid = newRootCid;
     } else {
       // First file - create an encrypted tree
-      const result = await tree.putDirectory([{ name: fileName, cid: fileCid, size }]);
+      const result = await tree.putDirectory([{ name: fileName, cid: fileCid, size, type, meta }]);
       rootCid = result.cid;
     }
 
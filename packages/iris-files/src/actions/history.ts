@@ -0,0 +1,73 @@
+/**
+ * Tree version history - list previous roots of a tree and restore one
+ */
+import { toHex, cid } from 'hashtree';
+import type { CID, SubscribeVisibilityInfo } from 'hashtree';
+import { getRefResolver, getResolverKey } from '../refResolver';
+import { getLocalRootHistory, updateLocalRootCache } from '../treeRootCache';
+import { decryptEncryptionKey } from '../stores/treeRoot';
+import { npubToPubkey, useNostrStore } from '../nostr';
+import { parseRoute } from '../utils/route';
+
+export interface TreeVersion {
+  /** Root of this version (key is missing if it could not be decrypted) */
+  cid: CID;
+  /** Unix timestamp of the publication or local write */
+  createdAt: number;
+  visibilityInfo?: SubscribeVisibilityInfo;
+  /** Only known to this device, not published yet */
+  local: boolean;
+}
+
+/**
+ * Get the versions of a tree, newest first
+ * Merges roots published to Nostr with roots written locally in this session.
+ */
+export async function getTreeHistory(npub: string, treeName: string): Promise<TreeVersion[]> {
+  const key = getResolverKey(npub, treeName);
+  if (!key) return [];
+
+  const resolver = getRefResolver();
+  const published = (await resolver.history?.(key)) ?? [];
+  const ownerPubkey = npubToPubkey(npub) ?? undefined;
+  const linkKey = parseRoute().params.get('k');
+
+  const versions = new Map<string, TreeVersion>();
+  for (const entry of published) {
+    const encryptionKey = await decryptEncryptionKey(entry.visibilityInfo, entry.cid.key, linkKey, ownerPubkey);
+    versions.set(toHex(entry.cid.hash), {
+      cid: cid(entry.cid.hash, encryptionKey),
+      createdAt: entry.createdAt,
+      visibilityInfo: entry.visibilityInfo,
+      local: false,
+    });
+  }
+
+  for (const entry of getLocalRootHistory(npub, treeName)) {
+    const hashHex = toHex(entry.hash);
+    const createdAt = Math.floor(entry.updatedAt / 1000);
+    const existing = versions.get(hashHex);
+    if (existing) {
+      if (!existing.cid.key && entry.key) existing.cid = cid(entry.hash, entry.key);
+      continue;
+    }
+    versions.set(hashHex, { cid: cid(entry.hash, entry.key), createdAt, local: true });
+  }
+
+  return [...versions.values()].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Restore an older version of an own tree by republishing its root
+ * Keeps the tree's current visibility.
+ */
+export function restoreTreeVersion(treeName: string, version: TreeVersion): void {
+  const { npub } = useNostrStore.getState();
+  if (!npub) {
+    throw new Error('Login required to restore a version');
+  }
+  if (version.visibilityInfo && version.visibilityInfo.visibility !== 'public' && !version.cid.key) {
+    throw new Error('Cannot restore a version whose key is unavailable');
+  }
+  updateLocalRootCache(npub, treeName, version.cid.hash, version.cid.key);
+}
@@ -16,3 +16,6 @@ export { initVirtualTree, createFolder, createDocument, forkTree, createTree, ve
 
 // Entry operations
 export { renameEntry, deleteEntry, deleteCurrentFolder, moveEntry, moveToParent } from './entry';
+
+// Version history
+export { getTreeHistory, restoreTreeVersion, type TreeVersion } from './history';
@@ -189,7 +189,12 @@ export async function forkTree(dirCid: CID, name: string, visibility: import('ha
 // Create a new tree (top-level folder on nostr or local)
 // Creates encrypted trees by default
 // Set skipNavigation=true to create without navigating (for batch creation)
-export async function createTree(name: string, visibility: import('hashtree').TreeVisibility = 'public', skipNavigation = false): Promise<{ success: boolean; linkKey?: string }> {
+export async function createTree(
+  name: string,
+  visibility: import('hashtree').TreeVisibility = 'public',
+  skipNavigation = false,
+  recipients: string[] = []
+): Promise<{ success: boolean; linkKey?: string }> {
   if (!name) return { success: false };
 
   const { saveHashtree } = await import('../nostr');
@@ -226,7 +231,7 @@ export async function createTree(name: string, visibility: import('hashtree').Tr
 
     // Publish to nostr and update local cache
     // The await ensures local cache is updated before navigation
-    const result = await saveHashtree(name, rootHex, keyHex, { visibility });
+    const result = await saveHashtree(name, rootHex, keyHex, { visibility, recipients });
 
     // For link-visible trees, store link key locally and append to URL
     if (result.linkKey) {
@@ -248,7 +253,8 @@ export async function createTree(name: string, visibility: import('hashtree').Tr
 // Used by docs app to create standalone documents
 export async function createDocumentTree(
   name: string,
-  visibility: import('hashtree').TreeVisibility = 'public'
+  visibility: import('hashtree').TreeVisibility = 'public',
+  recipients: string[] = []
 ): Promise<{ success: boolean; npub?: string; treeName?: string; linkKey?: string }> {
   if (!name) return { success: false };
 
@@ -291,7 +297,7 @@ export async function createDocumentTree(
   updateLocalRootCache(nostrState.npub, treeName, rootCid.hash, rootCid.key, visibility);
 
   // Publish to nostr with docs label
-  const result = await saveHashtree(treeName, rootHex, keyHex, { visibility, labels: ['docs'] });
+  const result = await saveHashtree(treeName, rootHex, keyHex, { visibility, labels: ['docs'], recipients });
 
   // Store link key for link-visible documents
   if (result.linkKey) {
@@ -10,6 +10,8 @@ import { DEFAULT_NETWORK_SETTINGS, settingsStore } from '../stores/settings';
 import { refreshWebRTCStats } from '../store';
 import { get } from 'svelte/store';
 import { createFollowsStore, getFollowsSync } from '../stores/follows';
+import { createTreesStore, type TreeEntry } from '../stores/trees';
+import { nip19 } from 'nostr-tools';
 import { setupVersionCallback } from '../utils/socialGraph';
 import { ndk } from '../nostr/ndk';
 import { initRelayTracking } from '../nostr/relays';
@@ -20,6 +22,10 @@ let initialized = false;
 let lastPoolConfigHash = '';
 let lastFollowsHash = '';
 let followsUnsubscribe: (() => void) | null = null;
+let lastPinsHash = '';
+let pinsUnsubscribe: (() => void) | null = null;
+// Quiet time after the last trees list update before pins are first synced
+const PINS_SETTLE_DELAY = 3000;
 
 /**
  * Sync pool settings from settings store to worker.
@@ -93,6 +99,67 @@ function setupFollowsSubscription(pubkey: string): void {
   });
 }
 
+/**
+ * Sync the user's own tree roots to the worker, which keeps them during GC.
+ * Trees whose root key isn't known yet are not synced, because GC could not
+ * walk into them and would delete their blocks.
+ */
+async function syncPins(entries: TreeEntry[]): Promise<void> {
+  const adapter = getWorkerAdapter();
+  if (!adapter) return;
+
+  const unresolved = entries.some(e => e.visibility && e.visibility !== 'public' && !e.encryptionKey);
+  if (unresolved) return;
+
+  const pins = entries.map(e => ({ name: e.key, cid: { hash: e.hash, key: e.encryptionKey } }));
+
+  // Hash to avoid duplicate updates
+  const pinsHash = entries.map(e => `${e.key}:${e.hashHex}`).join(',');
+  if (pinsHash === lastPinsHash) return;
+  lastPinsHash = pinsHash;
+
+  await adapter.setPins(pins);
+}
+
+/**
+ * Set up the own trees subscription that keeps worker pins current.
+ * The list streams in (local cache first, then relay events one at a time)
+ * and pins replace the worker's whole pin set, enabling GC. So the first sync
+ * waits until the list was quiet for PINS_SETTLE_DELAY; later updates sync
+ * right away.
+ */
+function setupPinsSubscription(pubkey: string): void {
+  pinsUnsubscribe?.();
+
+  const sync = (entries: TreeEntry[]) => {
+    syncPins(entries).catch(err => console.error('[WorkerInit] Failed to sync pins:', err));
+  };
+
+  // The store starts with an empty list before the resolver answers -
+  // syncing that would unpin every tree
+  let placeholder = true;
+  let settled = false;
+  let settleTimer: ReturnType<typeof setTimeout> | undefined;
+  const unsubscribe = createTreesStore(nip19.npubEncode(pubkey)).subscribe((entries) => {
+    if (placeholder) return;
+    if (settled) {
+      sync(entries);
+      return;
+    }
+    clearTimeout(settleTimer);
+    settleTimer = setTimeout(() => {
+      settled = true;
+      sync(entries);
+    }, PINS_SETTLE_DELAY);
+  });
+  placeholder = false;
+
+  pinsUnsubscribe = () => {
+    clearTimeout(settleTimer);
+    unsubscribe();
+  };
+}
+
 export interface WorkerInitIdentity {
   pubkey: string;
   nsec?: string;  // hex-encoded secret key (only for nsec login)
@@ -193,6 +260,9 @@ export async function initHashtreeWorker(identity: WorkerInitIdentity): Promise<
     // Set up follows subscription for WebRTC peer classification
     setupFollowsSubscription(identity.pubkey);
 
+    // Keep own tree roots pinned so storage cleanup never removes them
+    setupPinsSubscription(identity.pubkey);
+
     // Start periodic stats polling for connectivity indicator
     refreshWebRTCStats();
     setInterval(refreshWebRTCStats, 2000);
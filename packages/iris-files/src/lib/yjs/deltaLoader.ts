@@ -4,7 +4,7 @@
  */
 import * as Y from 'yjs';
 import { LinkType } from 'hashtree';
-import type { CID, TreeEntry } from 'hashtree';
+import type { CID, TreeEntry, TreeChange } from 'hashtree';
 import { getTree, decodeAsText } from '../../store';
 import { getRefResolver } from '../../refResolver';
 
@@ -47,6 +47,52 @@ export async function loadDeltasFromEntries(docEntries: TreeEntry[]): Promise<Ui
   return deltas;
 }
 
+/**
+ * Load only the deltas that changed between two versions of a document directory
+ * Uses tree.diff so unchanged delta files are not listed or read again.
+ * @returns New deltas and the changed top-level entry names
+ */
+export async function loadDeltasSince(
+  prevDocCid: CID,
+  docCid: CID
+): Promise<{ deltas: Uint8Array[]; changedNames: Set<string> }> {
+  const tree = getTree();
+  const changes: TreeChange[] = [];
+  for await (const change of tree.diff(prevDocCid, docCid, { renames: false })) {
+    if (change.type === 'added' || change.type === 'modified') {
+      changes.push(change);
+    }
+  }
+
+  const changedNames = new Set(changes.map(c => c.path.split('/')[0]));
+  const deltas: Uint8Array[] = [];
+
+  const stateChange = changes.find(c => c.path === STATE_FILE && c.entryType !== LinkType.Dir);
+  if (stateChange?.newCid) {
+    const data = await tree.readFile(stateChange.newCid);
+    if (data) deltas.push(data);
+  }
+
+  // A newly added deltas/ directory shows up as one change - load all of it
+  const deltasDirAdded = changes.find(c => c.path === DELTAS_DIR && c.entryType === LinkType.Dir);
+  if (deltasDirAdded?.newCid) {
+    deltas.push(...await loadDeltasFromEntries([
+      { name: DELTAS_DIR, cid: deltasDirAdded.newCid, size: deltasDirAdded.size, type: LinkType.Dir },
+    ]));
+    return { deltas, changedNames };
+  }
+
+  const deltaChanges = changes
+    .filter(c => c.path.startsWith(`${DELTAS_DIR}/`) && c.entryType !== LinkType.Dir)
+    .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+  for (const change of deltaChanges) {
+    const data = await tree.readFile(change.newCid!);
+    if (data) deltas.push(data);
+  }
+
+  return { deltas, changedNames };
+}
+
 /**
  * Load deltas from all collaborators' trees
  */
@@ -144,6 +190,69 @@ export function setupCollaboratorSubscriptions(
   const docPath = routePath.join('/');
   const docOwnerNpub = viewedNpub || userNpub;
 
+  // Last document directory per editor whose deltas are all applied -
+  // later updates only read what changed since then
+  const lastDocCids = new Map<string, CID>();
+  // Updates from one editor are applied one at a time, in order
+  const updateChains = new Map<string, Promise<void>>();
+
+  const applyEditorUpdate = async (npub: string, rootCid: CID): Promise<void> => {
+    const result = await tree.resolvePath(rootCid, docPath);
+    if (!result) {
+      return;
+    }
+
+    const isDir = await tree.isDirectory(result.cid);
+    if (!isDir) {
+      return;
+    }
+
+    // Incremental update - only apply deltas added since the last version we saw
+    const prevDocCid = lastDocCids.get(npub);
+    let changedNames: Set<string> | null = null;
+    if (prevDocCid) {
+      const since = await loadDeltasSince(prevDocCid, result.cid);
+      for (const delta of since.deltas) {
+        Y.applyUpdate(ydoc, delta, 'remote');
+      }
+      lastDocCids.set(npub, result.cid);
+      changedNames = since.changedNames;
+      if (!changedNames.has('.yjs') || npub !== docOwnerNpub) {
+        return;
+      }
+    }
+
+    const collabEntries = await tree.listDirectory(result.cid);
+
+    // If this update is from the document owner, re-read .yjs to check for collaborator changes
+    if (npub === docOwnerNpub) {
+      const yjsConfigEntry = collabEntries.find(e => e.name === '.yjs' && e.type !== LinkType.Dir);
+      if (yjsConfigEntry) {
+        const data = await tree.readFile(yjsConfigEntry.cid);
+        if (data) {
+          const text = decodeAsText(data);
+          if (text) {
+            const newCollaborators = text.split('\n').filter(line => line.trim().startsWith('npub1'));
+            // Update if changed
+            if (JSON.stringify(newCollaborators) !== JSON.stringify(getCollaborators())) {
+              setCollaborators(newCollaborators);
+            }
+          }
+        }
+      }
+    }
+
+    // Deltas were already applied incrementally
+    if (changedNames) return;
+
+    // Load and apply deltas
+    const collabDeltas = await loadDeltasFromEntries(collabEntries);
+    for (const delta of collabDeltas) {
+      Y.applyUpdate(ydoc, delta, 'remote');
+    }
+    lastDocCids.set(npub, result.cid);
+  };
+
   // Subscribe to collaborators' trees, but NOT our own tree
   // Our own updates are already in local state - re-applying them causes focus loss
   const otherCollaborators = collaboratorNpubs.filter(npub => npub !== userNpub);
@@ -151,53 +260,17 @@ export function setupCollaboratorSubscriptions(
   for (const npub of otherCollaborators) {
     const resolverKey = `${npub}/${treeName}`;
 
-    const unsub = resolver.subscribe(resolverKey, async (cidObj) => {
+    const unsub = resolver.subscribe(resolverKey, (cidObj) => {
       if (!cidObj || !ydoc) {
         return;
       }
 
-      try {
-        // Fetch and apply deltas from this editor
-        const rootCid = cidObj;
-        const result = await tree.resolvePath(rootCid, docPath);
-        if (!result) {
-          return;
-        }
-
-        const isDir = await tree.isDirectory(result.cid);
-        if (!isDir) {
-          return;
-        }
-
-        const collabEntries = await tree.listDirectory(result.cid);
-
-        // If this update is from the document owner, re-read .yjs to check for collaborator changes
-        if (npub === docOwnerNpub) {
-          const yjsConfigEntry = collabEntries.find(e => e.name === '.yjs' && e.type !== LinkType.Dir);
-          if (yjsConfigEntry) {
-            const data = await tree.readFile(yjsConfigEntry.cid);
-            if (data) {
-              const text = decodeAsText(data);
-              if (text) {
-                const newCollaborators = text.split('\n').filter(line => line.trim().startsWith('npub1'));
-                // Update if changed
-                if (JSON.stringify(newCollaborators) !== JSON.stringify(getCollaborators())) {
-                  setCollaborators(newCollaborators);
-                }
-              }
-            }
-          }
-        }
-
-        // Load and apply deltas
-        const collabDeltas = await loadDeltasFromEntries(collabEntries);
-        for (const delta of collabDeltas) {
-          Y.applyUpdate(ydoc, delta, 'remote');
-        }
-
-      } catch (err) {
+      // A failed update leaves lastDocCids unchanged, so the next one retries its deltas
+      const prev = updateChains.get(npub) ?? Promise.resolve();
+      const next = prev.then(() => applyEditorUpdate(npub, cidObj)).catch((err) => {
         console.warn(`[YjsDoc] Failed to fetch updates from editor ${npub}:`, err);
-      }
+      });
+      updateChains.set(npub, next);
     });
 
     unsubscribes.push(unsub);
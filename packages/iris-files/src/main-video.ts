@@ -4,6 +4,7 @@ import { mount } from 'svelte';
 import { initServiceWorker } from './lib/swInit';
 import { setupTestHelpers } from './lib/testHelpers';
 import { restoreSession } from './nostr';
+import { initPublishOutbox } from './treeRootCache';
 
 async function init() {
   await initServiceWorker({ requireCrossOriginIsolation: true });
@@ -11,6 +12,9 @@ async function init() {
   // Restore session and initialize worker before rendering
   await restoreSession();
 
+  // Publish tree roots left unpublished by the previous session
+  initPublishOutbox();
+
   mount(VideoApp, {
     target: document.getElementById('app')!,
   });
@@ -4,6 +4,7 @@ import { mount } from 'svelte';
 import { initServiceWorker } from './lib/swInit';
 import { setupTestHelpers } from './lib/testHelpers';
 import { restoreSession } from './nostr';
+import { initPublishOutbox } from './treeRootCache';
 
 async function init() {
   // Initialize service worker for PWA/caching
@@ -13,6 +14,9 @@ async function init() {
   // This ensures worker is ready when components need it
   await restoreSession();
 
+  // Publish tree roots left unpublished by the previous session
+  initPublishOutbox();
+
   mount(App, {
     target: document.getElementById('app')!,
   });
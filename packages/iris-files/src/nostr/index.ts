@@ -49,6 +49,10 @@ export {
   saveHashtree,
   publishTreeRoot,
   deleteTree,
+  rotateTreeKeys,
+  setTreeRecipients,
+  getTreeRecipients,
+  fetchLatestRootEvent,
   autosaveIfOwn,
   isOwnTree,
   parseVisibility,
@@ -19,6 +19,8 @@ export interface HashTreeEvent {
   keyId?: string;
   /** Self-encrypted key (NIP-04) - present for private trees */
   selfEncryptedKey?: string;
+  /** Root key NIP-44 encrypted per member pubkey - present for shared trees */
+  recipientKeys?: Record<string, string>;
   /** Computed visibility based on which tags are present */
   visibility: TreeVisibility;
   created_at: number;
@@ -2,19 +2,23 @@
  * Tree Publishing and Management
  */
 import { nip19, nip44 } from 'nostr-tools';
-import { NDKEvent } from 'ndk';
+import { NDKEvent, NDKPublishError } from 'ndk';
 import {
   toHex,
   fromHex,
   cid,
   type CID,
   type TreeVisibility,
+  type SubscribeVisibilityInfo,
   visibilityHex,
+  rotateTreeKeys as rotateStoredTreeKeys,
+  ROOT_HISTORY_KIND,
 } from 'hashtree';
 import { ndk } from './ndk';
 import { nostrStore } from './store';
 import { getSecretKey } from './auth';
-import { updateLocalRootCacheHex } from '../treeRootCache';
+import { updateLocalRootCacheHex, nextPublishTime, markRootPublished, dropStaleRoot } from '../treeRootCache';
+import { getWorkerAdapter } from '../workerAdapter';
 import { parseRoute } from '../utils/route';
 
 // Re-export visibility hex helpers from hashtree lib
@@ -26,19 +30,128 @@ export interface SaveHashtreeOptions {
   linkKey?: string;
   /** Additional l-tags to add (e.g., ['docs'] for document trees) */
   labels?: string[];
+  /** Member pubkeys (hex) for shared trees - each gets the root key NIP-44 encrypted */
+  recipients?: string[];
+  /** Event created_at (default: now) - the publish outbox passes the time the root was written */
+  createdAt?: number;
+  /** Key tags already wrapped for the visibility, e.g. by key rotation */
+  keyTags?: SubscribeVisibilityInfo;
+}
+
+// localStorage key for the members of our shared trees
+const RECIPIENTS_STORAGE_KEY = 'hashtree:treeRecipients';
+
+// Members of our shared trees, keyed "npub/treeName", so root updates keep their keys
+const treeRecipients = new Map<string, string[]>(loadTreeRecipients());
+
+function loadTreeRecipients(): Array<[string, string[]]> {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    return Object.entries(JSON.parse(localStorage.getItem(RECIPIENTS_STORAGE_KEY) || '{}'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Remember the members of one of our shared trees across reloads
+ */
+function rememberTreeRecipients(treeName: string, recipients: string[]): void {
+  const npub = nostrStore.getState().npub;
+  if (!npub) return;
+  treeRecipients.set(`${npub}/${treeName}`, recipients);
+
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(RECIPIENTS_STORAGE_KEY, JSON.stringify(Object.fromEntries(treeRecipients)));
+  } catch (e) {
+    console.error('Failed to persist tree members:', e);
+  }
+}
+
+/**
+ * Get the known member pubkeys of one of our shared trees
+ */
+export function getTreeRecipients(treeName: string): string[] {
+  return knownTreeRecipients(treeName) ?? [];
+}
+
+function knownTreeRecipients(treeName: string): string[] | null {
+  const state = nostrStore.getState();
+  const saved = state.npub ? treeRecipients.get(`${state.npub}/${treeName}`) : undefined;
+  if (saved) return saved;
+
+  const selected = state.selectedTree;
+  if (selected?.name === treeName && selected.pubkey === state.pubkey && selected.recipientKeys) {
+    return Object.keys(selected.recipientKeys);
+  }
+  return null;
+}
+
+/**
+ * Fetch the latest root event of one of our trees from relays
+ * @returns null if there is none or relays didn't answer in time
+ */
+export async function fetchLatestRootEvent(treeName: string): Promise<NDKEvent | null> {
+  const pubkey = nostrStore.getState().pubkey;
+  if (!pubkey) return null;
+
+  // Add timeout to avoid hanging on slow/unresponsive relays
+  const fetchPromise = ndk.fetchEvent({ kinds: [30078], authors: [pubkey], '#d': [treeName] });
+  const timeoutPromise = new Promise<null>((resolve) => setTimeout(() => resolve(null), 5000));
+  return Promise.race([fetchPromise, timeoutPromise]).catch(() => null);
+}
+
+// Relay reasons for rejecting a root event older than the one they keep
+const STALE_ROOT_REJECTION = /newer event|older than/i;
+
+function isStaleRootRejection(e: unknown): boolean {
+  const reason = e instanceof NDKPublishError ? e.relayErrors : e instanceof Error ? e.message : String(e);
+  return STALE_ROOT_REJECTION.test(reason);
+}
+
+/**
+ * Find the members of one of our shared trees, falling back to the
+ * recipientKeys of the last published root event
+ * @returns null if the members are unknown
+ */
+async function resolveTreeRecipients(treeName: string): Promise<string[] | null> {
+  const known = knownTreeRecipients(treeName);
+  if (known) return known;
+
+  const event = await fetchLatestRootEvent(treeName);
+  if (!event) return null;
+
+  // A shared tree without members has only the owner's key
+  const { visibility, recipientKeys } = parseVisibility(event.tags);
+  if (recipientKeys) return Object.keys(recipientKeys);
+  return visibility === 'private' ? [] : null;
 }
 
 /**
  * Parse visibility from Nostr event tags
  */
-export function parseVisibility(tags: string[][]): { visibility: TreeVisibility; rootKey?: string; encryptedKey?: string; keyId?: string; selfEncryptedKey?: string } {
+export function parseVisibility(tags: string[][]): {
+  visibility: TreeVisibility;
+  rootKey?: string;
+  encryptedKey?: string;
+  keyId?: string;
+  selfEncryptedKey?: string;
+  recipientKeys?: Record<string, string>;
+} {
   const rootKey = tags.find(t => t[0] === 'key')?.[1];
   const encryptedKey = tags.find(t => t[0] === 'encryptedKey')?.[1];
   const keyId = tags.find(t => t[0] === 'keyId')?.[1];
   const selfEncryptedKey = tags.find(t => t[0] === 'selfEncryptedKey')?.[1];
+  const recipientTags = tags.filter(t => t[0] === 'recipientKey' && t[1] && t[2]);
+  const recipientKeys = recipientTags.length > 0
+    ? Object.fromEntries(recipientTags.map(t => [t[1], t[2]]))
+    : undefined;
 
   let visibility: TreeVisibility;
-  if (selfEncryptedKey) {
+  if (recipientKeys) {
+    visibility = 'shared';
+  } else if (selfEncryptedKey) {
     visibility = 'private';
   } else if (encryptedKey) {
     visibility = 'link-visible';
@@ -46,7 +159,7 @@ export function parseVisibility(tags: string[][]): { visibility: TreeVisibility;
     visibility = 'public';
   }
 
-  return { visibility, rootKey, encryptedKey, keyId, selfEncryptedKey };
+  return { visibility, rootKey, encryptedKey, keyId, selfEncryptedKey, recipientKeys };
 }
 
 /**
@@ -55,22 +168,23 @@ export function parseVisibility(tags: string[][]): { visibility: TreeVisibility;
  * @param rootHash - Root hash (hex encoded)
  * @param rootKey - Decryption key (hex encoded, optional for encrypted trees)
  * @param options - Visibility options
- * @returns Object with success status and linkKey (for link-visible trees)
+ * @returns Object with success status, linkKey (for link-visible trees) and
+ *   a promise that resolves to whether a relay accepted the event
  */
 export async function saveHashtree(
   name: string,
   rootHash: string,
   rootKey?: string,
   options: SaveHashtreeOptions = {}
-): Promise<{ success: boolean; linkKey?: string }> {
+): Promise<{ success: boolean; linkKey?: string; published: Promise<boolean> }> {
   const state = nostrStore.getState();
-  if (!state.pubkey || !ndk.signer) return { success: false };
+  if (!state.pubkey || !ndk.signer) return { success: false, published: Promise.resolve(false) };
 
   const visibility = options.visibility ?? 'public';
   const secretKey = getSecretKey();
 
   // Set created_at now (before any async work) so all events from this save have same timestamp
-  const now = Math.floor(Date.now() / 1000);
+  const now = options.createdAt ?? (state.npub ? nextPublishTime(state.npub, name) : Math.floor(Date.now() / 1000));
 
   const event = new NDKEvent(ndk);
   event.kind = 30078;
@@ -97,8 +211,20 @@ export async function saveHashtree(
   }
 
   let linkKey: string | undefined;
-
-  if (rootKey) {
+  let addKeyTags: () => Promise<void> = async () => {};
+
+  if (rootKey && options.keyTags && visibility !== 'public') {
+    const { encryptedKey, keyId, selfEncryptedKey, recipientKeys } = options.keyTags;
+    linkKey = options.linkKey;
+    if (visibility === 'shared') rememberTreeRecipients(name, Object.keys(recipientKeys ?? {}));
+    if (encryptedKey && keyId) {
+      event.tags.push(['encryptedKey', encryptedKey], ['keyId', keyId]);
+    }
+    if (selfEncryptedKey) event.tags.push(['selfEncryptedKey', selfEncryptedKey]);
+    for (const [recipient, key] of Object.entries(recipientKeys ?? {})) {
+      event.tags.push(['recipientKey', recipient, key]);
+    }
+  } else if (rootKey) {
     switch (visibility) {
       case 'public':
         // Plaintext key - anyone can access
@@ -106,9 +232,9 @@ export async function saveHashtree(
         break;
 
       case 'link-visible':
-        // Encrypt key with link key for sharing - do async work in background
+        // Encrypt key with link key for sharing
         linkKey = options.linkKey ?? visibilityHex.generateLinkKey();
-        (async () => {
+        addKeyTags = async () => {
           const encryptedKey = await visibilityHex.encryptKeyForLink(rootKey, linkKey!);
           const keyId = await visibilityHex.computeKeyId(linkKey!);
           event.tags.push(['encryptedKey', encryptedKey]);
@@ -117,52 +243,64 @@ export async function saveHashtree(
           const conversationKey = nip44.v2.utils.getConversationKey(secretKey!, state.pubkey!);
           const selfEncryptedLinkVisible = nip44.v2.encrypt(rootKey, conversationKey);
           event.tags.push(['selfEncryptedKey', selfEncryptedLinkVisible]);
-          try {
-            await event.sign();
-            if (ndk.cacheAdapter?.setEvent) {
-              await ndk.cacheAdapter.setEvent(event, [{ kinds: [30078], authors: [state.pubkey!], '#d': [name] }]);
-            }
-          } catch (e) {
-            console.error('Failed to sign/cache hashtree:', e);
+        };
+        break;
+
+      case 'shared': {
+        // Encrypt key to self and to each member using NIP-44
+        const recipients = options.recipients ?? await resolveTreeRecipients(name);
+        if (!recipients) {
+          // Publishing without them would revoke every member's access
+          console.error(`Not publishing shared tree ${name}: its members are unknown`);
+          return { success: false, published: Promise.resolve(false) };
+        }
+        rememberTreeRecipients(name, recipients);
+        addKeyTags = async () => {
+          const selfConversationKey = nip44.v2.utils.getConversationKey(secretKey!, state.pubkey!);
+          event.tags.push(['selfEncryptedKey', nip44.v2.encrypt(rootKey, selfConversationKey)]);
+          for (const recipient of recipients) {
+            const conversationKey = nip44.v2.utils.getConversationKey(secretKey!, recipient);
+            event.tags.push(['recipientKey', recipient, nip44.v2.encrypt(rootKey, conversationKey)]);
           }
-          event.publish().catch(e => console.error('Failed to publish hashtree:', e));
-        })();
+        };
         break;
+      }
 
       case 'private':
-        // Encrypt key to self using NIP-44 - do async work in background
-        (async () => {
+        // Encrypt key to self using NIP-44
+        addKeyTags = async () => {
           const conversationKey = nip44.v2.utils.getConversationKey(secretKey!, state.pubkey!);
           const selfEncrypted = nip44.v2.encrypt(rootKey, conversationKey);
           event.tags.push(['selfEncryptedKey', selfEncrypted]);
-          try {
-            await event.sign();
-            if (ndk.cacheAdapter?.setEvent) {
-              await ndk.cacheAdapter.setEvent(event, [{ kinds: [30078], authors: [state.pubkey!], '#d': [name] }]);
-            }
-          } catch (e) {
-            console.error('Failed to sign/cache hashtree:', e);
-          }
-          event.publish().catch(e => console.error('Failed to publish hashtree:', e));
-        })();
+        };
         break;
     }
   }
 
-  // For public visibility, publish immediately (no encryption needed)
-  if (!rootKey || visibility === 'public') {
-    (async () => {
-      try {
-        await event.sign();
-        if (ndk.cacheAdapter?.setEvent) {
-          await ndk.cacheAdapter.setEvent(event, [{ kinds: [30078], authors: [state.pubkey], '#d': [name] }]);
-        }
-        event.publish().catch(e => console.error('Failed to publish hashtree:', e));
-      } catch (e) {
-        console.error('Failed to sign/cache hashtree:', e);
+  // Sign and publish in background so the UI doesn't wait for relays
+  const published = (async () => {
+    try {
+      await addKeyTags();
+      await event.sign();
+      if (ndk.cacheAdapter?.setEvent) {
+        await ndk.cacheAdapter.setEvent(event, [{ kinds: [30078], authors: [state.pubkey!], '#d': [name] }]);
       }
-    })();
-  }
+    } catch (e) {
+      console.error('Failed to sign/cache hashtree:', e);
+      return false;
+    }
+    try {
+      await publishSignedEvent(event);
+      if (state.npub) markRootPublished(state.npub, name, rootHash);
+      publishRootHistory(event).catch(e => console.error('Failed to publish root history:', e));
+      return true;
+    } catch (e) {
+      // Relays keep a newer root, e.g. from another device - retrying can't help
+      if (state.npub && isStaleRootRejection(e)) dropStaleRoot(state.npub, name, rootHash);
+      console.error('Failed to publish hashtree:', e);
+      return false;
+    }
+  })();
 
   // Update selectedTree if it matches
   const currentSelected = state.selectedTree;
@@ -189,7 +327,113 @@ export async function saveHashtree(
     updateLocalRootCacheHex(npub, name, rootHash, rootKey, visibility);
   }
 
-  return { success: true, linkKey };
+  return { success: true, linkKey, published };
+}
+
+/**
+ * Send a signed event to relays
+ * Goes through the worker directly, because NDK's transport plugin hook
+ * doesn't report whether any relay accepted the event.
+ */
+async function publishSignedEvent(event: NDKEvent): Promise<void> {
+  const adapter = getWorkerAdapter();
+  if (!adapter) {
+    await event.publish();
+    return;
+  }
+  await adapter.publish({
+    id: event.id,
+    pubkey: event.pubkey,
+    kind: event.kind!,
+    content: event.content,
+    tags: event.tags,
+    created_at: event.created_at!,
+    sig: event.sig!,
+  });
+}
+
+/**
+ * Record a published root in a regular event, so version history survives
+ * relays replacing the tree's kind-30078 event
+ */
+async function publishRootHistory(rootEvent: NDKEvent): Promise<void> {
+  const event = new NDKEvent(ndk);
+  event.kind = ROOT_HISTORY_KIND;
+  event.content = '';
+  event.created_at = rootEvent.created_at;
+  event.tags = rootEvent.tags;
+  await event.sign();
+  await publishSignedEvent(event);
+}
+
+/**
+ * Rotate the keys of one of our encrypted trees
+ * Re-encrypts every block with hashtree's rotateTreeKeys so previously shared
+ * keys stop working, keeps its convergence secret for later edits, then
+ * republishes the root with a new link key or to the members.
+ */
+export async function rotateTreeKeys(
+  name: string,
+  rootCid: CID,
+  options: { visibility: TreeVisibility; previousKeyIds?: string[]; recipients?: string[] }
+): Promise<{ success: boolean; linkKey?: string; invalidatedKeyIds: string[] }> {
+  const { npub, pubkey } = nostrStore.getState();
+  const secretKey = getSecretKey();
+  const { visibility } = options;
+  if (!npub || !pubkey || !secretKey || !rootCid.key || visibility === 'public') {
+    return { success: false, invalidatedKeyIds: [] };
+  }
+
+  const encryptTo = (recipient: string, rootKeyHex: string) =>
+    nip44.v2.encrypt(rootKeyHex, nip44.v2.utils.getConversationKey(secretKey, recipient));
+  const recipients = visibility === 'shared'
+    ? options.recipients ?? await resolveTreeRecipients(name)
+    : [];
+  if (!recipients) return { success: false, invalidatedKeyIds: [] };
+
+  const { getTree } = await import('../store');
+  const result = await rotateStoredTreeKeys(getTree().getStore(), rootCid, {
+    visibility,
+    previousKeyIds: options.previousKeyIds,
+    selfEncrypt: async rootKeyHex => encryptTo(pubkey, rootKeyHex),
+    encryptForRecipients: async rootKeyHex =>
+      Object.fromEntries(recipients.map(recipient => [recipient, encryptTo(recipient, rootKeyHex)])),
+  });
+
+  // Before publishing, so edits of the new root already use the new secret
+  const { storeConvergenceSecret, storeLinkKey } = await import('../stores/trees');
+  await storeConvergenceSecret(npub, name, toHex(result.convergenceSecret));
+
+  const linkKey = result.linkKey ? toHex(result.linkKey) : undefined;
+  const { success } = await saveHashtree(name, toHex(result.cid.hash), toHex(result.cid.key!), {
+    visibility,
+    linkKey,
+    keyTags: result.visibilityInfo,
+  });
+  if (!success) return { success, invalidatedKeyIds: [] };
+
+  if (linkKey) await storeLinkKey(npub, name, linkKey);
+  return { success, linkKey, invalidatedKeyIds: result.invalidatedKeyIds };
+}
+
+/**
+ * Change the members of one of our shared trees
+ * Removed members already hold the root key, so removing anyone rotates the keys.
+ */
+export async function setTreeRecipients(name: string, rootCid: CID, recipients: string[]): Promise<boolean> {
+  if (!rootCid.key) return false;
+
+  // Unknown previous members may include removed ones
+  const previous = await resolveTreeRecipients(name);
+  if (!previous || previous.some(pubkey => !recipients.includes(pubkey))) {
+    return (await rotateTreeKeys(name, rootCid, { visibility: 'shared', recipients })).success;
+  }
+
+  const { success } = await saveHashtree(name, toHex(rootCid.hash), toHex(rootCid.key), {
+    visibility: 'shared',
+    recipients,
+  });
+  return success;
 }
 
 /**
@@ -231,8 +475,16 @@ export function autosaveIfOwn(rootCid: CID): void {
  * This is the ONLY place that should publish merkle roots.
  *
  * @param cachedVisibility - Visibility from the root cache. Use this first, then fall back to selectedTree.
+ * @param createdAt - Event created_at from the root cache's outbox
+ * @returns Whether a relay accepted the event
  */
-export async function publishTreeRoot(treeName: string, rootHash: string, rootKey?: string, cachedVisibility?: TreeVisibility): Promise<boolean> {
+export async function publishTreeRoot(
+  treeName: string,
+  rootHash: string,
+  rootKey?: string,
+  cachedVisibility?: TreeVisibility,
+  createdAt?: number
+): Promise<boolean> {
   const state = nostrStore.getState();
   if (!state.pubkey || !ndk.signer) return false;
 
@@ -240,12 +492,20 @@ export async function publishTreeRoot(treeName: string, rootHash: string, rootKe
   let visibility: TreeVisibility = cachedVisibility ?? 'public';
   let linkKey: string | undefined;
 
-  // If no cached visibility, try to get from selectedTree
+  // If no cached visibility, try to get from selectedTree, then from the last published root
   if (!cachedVisibility) {
     const isOwnSelectedTree = state.selectedTree?.name === treeName &&
       state.selectedTree?.pubkey === state.pubkey;
     if (isOwnSelectedTree && state.selectedTree?.visibility) {
       visibility = state.selectedTree.visibility;
+    } else if (rootKey) {
+      // Guessing 'public' would publish the plain key of an encrypted tree
+      const latest = await fetchLatestRootEvent(treeName);
+      if (!latest) {
+        console.error(`Not publishing ${treeName}: its visibility is unknown`);
+        return false;
+      }
+      visibility = parseVisibility(latest.tags).visibility;
     }
   }
 
@@ -258,9 +518,10 @@ export async function publishTreeRoot(treeName: string, rootHash: string, rootKe
   const result = await saveHashtree(treeName, rootHash, rootKey, {
     visibility,
     linkKey,
+    createdAt,
   });
 
-  return result.success;
+  return result.success && await result.published;
 }
 
 /**
@@ -5,7 +5,7 @@
  * Svelte version using stores
  */
 import { writable, get, type Readable } from 'svelte/store';
-import { type CID, type TreeEntry, toHex, LinkType } from 'hashtree';
+import { type CID, type TreeEntry, toHex, LinkType, DEFAULT_SHARD_THRESHOLD } from 'hashtree';
 import { getTree } from '../store';
 import { markFilesChanged } from './recentlyChanged';
 
@@ -23,8 +23,17 @@ export interface DirectoryEntriesState {
   entries: TreeEntry[];
   loading: boolean;
   isDirectory: boolean;
+  /** More entries can be loaded with loadMore() (large sharded directories) */
+  hasMore?: boolean;
 }
 
+/**
+ * Entries per page of the global store
+ * Directories up to the shard threshold are a single node, so they always
+ * load in one page; only sharded directories are paged.
+ */
+const PAGE_SIZE = DEFAULT_SHARD_THRESHOLD;
+
 /**
  * Create a store for directory entries for a given CID
  */
@@ -134,6 +143,13 @@ export function directoryEntries(location: CID | null): DirectoryEntriesState {
 
 // Import currentDirCidStore for global entries store
 import { currentDirCidStore } from './currentDirHash';
+import { routeStore } from './route';
+
+/** The route a listing was made for. A new CID on the same route is a root update. */
+function routeKey(): string {
+  const route = get(routeStore);
+  return [route.npub, route.treeName, route.cid?.hash ?? null, ...route.path].join('/');
+}
 
 /**
  * Create the global directory entries store with test helper
@@ -148,6 +164,13 @@ function createGlobalDirectoryEntriesStore() {
   let prevHashKey: string | null = null;
   let prevEncKey: string | null = null;
   let prevEntryCids: Map<string, string> = new Map();
+  // Location of the listed directory and the cursor of its next page
+  let currentLocation: CID | null = null;
+  let cursor: string | undefined;
+  let loadingMore = false;
+  // Route of the listing and how many entries of it are loaded
+  let listedRoute: string | null = null;
+  let loadedCount = 0;
 
   // Subscribe to location changes
   currentDirCidStore.subscribe(async (location) => {
@@ -158,6 +181,15 @@ function createGlobalDirectoryEntriesStore() {
     prevHashKey = hashKey;
     prevEncKey = encKey;
 
+    // A root update of the directory reloads as many entries as were loaded
+    const route = routeKey();
+    if (route !== listedRoute) loadedCount = 0;
+    listedRoute = route;
+    const limit = Math.max(PAGE_SIZE, loadedCount);
+
+    currentLocation = location;
+    cursor = undefined;
+
     if (!location || !hashKey) {
       state.set({ entries: [], loading: false, isDirectory: true });
       prevEntryCids.clear();
@@ -168,21 +200,22 @@ function createGlobalDirectoryEntriesStore() {
     const tree = getTree();
 
     try {
-      let newEntries: TreeEntry[] = [];
-
-      if (location.key) {
-        newEntries = await tree.listDirectory(location);
-      } else {
-        const isDir = await tree.isDirectory(location);
-        if (isDir) {
-          newEntries = await tree.listDirectory(location);
-        } else {
-          state.set({ entries: [], loading: false, isDirectory: false });
-          prevEntryCids.clear();
-          return;
-        }
+      // Public - first check if it's a directory
+      if (!location.key && !await tree.isDirectory(location)) {
+        if (location !== currentLocation) return;
+        state.set({ entries: [], loading: false, isDirectory: false });
+        prevEntryCids.clear();
+        return;
       }
 
+      const page = await tree.listDirectoryPage(location, { limit });
+      // Navigated elsewhere while loading
+      if (location !== currentLocation) return;
+
+      const newEntries = page.entries;
+      cursor = page.cursor;
+      loadedCount = newEntries.length;
+
       // Detect changed files
       if (prevEntryCids.size > 0) {
         const changedFiles = new Set<string>();
@@ -211,18 +244,49 @@ function createGlobalDirectoryEntriesStore() {
       prevEntryCids = newEntryCids;
 
       if (entriesChanged) {
-        state.set({ entries: sortEntries(newEntries), loading: false, isDirectory: true });
+        state.set({ entries: sortEntries(newEntries), loading: false, isDirectory: true, hasMore: !!cursor });
       } else {
-        state.update(s => s.loading ? { ...s, loading: false } : s);
+        state.update(s => s.loading || s.hasMore !== !!cursor ? { ...s, loading: false, hasMore: !!cursor } : s);
       }
     } catch {
+      if (location !== currentLocation) return;
       state.set({ entries: [], loading: false, isDirectory: false });
       prevEntryCids.clear();
     }
   });
 
+  /**
+   * Load the next page of a paged directory
+   * Sharded directories are paged in name hash order, so the loaded entries are
+   * sorted together and new ones can appear between rows already shown.
+   */
+  async function loadMore(): Promise<void> {
+    const location = currentLocation;
+    if (!location || !cursor || loadingMore) return;
+
+    loadingMore = true;
+    try {
+      const page = await getTree().listDirectoryPage(location, { cursor, limit: PAGE_SIZE });
+      if (location !== currentLocation) return;
+
+      cursor = page.cursor;
+      loadedCount += page.entries.length;
+      for (const entry of page.entries) {
+        if (entry.cid?.hash) {
+          prevEntryCids.set(entry.name, toHex(entry.cid.hash));
+        }
+      }
+      state.update(s => ({ ...s, entries: sortEntries([...s.entries, ...page.entries]), hasMore: !!cursor }));
+    } catch (err) {
+      console.error('[directoryEntries] Failed to load more entries:', err);
+    } finally {
+      loadingMore = false;
+    }
+  }
+
   return {
     subscribe: state.subscribe,
+    loadMore,
     // Expose setter for testing only
     __testSet: (value: DirectoryEntriesState) => state.set(value),
   };
@@ -237,7 +301,7 @@ export const directoryEntriesStore = createGlobalDirectoryEntriesStore();
 // Expose test helper on window for E2E tests
 if (typeof window !== 'undefined') {
   window.__testSetDirectoryEntries = (entries: TreeEntry[]) => {
-    (directoryEntriesStore as { __testSet: (value: DirectoryEntriesState) => void }).__testSet({
+    directoryEntriesStore.__testSet({
       entries: sortEntries(entries),
       loading: false,
       isDirectory: true,
@@ -11,7 +11,7 @@ import { fromHex, cid, visibilityHex } from 'hashtree';
 import type { CID, SubscribeVisibilityInfo, Hash } from 'hashtree';
 import { routeStore, parseRouteFromHash } from './route';
 import { getRefResolver, getResolverKey } from '../refResolver';
-import { nostrStore, getSecretKey } from '../nostr';
+import { nostrStore, getSecretKey, npubToPubkey } from '../nostr';
 import { nip44 } from 'nostr-tools';
 
 // Shared subscription cache - stores raw resolver data, not decrypted CIDs
@@ -114,10 +114,11 @@ function subscribeToResolver(
 /**
  * Decrypt the encryption key for a tree based on visibility and available keys
  */
-async function decryptEncryptionKey(
+export async function decryptEncryptionKey(
   visibilityInfo: SubscribeVisibilityInfo | undefined,
   encryptionKey: Hash | undefined,
-  linkKey: string | null
+  linkKey: string | null,
+  ownerPubkey?: string
 ): Promise<Hash | undefined> {
   if (encryptionKey) {
     return encryptionKey;
@@ -140,7 +141,22 @@ async function decryptEncryptionKey(
     }
   }
 
-  // Link-visible or private tree - try selfEncryptedKey (owner access)
+  // Shared tree - try the key encrypted to us by the owner (member access)
+  const ownPubkey = nostrStore.getState().pubkey;
+  const recipientKey = ownPubkey ? visibilityInfo.recipientKeys?.[ownPubkey] : undefined;
+  if (recipientKey && ownerPubkey && ownerPubkey !== ownPubkey) {
+    try {
+      const sk = getSecretKey();
+      if (sk) {
+        const conversationKey = nip44.v2.utils.getConversationKey(sk, ownerPubkey);
+        return fromHex(nip44.v2.decrypt(recipientKey, conversationKey));
+      }
+    } catch (e) {
+      console.debug('Could not decrypt recipientKey:', e);
+    }
+  }
+
+  // Link-visible, shared or private tree - try selfEncryptedKey (owner access)
   if (visibilityInfo.selfEncryptedKey) {
     try {
       const state = get(nostrStore);
@@ -218,7 +234,8 @@ export function createTreeRootStore(): Readable<CID | null> {
         return;
       }
 
-      const decryptedKey = await decryptEncryptionKey(visibilityInfo, encryptionKey, route.params.get('k'));
+      const ownerPubkey = route.npub ? npubToPubkey(route.npub) ?? undefined : undefined;
+      const decryptedKey = await decryptEncryptionKey(visibilityInfo, encryptionKey, route.params.get('k'), ownerPubkey);
 
       // Cache the decrypted key
       if (decryptedKey) {
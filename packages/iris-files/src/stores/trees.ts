@@ -6,19 +6,25 @@
  */
 import { writable, get, type Readable } from 'svelte/store';
 import { getRefResolver } from '../refResolver';
-import { toHex, type Hash, type TreeVisibility } from 'hashtree';
+import { toHex, fromHex, type Hash, type TreeVisibility } from 'hashtree';
 import { nostrStore } from '../nostr';
+import { getTree } from '../store';
 import Dexie from 'dexie';
 
-// Dexie database for link keys
+// Dexie database for link keys and convergence secrets of rotated trees
 class LinkKeysDB extends Dexie {
   linkKeys!: Dexie.Table<{ key: string; linkKey: string }, string>;
+  convergenceSecrets!: Dexie.Table<{ key: string; secret: string }, string>;
 
   constructor() {
     super('hashtree-link-keys');
     this.version(1).stores({
       linkKeys: 'key', // key = "npub/treeName"
     });
+    this.version(2).stores({
+      linkKeys: 'key',
+      convergenceSecrets: 'key', // key = "npub/treeName"
+    });
   }
 }
 
@@ -26,6 +32,7 @@ const db = new LinkKeysDB();
 
 // In-memory cache for sync access (populated from DB)
 let linkKeysCache: Record<string, string> = {};
+let convergenceSecretsCache: Record<string, string> = {};
 let cacheLoadPromise: Promise<void> | null = null;
 
 // Listeners for link key updates
@@ -46,6 +53,8 @@ async function loadCache(): Promise<void> {
     try {
       const all = await db.linkKeys.toArray();
       linkKeysCache = Object.fromEntries(all.map(e => [e.key, e.linkKey]));
+      const secrets = await db.convergenceSecrets.toArray();
+      convergenceSecretsCache = Object.fromEntries(secrets.map(e => [e.key, e.secret]));
     } catch {
       // Ignore errors
     }
@@ -53,8 +62,8 @@ async function loadCache(): Promise<void> {
   return cacheLoadPromise;
 }
 
-// Initialize cache on module load
-loadCache();
+// Initialize cache on module load, then follow the selected tree
+loadCache().then(() => nostrStore.subscribe(applyConvergenceSecret));
 
 /**
  * Get stored link keys (sync, from cache)
@@ -88,6 +97,35 @@ export function getLinkKey(npub: string, treeName: string): string | null {
   return linkKeysCache[`${npub}/${treeName}`] ?? null;
 }
 
+/**
+ * Store the convergence secret of one of our trees after its keys were rotated
+ */
+export async function storeConvergenceSecret(npub: string, treeName: string, secret: string): Promise<void> {
+  const key = `${npub}/${treeName}`;
+  convergenceSecretsCache[key] = secret;
+  applyConvergenceSecret();
+  await db.convergenceSecrets.put({ key, secret });
+}
+
+/**
+ * Get the convergence secret (hex) of a rotated tree, null for plain CHK
+ */
+export function getConvergenceSecret(npub: string, treeName: string): string | null {
+  return convergenceSecretsCache[`${npub}/${treeName}`] ?? null;
+}
+
+/**
+ * Encrypt edits of the selected tree with its convergence secret, so a
+ * rotated tree doesn't go back to keys derivable from the content alone
+ */
+function applyConvergenceSecret(): void {
+  const { selectedTree, npub, pubkey } = nostrStore.getState();
+  const secret = selectedTree && npub && selectedTree.pubkey === pubkey
+    ? getConvergenceSecret(npub, selectedTree.name)
+    : null;
+  getTree().setConvergenceSecret(secret ? fromHex(secret) : undefined);
+}
+
 export interface TreeEntry {
   key: string;      // "npub1.../treename"
   name: string;     // Just the tree name
@@ -95,7 +133,7 @@ export interface TreeEntry {
   hashHex: string;  // Hex string of hash
   /** @deprecated Use visibility instead */
   encryptionKey?: Hash; // Encryption key (if encrypted, public)
-  /** Tree visibility: public, link-visible, or private. Undefined if not yet resolved from Nostr. */
+  /** Tree visibility: public, link-visible, shared, or private. Undefined if not yet resolved from Nostr. */
   visibility: TreeVisibility | undefined;
   /** Encrypted key for link-visible trees */
   encryptedKey?: string;
@@ -103,6 +141,8 @@ export interface TreeEntry {
   keyId?: string;
   /** Self-encrypted key for private trees */
   selfEncryptedKey?: string;
+  /** Root key NIP-44 encrypted per member pubkey for shared trees */
+  recipientKeys?: Record<string, string>;
   /** Link key for link-visible trees (only for own trees, from local storage) */
   linkKey?: string;
   /** Unix timestamp when the tree was created/last updated */
@@ -158,6 +198,7 @@ export function createTreesStore(npub: string | null): Readable<TreeEntry[]> {
           encryptedKey: e.encryptedKey,
           keyId: e.keyId,
           selfEncryptedKey: e.selfEncryptedKey,
+          recipientKeys: e.recipientKeys,
           linkKey,
           createdAt: e.createdAt,
         };
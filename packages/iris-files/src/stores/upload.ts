@@ -5,7 +5,7 @@
  * All uploads use encryption by default (CHK - Content Hash Key).
  */
 import { writable, get } from 'svelte/store';
-import { toHex, nhashEncode, cid, LinkType, videoChunker } from 'hashtree';
+import { toHex, nhashEncode, cid, LinkType, videoChunker, posixMeta } from 'hashtree';
 import type { CID } from 'hashtree';
 import { getTree } from '../store';
 import { autosaveIfOwn, saveHashtree, nostrStore } from '../nostr';
@@ -272,6 +272,7 @@ export async function uploadFiles(files: FileList): Promise<void> {
       size = result.size;
     }
     uploadedFileNames.push(file.name);
+    const meta = posixMeta(LinkType.Blob, { mtime: file.lastModified / 1000 });
 
     // Add file to tree immediately after upload completes
     if (currentRootCid?.hash) {
@@ -281,7 +282,9 @@ export async function uploadFiles(files: FileList): Promise<void> {
         dirPath,
         file.name,
         fileCid,
-        size
+        size,
+        LinkType.Blob,
+        meta
       );
       currentRootCid = newRootCid;
       // Mark this file as changed for pulse effect
@@ -290,7 +293,7 @@ export async function uploadFiles(files: FileList): Promise<void> {
       autosaveIfOwn(newRootCid);
     } else if (needsTreeInit) {
       // First file in a new virtual directory - create encrypted tree
-      const { cid: newRootCid } = await tree.putDirectory([{ name: file.name, cid: fileCid, size }]);
+      const { cid: newRootCid } = await tree.putDirectory([{ name: file.name, cid: fileCid, size, type: LinkType.Blob, meta }]);
       currentRootCid = newRootCid;
       markFilesChanged(new Set([file.name]));
 
@@ -316,7 +319,7 @@ export async function uploadFiles(files: FileList): Promise<void> {
       needsTreeInit = false; // Tree is now initialized
     } else {
       // No existing tree and not a virtual directory - create new encrypted root
-      const { cid: newRootCid } = await tree.putDirectory([{ name: file.name, cid: fileCid, size }]);
+      const { cid: newRootCid } = await tree.putDirectory([{ name: file.name, cid: fileCid, size, type: LinkType.Blob, meta }]);
       currentRootCid = newRootCid;
       markFilesChanged(new Set([file.name]));
       if (i === 0) {
@@ -557,7 +560,9 @@ export async function uploadFilesWithPaths(filesWithPaths: FileWithPath[]): Prom
           fullDirPath,
           fileName,
           fileCid,
-          size
+          size,
+          LinkType.Blob,
+          posixMeta(LinkType.Blob, { mtime: file.lastModified / 1000 })
         );
         currentRootCid = newRootCid;
 
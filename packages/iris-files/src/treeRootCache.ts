@@ -4,27 +4,87 @@
  * This is the SINGLE SOURCE OF TRUTH for the current merkle root.
  * All writes go here immediately, publishing to Nostr is throttled.
  *
- * Key: "npub/treeName", Value: { hash, key, visibility, dirty }
+ * Roots that are not published yet form an outbox: it is persisted to
+ * localStorage so it survives a reload, and failed publishes are retried with
+ * backoff and whenever relays or the network come back. Each root is published
+ * with the time it was written as created_at (never reusing a timestamp for the
+ * same tree), so a late or retried publish can't replace a newer root on relays.
+ * Roots that relays already have a newer root for are dropped, not retried.
+ *
+ * Key: "npub/treeName", Value: { hash, key, visibility, updatedAt, sync }
  */
 import type { Hash, TreeVisibility } from 'hashtree';
 import { fromHex, toHex } from 'hashtree';
 import { updateSubscriptionCache } from './stores/treeRoot';
+import type { NostrState } from './nostr';
+
+/** Publish state of a tree's latest root */
+export type SyncState = 'pending' | 'published' | 'failed';
+
+export interface SyncStatus {
+  state: SyncState;
+  /** Failed publish attempts for the current root */
+  attempts: number;
+  /** Error of the last failed attempt */
+  error?: string;
+  /** When the next retry is due (ms timestamp) */
+  nextRetryAt?: number;
+}
 
 interface CacheEntry {
   hash: Hash;
   key?: Hash;
   visibility?: TreeVisibility;
-  dirty: boolean; // true if not yet published to Nostr
+  updatedAt: number; // seconds, when the root was written locally
+  sync: SyncStatus;
+  /** Loaded from a previous session and not yet checked against relays */
+  restored?: boolean;
+}
+
+/** Persisted form of an unpublished root */
+interface OutboxRecord {
+  hash: string;
+  key?: string;
+  visibility?: TreeVisibility;
+  updatedAt: number;
+  attempts: number;
 }
 
 const localRootCache = new Map<string, CacheEntry>();
 
-// Throttle timers per tree
+export interface LocalRootHistoryEntry {
+  hash: Hash;
+  key?: Hash;
+  updatedAt: number; // ms timestamp
+}
+
+// Roots written in this session per tree, oldest first
+const localRootHistory = new Map<string, LocalRootHistoryEntry[]>();
+
+// Max roots kept per tree in localRootHistory
+const MAX_LOCAL_HISTORY = 50;
+
+// Throttle and retry timers per tree
 const publishTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
+// Trees with a publish in flight
+const publishing = new Set<string>();
+
+// Last created_at published per tree
+const lastPublishTimes = new Map<string, number>();
+
 // Publish delay in ms (throttle)
 const PUBLISH_DELAY = 1000;
 
+// Retry delays in ms: 2s, 4s, 8s... up to 5 minutes
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+// localStorage key for the outbox of unpublished roots
+const OUTBOX_STORAGE_KEY = 'hashtree:rootOutbox';
+
+let outboxInitialized = false;
+
 // Listeners for cache updates
 const listeners = new Set<(npub: string, treeName: string) => void>();
 
@@ -56,7 +116,24 @@ export function updateLocalRootCache(npub: string, treeName: string, hash: Hash,
   // Preserve existing visibility if not provided (for incremental updates that don't change visibility)
   const existing = localRootCache.get(cacheKey);
   const finalVisibility = visibility ?? existing?.visibility;
-  localRootCache.set(cacheKey, { hash, key, visibility: finalVisibility, dirty: true });
+
+  // Same root again (e.g. saveHashtree after publishing it) - nothing new to publish
+  if (existing && isSameRoot(existing, hash, key)) {
+    existing.visibility = finalVisibility;
+    notifyListeners(npub, treeName);
+    updateSubscriptionCache(cacheKey, hash, key);
+    return;
+  }
+
+  localRootCache.set(cacheKey, {
+    hash,
+    key,
+    visibility: finalVisibility,
+    updatedAt: Math.floor(Date.now() / 1000),
+    sync: { state: 'pending', attempts: 0 },
+  });
+  recordLocalRoot(cacheKey, hash, key);
+  persistOutbox();
   notifyListeners(npub, treeName);
   schedulePublish(npub, treeName);
 
@@ -64,6 +141,32 @@ export function updateLocalRootCache(npub: string, treeName: string, hash: Hash,
   updateSubscriptionCache(cacheKey, hash, key);
 }
 
+function isSameRoot(entry: CacheEntry, hash: Hash, key?: Hash): boolean {
+  const entryKey = entry.key ? toHex(entry.key) : undefined;
+  return toHex(entry.hash) === toHex(hash) && entryKey === (key ? toHex(key) : undefined);
+}
+
+function recordLocalRoot(cacheKey: string, hash: Hash, key?: Hash) {
+  let history = localRootHistory.get(cacheKey);
+  if (!history) {
+    history = [];
+    localRootHistory.set(cacheKey, history);
+  }
+  const last = history[history.length - 1];
+  if (last && toHex(last.hash) === toHex(hash)) return;
+  history.push({ hash, key, updatedAt: Date.now() });
+  if (history.length > MAX_LOCAL_HISTORY) {
+    history.shift();
+  }
+}
+
+/**
+ * Get the roots written locally for a tree in this session, newest first
+ */
+export function getLocalRootHistory(npub: string, treeName: string): LocalRootHistoryEntry[] {
+  return [...(localRootHistory.get(`${npub}/${treeName}`) ?? [])].reverse();
+}
+
 /**
  * Get the visibility for a cached tree
  */
@@ -88,14 +191,14 @@ export function updateLocalRootCacheHex(npub: string, treeName: string, hashHex:
  * Get cached root hash for a tree (if available)
  */
 export function getLocalRootCache(npub: string, treeName: string): Hash | undefined {
-  return localRootCache.get(`${npub}/${treeName}`)?.hash;
+  return checkedEntry(`${npub}/${treeName}`)?.hash;
 }
 
 /**
  * Get cached root key for a tree (if available)
  */
 export function getLocalRootKey(npub: string, treeName: string): Hash | undefined {
-  return localRootCache.get(`${npub}/${treeName}`)?.key;
+  return checkedEntry(`${npub}/${treeName}`)?.key;
 }
 
 /**
@@ -104,6 +207,7 @@ export function getLocalRootKey(npub: string, treeName: string): Hash | undefine
 export function getAllLocalRoots(): Map<string, { hash: Hash; key?: Hash; visibility?: TreeVisibility }> {
   const result = new Map<string, { hash: Hash; key?: Hash; visibility?: TreeVisibility }>();
   for (const [key, entry] of localRootCache.entries()) {
+    if (entry.restored) continue;
     result.set(key, { hash: entry.hash, key: entry.key, visibility: entry.visibility });
   }
   return result;
@@ -113,13 +217,81 @@ export function getAllLocalRoots(): Map<string, { hash: Hash; key?: Hash; visibi
  * Get full cache entry
  */
 export function getLocalRootEntry(npub: string, treeName: string): CacheEntry | undefined {
-  return localRootCache.get(`${npub}/${treeName}`);
+  return checkedEntry(`${npub}/${treeName}`);
+}
+
+/**
+ * Get a cache entry, unless it's a restored root that relays may have superseded
+ */
+function checkedEntry(cacheKey: string): CacheEntry | undefined {
+  const entry = localRootCache.get(cacheKey);
+  return entry?.restored ? undefined : entry;
+}
+
+/**
+ * Get the publish state of a tree's latest local root
+ */
+export function getSyncStatus(npub: string, treeName: string): SyncStatus | undefined {
+  const entry = localRootCache.get(`${npub}/${treeName}`);
+  return entry ? { ...entry.sync } : undefined;
+}
+
+/**
+ * Get the created_at for the next root publish of a tree
+ * Never earlier than `at` and always after the previous publish of the tree,
+ * so relays can't end up keeping an older root because of a timestamp tie.
+ * @param at - When the root was written (seconds, default: now)
+ */
+export function nextPublishTime(npub: string, treeName: string, at = Math.floor(Date.now() / 1000)): number {
+  const cacheKey = `${npub}/${treeName}`;
+  const time = Math.max(at, (lastPublishTimes.get(cacheKey) ?? 0) + 1);
+  lastPublishTimes.set(cacheKey, time);
+  return time;
+}
+
+/**
+ * Mark a root as published by someone else than the outbox (e.g. saveHashtree)
+ */
+export function markRootPublished(npub: string, treeName: string, hashHex: string): void {
+  const cacheKey = `${npub}/${treeName}`;
+  const entry = localRootCache.get(cacheKey);
+  if (!entry || toHex(entry.hash) !== hashHex || entry.sync.state === 'published') return;
+
+  if (!publishing.has(cacheKey)) {
+    const timer = publishTimers.get(cacheKey);
+    if (timer) {
+      clearTimeout(timer);
+      publishTimers.delete(cacheKey);
+    }
+  }
+  entry.sync = { state: 'published', attempts: 0 };
+  persistOutbox();
+  notifyListeners(npub, treeName);
+}
+
+/**
+ * Drop a root that relays rejected because they keep a newer one
+ * The newer root reaches the UI through the tree's subscription.
+ */
+export function dropStaleRoot(npub: string, treeName: string, hashHex: string): void {
+  const cacheKey = `${npub}/${treeName}`;
+  const entry = localRootCache.get(cacheKey);
+  if (!entry || toHex(entry.hash) !== hashHex) return;
+
+  const timer = publishTimers.get(cacheKey);
+  if (timer) {
+    clearTimeout(timer);
+    publishTimers.delete(cacheKey);
+  }
+  localRootCache.delete(cacheKey);
+  persistOutbox();
+  notifyListeners(npub, treeName);
 }
 
 /**
  * Schedule a throttled publish to Nostr
  */
-function schedulePublish(npub: string, treeName: string) {
+function schedulePublish(npub: string, treeName: string, delay = PUBLISH_DELAY) {
   const cacheKey = `${npub}/${treeName}`;
 
   // Clear existing timer
@@ -132,7 +304,7 @@ function schedulePublish(npub: string, treeName: string) {
   const timer = setTimeout(() => {
     publishTimers.delete(cacheKey);
     doPublish(npub, treeName);
-  }, PUBLISH_DELAY);
+  }, delay);
 
   publishTimers.set(cacheKey, timer);
 }
@@ -150,38 +322,84 @@ export function cancelPendingPublish(npub: string, treeName: string): void {
   }
   // Also remove from cache to prevent any future publish
   localRootCache.delete(cacheKey);
+  persistOutbox();
 }
 
 /**
- * Actually publish to Nostr (called after throttle delay)
+ * Actually publish to Nostr (called after throttle delay or retry backoff)
  */
 async function doPublish(npub: string, treeName: string) {
   const cacheKey = `${npub}/${treeName}`;
   const entry = localRootCache.get(cacheKey);
-  if (!entry || !entry.dirty) return;
+  // A publish in flight schedules the next one when it's done
+  if (!entry || entry.sync.state === 'published' || publishing.has(cacheKey)) return;
+
+  // Dynamic import to avoid circular dependency
+  const { publishTreeRoot, fetchLatestRootEvent, nostrStore } = await import('./nostr');
+
+  // Only the owner can publish - keep the root queued until they log in
+  if (nostrStore.getState().npub !== npub) return;
 
+  publishing.add(cacheKey);
+  let error: string | undefined;
+  let stale = false;
   try {
-    // Dynamic import to avoid circular dependency
-    const { publishTreeRoot } = await import('./nostr');
-
-    const hashHex = toHex(entry.hash);
-    const keyHex = entry.key ? toHex(entry.key) : undefined;
-    // Use cached visibility to ensure correct tags are published even after navigation
-    const visibility = entry.visibility;
-
-    const success = await publishTreeRoot(treeName, hashHex, keyHex, visibility);
-
-    if (success) {
-      // Mark as clean (published)
-      // Re-check entry in case it changed during async publish
-      const currentEntry = localRootCache.get(cacheKey);
-      if (currentEntry && toHex(currentEntry.hash) === hashHex) {
-        currentEntry.dirty = false;
+    // A root from a previous session may have been superseded on another device
+    if (entry.restored) {
+      const latest = await fetchLatestRootEvent(treeName);
+      stale = !!latest && (latest.created_at ?? 0) >= entry.updatedAt;
+      if (!stale) {
+        entry.restored = false;
+        if (localRootCache.get(cacheKey) === entry) updateSubscriptionCache(cacheKey, entry.hash, entry.key);
       }
     }
+
+    if (!stale) {
+      const hashHex = toHex(entry.hash);
+      const keyHex = entry.key ? toHex(entry.key) : undefined;
+      // Use cached visibility to ensure correct tags are published even after navigation
+      const createdAt = nextPublishTime(npub, treeName, entry.updatedAt);
+      const success = await publishTreeRoot(treeName, hashHex, keyHex, entry.visibility, createdAt);
+      if (!success) error = 'Not published to any relay';
+    }
   } catch (e) {
-    console.error('Failed to publish tree root:', e);
-    // Will retry on next update
+    error = e instanceof Error ? e.message : String(e);
+  } finally {
+    publishing.delete(cacheKey);
+  }
+
+  if (stale) dropStaleRoot(npub, treeName, toHex(entry.hash));
+
+  // Deleted or replaced by a newer root while publishing
+  const current = localRootCache.get(cacheKey);
+  if (current !== entry) {
+    if (current && current.sync.state !== 'published' && !publishTimers.has(cacheKey)) {
+      schedulePublish(npub, treeName);
+    }
+    return;
+  }
+
+  if (error) {
+    const attempts = entry.sync.attempts + 1;
+    const delay = Math.min(RETRY_BASE_DELAY * 2 ** (attempts - 1), RETRY_MAX_DELAY);
+    entry.sync = { state: 'failed', attempts, error, nextRetryAt: Date.now() + delay };
+    console.warn(`[treeRootCache] Failed to publish ${cacheKey}, retrying in ${delay}ms:`, error);
+    schedulePublish(npub, treeName, delay);
+  } else {
+    entry.sync = { state: 'published', attempts: 0 };
+  }
+  persistOutbox();
+  notifyListeners(npub, treeName);
+}
+
+/**
+ * Retry all unpublished roots now (e.g. when relays come back)
+ */
+export function retryPendingPublishes(): void {
+  for (const [cacheKey, entry] of localRootCache) {
+    if (entry.sync.state === 'published' || publishing.has(cacheKey)) continue;
+    const slash = cacheKey.indexOf('/');
+    schedulePublish(cacheKey.slice(0, slash), cacheKey.slice(slash + 1), 0);
   }
 }
 
@@ -191,13 +409,103 @@ async function doPublish(npub: string, treeName: string) {
 export async function flushPendingPublishes(): Promise<void> {
   const promises: Promise<void>[] = [];
 
-  for (const [cacheKey, timer] of publishTimers) {
-    clearTimeout(timer);
-    publishTimers.delete(cacheKey);
+  for (const [cacheKey, entry] of localRootCache) {
+    if (entry.sync.state === 'published') continue;
+    const timer = publishTimers.get(cacheKey);
+    if (timer) {
+      clearTimeout(timer);
+      publishTimers.delete(cacheKey);
+    }
 
-    const [npub, treeName] = cacheKey.split('/');
-    promises.push(doPublish(npub, treeName));
+    const slash = cacheKey.indexOf('/');
+    promises.push(doPublish(cacheKey.slice(0, slash), cacheKey.slice(slash + 1)));
   }
 
   await Promise.all(promises);
 }
+
+/**
+ * Save unpublished roots so they are published after a reload
+ */
+function persistOutbox() {
+  if (typeof localStorage === 'undefined') return;
+
+  const records: Record<string, OutboxRecord> = {};
+  for (const [cacheKey, entry] of localRootCache) {
+    if (entry.sync.state === 'published') continue;
+    records[cacheKey] = {
+      hash: toHex(entry.hash),
+      key: entry.key ? toHex(entry.key) : undefined,
+      visibility: entry.visibility,
+      updatedAt: entry.updatedAt,
+      attempts: entry.sync.attempts,
+    };
+  }
+
+  try {
+    if (Object.keys(records).length === 0) {
+      localStorage.removeItem(OUTBOX_STORAGE_KEY);
+    } else {
+      localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(records));
+    }
+  } catch (e) {
+    console.error('Failed to persist root outbox:', e);
+  }
+}
+
+/**
+ * Load unpublished roots saved by a previous session
+ */
+function loadOutbox() {
+  if (typeof localStorage === 'undefined') return;
+
+  let records: Record<string, OutboxRecord>;
+  try {
+    records = JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY) || '{}');
+  } catch {
+    return;
+  }
+
+  for (const [cacheKey, record] of Object.entries(records)) {
+    // Roots written in this session are newer
+    if (localRootCache.has(cacheKey)) continue;
+    // Shown once doPublish has checked that relays have no newer root
+    localRootCache.set(cacheKey, {
+      hash: fromHex(record.hash),
+      key: record.key ? fromHex(record.key) : undefined,
+      visibility: record.visibility,
+      updatedAt: record.updatedAt,
+      sync: { state: 'pending', attempts: record.attempts },
+      restored: true,
+    });
+  }
+}
+
+/**
+ * Restore the outbox from the previous session and publish it
+ * Retries unpublished roots when the browser goes online, relays reconnect
+ * or the owner of a queued root logs in. Call once at startup.
+ */
+export function initPublishOutbox(): void {
+  if (outboxInitialized) return;
+  outboxInitialized = true;
+
+  loadOutbox();
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', retryPendingPublishes);
+  }
+
+  // Dynamic import to avoid circular dependency
+  import('./nostr').then(({ nostrStore }) => {
+    let previous = nostrStore.getState();
+    nostrStore.subscribe((state: NostrState) => {
+      const relaysBack = state.connectedRelays > 0 && previous.connectedRelays === 0;
+      const accountChanged = state.npub !== previous.npub;
+      previous = state;
+      if (relaysBack || accountChanged) retryPendingPublishes();
+    });
+  });
+
+  retryPendingPublishes();
+}
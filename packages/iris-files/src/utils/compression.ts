@@ -3,7 +3,12 @@
  */
 import { zipSync, unzipSync, type Zippable, type Unzipped } from 'fflate';
 import type { HashTree, CID } from 'hashtree';
-import { LinkType } from 'hashtree';
+import { LinkType, entryMode, entryMtime } from 'hashtree';
+
+/** ZIP "version made by" host system for Unix */
+const ZIP_OS_UNIX = 3;
+/** DOS dates start in 1980 */
+const MIN_DOS_TIME = Date.UTC(1980, 0, 2) / 1000;
 
 export interface ZipProgress {
   current: number;
@@ -32,6 +37,8 @@ interface CollectedItem {
   cid: CID;
   size?: number;
   isDirectory: boolean;
+  mode: number;
+  mtime?: number;
 }
 
 /**
@@ -62,11 +69,17 @@ async function collectFiles(
       const subdirHasContent = await collectFiles(tree, entry.cid, fullPath, items, onProgress, counter);
       if (!subdirHasContent) {
         // Empty directory - add it with trailing slash
-        items.set(fullPath + '/', { cid: entry.cid, isDirectory: true });
+        items.set(fullPath + '/', { cid: entry.cid, isDirectory: true, mode: entryMode(entry), mtime: entryMtime(entry) });
       }
       hasContent = true;
     } else {
-      items.set(fullPath, { cid: entry.cid, size: entry.size, isDirectory: false });
+      items.set(fullPath, {
+        cid: entry.cid,
+        size: entry.size,
+        isDirectory: false,
+        mode: entryMode(entry),
+        mtime: entryMtime(entry),
+      });
       counter.value++;
       onProgress?.({
         current: counter.value,
@@ -98,11 +111,16 @@ export async function createZipFromDirectory(
   const zipFiles: Zippable = {};
   let current = 0;
 
-  // Read and add each item to the zip
+  // Read and add each item to the zip, with unix mode and mtime
   for (const [path, info] of items) {
+    const attrs = {
+      os: ZIP_OS_UNIX,
+      attrs: ((info.mode << 16) | (info.isDirectory ? 0x10 : 0)) >>> 0,
+      ...(info.mtime !== undefined && info.mtime >= MIN_DOS_TIME ? { mtime: info.mtime * 1000 } : {}),
+    };
     if (info.isDirectory) {
       // Empty directory - add as empty Uint8Array with trailing slash path
-      zipFiles[path] = new Uint8Array(0);
+      zipFiles[path] = [new Uint8Array(0), attrs];
     } else {
       current++;
       onProgress?.({
@@ -111,9 +129,10 @@ export async function createZipFromDirectory(
         fileName: path,
       });
 
+      // Symlinks are stored like zip -y does: S_IFLNK mode and the target path as content
       const data = await tree.readFile(info.cid);
       if (data) {
-        zipFiles[path] = data;
+        zipFiles[path] = [data, attrs];
       }
     }
   }
@@ -131,6 +150,81 @@ export interface ExtractedFile {
   name: string;
   data: Uint8Array;
   isDirectory: boolean;
+  /** Unix st_mode, if the archive was made on Unix. Symlinks have S_IFLNK and the target as data. */
+  mode?: number;
+  /** Modification time in unix seconds */
+  mtime?: number;
+}
+
+interface ZipEntryAttributes {
+  mode?: number;
+  mtime?: number;
+}
+
+/**
+ * Read unix modes and mtimes from the ZIP central directory
+ * fflate's unzip doesn't expose them. ZIP64 archives are not handled and yield no attributes.
+ */
+export function readZipAttributes(data: Uint8Array): Map<string, ZipEntryAttributes> {
+  const result = new Map<string, ZipEntryAttributes>();
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // End of central directory record, followed by a comment of up to 64KB
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return result;
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const latin1 = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+  for (let i = 0; i < count && offset + 46 <= data.length; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const os = view.getUint8(offset + 5);
+    const flags = view.getUint16(offset + 8, true);
+    const dosTime = view.getUint16(offset + 12, true);
+    const dosDate = view.getUint16(offset + 14, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const externalAttrs = view.getUint32(offset + 38, true);
+
+    const nameBytes = data.subarray(offset + 46, offset + 46 + nameLength);
+    const name = flags & 0x800 ? new TextDecoder().decode(nameBytes) : latin1(nameBytes);
+
+    // Extended timestamp extra field (0x5455) has the exact unix mtime
+    let mtime: number | undefined;
+    for (let e = offset + 46 + nameLength; e + 4 <= offset + 46 + nameLength + extraLength;) {
+      const id = view.getUint16(e, true);
+      const size = view.getUint16(e + 2, true);
+      if (id === 0x5455 && size >= 5 && (view.getUint8(e + 4) & 1)) {
+        mtime = view.getUint32(e + 5, true);
+      }
+      e += 4 + size;
+    }
+    if (mtime === undefined && dosDate) {
+      mtime = new Date(
+        (dosDate >> 9) + 1980,
+        ((dosDate >> 5) & 0xf) - 1,
+        dosDate & 0x1f,
+        dosTime >> 11,
+        (dosTime >> 5) & 0x3f,
+        (dosTime & 0x1f) * 2
+      ).getTime() / 1000;
+    }
+
+    const mode = os === ZIP_OS_UNIX ? externalAttrs >>> 16 : 0;
+    result.set(name, { mode: mode || undefined, mtime });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return result;
 }
 
 export function extractArchive(data: Uint8Array, fileName: string): ExtractedFile[] {
@@ -141,6 +235,7 @@ export function extractArchive(data: Uint8Array, fileName: string): ExtractedFil
   }
 
   const unzipped = unzipSync(data);
+  const attributes = readZipAttributes(data);
   const files: ExtractedFile[] = [];
 
   for (const [name, content] of Object.entries(unzipped)) {
@@ -157,6 +252,7 @@ export function extractArchive(data: Uint8Array, fileName: string): ExtractedFil
         name: name.replace(/\/$/, ''), // Remove trailing slash if any
         data: content,
         isDirectory: false,
+        ...attributes.get(name),
       });
     }
   }
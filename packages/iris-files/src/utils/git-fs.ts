@@ -2,12 +2,15 @@
  * Filesystem adapter for isomorphic-git that uses hashtree as storage
  * Implements the fs interface expected by isomorphic-git
  */
-import type { CID, HashTree } from 'hashtree';
-import { LinkType } from 'hashtree';
+import type { CID, HashTree, TreeEntry } from 'hashtree';
+import { LinkType, entryMode, entryMtime, posixMeta, DEFAULT_FILE_MODE, DEFAULT_DIR_MODE, DEFAULT_SYMLINK_MODE } from 'hashtree';
 import { getTree } from '../store';
 
+/** Max symlinks followed when resolving a path, like Linux MAXSYMLINKS */
+const MAX_SYMLINKS = 40;
+
 interface Stats {
-  type: 'file' | 'dir';
+  type: 'file' | 'dir' | 'symlink';
   mode: number;
   size: number;
   ino: number;
@@ -21,24 +24,40 @@ interface Stats {
   isSymbolicLink(): boolean;
 }
 
-function createStats(isDir: boolean, size: number): Stats {
-  const now = Date.now();
+function createStats(type: Stats['type'], size: number, mode: number, mtime?: number): Stats {
+  const mtimeMs = mtime !== undefined ? mtime * 1000 : Date.now();
   return {
-    type: isDir ? 'dir' : 'file',
-    mode: isDir ? 0o40755 : 0o100644,
+    type,
+    mode,
     size,
     ino: 0,
-    mtimeMs: now,
-    ctimeMs: now,
+    mtimeMs,
+    ctimeMs: mtimeMs,
     uid: 1000,
     gid: 1000,
     dev: 0,
-    isFile: () => !isDir,
-    isDirectory: () => isDir,
-    isSymbolicLink: () => false,
+    isFile: () => type === 'file',
+    isDirectory: () => type === 'dir',
+    isSymbolicLink: () => type === 'symlink',
   };
 }
 
+function entryStats(entry: TreeEntry): Stats {
+  const type = entry.type === LinkType.Dir ? 'dir' : entry.type === LinkType.Symlink ? 'symlink' : 'file';
+  return createStats(type, entry.size, entryMode(entry), entryMtime(entry));
+}
+
+/** Resolve a symlink target against the directory containing the link */
+function resolveLinkTarget(linkPath: string, target: string): string {
+  const parts = target.startsWith('/') ? [] : linkPath.split('/').filter(Boolean).slice(0, -1);
+  for (const part of target.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+}
+
 /**
  * In-memory filesystem layer on top of hashtree
  * Maintains a working tree that can be committed back to hashtree
@@ -50,6 +69,8 @@ export class HashTreeFS {
   // In-memory cache for pending writes (before commit)
   private pendingFiles = new Map<string, Uint8Array>();
   private pendingDirs = new Set<string>();
+  private pendingSymlinks = new Map<string, string>();
+  private pendingModes = new Map<string, number>();
   private deletedPaths = new Set<string>();
 
   constructor(rootCid?: CID) {
@@ -62,8 +83,14 @@ export class HashTreeFS {
    */
   setRoot(cid: CID) {
     this.rootCid = cid;
+    this.clearPending();
+  }
+
+  private clearPending() {
     this.pendingFiles.clear();
     this.pendingDirs.clear();
+    this.pendingSymlinks.clear();
+    this.pendingModes.clear();
     this.deletedPaths.clear();
   }
 
@@ -78,20 +105,15 @@ export class HashTreeFS {
    * Commit pending changes to hashtree and return new root CID
    */
   async commit(): Promise<CID> {
-    let currentRoot = this.rootCid;
-
     // If no root, create empty directory
-    if (!currentRoot) {
-      const { cid } = await this.tree.putDirectory([]);
-      currentRoot = cid;
-    }
+    let currentRoot: CID = this.rootCid ?? (await this.tree.putDirectory([])).cid;
 
     // Apply deletions first
     for (const path of this.deletedPaths) {
       const parts = this.parsePath(path);
       const name = parts.pop()!;
       try {
-        currentRoot = await this.tree.deleteEntry(currentRoot, parts, name);
+        currentRoot = await this.tree.removeEntry(currentRoot, parts, name);
       } catch {
         // Ignore deletion errors (path may not exist)
       }
@@ -105,22 +127,60 @@ export class HashTreeFS {
       currentRoot = await this.tree.setEntry(currentRoot, parts, name, emptyDir, 0, LinkType.Dir);
     }
 
-    // Write files
+    // Write files, keeping only the mode of overwritten files. Their mtime, mimeType
+    // and thumbnail described the old content.
     for (const [path, data] of this.pendingFiles) {
       const parts = this.parsePath(path);
       const name = parts.pop()!;
+      const existing = await this.getEntry(currentRoot, path);
+      const mode = this.pendingModes.get(path) ?? (existing && existing.type !== LinkType.Symlink ? entryMode(existing) : undefined);
       const { cid: fileCid, size } = await this.tree.putFile(data);
-      currentRoot = await this.tree.setEntry(currentRoot, parts, name, fileCid, size, LinkType.Blob);
+      const meta = posixMeta(LinkType.Blob, { mode });
+      currentRoot = await this.tree.setEntry(currentRoot, parts, name, fileCid, size, LinkType.Blob, meta);
+    }
+
+    // Write symlinks
+    for (const [path, target] of this.pendingSymlinks) {
+      const parts = this.parsePath(path);
+      const name = parts.pop()!;
+      const { cid: linkCid, size } = await this.tree.putSymlink(target);
+      currentRoot = await this.tree.setEntry(currentRoot, parts, name, linkCid, size, LinkType.Symlink);
+    }
+
+    // Mode changes of files that weren't rewritten
+    for (const [path, mode] of this.pendingModes) {
+      if (this.pendingFiles.has(path)) continue;
+      const existing = await this.getEntry(currentRoot, path);
+      if (!existing || existing.type === LinkType.Symlink) continue;
+      const parts = this.parsePath(path);
+      const name = parts.pop()!;
+      const meta = posixMeta(existing.type, { mode }, existing.meta);
+      currentRoot = await this.tree.setEntry(currentRoot, parts, name, existing.cid, existing.size, existing.type, meta);
     }
 
     this.rootCid = currentRoot;
-    this.pendingFiles.clear();
-    this.pendingDirs.clear();
-    this.deletedPaths.clear();
+    this.clearPending();
 
     return currentRoot;
   }
 
+  /**
+   * Look up a committed entry with its type and meta
+   */
+  private async getEntry(root: CID, filepath: string): Promise<TreeEntry | null> {
+    const parts = this.parsePath(filepath);
+    const name = parts.pop();
+    if (!name) return null;
+    const dir = parts.length > 0 ? await this.tree.resolvePath(root, parts) : { cid: root };
+    if (!dir) return null;
+    try {
+      const entries = await this.tree.listDirectory(dir.cid);
+      return entries.find(e => e.name === name) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
   private parsePath(filepath: string): string[] {
     return filepath.split('/').filter(Boolean);
   }
@@ -131,6 +191,8 @@ export class HashTreeFS {
    * Read file contents
    */
   async readFile(filepath: string, options?: { encoding?: string }): Promise<Uint8Array | string> {
+    filepath = await this.resolveSymlinks(filepath);
+
     // Check pending writes first
     if (this.pendingFiles.has(filepath)) {
       const data = this.pendingFiles.get(filepath)!;
@@ -178,8 +240,12 @@ export class HashTreeFS {
   async writeFile(filepath: string, data: Uint8Array | string): Promise<void> {
     const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
     this.pendingFiles.set(filepath, bytes);
+    this.pendingSymlinks.delete(filepath);
     this.deletedPaths.delete(filepath);
+    await this.ensureParentDirs(filepath);
+  }
 
+  private async ensureParentDirs(filepath: string): Promise<void> {
     // Ensure parent directories exist
     const parts = this.parsePath(filepath);
     for (let i = 1; i < parts.length; i++) {
@@ -199,6 +265,8 @@ export class HashTreeFS {
    */
   async unlink(filepath: string): Promise<void> {
     this.pendingFiles.delete(filepath);
+    this.pendingSymlinks.delete(filepath);
+    this.pendingModes.delete(filepath);
     this.deletedPaths.add(filepath);
   }
 
@@ -206,6 +274,7 @@ export class HashTreeFS {
    * Read directory contents
    */
   async readdir(filepath: string): Promise<string[]> {
+    filepath = await this.resolveSymlinks(filepath);
     const parts = this.parsePath(filepath);
     let cid = this.rootCid;
 
@@ -216,7 +285,7 @@ export class HashTreeFS {
         const dirParts = this.parsePath(dir);
         if (dirParts.length === 1) pending.add(dirParts[0]);
       }
-      for (const file of this.pendingFiles.keys()) {
+      for (const file of [...this.pendingFiles.keys(), ...this.pendingSymlinks.keys()]) {
         const fileParts = this.parsePath(file);
         if (fileParts.length === 1) pending.add(fileParts[0]);
       }
@@ -246,7 +315,7 @@ export class HashTreeFS {
         }
       }
     }
-    for (const file of this.pendingFiles.keys()) {
+    for (const file of [...this.pendingFiles.keys(), ...this.pendingSymlinks.keys()]) {
       if (file.startsWith(prefix)) {
         const rest = file.slice(prefix.length);
         const nextPart = rest.split('/')[0];
@@ -277,51 +346,92 @@ export class HashTreeFS {
   }
 
   /**
-   * Get file/directory stats
+   * Get file/directory stats, following symlinks
    */
   async stat(filepath: string): Promise<Stats> {
+    return this.lstatResolved(await this.resolveSymlinks(filepath));
+  }
+
+  /**
+   * Get file/directory stats without following a final symlink
+   */
+  async lstat(filepath: string): Promise<Stats> {
+    return this.lstatResolved(await this.resolveSymlinks(filepath, false));
+  }
+
+  /**
+   * lstat of a path whose parent directories contain no symlinks
+   */
+  private async lstatResolved(filepath: string): Promise<Stats> {
     // Check pending
     if (this.pendingFiles.has(filepath)) {
-      return createStats(false, this.pendingFiles.get(filepath)!.length);
+      const mode = this.pendingModes.get(filepath) ?? DEFAULT_FILE_MODE;
+      return createStats('file', this.pendingFiles.get(filepath)!.length, mode);
+    }
+    if (this.pendingSymlinks.has(filepath)) {
+      return createStats('symlink', new TextEncoder().encode(this.pendingSymlinks.get(filepath)!).length, DEFAULT_SYMLINK_MODE);
     }
     if (this.pendingDirs.has(filepath)) {
-      return createStats(true, 0);
+      return createStats('dir', 0, DEFAULT_DIR_MODE);
     }
 
-    if (!this.rootCid) {
+    if (!this.rootCid || this.deletedPaths.has(filepath)) {
       throw new Error(`ENOENT: no such file or directory, stat '${filepath}'`);
     }
 
-    const parts = this.parsePath(filepath);
-    let cid = this.rootCid;
-
-    for (const part of parts.slice(0, -1)) {
-      const resolved = await this.tree.resolvePath(cid, part);
-      if (!resolved) {
-        throw new Error(`ENOENT: no such file or directory, stat '${filepath}'`);
-      }
-      cid = resolved.cid;
-    }
-
-    const name = parts[parts.length - 1];
-    if (!name) {
+    if (this.parsePath(filepath).length === 0) {
       // Root directory
-      return createStats(true, 0);
+      return createStats('dir', 0, DEFAULT_DIR_MODE);
     }
 
-    const resolved = await this.tree.resolvePath(cid, name);
-    if (!resolved) {
+    const entry = await this.getEntry(this.rootCid, filepath);
+    if (!entry) {
       throw new Error(`ENOENT: no such file or directory, stat '${filepath}'`);
     }
 
-    return createStats(resolved.type === LinkType.Dir, resolved.size);
+    const stats = entryStats(entry);
+    const mode = this.pendingModes.get(filepath);
+    if (mode !== undefined && stats.type === 'file') {
+      stats.mode = (stats.mode & ~0o7777) | (mode & 0o7777);
+    }
+    return stats;
   }
 
   /**
-   * Get file/directory stats (same as stat for our purposes)
+   * Resolve symlinks in every path component, and in the last one unless followLast is false
+   * Missing components are kept as they are, so the result can be used for ENOENT errors.
    */
-  async lstat(filepath: string): Promise<Stats> {
-    return this.stat(filepath);
+  private async resolveSymlinks(filepath: string, followLast = true): Promise<string> {
+    let remaining = this.parsePath(filepath);
+    let resolved: string[] = [];
+    let links = 0;
+    while (remaining.length > 0) {
+      const part = remaining.shift()!;
+      const current = [...resolved, part].join('/');
+      if (remaining.length === 0 && !followLast) {
+        resolved.push(part);
+        break;
+      }
+      let stats: Stats;
+      try {
+        stats = await this.lstatResolved(current);
+      } catch {
+        resolved.push(part);
+        continue;
+      }
+      if (!stats.isSymbolicLink()) {
+        resolved.push(part);
+        continue;
+      }
+      if (++links > MAX_SYMLINKS) {
+        throw new Error(`ELOOP: too many symbolic links encountered, stat '${filepath}'`);
+      }
+      // Link targets are resolved to paths from the root
+      remaining = [...this.parsePath(resolveLinkTarget(current, await this.readlinkResolved(current))), ...remaining];
+      resolved = [];
+    }
+    // Keep the caller's spelling when nothing was a link, as pending writes are keyed by it
+    return links === 0 ? filepath : resolved.join('/');
   }
 
   /**
@@ -337,32 +447,61 @@ export class HashTreeFS {
   }
 
   /**
-   * Read symbolic link (not supported, but required by interface)
+   * Read symbolic link target
    */
   async readlink(filepath: string): Promise<string> {
-    throw new Error(`EINVAL: invalid argument, readlink '${filepath}'`);
+    return this.readlinkResolved(await this.resolveSymlinks(filepath, false));
+  }
+
+  private async readlinkResolved(filepath: string): Promise<string> {
+    const pending = this.pendingSymlinks.get(filepath);
+    if (pending !== undefined) return pending;
+
+    const entry = this.rootCid && !this.deletedPaths.has(filepath) && !this.pendingFiles.has(filepath)
+      ? await this.getEntry(this.rootCid, filepath)
+      : null;
+    if (!entry || entry.type !== LinkType.Symlink) {
+      throw new Error(`EINVAL: invalid argument, readlink '${filepath}'`);
+    }
+    const target = await this.tree.readSymlink(entry.cid);
+    if (target === null) {
+      throw new Error(`ENOENT: no such file or directory, readlink '${filepath}'`);
+    }
+    return target;
   }
 
   /**
-   * Create symbolic link (not supported)
+   * Create symbolic link
    */
   async symlink(target: string, filepath: string): Promise<void> {
-    throw new Error(`EPERM: operation not permitted, symlink '${target}' -> '${filepath}'`);
+    this.pendingSymlinks.set(filepath, target);
+    this.pendingFiles.delete(filepath);
+    this.pendingModes.delete(filepath);
+    this.deletedPaths.delete(filepath);
+    await this.ensureParentDirs(filepath);
   }
 
   /**
-   * Change file mode (no-op for hashtree)
+   * Change file mode (permission bits are kept in the entry meta on commit)
    */
-  async chmod(_filepath: string, _mode: number): Promise<void> {
-    // No-op - hashtree doesn't support file modes
+  async chmod(filepath: string, mode: number): Promise<void> {
+    this.pendingModes.set(filepath, mode);
   }
 
   /**
    * Rename/move a file
    */
   async rename(oldPath: string, newPath: string): Promise<void> {
-    const data = await this.readFile(oldPath);
-    await this.writeFile(newPath, data as Uint8Array);
+    const stats = await this.lstat(oldPath);
+    if (stats.isSymbolicLink()) {
+      await this.symlink(await this.readlink(oldPath), newPath);
+    } else {
+      const data = await this.readFile(oldPath);
+      await this.writeFile(newPath, data as Uint8Array);
+      if ((stats.mode & 0o7777) !== (DEFAULT_FILE_MODE & 0o7777)) {
+        await this.chmod(newPath, stats.mode);
+      }
+    }
     await this.unlink(oldPath);
   }
 }
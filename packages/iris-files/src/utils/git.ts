@@ -2,7 +2,7 @@
  * Git utilities using wasm-git (libgit2 compiled to WebAssembly)
  */
 import type { CID } from 'hashtree';
-import { LinkType, toHex } from 'hashtree';
+import { LinkType, toHex, posixMeta } from 'hashtree';
 import { getTree } from '../store';
 import { LRUCache } from './lruCache';
 
@@ -378,7 +378,7 @@ export async function checkoutCommit(
 
   // Build hashtree entries from checkout result
   // First, organize files into a tree structure
-  const dirMap = new Map<string, Array<{ name: string; cid: CID; size: number; type: LinkType }>>();
+  const dirMap = new Map<string, Array<{ name: string; cid: CID; size: number; type: LinkType; meta?: Record<string, unknown> }>>();
   dirMap.set('', []); // Root directory
 
   // Process directories first
@@ -391,13 +391,18 @@ export async function checkoutCommit(
   // Process files and build from leaves up
   for (const file of files) {
     if (!file.isDir) {
-      const { cid, size } = await tree.putFile(file.data);
       const parentDir = file.name.includes('/') ? file.name.substring(0, file.name.lastIndexOf('/')) : '';
       const fileName = file.name.includes('/') ? file.name.substring(file.name.lastIndexOf('/') + 1) : file.name;
 
       const entries = dirMap.get(parentDir);
-      if (entries) {
-        entries.push({ name: fileName, cid, size, type: LinkType.Blob });
+      if (!entries) continue;
+      if (file.symlinkTarget !== undefined) {
+        const { cid, size } = await tree.putSymlink(file.symlinkTarget);
+        entries.push({ name: fileName, cid, size, type: LinkType.Symlink });
+      } else {
+        // Keep executable bits from the commit
+        const { cid, size } = await tree.putFile(file.data);
+        entries.push({ name: fileName, cid, size, type: LinkType.Blob, meta: posixMeta(LinkType.Blob, { mode: file.mode }) });
       }
     }
   }
@@ -6,6 +6,16 @@ import { LinkType } from 'hashtree';
 import { getTree } from '../../store';
 import { withWasmGitLock, loadWasmGit, copyToWasmFS, runSilent, rmRf } from './core';
 
+export interface CheckoutFile {
+  name: string;
+  data: Uint8Array;
+  isDir: boolean;
+  /** st_mode of working tree entries */
+  mode?: number;
+  /** Target path if the entry is a symlink */
+  symlinkTarget?: string;
+}
+
 /**
  * Checkout a specific commit using wasm-git
  * Returns files from that commit as a directory listing, plus the updated .git directory
@@ -14,7 +24,7 @@ export async function checkoutWithWasmGit(
   rootCid: CID,
   commitSha: string,
   onProgress?: (file: string) => void
-): Promise<{ files: Array<{ name: string; data: Uint8Array; isDir: boolean }>; gitFiles: Array<{ name: string; data: Uint8Array; isDir: boolean }> }> {
+): Promise<{ files: CheckoutFile[]; gitFiles: CheckoutFile[] }> {
   return withWasmGitLock(async () => {
     const tree = getTree();
 
@@ -50,7 +60,7 @@ export async function checkoutWithWasmGit(
       }
 
       // Read all files from the working directory (excluding .git)
-      const files: Array<{ name: string; data: Uint8Array; isDir: boolean }> = [];
+      const files: CheckoutFile[] = [];
 
       function readDir(path: string, prefix: string, skipGit: boolean): void {
         const entries = module.FS.readdir(path);
@@ -62,16 +72,19 @@ export async function checkoutWithWasmGit(
           const relativePath = prefix ? `${prefix}/${entry}` : entry;
 
           try {
-            const stat = module.FS.stat(fullPath);
-            // Emscripten's stat returns mode as number, check S_IFDIR (0o40000)
-            const isDir = (stat.mode & 0o170000) === 0o040000;
-            if (isDir) {
-              files.push({ name: relativePath, data: new Uint8Array(0), isDir: true });
+            // lstat so symlinks are kept as links; mode is a number, check S_IFDIR (0o40000) and S_IFLNK (0o120000)
+            const stat = module.FS.lstat(fullPath);
+            const fileType = stat.mode & 0o170000;
+            if (fileType === 0o040000) {
+              files.push({ name: relativePath, data: new Uint8Array(0), isDir: true, mode: stat.mode });
               readDir(fullPath, relativePath, skipGit);
+            } else if (fileType === 0o120000) {
+              const symlinkTarget = module.FS.readlink(fullPath);
+              files.push({ name: relativePath, data: new Uint8Array(0), isDir: false, mode: stat.mode, symlinkTarget });
             } else {
               if (onProgress) onProgress(relativePath);
               const data = module.FS.readFile(fullPath) as Uint8Array;
-              files.push({ name: relativePath, data, isDir: false });
+              files.push({ name: relativePath, data, isDir: false, mode: stat.mode });
             }
           } catch {
             // Skip files we can't read
@@ -82,7 +95,7 @@ export async function checkoutWithWasmGit(
       readDir('.', '', true);
 
       // Also read the updated .git directory
-      const gitFiles: Array<{ name: string; data: Uint8Array; isDir: boolean }> = [];
+      const gitFiles: CheckoutFile[] = [];
 
       function readGitDir(path: string, prefix: string): void {
         const entries = module.FS.readdir(path);
@@ -2,7 +2,7 @@
  * Core wasm-git utilities - module loading, locking, filesystem operations
  */
 import type { CID } from 'hashtree';
-import { LinkType } from 'hashtree';
+import { LinkType, entryMode, isExecutable } from 'hashtree';
 import { getTree } from '../../store';
 
 // Module type from wasm-git
@@ -12,6 +12,10 @@ export interface WasmGitModule {
     writeFile(path: string, data: Uint8Array | string): void;
     readdir(path: string): string[];
     stat(path: string): { mode: number };
+    lstat(path: string): { mode: number };
+    readlink(path: string): string;
+    symlink(target: string, path: string): void;
+    chmod(path: string, mode: number): void;
     readFile(path: string, opts?: { encoding?: string }): Uint8Array | string;
     chdir(path: string): void;
     cwd(): string;
@@ -55,7 +59,8 @@ export function rmRf(module: WasmGitModule, path: string): void {
       if (entry === '.' || entry === '..') continue;
       const fullPath = `${path}/${entry}`;
       try {
-        const stat = module.FS.stat(fullPath);
+        // lstat so symlinked directories are unlinked, not emptied
+        const stat = module.FS.lstat(fullPath);
         const isDir = (stat.mode & 0o170000) === 0o040000;
         if (isDir) {
           rmRf(module, fullPath);
@@ -159,10 +164,19 @@ export async function copyToWasmFS(
         // Directory may already exist
       }
       await copyToWasmFS(module, entry.cid, entryPath);
+    } else if (entry.type === LinkType.Symlink) {
+      const target = await tree.readSymlink(entry.cid);
+      if (target) {
+        module.FS.symlink(target, entryPath);
+      }
     } else {
       const data = await tree.readFile(entry.cid);
       if (data) {
         module.FS.writeFile(entryPath, data);
+        // Keep executable bits so git doesn't see mode changes
+        if (isExecutable(entry)) {
+          module.FS.chmod(entryPath, entryMode(entry));
+        }
       }
     }
   }
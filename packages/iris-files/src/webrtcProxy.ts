@@ -267,10 +267,11 @@ export class WebRTCProxy {
 
   // 256KB threshold - pause sending when buffer exceeds this
   private static readonly BUFFER_THRESHOLD = 256 * 1024;
-  // 4MB threshold for sendQueue - signal worker to pause when exceeded
-  private static readonly QUEUE_HIGH_THRESHOLD = 4 * 1024 * 1024;
-  // 1MB threshold for sendQueue - signal worker to resume when below
-  private static readonly QUEUE_LOW_THRESHOLD = 1 * 1024 * 1024;
+  // 256KB threshold for sendQueue (on top of a full data channel buffer) - signal worker to pause when exceeded
+  // Well below MAX_QUEUE_ITEMS fragments, so the worker pauses before anything is dropped
+  private static readonly QUEUE_HIGH_THRESHOLD = 256 * 1024;
+  // 64KB threshold for sendQueue - signal worker to resume when below
+  private static readonly QUEUE_LOW_THRESHOLD = 64 * 1024;
 
   private getQueueSize(peer: PeerConnection): number {
     let size = 0;
@@ -9,7 +9,7 @@
  * Main thread communicates via WorkerAdapter postMessage.
  */
 
-import NDK, { NDKEvent, NDKPrivateKeySigner, type NDKFilter } from 'ndk';
+import NDK, { NDKEvent, NDKPrivateKeySigner, NDKPublishError, type NDKFilter } from 'ndk';
 import NDKCacheAdapterDexie from 'ndk-cache';
 import { verifyEvent } from 'nostr-tools';
 import type { SignedEvent, NostrFilter } from './protocol';
@@ -231,7 +231,13 @@ export async function publish(event: SignedEvent): Promise<void> {
     sig: event.sig,
   });
 
-  await ndkEvent.publish();
+  try {
+    await ndkEvent.publish();
+  } catch (e) {
+    // Keep the relays' reasons, e.g. that they have a newer replaceable event
+    if (e instanceof NDKPublishError) throw new Error(`${e.message}\n${e.relayErrors}`);
+    throw e;
+  }
   console.log('[Worker NDK] Published:', event.id);
 }
 
@@ -92,6 +92,11 @@ export type WorkerRequest =
   // Stats
   | { type: 'getPeerStats'; id: string }
   | { type: 'getRelayStats'; id: string }
+  | { type: 'getStorageStats'; id: string }
+
+  // Storage maintenance
+  | { type: 'setPins'; id: string; pins: TreePin[] }
+  | { type: 'gc'; id: string; dryRun?: boolean }
 
   // WebRTC pool configuration
   | { type: 'setWebRTCPools'; id: string; pools: { follows: { max: number; satisfied: number }; other: { max: number; satisfied: number } } }
@@ -130,6 +135,7 @@ export interface WorkerConfig {
   pubkey: string;  // User's pubkey (required - user always logged in)
   nsec?: string;  // Hex-encoded secret key (only for nsec login, not extension)
   storeName?: string;  // IndexedDB database name, defaults to 'hashtree-worker'
+  storeMaxBytes?: number;  // Evict least recently used blocks beyond this (own trees are protected)
 }
 
 // ============================================================================
@@ -158,6 +164,8 @@ export type WorkerResponse =
   // Stats
   | { type: 'peerStats'; id: string; stats: PeerStats[] }
   | { type: 'relayStats'; id: string; stats: RelayStats[] }
+  | { type: 'storageStats'; id: string; items: number; bytes: number }
+  | { type: 'gcResult'; id: string; result?: GcReport; error?: string }
 
   // Blossom notifications
   | { type: 'blossomUploadError'; hash: string; error: string }
@@ -185,6 +193,22 @@ export interface DirEntry {
   cid?: CID;
 }
 
+/**
+ * Tree root kept by garbage collection (name is "npub/treeName")
+ */
+export interface TreePin {
+  name: string;
+  cid: CID;
+}
+
+export interface GcReport {
+  dryRun: boolean;
+  marked: number;      // Blocks reachable from pinned roots
+  unreachable: number; // Blocks not reachable
+  swept: number;       // Blocks deleted (0 for dry runs)
+  bytes: number;       // Bytes reclaimed, or reclaimable for dry runs
+}
+
 export interface RelayStats {
   url: string;
   connected: boolean;
@@ -191,6 +191,21 @@ export function listCachedRoots(npub: string): Array<{
   return results;
 }
 
+/**
+ * Storage keys of cached root records, so garbage collection keeps them
+ * Covers roots in the memory cache plus the given "npub/treeName" names.
+ */
+export async function getCachedRootKeys(names: string[] = []): Promise<Uint8Array[]> {
+  const cacheKeys = new Set<string>(names);
+  for (const [key] of memoryCache) {
+    cacheKeys.add(key);
+  }
+  return Promise.all(Array.from(cacheKeys, (cacheKey) => {
+    const slashIdx = cacheKey.indexOf('/');
+    return makeStorageKey(cacheKey.slice(0, slashIdx), cacheKey.slice(slashIdx + 1));
+  }));
+}
+
 /**
  * Clear all cached roots (memory only)
  */
@@ -7,7 +7,7 @@
  * Worker owns:
  * - Peer state tracking
  * - Connection lifecycle decisions
- * - Data protocol (request/response)
+ * - Data protocol (request/response, have announcements)
  * - Signaling message handling
  *
  * Main thread proxy owns:
@@ -17,18 +17,29 @@
 
 import type { Store } from '../../../hashtree/src/types';
 import type { WebRTCCommand, WebRTCEvent } from './protocol.js';
-import type { SignalingMessage, PeerPool, DataRequest, DataResponse } from '../../../hashtree/src/webrtc/types';
+import type { SignalingMessage, PeerPool, DataRequest, DataResponse, DataCancel, HaveQuery } from '../../../hashtree/src/webrtc/types';
 import {
   MAX_HTL,
   MSG_TYPE_REQUEST,
   MSG_TYPE_RESPONSE,
+  MSG_TYPE_HAVE,
+  MSG_TYPE_HAVE_QUERY,
+  MSG_TYPE_CANCEL,
+  MAX_HAVE_QUERY_HASHES,
+  MAX_REMOTE_HAVES,
   FRAGMENT_SIZE,
+  BUFFER_HIGH_THRESHOLD,
+  MAX_SEND_QUEUE_BYTES,
   PeerId,
   generateUuid,
 } from '../../../hashtree/src/webrtc/types';
 import {
   encodeRequest,
   encodeResponse,
+  encodeHave,
+  encodeCancel,
+  encodeHaveReply,
+  encodeHaveBits,
   parseMessage,
   createRequest,
   createResponse,
@@ -42,6 +53,7 @@ import {
   type PendingRequest,
 } from '../../../hashtree/src/webrtc/protocol';
 import { LRUCache } from '../../../hashtree/src/webrtc/lruCache';
+import { tryDecodeTreeNode } from '../../../hashtree/src/codec';
 
 // ============================================================================
 // Types
@@ -58,12 +70,26 @@ interface WorkerPeer {
   htlConfig: PeerHTLConfig;
   pendingRequests: Map<string, PendingRequest>;
   theirRequests: LRUCache<string, { hash: Uint8Array; requestedAt: number }>;
+  // Whole trees this peer holds: announced roots and the plaintext nodes read under them
+  remoteRoots: LRUCache<string, true>;
   stats: PeerStats;
   createdAt: number;
   connectedAt?: number;
-  // Backpressure state
+  // Backpressure state: set while the proxy's send buffer is full
   bufferPaused: boolean;
-  deferredRequests: DataRequest[];
+  // Responses waiting to be sent, unfragmented ones ahead of fragments
+  smallResponses: OutgoingResponse[];
+  largeResponses: OutgoingResponse[];
+  queuedBytes: number;
+  flushTimer?: ReturnType<typeof setTimeout>;
+}
+
+interface OutgoingResponse {
+  hash: Uint8Array;
+  hashKey: string;
+  data: Uint8Array;
+  totalFragments: number; // 0 = unfragmented
+  nextFragment: number;
 }
 
 interface PeerStats {
@@ -107,6 +133,11 @@ export class WebRTCController {
     other: { maxConnections: 16, satisfiedConnections: 8 },
   };
 
+  // Roots of the trees we hold completely, announced to every peer (keyed by hash hex)
+  private announcedRoots = new Map<string, Uint8Array>();
+  // Requests we sent on behalf of other peers
+  private forwardedRequests = new WeakSet<PendingRequest>();
+
   // Hello interval
   private helloInterval?: ReturnType<typeof setInterval>;
   private readonly HELLO_INTERVAL = 10000;
@@ -348,6 +379,7 @@ export class WebRTCController {
       htlConfig: generatePeerHTLConfig(),
       pendingRequests: new Map(),
       theirRequests: new LRUCache(200),
+      remoteRoots: new LRUCache(MAX_REMOTE_HAVES),
       stats: {
         requestsSent: 0,
         requestsReceived: 0,
@@ -358,7 +390,9 @@ export class WebRTCController {
       },
       createdAt: Date.now(),
       bufferPaused: false,
-      deferredRequests: [],
+      smallResponses: [],
+      largeResponses: [],
+      queuedBytes: 0,
     };
 
     this.peers.set(peerId, peer);
@@ -381,6 +415,10 @@ export class WebRTCController {
       clearTimeout(pending.timeout);
       pending.resolve(null);
     }
+    clearTimeout(peer.flushTimer);
+    peer.smallResponses = [];
+    peer.largeResponses = [];
+    peer.queuedBytes = 0;
 
     peer.state = 'disconnected';
     this.sendCommand({ type: 'rtc:closePeer', peerId });
@@ -552,6 +590,7 @@ export class WebRTCController {
 
     peer.dataChannelReady = true;
     this.log(`Data channel open: ${peerId.slice(0, 20)}`);
+    this.sendHave(peer, Array.from(this.announcedRoots.values()));
   }
 
   private onDataChannelClose(peerId: string): void {
@@ -581,15 +620,7 @@ export class WebRTCController {
     peer.bufferPaused = false;
     this.log(`Buffer low for ${peerId.slice(0, 20)}, resuming responses`);
 
-    // Process deferred requests
-    this.processDeferredRequests(peer);
-  }
-
-  private async processDeferredRequests(peer: WorkerPeer): Promise<void> {
-    while (!peer.bufferPaused && peer.deferredRequests.length > 0) {
-      const req = peer.deferredRequests.shift()!;
-      await this.processRequest(peer, req);
-    }
+    this.flushSendQueue(peer);
   }
 
   // ============================================================================
@@ -610,25 +641,52 @@ export class WebRTCController {
       await this.handleRequest(peer, msg.body);
     } else if (msg.type === MSG_TYPE_RESPONSE) {
       await this.handleResponse(peer, msg.body);
+    } else if (msg.type === MSG_TYPE_HAVE) {
+      for (const root of msg.body.r.slice(0, MAX_HAVE_QUERY_HASHES)) {
+        peer.remoteRoots.set(hashToKey(root), true);
+      }
+    } else if (msg.type === MSG_TYPE_HAVE_QUERY) {
+      await this.handleHaveQuery(peer, msg.body);
+    } else if (msg.type === MSG_TYPE_CANCEL) {
+      this.handleCancel(peer, msg.body);
     }
   }
 
-  private async handleRequest(peer: WorkerPeer, req: DataRequest): Promise<void> {
-    peer.stats.requestsReceived++;
+  private handleCancel(peer: WorkerPeer, cancel: DataCancel): void {
+    // Fragments already handed to the proxy still go out
+    const hashKey = hashToKey(cancel.h);
+    peer.theirRequests.delete(hashKey);
 
-    // If buffer is full, defer the request for later processing
-    if (peer.bufferPaused) {
-      // Limit deferred requests to prevent memory issues
-      if (peer.deferredRequests.length < 100) {
-        peer.deferredRequests.push(req);
-      }
-      return;
+    const keep = (response: OutgoingResponse) => {
+      if (response.hashKey !== hashKey) return true;
+      peer.queuedBytes -= this.remainingBytes(response);
+      return false;
+    };
+    peer.smallResponses = peer.smallResponses.filter(keep);
+    peer.largeResponses = peer.largeResponses.filter(keep);
+
+    // Withdraw the requests we forwarded for it once no other peer waits for it
+    for (const other of this.peers.values()) {
+      if (other.theirRequests.has(hashKey)) return;
     }
+    for (const other of this.peers.values()) {
+      const pending = other.pendingRequests.get(hashKey);
+      if (pending && this.forwardedRequests.has(pending)) this.cancelRequest(other, hashKey);
+    }
+  }
 
-    await this.processRequest(peer, req);
+  private async handleHaveQuery(peer: WorkerPeer, query: HaveQuery): Promise<void> {
+    if (query.h.length > MAX_HAVE_QUERY_HASHES) return;
+
+    const flags = await Promise.all(query.h.map(hash => this.localStore.has(hash)));
+    if (!peer.dataChannelReady) return;
+
+    const encoded = new Uint8Array(encodeHaveReply({ id: query.id, b: encodeHaveBits(flags) }));
+    this.sendCommand({ type: 'rtc:sendData', peerId: peer.peerId, data: encoded });
   }
 
-  private async processRequest(peer: WorkerPeer, req: DataRequest): Promise<void> {
+  private async handleRequest(peer: WorkerPeer, req: DataRequest): Promise<void> {
+    peer.stats.requestsReceived++;
     const hashKey = hashToKey(req.h);
 
     // Try to get from local store
@@ -636,7 +694,7 @@ export class WebRTCController {
 
     if (data) {
       // Send response
-      await this.sendResponse(peer, req.h, data);
+      this.sendResponse(peer, req.h, data);
     } else {
       // Track their request for later push
       peer.theirRequests.set(hashKey, {
@@ -671,10 +729,25 @@ export class WebRTCController {
     // Verify hash
     const valid = await verifyHash(res.d, res.h);
     if (valid) {
+      // Peers holding the whole tree of this node hold its children too,
+      // whichever peer sent it. Encrypted nodes can't be decoded here.
+      const holders = Array.from(this.peers.values()).filter(p => p.remoteRoots.has(hashKey));
+      const node = holders.length > 0 ? tryDecodeTreeNode(res.d) : null;
+      for (const holder of holders) {
+        for (const link of node?.links ?? []) {
+          holder.remoteRoots.set(hashToKey(link.hash), true);
+        }
+      }
+
       // Store locally
       await this.localStore.put(res.h, res.d);
       pending.resolve(res.d);
 
+      // Answered: withdraw the same request from the other peers
+      for (const other of this.peers.values()) {
+        if (other !== peer) this.cancelRequest(other, hashKey, res.d);
+      }
+
       // Push to peers who requested this
       await this.pushToRequesters(res.h, res.d, peer.peerId);
     } else {
@@ -683,26 +756,102 @@ export class WebRTCController {
     }
   }
 
-  private async sendResponse(peer: WorkerPeer, hash: Uint8Array, data: Uint8Array): Promise<void> {
+  /**
+   * Queue a response; it's sent while the proxy's buffer has room
+   */
+  private sendResponse(peer: WorkerPeer, hash: Uint8Array, data: Uint8Array): void {
     if (!peer.dataChannelReady) return;
 
+    // Drop responses over the memory cap and let the requester time out
+    if (peer.queuedBytes + data.length > MAX_SEND_QUEUE_BYTES) {
+      this.log(`Send queue full for ${peer.peerId.slice(0, 20)}, dropping response`);
+      return;
+    }
+
+    const response: OutgoingResponse = {
+      hash,
+      hashKey: hashToKey(hash),
+      data,
+      totalFragments: data.length <= FRAGMENT_SIZE ? 0 : Math.ceil(data.length / FRAGMENT_SIZE),
+      nextFragment: 0,
+    };
     peer.stats.responsesSent++;
-    peer.stats.bytesSent += data.length;
-
-    // Fragment if needed
-    if (data.length > FRAGMENT_SIZE) {
-      const totalFragments = Math.ceil(data.length / FRAGMENT_SIZE);
-      for (let i = 0; i < totalFragments; i++) {
-        const start = i * FRAGMENT_SIZE;
-        const end = Math.min(start + FRAGMENT_SIZE, data.length);
-        const fragment = data.slice(start, end);
-        const res = createFragmentResponse(hash, fragment, i, totalFragments);
-        const encoded = new Uint8Array(encodeResponse(res));
-        this.sendCommand({ type: 'rtc:sendData', peerId: peer.peerId, data: encoded });
+    peer.queuedBytes += data.length;
+    if (response.totalFragments === 0) {
+      peer.smallResponses.push(response);
+    } else {
+      peer.largeResponses.push(response);
+    }
+    this.flushSendQueue(peer);
+  }
+
+  /**
+   * Send queued messages until the proxy reports its buffer full
+   * One fragment at a time, so small responses can go between fragments.
+   * After BUFFER_HIGH_THRESHOLD bytes it yields, so the proxy's bufferHigh
+   * event can arrive before more is sent.
+   */
+  private flushSendQueue(peer: WorkerPeer): void {
+    if (peer.flushTimer) return;
+
+    let sent = 0;
+    while (peer.dataChannelReady && !peer.bufferPaused) {
+      if (sent >= BUFFER_HIGH_THRESHOLD) {
+        peer.flushTimer = setTimeout(() => {
+          peer.flushTimer = undefined;
+          this.flushSendQueue(peer);
+        }, 0);
+        return;
       }
+      const response = peer.smallResponses.shift() ?? peer.largeResponses[0];
+      if (!response) return;
+      sent += this.sendNextMessage(peer, response);
+    }
+  }
+
+  /**
+   * @returns Bytes of data sent
+   */
+  private sendNextMessage(peer: WorkerPeer, response: OutgoingResponse): number {
+    let chunk: Uint8Array;
+    let encoded: ArrayBuffer;
+    if (response.totalFragments === 0) {
+      chunk = response.data;
+      encoded = encodeResponse(createResponse(response.hash, chunk));
     } else {
-      const res = createResponse(hash, data);
-      const encoded = new Uint8Array(encodeResponse(res));
+      const i = response.nextFragment++;
+      const start = i * FRAGMENT_SIZE;
+      chunk = response.data.slice(start, Math.min(start + FRAGMENT_SIZE, response.data.length));
+      encoded = encodeResponse(createFragmentResponse(response.hash, chunk, i, response.totalFragments));
+      if (response.nextFragment === response.totalFragments) {
+        peer.largeResponses.shift();
+      }
+    }
+    this.sendCommand({ type: 'rtc:sendData', peerId: peer.peerId, data: new Uint8Array(encoded) });
+
+    peer.queuedBytes -= chunk.length;
+    peer.stats.bytesSent += chunk.length;
+    return chunk.length;
+  }
+
+  private remainingBytes(response: OutgoingResponse): number {
+    return response.data.length - Math.min(response.nextFragment * FRAGMENT_SIZE, response.data.length);
+  }
+
+  /**
+   * Stop waiting for our request to a peer and tell it not to send
+   * @param data - The block if another peer sent it
+   */
+  private cancelRequest(peer: WorkerPeer, hashKey: string, data: Uint8Array | null = null): void {
+    const pending = peer.pendingRequests.get(hashKey);
+    if (!pending) return;
+
+    clearTimeout(pending.timeout);
+    peer.pendingRequests.delete(hashKey);
+    pending.resolve(data);
+
+    if (peer.dataChannelReady) {
+      const encoded = new Uint8Array(encodeCancel({ h: pending.hash }));
       this.sendCommand({ type: 'rtc:sendData', peerId: peer.peerId, data: encoded });
     }
   }
@@ -720,13 +869,15 @@ export class WebRTCController {
         peer.pendingRequests.delete(hashKey);
       }, this.requestTimeout);
 
-      peer.pendingRequests.set(hashKey, {
+      const pending: PendingRequest = {
         hash,
         resolve: () => {
           // Response will be pushed to original requester via pushToRequesters
         },
         timeout,
-      });
+      };
+      peer.pendingRequests.set(hashKey, pending);
+      this.forwardedRequests.add(pending);
 
       const req = createRequest(hash, htl);
       const encoded = new Uint8Array(encodeRequest(req));
@@ -743,7 +894,7 @@ export class WebRTCController {
       const theirReq = peer.theirRequests.get(hashKey);
       if (theirReq) {
         peer.theirRequests.delete(hashKey);
-        await this.sendResponse(peer, hash, data);
+        this.sendResponse(peer, hash, data);
       }
     }
   }
@@ -754,6 +905,8 @@ export class WebRTCController {
 
   /**
    * Request data from peers
+   * Peers holding the tree of this block are asked first; the others only
+   * when none of those had it.
    */
   async get(hash: Uint8Array): Promise<Uint8Array | null> {
     // Try connected peers
@@ -764,12 +917,26 @@ export class WebRTCController {
       return null;
     }
 
-    // Send request to all peers, first response wins
+    const hashKey = hashToKey(hash);
+    const holders = connectedPeers.filter(p => p.remoteRoots.has(hashKey));
+    if (holders.length > 0) {
+      const data = await this.requestFrom(holders, hash);
+      if (data) return data;
+    }
+
+    const others = connectedPeers.filter(p => !holders.includes(p));
+    return others.length > 0 ? this.requestFrom(others, hash) : null;
+  }
+
+  /**
+   * Send a request to all these peers, first response wins
+   */
+  private requestFrom(peers: WorkerPeer[], hash: Uint8Array): Promise<Uint8Array | null> {
     return new Promise((resolve) => {
       let resolved = false;
       const hashKey = hashToKey(hash);
 
-      for (const peer of connectedPeers) {
+      for (const peer of peers) {
         const timeout = setTimeout(() => {
           peer.pendingRequests.delete(hashKey);
           checkDone();
@@ -793,7 +960,7 @@ export class WebRTCController {
         this.sendCommand({ type: 'rtc:sendData', peerId: peer.peerId, data: encoded });
       }
 
-      let pending = connectedPeers.length;
+      let pending = peers.length;
       const checkDone = () => {
         pending--;
         if (pending === 0 && !resolved) {
@@ -803,6 +970,28 @@ export class WebRTCController {
     });
   }
 
+  /**
+   * Set the roots of the trees we hold completely
+   * New roots are announced to the connected peers now, all of them to peers
+   * that connect later, so requests for their blocks get routed to us.
+   */
+  setAnnouncedRoots(roots: Uint8Array[]): void {
+    const previous = this.announcedRoots;
+    this.announcedRoots = new Map(roots.map(root => [hashToKey(root), root]));
+
+    const added = roots.filter(root => !previous.has(hashToKey(root)));
+    for (const peer of this.peers.values()) {
+      if (peer.dataChannelReady) this.sendHave(peer, added);
+    }
+  }
+
+  private sendHave(peer: WorkerPeer, roots: Uint8Array[]): void {
+    for (let i = 0; i < roots.length; i += MAX_HAVE_QUERY_HASHES) {
+      const encoded = new Uint8Array(encodeHave({ r: roots.slice(i, i + MAX_HAVE_QUERY_HASHES) }));
+      this.sendCommand({ type: 'rtc:sendData', peerId: peer.peerId, data: encoded });
+    }
+  }
+
   /**
    * Get peer stats for UI
    */
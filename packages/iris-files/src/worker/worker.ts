@@ -12,8 +12,8 @@
 import { HashTree } from '../../../hashtree/src/hashtree';
 import { DexieStore } from '../../../hashtree/src/store/dexie';
 import { BlossomStore } from '../../../hashtree/src/store/blossom';
-import type { WorkerRequest, WorkerResponse, WorkerConfig, SignedEvent, WebRTCCommand } from './protocol';
-import { initTreeRootCache, getCachedRoot, clearMemoryCache } from './treeRootCache';
+import type { WorkerRequest, WorkerResponse, WorkerConfig, SignedEvent, WebRTCCommand, TreePin } from './protocol';
+import { initTreeRootCache, getCachedRoot, getCachedRootKeys, clearMemoryCache } from './treeRootCache';
 import {
   initNdk,
   closeNdk,
@@ -50,6 +50,8 @@ let blossomStore: BlossomStore | null = null;
 let webrtc: WebRTCController | null = null;
 let webrtcStarted = false;
 let _config: WorkerConfig | null = null;
+// GC deletes everything unpinned, so it only runs once the main thread sent the user's roots
+let pinsReceived = false;
 
 // Follows set for WebRTC peer classification
 let followsSet = new Set<string>();
@@ -152,6 +154,17 @@ self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
       case 'getRelayStats':
         await handleGetRelayStats(msg.id);
         break;
+      case 'getStorageStats':
+        await handleGetStorageStats(msg.id);
+        break;
+
+      // Storage maintenance
+      case 'setPins':
+        await handleSetPins(msg.id, msg.pins);
+        break;
+      case 'gc':
+        await handleGc(msg.id, msg.dryRun ?? false);
+        break;
 
       // WebRTC pool configuration
       case 'setWebRTCPools':
@@ -265,7 +278,7 @@ async function handleInit(id: string, cfg: WorkerConfig) {
 
     // Initialize Dexie/IndexedDB store
     const storeName = cfg.storeName || 'hashtree-worker';
-    store = new DexieStore(storeName);
+    store = new DexieStore(storeName, { maxBytes: cfg.storeMaxBytes });
 
     // Initialize HashTree with the store
     tree = new HashTree({ store });
@@ -411,6 +424,7 @@ async function handleClose(id: string) {
   store = null;
   tree = null;
   _config = null;
+  pinsReceived = false;
   respond({ type: 'void', id });
 }
 
@@ -721,6 +735,101 @@ async function handlePublish(id: string, event: SignedEvent) {
 // Stats Handlers
 // ============================================================================
 
+// ============================================================================
+// Storage Maintenance Handlers
+// ============================================================================
+
+/**
+ * Replace the pinned tree roots (the user's own trees)
+ * With a storeMaxBytes limit, their blocks are also protected from eviction.
+ */
+async function handleSetPins(id: string, pins: TreePin[]) {
+  if (!tree) {
+    respond({ type: 'void', id, error: 'Tree not initialized' });
+    return;
+  }
+
+  const names = new Set(pins.map(p => p.name));
+  for (const name of tree.getPins().names()) {
+    if (!names.has(name)) tree.unpin(name);
+  }
+  for (const pin of pins) {
+    tree.pin(pin.name, pin.cid);
+  }
+  pinsReceived = true;
+  respond({ type: 'void', id });
+
+  try {
+    const protectedCount = await tree.protectPinned(await getCachedRootKeys([...names]));
+    if (protectedCount > 0) {
+      console.log('[Worker] Protected', protectedCount, 'blocks of pinned trees from eviction');
+    }
+  } catch (err) {
+    console.warn('[Worker] Failed to protect pinned trees:', err);
+  }
+
+  announceCompleteTrees().catch(err => {
+    console.warn('[Worker] Failed to announce pinned trees:', err);
+  });
+}
+
+/**
+ * Announce the pinned trees we hold every block of, so peers ask us for them
+ */
+async function announceCompleteTrees() {
+  if (!tree || !webrtc) return;
+
+  const complete: Uint8Array[] = [];
+  for (const root of tree.getPins().roots()) {
+    let missing = false;
+    const blocks = tree.walkBlocks(root, { onMissing: () => { missing = true; } });
+    while (!missing && !(await blocks.next()).done) {
+      // Read on until the first missing block
+    }
+    if (!missing) complete.push(root.hash);
+  }
+  webrtc.setAnnouncedRoots(complete);
+}
+
+/**
+ * Delete (or with dryRun, measure) blocks not reachable from pinned roots
+ * Cached root records are kept so trees still resolve without relays.
+ */
+async function handleGc(id: string, dryRun: boolean) {
+  if (!tree) {
+    respond({ type: 'gcResult', id, error: 'Tree not initialized' });
+    return;
+  }
+  if (!pinsReceived) {
+    respond({ type: 'gcResult', id, error: 'Tree roots not loaded yet' });
+    return;
+  }
+
+  const keep = await getCachedRootKeys(tree.getPins().names());
+  const result = await tree.gc({ dryRun, keep });
+  console.log('[Worker] GC', dryRun ? '(dry run)' : '', 'unreachable:', result.unreachable.length, 'bytes:', result.bytes);
+  respond({
+    type: 'gcResult',
+    id,
+    result: {
+      dryRun: result.dryRun,
+      marked: result.marked,
+      unreachable: result.unreachable.length,
+      swept: result.swept,
+      bytes: result.bytes,
+    },
+  });
+}
+
+async function handleGetStorageStats(id: string) {
+  if (!store) {
+    respond({ type: 'storageStats', id, items: 0, bytes: 0 });
+    return;
+  }
+  const usage = await store.getUsage();
+  respond({ type: 'storageStats', id, items: usage.count, bytes: usage.bytes });
+}
+
 async function handleGetPeerStats(id: string) {
   if (!webrtc) {
     respond({ type: 'peerStats', id, stats: [] });
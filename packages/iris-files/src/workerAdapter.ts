@@ -16,6 +16,8 @@ import type {
   WorkerPeerStats as PeerStats,
   WorkerRelayStats as RelayStats,
   WorkerDirEntry as DirEntry,
+  WorkerTreePin as TreePin,
+  WorkerGcReport as GcReport,
   WorkerSocialGraphEvent as SocialGraphEvent,
   CID,
   WebRTCCommand,
@@ -143,6 +145,8 @@ export class WorkerAdapter {
         case 'dirListing':
         case 'peerStats':
         case 'relayStats':
+        case 'storageStats':
+        case 'gcResult':
           this.resolvePending(msg.id, msg);
           break;
 
@@ -652,6 +656,38 @@ export class WorkerAdapter {
     return { items: response.items, bytes: response.bytes };
   }
 
+  // ============================================================================
+  // Public API - Storage Maintenance
+  // ============================================================================
+
+  /**
+   * Set the tree roots that garbage collection keeps (the user's own trees)
+   */
+  async setPins(pins: TreePin[]): Promise<void> {
+    const id = generateRequestId();
+    const response = await this.request<{ error?: string }>({
+      type: 'setPins',
+      id,
+      pins,
+    });
+    if (response.error) throw new Error(response.error);
+  }
+
+  /**
+   * Delete blocks not reachable from pinned roots
+   * With dryRun, only reports how much would be reclaimed.
+   */
+  async gc(dryRun = false): Promise<GcReport> {
+    const id = generateRequestId();
+    const response = await this.request<{ result?: GcReport; error?: string }>({
+      type: 'gc',
+      id,
+      dryRun,
+    });
+    if (!response.result) throw new Error(response.error || 'GC failed');
+    return response.result;
+  }
+
   /**
    * Block a peer by pubkey (disconnect and prevent reconnection)
    */
@@ -950,4 +986,4 @@ export function closeWorkerAdapter(): void {
 }
 
 // Re-export types for consumers
-export type { PeerStats, RelayStats };
+export type { PeerStats, RelayStats, GcReport };
@@ -0,0 +1,55 @@
+/**
+ * Tests for reading unix attributes from ZIP archives
+ */
+import { describe, it, expect } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import { readZipAttributes, extractArchive } from '../src/utils/compression';
+
+const ZIP_OS_UNIX = 3;
+
+/** Extended timestamp extra field with only the mtime */
+function extendedTimestamp(mtime: number): Uint8Array {
+  const field = new Uint8Array(5);
+  field[0] = 1;
+  new DataView(field.buffer).setUint32(1, mtime, true);
+  return field;
+}
+
+describe('readZipAttributes', () => {
+  it('should read unix modes and extended timestamps', () => {
+    const zip = zipSync({
+      'run.sh': [strToU8('#!/bin/sh'), { os: ZIP_OS_UNIX, attrs: (0o100755 << 16) >>> 0, extra: { 0x5455: extendedTimestamp(1_600_000_001) } }],
+      'link': [strToU8('run.sh'), { os: ZIP_OS_UNIX, attrs: (0o120777 << 16) >>> 0 }],
+    });
+
+    const attributes = readZipAttributes(zip);
+
+    expect(attributes.get('run.sh')).toEqual({ mode: 0o100755, mtime: 1_600_000_001 });
+    expect(attributes.get('link')?.mode).toBe(0o120777);
+  });
+
+  it('should fall back to the DOS time and ignore modes from other systems', () => {
+    const mtime = new Date(2020, 5, 15, 10, 30, 42);
+    const zip = zipSync({ 'doc.txt': [strToU8('text'), { os: 0, attrs: 0x20, mtime }] });
+
+    expect(readZipAttributes(zip).get('doc.txt')).toEqual({ mode: undefined, mtime: mtime.getTime() / 1000 });
+  });
+
+  it('should find the central directory behind an archive comment', () => {
+    const zip = zipSync({ 'a.txt': [strToU8('a'), { os: ZIP_OS_UNIX, attrs: (0o100600 << 16) >>> 0 }] }, { comment: 'x'.repeat(1000) });
+
+    expect(readZipAttributes(zip).get('a.txt')?.mode).toBe(0o100600);
+  });
+
+  it('should return no attributes for data that is not a ZIP', () => {
+    expect(readZipAttributes(new Uint8Array(100)).size).toBe(0);
+  });
+
+  it('should attach the attributes to extracted files', () => {
+    const zip = zipSync({ 'dir/run.sh': [strToU8('#!/bin/sh'), { os: ZIP_OS_UNIX, attrs: (0o100755 << 16) >>> 0 }] });
+
+    const [file] = extractArchive(zip, 'archive.zip');
+
+    expect(file).toMatchObject({ name: 'dir/run.sh', mode: 0o100755 });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for paging the global directory entries store
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import { HashTree, MemoryStore, LinkType, DEFAULT_SHARD_THRESHOLD, type CID } from 'hashtree';
+
+const mocks = await vi.hoisted(async () => {
+  const { writable } = await import('svelte/store');
+  return {
+    tree: null as HashTree | null,
+    currentDirCidStore: writable<CID | null>(null),
+    routeStore: writable({ npub: 'npub1owner', treeName: 'big', cid: null, path: [] as string[] }),
+  };
+});
+vi.mock('../src/store', () => ({ getTree: () => mocks.tree }));
+vi.mock('../src/stores/recentlyChanged', () => ({ markFilesChanged: () => {} }));
+vi.mock('../src/stores/currentDirHash', () => ({ currentDirCidStore: mocks.currentDirCidStore }));
+vi.mock('../src/stores/route', () => ({ routeStore: mocks.routeStore }));
+
+const { directoryEntriesStore } = await import('../src/stores/directoryEntries');
+
+const PAGE_SIZE = DEFAULT_SHARD_THRESHOLD;
+const COUNT = PAGE_SIZE * 2 + PAGE_SIZE / 2;
+
+/** A sharded directory with some subdirectories, optionally with one more file */
+async function bigDirectory(extra?: string): Promise<CID> {
+  const tree = mocks.tree!;
+  const { cid: file, size } = await tree.putFile(new TextEncoder().encode('x'), { public: true });
+  const { cid: subdir } = await tree.putDirectory([], { public: true });
+  const entries = Array.from({ length: COUNT }, (_, i) => {
+    const isDir = i % 100 === 0;
+    return { name: `entry-${String(i).padStart(5, '0')}`, cid: isDir ? subdir : file, size: isDir ? 0 : size, type: isDir ? LinkType.Dir : LinkType.Blob };
+  });
+  if (extra) entries.push({ name: extra, cid: file, size, type: LinkType.Blob });
+  return (await tree.putDirectory(entries, { public: true })).cid;
+}
+
+async function show(location: CID | null) {
+  mocks.currentDirCidStore.set(location);
+  await vi.waitFor(() => expect(get(directoryEntriesStore).loading).toBe(false));
+}
+
+function expectSorted(names: string[], dirs: Set<string>) {
+  const sorted = [...names].sort((a, b) => {
+    if (dirs.has(a) !== dirs.has(b)) return dirs.has(a) ? -1 : 1;
+    return a.localeCompare(b);
+  });
+  expect(names).toEqual(sorted);
+}
+
+describe('directoryEntriesStore', () => {
+  let testIndex = 0;
+
+  beforeEach(async () => {
+    mocks.tree = new HashTree({ store: new MemoryStore() });
+    // Each test lists a directory of its own
+    mocks.routeStore.set({ npub: 'npub1owner', treeName: `big-${++testIndex}`, cid: null, path: [] });
+    await show(null);
+  });
+
+  it('should sort all loaded pages together', async () => {
+    await show(await bigDirectory());
+    expect(get(directoryEntriesStore).entries).toHaveLength(PAGE_SIZE);
+
+    await directoryEntriesStore.loadMore();
+
+    const { entries, hasMore } = get(directoryEntriesStore);
+    expect(entries).toHaveLength(PAGE_SIZE * 2);
+    expect(hasMore).toBe(true);
+    expectSorted(entries.map(e => e.name), new Set(entries.filter(e => e.type === LinkType.Dir).map(e => e.name)));
+  });
+
+  it('should keep the loaded pages on a root update', async () => {
+    await show(await bigDirectory());
+    await directoryEntriesStore.loadMore();
+
+    await show(await bigDirectory('added.txt'));
+
+    const { entries, hasMore } = get(directoryEntriesStore);
+    expect(entries).toHaveLength(PAGE_SIZE * 2);
+    expect(hasMore).toBe(true);
+    await directoryEntriesStore.loadMore();
+    expect(get(directoryEntriesStore).entries).toHaveLength(COUNT + 1);
+    expect(get(directoryEntriesStore).hasMore).toBe(false);
+  });
+
+  it('should load one page after navigating to another directory', async () => {
+    await show(await bigDirectory());
+    await directoryEntriesStore.loadMore();
+
+    mocks.routeStore.update(route => ({ ...route, path: ['other'] }));
+    await show(await bigDirectory('other.txt'));
+
+    expect(get(directoryEntriesStore).entries).toHaveLength(PAGE_SIZE);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for the isomorphic-git filesystem adapter
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { HashTree, MemoryStore, LinkType, entryMode } from 'hashtree';
+
+const mocks = vi.hoisted(() => ({ tree: null as HashTree | null }));
+vi.mock('../src/store', () => ({ getTree: () => mocks.tree }));
+
+const { HashTreeFS } = await import('../src/utils/git-fs');
+
+describe('HashTreeFS', () => {
+  beforeEach(() => {
+    mocks.tree = new HashTree({ store: new MemoryStore() });
+  });
+
+  it('should keep only the mode of an overwritten file', async () => {
+    const tree = mocks.tree!;
+    const { cid: fileCid, size } = await tree.putFile(new TextEncoder().encode('#!/bin/sh'));
+    const { cid: root } = await tree.putDirectory([{
+      name: 'run.sh', cid: fileCid, size, type: LinkType.Blob,
+      meta: { mode: 0o100755, mtime: 1_600_000_000, mimeType: 'text/x-sh', thumbnail: 'nhash1old' },
+    }]);
+    const fs = new HashTreeFS(root);
+
+    await fs.writeFile('run.sh', 'echo hi');
+    const entries = await tree.listDirectory(await fs.commit());
+
+    const entry = entries.find(e => e.name === 'run.sh')!;
+    expect(entry.meta).toEqual({ mode: 0o100755 });
+    expect(entryMode(entry)).toBe(0o100755);
+  });
+
+  it('should follow symlinks in parent directories', async () => {
+    const fs = new HashTreeFS();
+    await fs.writeFile('real/sub/file.txt', 'content');
+    await fs.symlink('real', 'link');
+    await fs.symlink('sub', 'real/sublink');
+    await fs.commit();
+
+    expect(await fs.readFile('link/sub/file.txt', { encoding: 'utf8' })).toBe('content');
+    expect(await fs.readFile('link/sublink/file.txt', { encoding: 'utf8' })).toBe('content');
+    expect(await fs.readdir('link/sub')).toEqual(['file.txt']);
+    expect((await fs.stat('link/sub/file.txt')).isFile()).toBe(true);
+    expect((await fs.lstat('link/sublink')).isSymbolicLink()).toBe(true);
+    expect(await fs.readlink('link/sublink')).toBe('sub');
+  });
+
+  it('should fail on symlink loops', async () => {
+    const fs = new HashTreeFS();
+    await fs.symlink('b', 'a');
+    await fs.symlink('a', 'b');
+    await fs.commit();
+
+    await expect(fs.stat('a/file')).rejects.toThrow('ELOOP');
+  });
+});
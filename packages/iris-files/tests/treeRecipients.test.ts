@@ -0,0 +1,110 @@
+// @vitest-environment happy-dom
+/**
+ * Tests for keeping the members of shared trees across root updates
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+
+const mocks = vi.hoisted(() => ({
+  secretKey: new Uint8Array(32).fill(7),
+  published: [] as Array<{ kind: number; tags: string[][] }>,
+  lastEvent: null as { tags: string[][] } | null,
+}));
+
+vi.mock('ndk', () => ({
+  NDKPublishError: class extends Error {},
+  NDKEvent: class {
+    kind?: number;
+    content = '';
+    created_at?: number;
+    tags: string[][] = [];
+    id = 'id';
+    pubkey = 'pubkey';
+    sig = 'sig';
+    async sign() {}
+  },
+}));
+vi.mock('../src/nostr/ndk', () => ({
+  ndk: { signer: {}, fetchEvent: async () => mocks.lastEvent },
+}));
+vi.mock('../src/nostr/auth', () => ({ getSecretKey: () => mocks.secretKey }));
+vi.mock('../src/treeRootCache', () => ({
+  updateLocalRootCacheHex: () => {},
+  nextPublishTime: () => Math.floor(Date.now() / 1000),
+  markRootPublished: () => {},
+}));
+vi.mock('../src/workerAdapter', () => ({
+  getWorkerAdapter: () => ({
+    publish: async (event: { kind: number; tags: string[][] }) => {
+      if (event.kind === 30078) mocks.published.push(event);
+    },
+  }),
+}));
+vi.mock('../src/refResolver', () => ({ getRefResolver: () => ({ publish: () => {} }) }));
+
+const { saveHashtree, getTreeRecipients } = await import('../src/nostr/trees');
+const { nostrStore } = await import('../src/nostr/store');
+
+const ROOT_HASH = 'aa'.repeat(32);
+const ROOT_KEY = 'bb'.repeat(32);
+const members = [getPublicKey(generateSecretKey()), getPublicKey(generateSecretKey())];
+
+function recipientTags(event: { tags: string[][] }): string[] {
+  return event.tags.filter(t => t[0] === 'recipientKey').map(t => t[1]);
+}
+
+async function publish(options: Parameters<typeof saveHashtree>[3]) {
+  const result = await saveHashtree('shared-docs', ROOT_HASH, ROOT_KEY, { visibility: 'shared', ...options });
+  await result.published;
+  return result;
+}
+
+describe('shared tree members', () => {
+  beforeEach(() => {
+    const pubkey = getPublicKey(mocks.secretKey);
+    nostrStore.setState({ pubkey, npub: nip19.npubEncode(pubkey), selectedTree: null });
+    mocks.published.length = 0;
+    mocks.lastEvent = null;
+  });
+
+  it('should keep the recipient tags when a root update passes no recipients', async () => {
+    await publish({ recipients: members });
+    await publish({});
+
+    expect(mocks.published).toHaveLength(2);
+    expect(recipientTags(mocks.published[1])).toEqual(members);
+  });
+
+  it('should keep the recipient tags after a reload', async () => {
+    await publish({ recipients: members });
+    const state = nostrStore.getState();
+
+    vi.resetModules();
+    const reloaded = await import('../src/nostr/trees');
+    (await import('../src/nostr/store')).nostrStore.setState({ pubkey: state.pubkey, npub: state.npub });
+    const result = await reloaded.saveHashtree('shared-docs', ROOT_HASH, ROOT_KEY, { visibility: 'shared' });
+    await result.published;
+
+    expect(reloaded.getTreeRecipients('shared-docs')).toEqual(members);
+    expect(recipientTags(mocks.published[1])).toEqual(members);
+  });
+
+  it('should take the members from the last published event', async () => {
+    mocks.lastEvent = { tags: members.map(pubkey => ['recipientKey', pubkey, 'wrapped']) };
+
+    const result = await saveHashtree('other-docs', ROOT_HASH, ROOT_KEY, { visibility: 'shared' });
+    await result.published;
+
+    expect(result.success).toBe(true);
+    expect(recipientTags(mocks.published[mocks.published.length - 1])).toEqual(members);
+    expect(getTreeRecipients('other-docs')).toEqual(members);
+  });
+
+  it('should refuse to publish when the members are unknown', async () => {
+    const result = await saveHashtree('unknown-docs', ROOT_HASH, ROOT_KEY, { visibility: 'shared' });
+
+    expect(result.success).toBe(false);
+    expect(await result.published).toBe(false);
+    expect(mocks.published).toHaveLength(0);
+  });
+});
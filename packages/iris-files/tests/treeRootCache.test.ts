@@ -0,0 +1,140 @@
+// @vitest-environment happy-dom
+/**
+ * Tests for the publish outbox of the local root cache
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  npub: 'npub1owner',
+  publishTreeRoot: vi.fn(),
+  fetchLatestRootEvent: vi.fn(),
+  updateSubscriptionCache: vi.fn(),
+}));
+
+vi.mock('../src/stores/treeRoot', () => ({ updateSubscriptionCache: mocks.updateSubscriptionCache }));
+vi.mock('../src/nostr', () => ({
+  publishTreeRoot: mocks.publishTreeRoot,
+  fetchLatestRootEvent: mocks.fetchLatestRootEvent,
+  nostrStore: {
+    getState: () => ({ npub: mocks.npub, connectedRelays: 1 }),
+    subscribe: () => () => {},
+  },
+}));
+
+const OUTBOX_STORAGE_KEY = 'hashtree:rootOutbox';
+const hash = (fill: number) => new Uint8Array(32).fill(fill);
+
+async function loadCache() {
+  vi.resetModules();
+  return import('../src/treeRootCache');
+}
+
+describe('root publish outbox', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    localStorage.clear();
+    mocks.publishTreeRoot.mockReset().mockResolvedValue(true);
+    mocks.fetchLatestRootEvent.mockReset().mockResolvedValue(null);
+    mocks.updateSubscriptionCache.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should publish the latest of several quick writes once, with its write time', async () => {
+    const cache = await loadCache();
+    cache.updateLocalRootCache(mocks.npub, 'docs', hash(1), undefined, 'public');
+    cache.updateLocalRootCache(mocks.npub, 'docs', hash(2));
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(mocks.publishTreeRoot).toHaveBeenCalledTimes(1);
+    const writtenAt = Math.floor(Date.now() / 1000) - 1;
+    expect(mocks.publishTreeRoot).toHaveBeenCalledWith('docs', '02'.repeat(32), undefined, 'public', writtenAt);
+    expect(cache.getSyncStatus(mocks.npub, 'docs')).toEqual({ state: 'published', attempts: 0 });
+    expect(localStorage.getItem(OUTBOX_STORAGE_KEY)).toBeNull();
+  });
+
+  it('should retry failed publishes with growing delays', async () => {
+    mocks.publishTreeRoot.mockResolvedValueOnce(false).mockResolvedValueOnce(false);
+    const cache = await loadCache();
+    cache.updateLocalRootCache(mocks.npub, 'docs', hash(1));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(cache.getSyncStatus(mocks.npub, 'docs')).toMatchObject({ state: 'failed', attempts: 1 });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(mocks.publishTreeRoot).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mocks.publishTreeRoot).toHaveBeenCalledTimes(2);
+    expect(cache.getSyncStatus(mocks.npub, 'docs')).toMatchObject({ state: 'failed', attempts: 2 });
+
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(mocks.publishTreeRoot).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mocks.publishTreeRoot).toHaveBeenCalledTimes(3);
+    expect(cache.getSyncStatus(mocks.npub, 'docs')).toEqual({ state: 'published', attempts: 0 });
+  });
+
+  it('should persist unpublished roots and publish them after a reload', async () => {
+    mocks.publishTreeRoot.mockResolvedValue(false);
+    const before = await loadCache();
+    before.updateLocalRootCache(mocks.npub, 'docs', hash(1), hash(9), 'private');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const stored = JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY)!);
+    expect(stored[`${mocks.npub}/docs`]).toMatchObject({ hash: '01'.repeat(32), visibility: 'private', attempts: 1 });
+
+    mocks.publishTreeRoot.mockReset().mockResolvedValue(true);
+    mocks.updateSubscriptionCache.mockReset();
+    const after = await loadCache();
+    after.initPublishOutbox();
+    // Not shown until relays are known to have no newer root
+    expect(mocks.updateSubscriptionCache).not.toHaveBeenCalled();
+    expect(after.getLocalRootCache(mocks.npub, 'docs')).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mocks.updateSubscriptionCache).toHaveBeenCalledWith(`${mocks.npub}/docs`, hash(1), hash(9));
+    expect(mocks.publishTreeRoot).toHaveBeenCalledWith('docs', '01'.repeat(32), '09'.repeat(32), 'private', stored[`${mocks.npub}/docs`].updatedAt);
+    expect(after.getSyncStatus(mocks.npub, 'docs')?.state).toBe('published');
+    expect(localStorage.getItem(OUTBOX_STORAGE_KEY)).toBeNull();
+  });
+
+  it('should drop restored roots that relays have a newer root for', async () => {
+    mocks.publishTreeRoot.mockResolvedValue(false);
+    const before = await loadCache();
+    before.updateLocalRootCache(mocks.npub, 'docs', hash(1));
+    await vi.advanceTimersByTimeAsync(1000);
+    const { updatedAt } = JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY)!)[`${mocks.npub}/docs`];
+
+    mocks.publishTreeRoot.mockReset();
+    mocks.updateSubscriptionCache.mockReset();
+    mocks.fetchLatestRootEvent.mockResolvedValue({ created_at: updatedAt + 60, tags: [] });
+    const after = await loadCache();
+    after.initPublishOutbox();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mocks.publishTreeRoot).not.toHaveBeenCalled();
+    expect(mocks.updateSubscriptionCache).not.toHaveBeenCalled();
+    expect(after.getSyncStatus(mocks.npub, 'docs')).toBeUndefined();
+    expect(localStorage.getItem(OUTBOX_STORAGE_KEY)).toBeNull();
+  });
+
+  it('should stop retrying a root that relays rejected as older than theirs', async () => {
+    const cache = await loadCache();
+    mocks.publishTreeRoot.mockImplementation(async (treeName: string, hashHex: string) => {
+      cache.dropStaleRoot(mocks.npub, treeName, hashHex);
+      return false;
+    });
+    cache.updateLocalRootCache(mocks.npub, 'docs', hash(1));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+    expect(mocks.publishTreeRoot).toHaveBeenCalledTimes(1);
+    expect(cache.getSyncStatus(mocks.npub, 'docs')).toBeUndefined();
+    expect(localStorage.getItem(OUTBOX_STORAGE_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Tests for the worker's WebRTC data protocol: have announcements and routing
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { HashTree, MemoryStore, sha256 } from 'hashtree';
+import { WebRTCController } from '../src/worker/webrtc';
+import type { WebRTCCommand } from '../src/worker/protocol';
+import {
+  encodeHave,
+  encodeRequest,
+  encodeResponse,
+  encodeCancel,
+  createRequest,
+  createResponse,
+  parseMessage,
+  hashToKey,
+} from '../../hashtree/src/webrtc/protocol';
+import {
+  MSG_TYPE_HAVE,
+  MSG_TYPE_REQUEST,
+  MSG_TYPE_RESPONSE,
+  MSG_TYPE_CANCEL,
+  FRAGMENT_SIZE,
+  type DataMessage,
+} from '../../hashtree/src/webrtc/types';
+
+const PUBKEYS = ['a', 'b', 'c'].map(c => c.repeat(64));
+
+let controller: WebRTCController;
+let sent: Array<{ peerId: string; msg: DataMessage }>;
+
+function createController(localStore = new MemoryStore()) {
+  sent = [];
+  controller = new WebRTCController({
+    pubkey: PUBKEYS[0],
+    localStore,
+    requestTimeout: 20,
+    sendCommand: (cmd: WebRTCCommand) => {
+      if (cmd.type === 'rtc:sendData') sent.push({ peerId: cmd.peerId, msg: parseMessage(cmd.data)! });
+    },
+    sendSignaling: async () => {},
+  });
+}
+
+/** Connect a peer through an offer and open its data channel */
+async function connectPeer(pubkey: string): Promise<string> {
+  const uuid = pubkey.slice(0, 8);
+  await controller.handleSignalingMessage({ type: 'offer', peerId: uuid, offer: { type: 'offer', sdp: '' } }, pubkey);
+  const peerId = `${pubkey}:${uuid}`;
+  controller.handleProxyEvent({ type: 'rtc:dataChannelOpen', peerId });
+  return peerId;
+}
+
+function receive(peerId: string, data: ArrayBuffer) {
+  controller.handleProxyEvent({ type: 'rtc:dataChannelMessage', peerId, data: new Uint8Array(data) });
+}
+
+/** Peers a request for this hash was sent to */
+function requestedFrom(hash: Uint8Array): string[] {
+  return sent
+    .filter(({ msg }) => msg.type === MSG_TYPE_REQUEST && hashToKey(msg.body.h) === hashToKey(hash))
+    .map(({ peerId }) => peerId);
+}
+
+/** Peers a cancel for this hash was sent to */
+function cancelledAt(hash: Uint8Array): string[] {
+  return sent
+    .filter(({ msg }) => msg.type === MSG_TYPE_CANCEL && hashToKey(msg.body.h) === hashToKey(hash))
+    .map(({ peerId }) => peerId);
+}
+
+/** Responses sent, as hash key and fragment index (-1 = unfragmented) */
+function responses(): Array<[string, number]> {
+  return sent.flatMap(({ msg }) => msg.type === MSG_TYPE_RESPONSE ? [[hashToKey(msg.body.h), msg.body.i ?? -1] as [string, number]] : []);
+}
+
+async function tick() {
+  await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('WebRTCController have announcements', () => {
+  beforeEach(() => createController());
+  afterEach(() => controller.stop());
+
+  it('should announce roots to connected peers and to peers that connect later', async () => {
+    const first = await connectPeer(PUBKEYS[1]);
+    const root = await sha256(new TextEncoder().encode('root'));
+
+    controller.setAnnouncedRoots([root]);
+    controller.setAnnouncedRoots([root]);
+    const second = await connectPeer(PUBKEYS[2]);
+
+    const haves = sent.filter(({ msg }) => msg.type === MSG_TYPE_HAVE);
+    expect(haves.map(({ peerId }) => peerId)).toEqual([first, second]);
+    expect(haves.every(({ msg }) => msg.type === MSG_TYPE_HAVE && hashToKey(msg.body.r[0]) === hashToKey(root))).toBe(true);
+  });
+
+  it('should ask peers holding a tree first, for its root and children', async () => {
+    const other = await connectPeer(PUBKEYS[1]);
+    const holder = await connectPeer(PUBKEYS[2]);
+
+    const remote = new HashTree({ store: new MemoryStore() });
+    const { cid: file } = await remote.putFile(new TextEncoder().encode('file'), { public: true });
+    const { cid: root } = await remote.putDirectory([{ name: 'file.txt', cid: file }], { public: true });
+    receive(holder, encodeHave({ r: [root.hash] }));
+
+    for (const hash of [root.hash, file.hash]) {
+      const result = controller.get(hash);
+      expect(requestedFrom(hash)).toEqual([holder]);
+      const data = (await remote.getStore().get(hash))!;
+      receive(holder, encodeResponse(createResponse(hash, data)));
+      expect(await result).toEqual(data);
+    }
+    expect(sent.some(({ peerId }) => peerId === other)).toBe(false);
+  });
+
+  it('should route children to the holder when another peer sent their parent', async () => {
+    const other = await connectPeer(PUBKEYS[1]);
+    const holder = await connectPeer(PUBKEYS[2]);
+
+    const remote = new HashTree({ store: new MemoryStore() });
+    const { cid: file } = await remote.putFile(new TextEncoder().encode('file'), { public: true });
+    const { cid: root } = await remote.putDirectory([{ name: 'file.txt', cid: file }], { public: true });
+    receive(holder, encodeHave({ r: [root.hash] }));
+
+    const result = controller.get(root.hash);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    receive(other, encodeResponse(createResponse(root.hash, (await remote.getStore().get(root.hash))!)));
+    expect(await result).not.toBeNull();
+
+    controller.get(file.hash);
+    expect(requestedFrom(file.hash)).toEqual([holder]);
+  });
+
+  it('should ask the other peers when the holders miss', async () => {
+    const other = await connectPeer(PUBKEYS[1]);
+    const holder = await connectPeer(PUBKEYS[2]);
+    const data = new TextEncoder().encode('root');
+    const root = await sha256(data);
+    receive(holder, encodeHave({ r: [root] }));
+
+    const result = controller.get(root);
+    expect(requestedFrom(root)).toEqual([holder]);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(requestedFrom(root)).toEqual([holder, other]);
+
+    receive(other, encodeResponse(createResponse(root, data)));
+    await tick();
+    expect(await result).toEqual(data);
+  });
+});
+
+describe('WebRTCController responses', () => {
+  let localStore: MemoryStore;
+
+  beforeEach(() => {
+    localStore = new MemoryStore();
+    createController(localStore);
+  });
+  afterEach(() => controller.stop());
+
+  async function putBlock(data: Uint8Array): Promise<Uint8Array> {
+    const hash = await sha256(data);
+    await localStore.put(hash, data);
+    return hash;
+  }
+
+  it('should hold responses while the buffer is high and send small ones ahead of fragments', async () => {
+    const peer = await connectPeer(PUBKEYS[1]);
+    const large = await putBlock(new Uint8Array(FRAGMENT_SIZE * 3).fill(1));
+    const small = await putBlock(new TextEncoder().encode('small'));
+
+    controller.handleProxyEvent({ type: 'rtc:bufferHigh', peerId: peer });
+    receive(peer, encodeRequest(createRequest(large)));
+    receive(peer, encodeRequest(createRequest(small)));
+    await tick();
+    expect(responses()).toEqual([]);
+
+    controller.handleProxyEvent({ type: 'rtc:bufferLow', peerId: peer });
+    expect(responses()).toEqual([
+      [hashToKey(small), -1],
+      [hashToKey(large), 0],
+      [hashToKey(large), 1],
+      [hashToKey(large), 2],
+    ]);
+  });
+
+  it('should yield after a buffer full of fragments', async () => {
+    const peer = await connectPeer(PUBKEYS[1]);
+    const fragments = 12;
+    const large = await putBlock(new Uint8Array(FRAGMENT_SIZE * fragments).fill(1));
+
+    receive(peer, encodeRequest(createRequest(large)));
+    await tick();
+    const first = responses().length;
+    expect(first).toBeLessThan(fragments);
+
+    // The proxy reports its buffer full before the next batch
+    controller.handleProxyEvent({ type: 'rtc:bufferHigh', peerId: peer });
+    await tick();
+    expect(responses()).toHaveLength(first);
+
+    controller.handleProxyEvent({ type: 'rtc:bufferLow', peerId: peer });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(responses()).toHaveLength(fragments);
+  });
+
+  it('should drop queued responses the requester cancelled', async () => {
+    const peer = await connectPeer(PUBKEYS[1]);
+    const large = await putBlock(new Uint8Array(FRAGMENT_SIZE * 3).fill(1));
+
+    controller.handleProxyEvent({ type: 'rtc:bufferHigh', peerId: peer });
+    receive(peer, encodeRequest(createRequest(large)));
+    await tick();
+    receive(peer, encodeCancel({ h: large }));
+    controller.handleProxyEvent({ type: 'rtc:bufferLow', peerId: peer });
+    expect(responses()).toEqual([]);
+  });
+
+  it('should cancel the requests to other peers once one answered', async () => {
+    const first = await connectPeer(PUBKEYS[1]);
+    const second = await connectPeer(PUBKEYS[2]);
+    const data = new TextEncoder().encode('block');
+    const hash = await sha256(data);
+
+    const result = controller.get(hash);
+    expect(requestedFrom(hash)).toEqual([first, second]);
+    receive(second, encodeResponse(createResponse(hash, data)));
+    expect(await result).toEqual(data);
+    expect(cancelledAt(hash)).toEqual([first]);
+  });
+
+  it('should cancel forwarded requests when the requester cancels', async () => {
+    const requester = await connectPeer(PUBKEYS[1]);
+    const upstream = await connectPeer(PUBKEYS[2]);
+    const hash = await sha256(new TextEncoder().encode('missing'));
+
+    receive(requester, encodeRequest(createRequest(hash)));
+    await tick();
+    expect(requestedFrom(hash)).toEqual([upstream]);
+
+    receive(requester, encodeCancel({ h: hash }));
+    expect(cancelledAt(hash)).toEqual([upstream]);
+  });
+
+  it('should keep forwarded requests that another peer still waits for', async () => {
+    const requesters = [await connectPeer(PUBKEYS[1]), await connectPeer(PUBKEYS[2])];
+    const hash = await sha256(new TextEncoder().encode('missing'));
+
+    for (const requester of requesters) receive(requester, encodeRequest(createRequest(hash)));
+    await tick();
+    receive(requesters[0], encodeCancel({ h: hash }));
+    expect(cancelledAt(hash)).toEqual([]);
+  });
+});